@@ -5,6 +5,9 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/hooks/use-theme";
+import { CartProvider } from "@/hooks/use-cart";
+import { CurrencyProvider } from "@/hooks/use-currency";
+import { UnitsProvider } from "@/hooks/use-units";
 import { useAccentColor } from "@/hooks/useAccentColor";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { Navigation } from "@/components/Navigation";
@@ -12,20 +15,39 @@ import { Footer } from "@/components/Footer";
 import { AdminSidebar } from "@/components/AdminSidebar";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { FallbackBanner } from "@/components/FallbackBanner";
 import Home from "@/pages/Home";
 import Portfolio from "@/pages/Portfolio";
 import ArtworkDetail from "@/pages/ArtworkDetail";
+import Collections from "@/pages/Collections";
+import CollectionDetail from "@/pages/CollectionDetail";
 import About from "@/pages/About";
 import FAQPage from "@/pages/FAQ";
 import Contact from "@/pages/Contact";
+import Commission from "@/pages/Commission";
+import Cart from "@/pages/Cart";
+import Checkout from "@/pages/Checkout";
+import TestPayment from "@/pages/TestPayment";
+import OrderPage from "@/pages/Order";
 import AdminDashboard from "@/pages/admin/Dashboard";
 import AdminArtworks from "@/pages/admin/Artworks";
+import AdminCollections from "@/pages/admin/Collections";
+import AdminInbox from "@/pages/admin/Inbox";
+import AdminCommissions from "@/pages/admin/Commissions";
+import AdminInvoices from "@/pages/admin/Invoices";
+import AdminOrders from "@/pages/admin/Orders";
+import AdminEmails from "@/pages/admin/Emails";
 import AdminArtistInfo from "@/pages/admin/ArtistInfo";
 import AdminFAQs from "@/pages/admin/FAQs";
 import AdminUsers from "@/pages/admin/Users";
+import AdminSecurity from "@/pages/admin/Security";
 import AdminSettings from "@/pages/admin/Settings";
 import Login from "@/pages/Login";
+import Setup from "@/pages/Setup";
+import ForgotPassword from "@/pages/ForgotPassword";
+import SetPassword from "@/pages/SetPassword";
 import NotFound from "@/pages/not-found";
+import type { Permission } from "@shared/schema";
 
 function PublicRouter() {
   return (
@@ -33,24 +55,56 @@ function PublicRouter() {
       <Route path="/" component={Home} />
       <Route path="/portfolio" component={Portfolio} />
       <Route path="/artwork/:slug" component={ArtworkDetail} />
+      <Route path="/collections" component={Collections} />
+      <Route path="/collections/:slug" component={CollectionDetail} />
       <Route path="/about" component={About} />
       <Route path="/faq" component={FAQPage} />
       <Route path="/contact" component={Contact} />
+      <Route path="/commission" component={Commission} />
+      <Route path="/cart" component={Cart} />
+      <Route path="/checkout" component={Checkout} />
+      <Route path="/checkout/test-payment/:id" component={TestPayment} />
+      <Route path="/order/:id" component={OrderPage} />
       <Route path="/login" component={Login} />
+      <Route path="/setup" component={Setup} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/set-password" component={SetPassword} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// Pages a role can't use render a "no access" notice instead
+function AdminRoute({ path, component: Component, permission }: {
+  path: string;
+  component: React.ComponentType;
+  permission?: Permission;
+}) {
+  return (
+    <Route path={path}>
+      <ProtectedRoute permission={permission}>
+        <Component />
+      </ProtectedRoute>
+    </Route>
+  );
+}
+
 function AdminRouter() {
   return (
     <Switch>
-      <Route path="/admin" component={AdminDashboard} />
-      <Route path="/admin/artworks" component={AdminArtworks} />
-      <Route path="/admin/artist" component={AdminArtistInfo} />
-      <Route path="/admin/faqs" component={AdminFAQs} />
-      <Route path="/admin/users" component={AdminUsers} />
-      <Route path="/admin/settings" component={AdminSettings} />
+      <AdminRoute path="/admin" component={AdminDashboard} />
+      <AdminRoute path="/admin/inbox" component={AdminInbox} permission="inquiries.manage" />
+      <AdminRoute path="/admin/commissions" component={AdminCommissions} permission="inquiries.manage" />
+      <AdminRoute path="/admin/invoices" component={AdminInvoices} permission="invoices.manage" />
+      <AdminRoute path="/admin/emails" component={AdminEmails} permission="emails.manage" />
+      <AdminRoute path="/admin/artworks" component={AdminArtworks} permission="content.view" />
+      <AdminRoute path="/admin/orders" component={AdminOrders} permission="orders.manage" />
+      <AdminRoute path="/admin/collections" component={AdminCollections} permission="content.view" />
+      <AdminRoute path="/admin/artist" component={AdminArtistInfo} permission="site.manage" />
+      <AdminRoute path="/admin/faqs" component={AdminFAQs} permission="content.view" />
+      <AdminRoute path="/admin/users" component={AdminUsers} permission="users.manage" />
+      <AdminRoute path="/admin/security" component={AdminSecurity} permission="users.manage" />
+      <AdminRoute path="/admin/settings" component={AdminSettings} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -75,7 +129,7 @@ function AppContent() {
     <ThemeProvider>
       <TooltipProvider>
         {isAdminRoute ? (
-          <ProtectedRoute requireAdmin>
+          <ProtectedRoute requireStaff>
             <SidebarProvider style={sidebarStyle as React.CSSProperties}>
               <div className="flex h-screen w-full">
                 <AdminSidebar />
@@ -84,6 +138,7 @@ function AppContent() {
                     <SidebarTrigger data-testid="button-sidebar-toggle" />
                     <ThemeToggle />
                   </header>
+                  <FallbackBanner />
                   <main className="flex-1 overflow-y-auto p-6">
                     <AdminRouter />
                   </main>
@@ -109,7 +164,13 @@ function AppContent() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <AppContent />
+      <CurrencyProvider>
+        <UnitsProvider>
+          <CartProvider>
+            <AppContent />
+          </CartProvider>
+        </UnitsProvider>
+      </CurrencyProvider>
     </QueryClientProvider>
   );
 }
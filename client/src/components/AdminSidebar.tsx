@@ -1,5 +1,7 @@
 import { Link, useLocation } from "wouter";
-import { Home, FileImage, User, HelpCircle, LogOut, LayoutDashboard, Settings, Users } from "lucide-react";
+import { Home, FileImage, User, HelpCircle, LogOut, LayoutDashboard, Settings, Users, Library, Inbox, Send, Brush, Receipt, ShoppingBag, ShieldAlert } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
 import { useState } from "react";
 import {
   Sidebar,
@@ -9,37 +11,86 @@ import {
   SidebarGroupLabel,
   SidebarMenu,
   SidebarMenuButton,
+  SidebarMenuBadge,
   SidebarMenuItem,
   SidebarFooter,
 } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
+import { roleLabels, type Permission } from "@shared/schema";
 
-const menuItems = [
+// Items without a permission are open to every staff role
+const menuItems: { title: string; url: string; icon: LucideIcon; permission?: Permission }[] = [
   {
     title: "Dashboard",
     url: "/admin",
     icon: LayoutDashboard,
   },
+  {
+    title: "Inbox",
+    url: "/admin/inbox",
+    icon: Inbox,
+    permission: "inquiries.manage",
+  },
+  {
+    title: "Commissions",
+    url: "/admin/commissions",
+    icon: Brush,
+    permission: "inquiries.manage",
+  },
+  {
+    title: "Invoices",
+    url: "/admin/invoices",
+    icon: Receipt,
+    permission: "invoices.manage",
+  },
   {
     title: "Artworks",
     url: "/admin/artworks",
     icon: FileImage,
+    permission: "content.view",
+  },
+  {
+    title: "Orders",
+    url: "/admin/orders",
+    icon: ShoppingBag,
+    permission: "orders.manage",
+  },
+  {
+    title: "Collections",
+    url: "/admin/collections",
+    icon: Library,
+    permission: "content.view",
   },
   {
     title: "Artist Info",
     url: "/admin/artist",
     icon: User,
+    permission: "site.manage",
   },
   {
     title: "FAQs",
     url: "/admin/faqs",
     icon: HelpCircle,
+    permission: "content.view",
   },
   {
     title: "Users",
     url: "/admin/users",
     icon: Users,
+    permission: "users.manage",
+  },
+  {
+    title: "Sign-in Security",
+    url: "/admin/security",
+    icon: ShieldAlert,
+    permission: "users.manage",
+  },
+  {
+    title: "Email Log",
+    url: "/admin/emails",
+    icon: Send,
+    permission: "emails.manage",
   },
   {
     title: "Settings",
@@ -50,9 +101,14 @@ const menuItems = [
 
 export function AdminSidebar() {
   const [location] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [isLoggingOut, setIsLoggingOut] = useState(false);
 
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/admin/inquiries/unread-count"],
+    enabled: can("inquiries.manage"),
+  });
+
   const handleLogout = async () => {
     setIsLoggingOut(true);
     try {
@@ -75,7 +131,7 @@ export function AdminSidebar() {
           <SidebarGroupLabel>Admin Panel</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {menuItems.map((item) => (
+              {menuItems.filter((item) => !item.permission || can(item.permission)).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild isActive={location === item.url} data-testid={`link-admin-${item.title.toLowerCase().replace(' ', '-')}`}>
                     <Link href={item.url}>
@@ -83,6 +139,9 @@ export function AdminSidebar() {
                       <span>{item.title}</span>
                     </Link>
                   </SidebarMenuButton>
+                  {item.url === "/admin/inbox" && !!unread?.count && (
+                    <SidebarMenuBadge data-testid="badge-sidebar-unread">{unread.count}</SidebarMenuBadge>
+                  )}
                 </SidebarMenuItem>
               ))}
             </SidebarMenu>
@@ -110,8 +169,8 @@ export function AdminSidebar() {
         <div className="p-4 space-y-2">
           {user && (
             <div className="text-sm text-muted-foreground">
-              <p className="font-medium" data-testid="text-admin-user-name">{user.firstName} {user.lastName}</p>
-              <p className="text-xs" data-testid="text-admin-user-email">{user.email}</p>
+              <p className="font-medium" data-testid="text-admin-user-email">{user.email}</p>
+              <p className="text-xs" data-testid="text-admin-user-role">{roleLabels[user.role]}</p>
             </div>
           )}
           <Button 
@@ -2,7 +2,10 @@ import { Link } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { OptimizedImage } from "@/components/OptimizedImage";
-import type { Artwork } from "@shared/schema";
+import { UnitToggle } from "@/components/UnitToggle";
+import { useCurrency } from "@/hooks/use-currency";
+import { useUnits } from "@/hooks/use-units";
+import { printsRemaining, type Artwork } from "@shared/schema";
 
 interface ArtworkCardProps {
   artwork: Artwork;
@@ -10,6 +13,11 @@ interface ArtworkCardProps {
 
 export function ArtworkCard({ artwork }: ArtworkCardProps) {
   const primaryImage = artwork.images.find((img) => img.isPrimary) || artwork.images[0];
+  const { formatPrice } = useCurrency();
+  const { formatSize } = useUnits();
+  const printPrices = (artwork.prints ?? [])
+    .filter((print) => printsRemaining(print) > 0)
+    .map((print) => print.price);
 
   return (
     <Link href={`/artwork/${artwork.slug}`} data-testid={`link-artwork-${artwork.slug}`}>
@@ -36,6 +44,11 @@ export function ArtworkCard({ artwork }: ArtworkCardProps) {
               Sold
             </Badge>
           )}
+          {artwork.status === "reserved" && (
+            <Badge className="absolute top-4 left-4 bg-secondary text-secondary-foreground">
+              Reserved
+            </Badge>
+          )}
         </div>
         <div className="p-6 space-y-2">
           <h3 className="font-serif text-xl font-semibold line-clamp-1" data-testid={`text-artwork-title-${artwork.slug}`}>
@@ -43,12 +56,17 @@ export function ArtworkCard({ artwork }: ArtworkCardProps) {
           </h3>
           <p className="text-sm text-muted-foreground">{artwork.medium}</p>
           <div className="flex items-center justify-between pt-2">
-            <p className="text-xs text-muted-foreground">
-              {artwork.width}" × {artwork.height}"
+            <p className="text-xs text-muted-foreground flex items-center gap-2">
+              <span data-testid={`text-artwork-size-${artwork.slug}`}>{formatSize(artwork, false)}</span>
+              <UnitToggle />
             </p>
-            {artwork.price && artwork.status === "available" && (
+            {artwork.price && artwork.status === "available" ? (
               <p className="text-sm font-semibold" data-testid={`text-artwork-price-${artwork.slug}`}>
-                ${artwork.price.toLocaleString()}
+                {formatPrice(artwork.price, artwork.prices)}
+              </p>
+            ) : printPrices.length > 0 && (
+              <p className="text-sm font-semibold" data-testid={`text-artwork-print-price-${artwork.slug}`}>
+                Prints from {formatPrice(Math.min(...printPrices))}
               </p>
             )}
           </div>
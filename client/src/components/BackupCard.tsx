@@ -0,0 +1,145 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { Archive, Download, Loader2, Upload } from "lucide-react";
+
+interface RestoreResponse {
+  success: boolean;
+  source: { backend: string; createdAt: string };
+  collections: Record<string, number>;
+  media: number;
+  references: number;
+}
+
+export function BackupCard() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<File | null>(null);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("archive", file);
+
+      const response = await fetch("/api/admin/restore", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        const details: string[] = data.details || [];
+        throw new Error([data.error || "Restore failed", ...details.slice(0, 3)].join("\n"));
+      }
+      return data as RestoreResponse;
+    },
+    onSuccess: (data) => {
+      // Every collection was replaced, so drop all cached data
+      queryClient.invalidateQueries();
+      toast({
+        title: "Success",
+        description: `Restored ${data.collections.artworks} artworks and ${data.media} images from a ${data.source.backend} backup`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Restore Failed",
+        description: error.message || "The archive could not be restored",
+      });
+    },
+    onSettled: () => {
+      setArchive(null);
+      if (fileInput.current) {
+        fileInput.current.value = "";
+      }
+    },
+  });
+
+  return (
+    <Card data-testid="card-backup">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Backup & Restore
+        </CardTitle>
+        <CardDescription>
+          Download every artwork, page, user and optimized image as a single archive, or restore one
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button asChild data-testid="button-download-backup">
+            <a href="/api/admin/backup" download>
+              <Download className="h-4 w-4 mr-2" />
+              Download Backup
+            </a>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+            disabled={restoreMutation.isPending}
+            data-testid="button-restore-backup"
+          >
+            {restoreMutation.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Restoring...
+              </>
+            ) : (
+              <>
+                <Upload className="h-4 w-4 mr-2" />
+                Restore from Archive
+              </>
+            )}
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".gz,.tgz,application/gzip"
+            className="hidden"
+            onChange={(e) => setArchive(e.target.files?.[0] ?? null)}
+            data-testid="input-restore-archive"
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Archives can be restored into either database service. Every document is validated before anything is replaced.
+        </p>
+      </CardContent>
+
+      <AlertDialog open={!!archive && !restoreMutation.isPending} onOpenChange={(open) => !open && setArchive(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore {archive?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All artworks, artist info, FAQs, users and settings will be replaced with the contents of this archive. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-restore">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => archive && restoreMutation.mutate(archive)}
+              data-testid="button-confirm-restore"
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Coins, Plus, X } from "lucide-react";
+import { DEFAULT_CURRENCY, currencies, type Currency, type SiteSettings, type UpdateSiteSettings } from "@shared/schema";
+
+// Rates as typed, so a half-entered number doesn't jump around
+interface RateRow {
+  currency: Currency;
+  rate: string;
+}
+
+export function CurrencyCard() {
+  const { toast } = useToast();
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const [currency, setCurrency] = useState<Currency>(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<RateRow[]>([]);
+
+  useEffect(() => {
+    if (settings) {
+      setCurrency(settings.currency ?? DEFAULT_CURRENCY);
+      setRates((settings.exchangeRates ?? []).map(({ currency, rate }) => ({ currency, rate: String(rate) })));
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: UpdateSiteSettings) => apiRequest("PATCH", "/api/admin/settings", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Success",
+        description: "Currency settings saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const otherCurrencies = currencies.filter((code) => code !== currency);
+  const unused = otherCurrencies.filter((code) => !rates.some((row) => row.currency === code));
+
+  const updateRow = (index: number, changes: Partial<RateRow>) => {
+    setRates((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      currency,
+      // A rate for the site currency itself would be meaningless
+      exchangeRates: rates
+        .filter((row) => row.currency !== currency)
+        .map((row) => ({ currency: row.currency, rate: Number(row.rate) })),
+    });
+  };
+
+  const currencyChanged = !!settings && currency !== (settings.currency ?? DEFAULT_CURRENCY);
+
+  return (
+    <Card data-testid="card-currency">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="w-5 h-5" />
+          Currency
+        </CardTitle>
+        <CardDescription>
+          Prices are entered and charged in the site currency. Exchange rates let visitors see approximate prices in their own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="site-currency">Site Currency</Label>
+          <Select value={currency} onValueChange={(value) => setCurrency(value as Currency)}>
+            <SelectTrigger id="site-currency" data-testid="select-site-currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map((code) => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {currencyChanged && (
+            <p className="text-xs text-muted-foreground">
+              Existing prices aren't converted. Orders and invoices keep the currency they were made in.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <Label>Exchange Rates</Label>
+            <p className="text-xs text-muted-foreground">
+              How much of each currency one {currency} buys. Update them by hand as rates move.
+              {settings?.exchangeRatesUpdatedAt && ` Last saved ${new Date(settings.exchangeRatesUpdatedAt).toLocaleDateString()}.`}
+            </p>
+          </div>
+          {rates.map((row, index) => (
+            <div key={index} className="flex items-center gap-2 max-w-md" data-testid={`row-rate-${index}`}>
+              <span className="text-sm whitespace-nowrap">1 {currency} =</span>
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={row.rate}
+                onChange={(e) => updateRow(index, { rate: e.target.value })}
+                data-testid={`input-rate-${index}`}
+              />
+              <Select value={row.currency} onValueChange={(value) => updateRow(index, { currency: value as Currency })}>
+                <SelectTrigger className="w-28" data-testid={`select-rate-currency-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherCurrencies
+                    .filter((code) => code === row.currency || unused.includes(code))
+                    .map((code) => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setRates((rows) => rows.filter((_, i) => i !== index))}
+                aria-label={`Remove ${row.currency} rate`}
+                data-testid={`button-remove-rate-${index}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={unused.length === 0}
+            onClick={() => setRates((rows) => [...rows, { currency: unused[0], rate: "" }])}
+            data-testid="button-add-rate"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rate
+          </Button>
+        </div>
+
+        <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-currency">
+          {saveMutation.isPending ? "Saving..." : "Save Currency Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,22 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrency } from "@/hooks/use-currency";
+import type { Currency } from "@shared/schema";
+
+// Only shown once the admin has entered exchange rates for other currencies
+export function CurrencySelect() {
+  const { currency, setCurrency, currencies } = useCurrency();
+  if (currencies.length < 2) return null;
+
+  return (
+    <Select value={currency} onValueChange={(value) => setCurrency(value as Currency)}>
+      <SelectTrigger className="w-[5.5rem] h-9" aria-label="Currency" data-testid="select-currency">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {currencies.map((code) => (
+          <SelectItem key={code} value={code}>{code}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, DatabaseBackup } from "lucide-react";
+import { writePermissions, type DatabaseStatus } from "@shared/schema";
+
+export function FallbackBanner() {
+  const { can } = useAuth();
+  const { data: status } = useQuery<DatabaseStatus>({
+    queryKey: ["/api/admin/database"],
+    // Everyone whose changes could be stranded in NeDB is warned
+    enabled: writePermissions.some(can),
+    refetchInterval: (query) => query.state.data?.fallback ? 60000 : false, // Watch for MongoDB returning
+  });
+
+  if (!status?.fallback) {
+    return null;
+  }
+
+  const { reconciliation } = status;
+
+  return (
+    <Alert variant="destructive" className="rounded-none border-x-0 border-t-0" data-testid="banner-fallback-storage">
+      {reconciliation ? <DatabaseBackup className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+      <AlertTitle>Running on fallback storage</AlertTitle>
+      <AlertDescription className="space-y-1">
+        <p>
+          MongoDB was unavailable at startup
+          {status.fallbackSince && ` (${new Date(status.fallbackSince).toLocaleString()})`}, so changes are being saved
+          to local NeDB files and will not appear on a MongoDB-backed site.
+        </p>
+        {reconciliation && (
+          <p data-testid="text-reconciliation">
+            MongoDB is reachable again since {new Date(reconciliation.mongoAvailableAt).toLocaleString()}.{" "}
+            {reconciliation.differences === 0
+              ? "Both databases hold the same content; restart the server to switch back."
+              : `${reconciliation.differences} document(s) differ (${reconciliation.collections
+                  .filter((diff) => diff.changed.length + diff.onlyIn.nedb.length + diff.onlyIn.mongodb.length > 0)
+                  .map((diff) => diff.collection)
+                  .join(", ")}). Run "npm run db:sync -- diff" to review and "npm run db:sync -- nedb-to-mongo" to copy them before restarting.`}
+          </p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
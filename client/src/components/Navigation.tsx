@@ -1,14 +1,17 @@
 import { Link, useLocation } from "wouter";
 import { useState, useEffect } from "react";
-import { Menu, X } from "lucide-react";
+import { Menu, ShoppingBag, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { useCart } from "@/hooks/use-cart";
 import logoUrl from "/logo.png";
 
 export function Navigation() {
   const [location] = useLocation();
   const [isScrolled, setIsScrolled] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const { items } = useCart();
 
   useEffect(() => {
     const handleScroll = () => {
@@ -21,6 +24,7 @@ export function Navigation() {
   const navItems = [
     { path: "/", label: "Home" },
     { path: "/portfolio", label: "Portfolio" },
+    { path: "/collections", label: "Collections" },
     { path: "/about", label: "About" },
     { path: "/faq", label: "FAQ" },
     { path: "/contact", label: "Contact" },
@@ -63,10 +67,14 @@ export function Navigation() {
                 </span>
               </Link>
             ))}
+            <CartLink count={items.length} />
+            <CurrencySelect />
             <ThemeToggle />
           </div>
 
           <div className="md:hidden flex items-center gap-4">
+            <CartLink count={items.length} />
+            <CurrencySelect />
             <ThemeToggle />
             <Button
               variant="ghost"
@@ -107,3 +115,19 @@ export function Navigation() {
     </nav>
   );
 }
+
+// Only shown once something is in the cart, so browsing stays uncluttered
+function CartLink({ count }: { count: number }) {
+  if (count === 0) return null;
+
+  return (
+    <Button variant="ghost" size="icon" className="relative" asChild data-testid="link-cart">
+      <Link href="/cart" aria-label={`Cart, ${count} ${count === 1 ? "item" : "items"}`}>
+        <ShoppingBag className="h-5 w-5" />
+        <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-primary text-primary-foreground text-xs flex items-center justify-center" data-testid="text-cart-count">
+          {count}
+        </span>
+      </Link>
+    </Button>
+  );
+}
@@ -1,14 +1,20 @@
 import { useAuth } from "@/hooks/useAuth";
 import { useEffect } from "react";
 import { useLocation } from "wouter";
+import { ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { TwoFactorCard } from "@/components/TwoFactorCard";
+import type { Permission } from "@shared/schema";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requireAdmin?: boolean;
+  requireStaff?: boolean;
+  // Shown in place of the page when the user's role lacks it
+  permission?: Permission;
 }
 
-export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRouteProps) {
-  const { user, isLoading, isAdmin } = useAuth();
+export function ProtectedRoute({ children, requireStaff = false, permission }: ProtectedRouteProps) {
+  const { user, isLoading, isStaff, can } = useAuth();
   const [, setLocation] = useLocation();
 
   useEffect(() => {
@@ -16,12 +22,12 @@ export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRout
       if (!user) {
         // Not authenticated, redirect to login page
         setLocation("/login");
-      } else if (requireAdmin && !isAdmin) {
-        // Authenticated but not admin, redirect to home
+      } else if (requireStaff && !isStaff) {
+        // Authenticated but without a staff role, redirect to home
         setLocation("/");
       }
     }
-  }, [user, isLoading, isAdmin, requireAdmin, setLocation]);
+  }, [user, isLoading, isStaff, requireStaff, setLocation]);
 
   if (isLoading) {
     return (
@@ -34,9 +40,47 @@ export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRout
     );
   }
 
-  if (!user || (requireAdmin && !isAdmin)) {
+  if (!user || (requireStaff && !isStaff)) {
     return null;
   }
 
+  // The server refuses admin requests until a required second factor is set
+  // up, so enrolment takes the place of the whole panel
+  if (requireStaff && user.twoFactorSetupRequired) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4" data-testid="screen-two-factor-required">
+        <div className="w-full max-w-xl space-y-4">
+          <div className="text-center">
+            <h2 className="text-2xl font-serif font-semibold">Set Up Two-Factor Authentication</h2>
+            <p className="mt-2 text-muted-foreground">This site requires it for every account before you can continue.</p>
+          </div>
+          <TwoFactorCard />
+          <div className="text-center">
+            <Button
+              variant="ghost"
+              onClick={async () => {
+                await fetch("/api/logout", { method: "POST", credentials: "include" });
+                window.location.href = "/";
+              }}
+              data-testid="button-two-factor-logout"
+            >
+              Log out
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (permission && !can(permission)) {
+    return (
+      <div className="flex flex-col items-center justify-center py-24 text-center" data-testid="text-access-denied">
+        <ShieldOff className="h-10 w-10 text-muted-foreground mb-4" />
+        <h2 className="text-xl font-semibold">No Access</h2>
+        <p className="mt-2 text-muted-foreground">Your role doesn't include this part of the admin panel.</p>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShieldCheck } from "lucide-react";
+import type { SiteSettings, TwoFactorEnrolment, UpdateSiteSettings } from "@shared/schema";
+
+// Enrol in, manage or turn off TOTP two-factor authentication for the
+// signed-in account; owners can also require it for all staff
+export function TwoFactorCard() {
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const [enrolment, setEnrolment] = useState<TwoFactorEnrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [isDisabling, setIsDisabling] = useState(false);
+
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // The account is only refreshed once the codes are put away, as the
+  // required-setup screen closes as soon as it sees 2FA switched on
+  const dismissRecoveryCodes = () => {
+    setRecoveryCodes(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/auth/2fa/setup")).json() as Promise<TwoFactorEnrolment>,
+    onSuccess: (data) => {
+      setEnrolment(data);
+      setCode("");
+    },
+    onError: showError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) =>
+      (await apiRequest("POST", "/api/auth/2fa/enable", { code })).json() as Promise<{ recoveryCodes: string[] }>,
+    onSuccess: (data) => {
+      setEnrolment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      toast({
+        title: "Success",
+        description: "Two-factor authentication is on",
+      });
+    },
+    onError: showError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) =>
+      (await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code })).json() as Promise<{ recoveryCodes: string[] }>,
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+    },
+    onError: showError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: (data: { code: string; password: string }) => apiRequest("POST", "/api/auth/2fa/disable", data),
+    onSuccess: () => {
+      setIsDisabling(false);
+      setCode("");
+      setPassword("");
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({
+        title: "Success",
+        description: "Two-factor authentication is off",
+      });
+    },
+    onError: showError,
+  });
+
+  const requireMutation = useMutation({
+    mutationFn: (data: UpdateSiteSettings) => apiRequest("PATCH", "/api/admin/settings", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Success",
+        description: "Two-factor requirement saved",
+      });
+    },
+    onError: showError,
+  });
+
+  return (
+    <Card data-testid="card-two-factor">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Two-Factor Authentication
+          {user?.twoFactorEnabled && <Badge data-testid="badge-two-factor-on">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Sign in with a code from an authenticator app as well as your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {recoveryCodes && (
+          <div className="space-y-2" data-testid="list-recovery-codes">
+            <p className="text-sm font-medium">Recovery codes</p>
+            <p className="text-sm text-muted-foreground">
+              Store these somewhere safe. Each one signs you in once if you lose your device, and they won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 max-w-sm font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode} className="rounded border px-2 py-1 text-center">{recoveryCode}</span>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" onClick={dismissRecoveryCodes} data-testid="button-recovery-codes-done">
+              I've saved them
+            </Button>
+          </div>
+        )}
+
+        {!user?.twoFactorEnabled && !enrolment && !recoveryCodes && (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-start-two-factor">
+            {setupMutation.isPending ? "Preparing..." : "Set Up Two-Factor Authentication"}
+          </Button>
+        )}
+
+        {enrolment && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              enableMutation.mutate(code);
+            }}
+            className="space-y-4"
+          >
+            <p className="text-sm">Scan this QR code with your authenticator app, then enter the 6-digit code it shows.</p>
+            <img src={enrolment.qrCode} alt="Two-factor QR code" className="h-48 w-48 rounded border" data-testid="img-two-factor-qr" />
+            <p className="text-sm text-muted-foreground">
+              Can't scan it? Enter this key instead: <span className="font-mono break-all" data-testid="text-two-factor-secret">{enrolment.secret}</span>
+            </p>
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="two-factor-enrol-code">Authentication Code</Label>
+              <Input
+                id="two-factor-enrol-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                data-testid="input-two-factor-enrol-code"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={enableMutation.isPending} data-testid="button-enable-two-factor">
+                {enableMutation.isPending ? "Verifying..." : "Turn On"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEnrolment(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {user?.twoFactorEnabled && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (isDisabling) {
+                disableMutation.mutate({ code, password });
+              } else {
+                regenerateMutation.mutate(code);
+              }
+            }}
+            className="space-y-4 max-w-md"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">Authentication Code</Label>
+              <Input
+                id="two-factor-code"
+                autoComplete="one-time-code"
+                placeholder="Code from your app, or a recovery code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                data-testid="input-two-factor-code"
+              />
+            </div>
+            {isDisabling && (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  data-testid="input-two-factor-password"
+                />
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {isDisabling ? (
+                <>
+                  <Button type="submit" variant="destructive" disabled={disableMutation.isPending} data-testid="button-confirm-disable-two-factor">
+                    {disableMutation.isPending ? "Turning off..." : "Turn Off"}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setIsDisabling(false)}>
+                    Cancel
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button type="submit" variant="outline" disabled={regenerateMutation.isPending} data-testid="button-regenerate-recovery-codes">
+                    New Recovery Codes
+                  </Button>
+                  {!settings?.requireTwoFactor && (
+                    <Button type="button" variant="outline" onClick={() => setIsDisabling(true)} data-testid="button-disable-two-factor">
+                      Turn Off
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          </form>
+        )}
+
+        {can("site.manage") && (
+          <div className="flex items-center justify-between gap-4 border-t pt-4">
+            <div>
+              <Label htmlFor="require-two-factor">Require for All Staff</Label>
+              <p className="text-sm text-muted-foreground">
+                Everyone without two-factor authentication is asked to set it up before they can use the admin panel
+              </p>
+            </div>
+            <Switch
+              id="require-two-factor"
+              checked={!!settings?.requireTwoFactor}
+              onCheckedChange={(checked) => requireMutation.mutate({ requireTwoFactor: checked })}
+              disabled={!settings || requireMutation.isPending || (!user?.twoFactorEnabled && !settings?.requireTwoFactor)}
+              data-testid="switch-require-two-factor"
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+import { useUnits } from "@/hooks/use-units";
+import { cn } from "@/lib/utils";
+import { dimensionUnits } from "@shared/schema";
+
+interface UnitToggleProps {
+  className?: string;
+}
+
+// Switches every artwork size on the site between inches and centimetres.
+// Clicks stay inside the toggle so it can sit within a linked card.
+export function UnitToggle({ className }: UnitToggleProps) {
+  const { unit, setUnit } = useUnits();
+
+  return (
+    <span className={cn("inline-flex rounded-md border text-xs overflow-hidden", className)} role="group" aria-label="Size units">
+      {dimensionUnits.map((option) => (
+        <button
+          key={option}
+          type="button"
+          aria-pressed={unit === option}
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            setUnit(option);
+          }}
+          className={cn(
+            "px-1.5 py-0.5 transition-colors",
+            unit === option ? "bg-primary text-primary-foreground" : "text-muted-foreground hover-elevate",
+          )}
+          data-testid={`button-unit-${option}`}
+        >
+          {option}
+        </button>
+      ))}
+    </span>
+  );
+}
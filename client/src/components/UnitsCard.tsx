@@ -0,0 +1,65 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Ruler } from "lucide-react";
+import { DEFAULT_DIMENSION_UNIT, type DimensionUnit, type SiteSettings, type UpdateSiteSettings } from "@shared/schema";
+
+export function UnitsCard() {
+  const { toast } = useToast();
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: UpdateSiteSettings) => apiRequest("PATCH", "/api/admin/settings", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Success",
+        description: "Display units saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-units">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ruler className="w-5 h-5" />
+          Units
+        </CardTitle>
+        <CardDescription>
+          Artwork sizes are shown in these units until a visitor switches. Each artwork keeps the units it was measured in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="display-unit">Default Display Units</Label>
+          <Select
+            value={settings?.dimensionUnit ?? DEFAULT_DIMENSION_UNIT}
+            onValueChange={(value) => saveMutation.mutate({ dimensionUnit: value as DimensionUnit })}
+            disabled={!settings || saveMutation.isPending}
+          >
+            <SelectTrigger id="display-unit" data-testid="select-display-unit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="in">Inches</SelectItem>
+              <SelectItem value="cm">Centimetres</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { cartItemSchema, describePrint, orderItemName, printsRemaining, type Artwork, type ArtworkPage, type ArtworkPrint, type CartItem } from "@shared/schema";
+
+// The cart is a list of originals and prints by id; prices and availability
+// are checked again at checkout. Each line is a single piece, so a print can
+// be bought once per order.
+type CartContextType = {
+  items: CartItem[];
+  add: (item: CartItem) => void;
+  remove: (item: CartItem) => void;
+  clear: () => void;
+  contains: (item: CartItem) => boolean;
+};
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+function sameItem(a: CartItem, b: CartItem): boolean {
+  return a.artworkId === b.artworkId && a.printId === b.printId;
+}
+
+function readStoredCart(): CartItem[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem("cart") ?? "[]");
+    if (!Array.isArray(stored)) return [];
+    // Carts saved before prints were offered hold bare artwork ids
+    return stored
+      .map((entry) => (typeof entry === "string" ? { artworkId: entry } : entry))
+      .filter((entry): entry is CartItem => cartItemSchema.safeParse(entry).success);
+  } catch {
+    return [];
+  }
+}
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [items, setItems] = useState<CartItem[]>(readStoredCart);
+
+  useEffect(() => {
+    localStorage.setItem("cart", JSON.stringify(items));
+  }, [items]);
+
+  const add = (item: CartItem) => {
+    setItems((current) => (current.some((entry) => sameItem(entry, item)) ? current : [...current, item]));
+  };
+
+  const remove = (item: CartItem) => {
+    setItems((current) => current.filter((entry) => !sameItem(entry, item)));
+  };
+
+  const clear = () => setItems([]);
+
+  const contains = (item: CartItem) => items.some((entry) => sameItem(entry, item));
+
+  return (
+    <CartContext.Provider value={{ items, add, remove, clear, contains }}>
+      {children}
+    </CartContext.Provider>
+  );
+}
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+}
+
+export interface CartLine {
+  item: CartItem;
+  artwork: Artwork;
+  print?: ArtworkPrint;
+  name: string;
+  price?: number;
+}
+
+// The lines in the cart, split by whether they can still be bought
+export function useCartLines() {
+  const { items, remove } = useCart();
+  const { data, isLoading } = useQuery<ArtworkPage>({
+    queryKey: ["/api/artworks"],
+    enabled: items.length > 0,
+  });
+
+  // Drop artworks that have been deleted, and prints no longer offered, since they were added
+  const lines: CartLine[] = [];
+  const stale: CartItem[] = [];
+  for (const item of items) {
+    const artwork = data?.artworks.find((candidate) => candidate.id === item.artworkId);
+    const print = item.printId ? artwork?.prints?.find((candidate) => candidate.id === item.printId) : undefined;
+    if (!artwork || (item.printId && !print)) {
+      stale.push(item);
+      continue;
+    }
+    lines.push({
+      item,
+      artwork,
+      print,
+      name: orderItemName({ title: artwork.title, print: print && describePrint(print, artwork.unit) }),
+      price: print ? print.price : artwork.price,
+    });
+  }
+
+  useEffect(() => {
+    if (data) stale.forEach(remove);
+  }, [data, items]);
+
+  const purchasable = lines.filter((line) =>
+    line.print ? printsRemaining(line.print) > 0 : line.artwork.status === "available" && line.price !== undefined);
+  const unavailable = lines.filter((line) => !purchasable.includes(line));
+  const total = purchasable.reduce((sum, line) => sum + line.price!, 0);
+
+  return { purchasable, unavailable, total, isLoading: items.length > 0 && isLoading };
+}
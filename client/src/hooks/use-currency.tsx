@@ -0,0 +1,90 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  DEFAULT_CURRENCY,
+  convertPrice,
+  currencies,
+  formatMoney,
+  type Currency,
+  type CurrencyPrice,
+  type SiteSettings,
+} from "@shared/schema";
+
+// The currency a visitor has chosen to see prices in. Checkout still charges
+// in the site currency; other currencies are shown as fixed or approximate prices.
+type CurrencyContextType = {
+  currency: Currency | null; // null until the visitor picks one
+  setCurrency: (currency: Currency) => void;
+};
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [currency, setCurrencyState] = useState<Currency | null>(() => {
+    const stored = localStorage.getItem("currency") as Currency | null;
+    return stored && currencies.includes(stored) ? stored : null;
+  });
+
+  useEffect(() => {
+    if (currency) localStorage.setItem("currency", currency);
+  }, [currency]);
+
+  return (
+    <CurrencyContext.Provider value={{ currency, setCurrency: setCurrencyState }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export interface DisplayPrice {
+  amount: number;
+  currency: Currency;
+  approximate: boolean;
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error("useCurrency must be used within a CurrencyProvider");
+  }
+
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const siteCurrency = settings?.currency ?? DEFAULT_CURRENCY;
+  const available: Currency[] = [
+    siteCurrency,
+    ...(settings?.exchangeRates ?? []).map((rate) => rate.currency).filter((code) => code !== siteCurrency),
+  ];
+  // A choice whose rate has since been removed falls back to the site currency
+  const currency = context.currency && available.includes(context.currency) ? context.currency : siteCurrency;
+  const locale = navigator.language;
+
+  // An amount in the site currency, in the visitor's currency where possible
+  const convert = (amount: number, fixedPrices?: CurrencyPrice[]): DisplayPrice => {
+    const converted = convertPrice(amount, currency, settings, fixedPrices);
+    return converted
+      ? { ...converted, currency }
+      : { amount, currency: siteCurrency, approximate: false };
+  };
+
+  // Estimates are rounded to whole units; whole prices drop the cents
+  const format = ({ amount, currency, approximate }: DisplayPrice): string => {
+    const options = approximate
+      ? { minimumFractionDigits: 0, maximumFractionDigits: 0 }
+      : Number.isInteger(amount) ? { minimumFractionDigits: 0 } : {};
+    return `${approximate ? "≈ " : ""}${formatMoney(amount, currency, locale, options)}`;
+  };
+
+  return {
+    currency,
+    setCurrency: context.setCurrency,
+    siteCurrency,
+    currencies: available,
+    convert,
+    format,
+    formatPrice: (amount: number, fixedPrices?: CurrencyPrice[]) => format(convert(amount, fixedPrices)),
+    formatSitePrice: (amount: number) => format({ amount, currency: siteCurrency, approximate: false }),
+  };
+}
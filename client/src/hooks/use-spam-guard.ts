@@ -0,0 +1,34 @@
+import { useEffect, useRef } from "react";
+import type { ContactChallenge, ContactGuard } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { solveChallenge } from "@/lib/proofOfWork";
+
+// Anti-spam for public forms: a hidden honeypot field and a proof-of-work
+// challenge that is fetched and solved in the background while the visitor types
+export function useSpamGuard() {
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const challengeRef = useRef<Promise<ContactGuard["challenge"]> | null>(null);
+
+  const prepareChallenge = () => {
+    const pending = (async () => {
+      const res = await apiRequest("GET", "/api/contact/challenge");
+      const challenge: ContactChallenge = await res.json();
+      return { token: challenge.token, solution: await solveChallenge(challenge) };
+    })();
+    pending.catch(() => {}); // Reported when the form is submitted
+    challengeRef.current = pending;
+  };
+
+  useEffect(() => {
+    prepareChallenge();
+  }, []);
+
+  // Guard fields to send with a submission; call prepareChallenge afterwards,
+  // since challenges are single-use
+  const collectGuard = async (): Promise<ContactGuard> => ({
+    website: honeypotRef.current?.value || undefined,
+    challenge: await challengeRef.current!,
+  });
+
+  return { honeypotRef, collectGuard, prepareChallenge };
+}
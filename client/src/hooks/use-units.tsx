@@ -0,0 +1,58 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  DEFAULT_DIMENSION_UNIT,
+  dimensionUnits,
+  formatDimensions,
+  type Artwork,
+  type DimensionUnit,
+  type SiteSettings,
+} from "@shared/schema";
+
+// The unit a visitor has chosen to see artwork sizes in. Artworks keep the
+// unit they were measured in; sizes are converted for display only.
+type UnitsContextType = {
+  unit: DimensionUnit | null; // null until the visitor picks one
+  setUnit: (unit: DimensionUnit) => void;
+};
+
+const UnitsContext = createContext<UnitsContextType | undefined>(undefined);
+
+export function UnitsProvider({ children }: { children: React.ReactNode }) {
+  const [unit, setUnitState] = useState<DimensionUnit | null>(() => {
+    const stored = localStorage.getItem("dimensionUnit") as DimensionUnit | null;
+    return stored && dimensionUnits.includes(stored) ? stored : null;
+  });
+
+  useEffect(() => {
+    if (unit) localStorage.setItem("dimensionUnit", unit);
+  }, [unit]);
+
+  return (
+    <UnitsContext.Provider value={{ unit, setUnit: setUnitState }}>
+      {children}
+    </UnitsContext.Provider>
+  );
+}
+
+export function useUnits() {
+  const context = useContext(UnitsContext);
+  if (context === undefined) {
+    throw new Error("useUnits must be used within a UnitsProvider");
+  }
+
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const siteUnit = settings?.dimensionUnit ?? DEFAULT_DIMENSION_UNIT;
+  const unit = context.unit ?? siteUnit;
+
+  return {
+    unit,
+    setUnit: context.setUnit,
+    siteUnit,
+    formatSize: (artwork: Pick<Artwork, "width" | "height" | "depth" | "unit">, withDepth = true) =>
+      formatDimensions([artwork.width, artwork.height, withDepth ? artwork.depth : undefined], artwork.unit, unit),
+  };
+}
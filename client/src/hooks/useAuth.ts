@@ -1,9 +1,9 @@
 // Reference: Replit Auth blueprint (javascript_log_in_with_replit)
 import { useQuery } from "@tanstack/react-query";
-import type { User } from "@shared/schema";
+import { hasPermission, userRoles, type Permission, type PublicUser } from "@shared/schema";
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery<User>({
+  const { data: user, isLoading } = useQuery<PublicUser>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -12,6 +12,8 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
-    isAdmin: user?.role === "admin",
+    // Any signed-in role can open the admin panel; pages then check permissions
+    isStaff: !!user && userRoles.includes(user.role),
+    can: (permission: Permission) => hasPermission(user?.role, permission),
   };
 }
@@ -0,0 +1,26 @@
+import type { ContactChallenge } from "@shared/schema";
+
+function leadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+  for (let i = 0; i < hash.length; i++) {
+    if (hash[i] === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(hash[i]) - 24;
+    break;
+  }
+  return bits;
+}
+
+// Find a counter whose sha256(`${token}:${counter}`) starts with the required
+// number of zero bits. Each digest is awaited, so the page stays responsive.
+export async function solveChallenge({ token, difficulty }: ContactChallenge): Promise<string> {
+  const encoder = new TextEncoder();
+  for (let counter = 0; ; counter++) {
+    const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`${token}:${counter}`));
+    if (leadingZeroBits(new Uint8Array(digest)) >= difficulty) {
+      return counter.toString();
+    }
+  }
+}
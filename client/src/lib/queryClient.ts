@@ -12,10 +12,12 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // FormData (file uploads) is sent as multipart with the boundary the browser picks
+  const isFormData = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: data && !isFormData ? { "Content-Type": "application/json" } : {},
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -23,13 +25,33 @@ export async function apiRequest(
   return res;
 }
 
+// A trailing object in the query key is sent as the query string, so
+// ["/api/artworks", { page: 2 }] fetches /api/artworks?page=2 while still
+// being invalidated together with ["/api/artworks"]
+function queryKeyToUrl(queryKey: readonly unknown[]): string {
+  const last = queryKey[queryKey.length - 1];
+  if (queryKey.length < 2 || typeof last !== "object" || last === null) {
+    return queryKey.join("/");
+  }
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(last)) {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+  const path = queryKey.slice(0, -1).join("/");
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(queryKeyToUrl(queryKey), {
       credentials: "include",
     });
 
@@ -1,4 +1,4 @@
-import type { Artwork, ArtistInfo, FAQ } from "@shared/schema";
+import { describePrint, printsRemaining, unitCodes, type Artwork, type ArtistInfo, type Currency, type FAQ } from "@shared/schema";
 
 export function generatePersonSchema(artist: ArtistInfo) {
   return {
@@ -20,8 +20,42 @@ export function generatePersonSchema(artist: ArtistInfo) {
   };
 }
 
-export function generateVisualArtworkSchema(artwork: Artwork) {
+// One Offer for the original while it's for sale, and one per limited-edition
+// print, in the currency checkout charges
+function artworkOffers(artwork: Artwork, currency: Currency) {
+  const original = artwork.price && artwork.status === "available"
+    ? [{
+        "@type": "Offer",
+        name: "Original",
+        price: artwork.price,
+        priceCurrency: currency,
+        availability: "https://schema.org/InStock",
+      }]
+    : [];
+
+  const prints = (artwork.prints ?? []).map((print) => {
+    const remaining = printsRemaining(print);
+    return {
+      "@type": "Offer",
+      name: `Limited-edition print, ${describePrint(print, artwork.unit)}`,
+      sku: print.id,
+      price: print.price,
+      priceCurrency: currency,
+      availability: remaining > 0 ? "https://schema.org/LimitedAvailability" : "https://schema.org/SoldOut",
+      inventoryLevel: {
+        "@type": "QuantitativeValue",
+        value: remaining,
+      },
+    };
+  });
+
+  return [...original, ...prints];
+}
+
+export function generateVisualArtworkSchema(artwork: Artwork, currency: Currency) {
   const primaryImage = artwork.images.find((img) => img.isPrimary) || artwork.images[0];
+  const offers = artworkOffers(artwork, currency);
+  const unitCode = unitCodes[artwork.unit];
   
   return {
     "@context": "https://schema.org",
@@ -43,41 +77,49 @@ export function generateVisualArtworkSchema(artwork: Artwork) {
     width: {
       "@type": "Distance",
       value: artwork.width,
-      unitCode: "INH",
+      unitCode,
     },
     height: {
       "@type": "Distance",
       value: artwork.height,
-      unitCode: "INH",
+      unitCode,
     },
     ...(artwork.depth && {
       depth: {
         "@type": "Distance",
         value: artwork.depth,
-        unitCode: "INH",
+        unitCode,
       },
     }),
     copyrightHolder: {
       "@type": "Person",
       name: "Shushan Aleksanyan",
     },
-    ...(artwork.price && artwork.status === "available" && {
-      offers: {
-        "@type": "Offer",
-        price: artwork.price,
-        priceCurrency: "USD",
-        availability: "https://schema.org/InStock",
-      },
-    }),
+    ...(offers.length > 0 && { offers }),
   };
 }
 
-export function generateCollectionPageSchema(artworks: Artwork[]) {
+interface CollectionPageDetails {
+  name: string;
+  description: string;
+  url?: string;
+  image?: string;
+}
+
+export function generateCollectionPageSchema(
+  artworks: Artwork[],
+  page: CollectionPageDetails = {
+    name: "Paper Quilling Art Portfolio",
+    description: "A collection of handcrafted paper quilling artworks by Shushan Aleksanyan",
+  },
+) {
   return {
     "@context": "https://schema.org",
     "@type": "CollectionPage",
-    name: "Paper Quilling Art Portfolio",
-    description: "A collection of handcrafted paper quilling artworks by Shushan Aleksanyan",
+    name: page.name,
+    description: page.description,
+    ...(page.url && { url: page.url }),
+    ...(page.image && { image: page.image }),
     author: {
       "@type": "Person",
       name: "Shushan Aleksanyan",
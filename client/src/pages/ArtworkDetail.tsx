@@ -1,20 +1,28 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useRoute, Link } from "wouter";
-import { ArrowLeft, Ruler, Calendar, Palette, Sparkles } from "lucide-react";
+import { ArrowLeft, Ruler, Calendar, Palette, Sparkles, ShoppingBag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { ArtworkCard } from "@/components/ArtworkCard";
 import { OptimizedImage } from "@/components/OptimizedImage";
 import { SEO } from "@/components/SEO";
+import { UnitToggle } from "@/components/UnitToggle";
 import { generateVisualArtworkSchema, generateBreadcrumbSchema } from "@/lib/schema";
-import type { Artwork } from "@shared/schema";
+import { useCart } from "@/hooks/use-cart";
+import { useCurrency } from "@/hooks/use-currency";
+import { useUnits } from "@/hooks/use-units";
+import { describePrint, printsRemaining, type Artwork } from "@shared/schema";
 
 export default function ArtworkDetail() {
   const [, params] = useRoute("/artwork/:slug");
   const slug = params?.slug;
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
+  const cart = useCart();
+  const { currency, siteCurrency, formatPrice, formatSitePrice } = useCurrency();
+  const { formatSize } = useUnits();
 
   const { data: artwork, isLoading } = useQuery<Artwork>({
     queryKey: ["/api/artworks", slug],
@@ -67,7 +75,7 @@ export default function ArtworkDetail() {
   const primaryImage = artwork.images.find((img) => img.isPrimary) || artwork.images[0];
   const selectedImage = artwork.images[selectedImageIndex] || primaryImage;
 
-  const artworkSchema = generateVisualArtworkSchema(artwork);
+  const artworkSchema = generateVisualArtworkSchema(artwork, siteCurrency);
   const breadcrumbSchema = generateBreadcrumbSchema([
     { name: "Home", url: window.location.origin },
     { name: "Portfolio", url: `${window.location.origin}/portfolio` },
@@ -152,10 +160,12 @@ export default function ArtworkDetail() {
                 <div className="flex items-start gap-3">
                   <Ruler className="h-5 w-5 text-primary mt-0.5" />
                   <div>
-                    <p className="text-sm text-muted-foreground">Dimensions</p>
+                    <p className="text-sm text-muted-foreground flex items-center gap-2">
+                      Dimensions
+                      <UnitToggle />
+                    </p>
                     <p className="font-semibold" data-testid="text-artwork-dimensions">
-                      {artwork.width}" × {artwork.height}"
-                      {artwork.depth ? ` × ${artwork.depth}"` : ""}
+                      {formatSize(artwork)}
                     </p>
                   </div>
                 </div>
@@ -193,12 +203,38 @@ export default function ArtworkDetail() {
                 <div className="flex items-baseline justify-between">
                   <span className="text-sm text-muted-foreground">Price</span>
                   <span className="text-3xl font-bold" data-testid="text-artwork-price">
-                    ${artwork.price.toLocaleString()}
+                    {formatPrice(artwork.price, artwork.prices)}
                   </span>
                 </div>
+                {currency !== siteCurrency && (
+                  <p className="text-sm text-muted-foreground text-right mt-1" data-testid="text-artwork-charged-price">
+                    Charged as {formatSitePrice(artwork.price)} at checkout
+                  </p>
+                )}
+                {cart.contains({ artworkId: artwork.id }) ? (
+                  <Button size="lg" variant="outline" className="w-full mt-4" asChild data-testid="button-view-cart">
+                    <Link href="/cart">
+                      <ShoppingBag className="w-4 h-4 mr-2" />
+                      In Your Cart · Checkout
+                    </Link>
+                  </Button>
+                ) : (
+                  <Button size="lg" className="w-full mt-4" onClick={() => cart.add({ artworkId: artwork.id })} data-testid="button-add-to-cart">
+                    <ShoppingBag className="w-4 h-4 mr-2" />
+                    Add to Cart
+                  </Button>
+                )}
               </div>
             )}
 
+            {!!artwork.prints?.length && <PrintPicker key={artwork.id} artwork={artwork} />}
+
+            {artwork.status === "reserved" && (
+              <p className="text-sm text-muted-foreground" data-testid="text-artwork-reserved">
+                This piece is reserved for a buyer while their payment is completed.
+              </p>
+            )}
+
             <div className="space-y-4">
               <h3 className="font-semibold text-lg">About This Piece</h3>
               <p className="text-muted-foreground leading-relaxed" data-testid="text-artwork-description">
@@ -208,12 +244,12 @@ export default function ArtworkDetail() {
 
             <div className="flex flex-col sm:flex-row gap-4 pt-4">
               <Button size="lg" className="flex-1" asChild data-testid="button-inquire">
-                <Link href="/contact">
+                <Link href={`/contact?artwork=${artwork.slug}&type=purchase`}>
                   Inquire About This Piece
                 </Link>
               </Button>
               <Button size="lg" variant="outline" className="flex-1" asChild data-testid="button-commission">
-                <Link href="/contact">
+                <Link href={`/contact?artwork=${artwork.slug}&type=commission`}>
                   Commission Similar Work
                 </Link>
               </Button>
@@ -237,3 +273,65 @@ export default function ArtworkDetail() {
     </div>
   );
 }
+
+// Limited-edition prints, each with its own price and edition
+function PrintPicker({ artwork }: { artwork: Artwork }) {
+  const cart = useCart();
+  const { formatPrice } = useCurrency();
+  const { unit } = useUnits();
+  const prints = artwork.prints ?? [];
+  const [selectedId, setSelectedId] = useState(
+    () => prints.find((print) => printsRemaining(print) > 0)?.id ?? prints[0].id,
+  );
+  const selected = prints.find((print) => print.id === selectedId) ?? prints[0];
+  const item = { artworkId: artwork.id, printId: selected.id };
+
+  return (
+    <div className="border rounded-lg p-6 space-y-4" data-testid="section-prints">
+      <div>
+        <h3 className="font-semibold text-lg">Limited-Edition Prints</h3>
+        <p className="text-sm text-muted-foreground">Numbered prints of this piece, each in a fixed edition.</p>
+      </div>
+      <RadioGroup value={selected.id} onValueChange={setSelectedId} className="space-y-2">
+        {prints.map((print) => {
+          const remaining = printsRemaining(print);
+          return (
+            <label
+              key={print.id}
+              className={`flex items-center gap-3 rounded-md border p-4 ${remaining > 0 ? "cursor-pointer hover-elevate" : "opacity-60"}`}
+              data-testid={`option-print-${print.id}`}
+            >
+              <RadioGroupItem value={print.id} disabled={remaining === 0} />
+              <span className="flex-1">
+                <span className="font-medium block">{describePrint(print, artwork.unit, unit)}</span>
+                <span className="text-sm text-muted-foreground">
+                  Edition of {print.editionSize} · {remaining > 0 ? `${remaining} remaining` : "Sold out"}
+                </span>
+              </span>
+              <span className="font-semibold">{formatPrice(print.price)}</span>
+            </label>
+          );
+        })}
+      </RadioGroup>
+      {cart.contains(item) ? (
+        <Button size="lg" variant="outline" className="w-full" asChild data-testid="button-view-cart-print">
+          <Link href="/cart">
+            <ShoppingBag className="w-4 h-4 mr-2" />
+            In Your Cart · Checkout
+          </Link>
+        </Button>
+      ) : (
+        <Button
+          size="lg"
+          className="w-full"
+          disabled={printsRemaining(selected) === 0}
+          onClick={() => cart.add(item)}
+          data-testid="button-add-print-to-cart"
+        >
+          <ShoppingBag className="w-4 h-4 mr-2" />
+          {printsRemaining(selected) > 0 ? "Add Print to Cart" : "Sold Out"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { Link } from "wouter";
+import { ShoppingBag, X } from "lucide-react";
+import { SEO } from "@/components/SEO";
+import { OptimizedImage } from "@/components/OptimizedImage";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useCart, useCartLines, type CartLine } from "@/hooks/use-cart";
+import { useCurrency } from "@/hooks/use-currency";
+import { useUnits } from "@/hooks/use-units";
+import { describePrint } from "@shared/schema";
+
+export default function Cart() {
+  const { remove } = useCart();
+  const { purchasable, unavailable, total, isLoading } = useCartLines();
+  const { formatSitePrice } = useCurrency();
+
+  return (
+    <div className="min-h-screen pt-24 pb-16 px-4 sm:px-6 lg:px-8">
+      <SEO title="Cart | Quill Your Dream" />
+      <div className="max-w-3xl mx-auto">
+        <div className="text-center mb-12 space-y-4">
+          <h1 className="font-serif text-5xl lg:text-6xl font-bold">Your Cart</h1>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="h-24 bg-muted animate-pulse rounded-md" />
+            ))}
+          </div>
+        ) : purchasable.length === 0 && unavailable.length === 0 ? (
+          <div className="text-center space-y-6" data-testid="text-cart-empty">
+            <ShoppingBag className="w-12 h-12 mx-auto text-muted-foreground" />
+            <p className="text-muted-foreground text-lg">Your cart is empty.</p>
+            <Button asChild>
+              <Link href="/portfolio?status=available">Browse Available Artworks</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              {purchasable.map((line) => (
+                <CartItem key={cartLineKey(line)} line={line} onRemove={() => remove(line.item)} />
+              ))}
+              {unavailable.map((line) => (
+                <CartItem key={cartLineKey(line)} line={line} onRemove={() => remove(line.item)} unavailable />
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between border-t pt-6">
+              <span className="text-lg">Total</span>
+              <span className="text-2xl font-bold" data-testid="text-cart-total">{formatSitePrice(total)}</span>
+            </div>
+            <ApproximateTotal lines={purchasable} />
+            <p className="text-sm text-muted-foreground">
+              Checking out reserves each piece for you while you pay.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-4">
+              <Button variant="outline" className="flex-1" asChild>
+                <Link href="/portfolio">Continue Browsing</Link>
+              </Button>
+              <Button className="flex-1" disabled={purchasable.length === 0} asChild={purchasable.length > 0} data-testid="button-checkout">
+                {purchasable.length > 0 ? <Link href="/checkout">Checkout</Link> : "Checkout"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function cartLineKey({ item }: CartLine): string {
+  return `${item.artworkId}-${item.printId ?? "original"}`;
+}
+
+interface CartItemProps {
+  line: CartLine;
+  onRemove: () => void;
+  unavailable?: boolean;
+}
+
+function CartItem({ line, onRemove, unavailable }: CartItemProps) {
+  const { artwork } = line;
+  const { formatSitePrice } = useCurrency();
+  const { unit } = useUnits();
+  const primaryImage = artwork.images.find((img) => img.isPrimary) || artwork.images[0];
+
+  return (
+    <Card className={`p-3 flex items-center gap-4 border-card-border ${unavailable ? "opacity-60" : ""}`} data-testid={`card-cart-${cartLineKey(line)}`}>
+      <div className="w-20 h-20 flex-shrink-0 rounded-md overflow-hidden bg-muted">
+        {primaryImage && (
+          <OptimizedImage src={primaryImage.url} alt={primaryImage.alt} size="thumbnail" className="w-full h-full object-cover" />
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <Link href={`/artwork/${artwork.slug}`} className="font-semibold truncate block hover:text-primary">
+          {artwork.title}
+        </Link>
+        <p className="text-sm text-muted-foreground truncate">
+          {line.print ? `Limited-edition print · ${describePrint(line.print, artwork.unit, unit)}` : artwork.medium}
+        </p>
+        {unavailable && <p className="text-sm text-destructive">{line.print ? "Sold out" : "No longer available"}</p>}
+      </div>
+      {!unavailable && <span className="font-semibold">{formatSitePrice(line.price!)}</span>}
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onRemove}
+        aria-label={`Remove ${line.name} from cart`}
+        data-testid={`button-remove-${cartLineKey(line)}`}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </Card>
+  );
+}
+
+// The total in the visitor's chosen currency, when that isn't the one charged
+export function ApproximateTotal({ lines }: { lines: CartLine[] }) {
+  const { currency, siteCurrency, convert, format } = useCurrency();
+  if (currency === siteCurrency || lines.length === 0) return null;
+
+  const converted = lines.map((line) => convert(line.price!, line.print ? undefined : line.artwork.prices));
+  if (converted.some((price) => price.currency !== currency)) return null;
+
+  const total = {
+    amount: converted.reduce((sum, price) => sum + price.amount, 0),
+    currency,
+    approximate: converted.some((price) => price.approximate),
+  };
+  return (
+    <p className="text-sm text-muted-foreground text-right" data-testid="text-approximate-total">
+      {format(total)} · charged in {siteCurrency}
+    </p>
+  );
+}
@@ -0,0 +1,273 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { SEO } from "@/components/SEO";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { useCart, useCartLines } from "@/hooks/use-cart";
+import { useCurrency } from "@/hooks/use-currency";
+import { ApproximateTotal } from "@/pages/Cart";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { checkoutSchema, type PaymentMethod, type PlacedOrder } from "@shared/schema";
+
+// The cart supplies the artworks; the form collects everything else
+const checkoutFormSchema = checkoutSchema.omit({ items: true });
+type CheckoutForm = z.infer<typeof checkoutFormSchema>;
+
+function describeError(error: Error): string {
+  if (error.message.startsWith("429")) {
+    return "Too many orders have been placed. Please try again later.";
+  }
+  if (error.message.startsWith("400") || error.message.startsWith("409")) {
+    try {
+      return JSON.parse(error.message.slice(5)).error;
+    } catch {
+      // Fall through to the generic message
+    }
+  }
+  return "Failed to place your order. Please try again.";
+}
+
+const addressFields = [
+  { name: "shippingAddress.line1", label: "Street Address *", autoComplete: "address-line1" },
+  { name: "shippingAddress.line2", label: "Apartment, Suite, etc.", autoComplete: "address-line2" },
+  { name: "shippingAddress.city", label: "City *", autoComplete: "address-level2" },
+  { name: "shippingAddress.region", label: "State / Province", autoComplete: "address-level1" },
+  { name: "shippingAddress.postalCode", label: "Postal Code *", autoComplete: "postal-code" },
+  { name: "shippingAddress.country", label: "Country *", autoComplete: "country-name" },
+] as const;
+
+export default function Checkout() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { clear } = useCart();
+  const { purchasable, unavailable, total, isLoading } = useCartLines();
+  const { formatSitePrice } = useCurrency();
+
+  const { data: paymentMethods } = useQuery<PaymentMethod[]>({
+    queryKey: ["/api/payments/providers"],
+  });
+
+  const form = useForm<CheckoutForm>({
+    resolver: zodResolver(checkoutFormSchema),
+    defaultValues: {
+      customer: { name: "", email: "", phone: "" },
+      shippingAddress: { line1: "", line2: "", city: "", region: "", postalCode: "", country: "" },
+      provider: "",
+    },
+  });
+
+  // Preselect the first payment method once they load
+  useEffect(() => {
+    if (paymentMethods?.length && !form.getValues("provider")) {
+      form.setValue("provider", paymentMethods[0].id);
+    }
+  }, [paymentMethods]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: CheckoutForm) => {
+      const res = await apiRequest("POST", "/api/orders", {
+        ...data,
+        items: purchasable.map((line) => line.item),
+      });
+      return await res.json() as PlacedOrder;
+    },
+    onSuccess: ({ order, redirectUrl }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/artworks"] });
+      clear();
+      if (redirectUrl && /^https?:\/\//.test(redirectUrl)) {
+        window.location.assign(redirectUrl);
+      } else {
+        setLocation(redirectUrl ?? `/order/${order.id}`);
+      }
+    },
+    onError: (error: Error) => {
+      // Someone else may have just bought a piece; refresh so the cart shows it
+      queryClient.invalidateQueries({ queryKey: ["/api/artworks"] });
+      toast({
+        title: "Error",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isLoading && purchasable.length === 0) {
+    return (
+      <div className="min-h-screen pt-24 pb-16 px-4 text-center space-y-6">
+        <h1 className="font-serif text-4xl font-bold">Nothing to check out</h1>
+        <p className="text-muted-foreground">
+          {unavailable.length > 0 ? "The artworks in your cart are no longer available." : "Your cart is empty."}
+        </p>
+        <Button asChild>
+          <Link href="/cart">Back to Cart</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-24 pb-16 px-4 sm:px-6 lg:px-8">
+      <SEO title="Checkout | Quill Your Dream" />
+      <div className="max-w-6xl mx-auto">
+        <div className="text-center mb-12 space-y-4">
+          <h1 className="font-serif text-5xl lg:text-6xl font-bold">Checkout</h1>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-12">
+          <div className="lg:col-span-2">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-8">
+                <section className="space-y-4">
+                  <h2 className="font-serif text-2xl font-semibold">Contact</h2>
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="customer.name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Name *</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="name" {...field} data-testid="input-name" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="customer.email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email *</FormLabel>
+                          <FormControl>
+                            <Input type="email" autoComplete="email" {...field} data-testid="input-email" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="customer.phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone</FormLabel>
+                        <FormControl>
+                          <Input type="tel" autoComplete="tel" {...field} data-testid="input-phone" />
+                        </FormControl>
+                        <FormDescription>For the courier, if they need to reach you.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </section>
+
+                <section className="space-y-4">
+                  <h2 className="font-serif text-2xl font-semibold">Shipping Address</h2>
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    {addressFields.map(({ name, label, autoComplete }) => (
+                      <FormField
+                        key={name}
+                        control={form.control}
+                        name={name}
+                        render={({ field }) => (
+                          <FormItem className={name === "shippingAddress.line1" ? "sm:col-span-2" : undefined}>
+                            <FormLabel>{label}</FormLabel>
+                            <FormControl>
+                              <Input autoComplete={autoComplete} {...field} data-testid={`input-${name.split(".")[1]}`} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                </section>
+
+                <section className="space-y-4">
+                  <h2 className="font-serif text-2xl font-semibold">Payment</h2>
+                  <FormField
+                    control={form.control}
+                    name="provider"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-2">
+                            {paymentMethods?.map((method) => (
+                              <label
+                                key={method.id}
+                                className="flex items-start gap-3 rounded-md border p-4 cursor-pointer hover-elevate"
+                                data-testid={`option-payment-${method.id}`}
+                              >
+                                <RadioGroupItem value={method.id} className="mt-1" />
+                                <span>
+                                  <span className="font-medium block">{method.label}</span>
+                                  <span className="text-sm text-muted-foreground">{method.description}</span>
+                                </span>
+                              </label>
+                            ))}
+                          </RadioGroup>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </section>
+
+                <Button
+                  type="submit"
+                  size="lg"
+                  className="w-full"
+                  disabled={mutation.isPending || isLoading}
+                  data-testid="button-place-order"
+                >
+                  {mutation.isPending ? "Placing Order..." : `Place Order · ${formatSitePrice(total)}`}
+                </Button>
+              </form>
+            </Form>
+          </div>
+
+          <Card className="p-6 space-y-4 h-fit border-card-border" data-testid="card-order-summary">
+            <h2 className="font-serif text-2xl font-semibold">Order Summary</h2>
+            {purchasable.map((line) => (
+              <div key={`${line.item.artworkId}-${line.item.printId ?? "original"}`} className="flex justify-between gap-4 text-sm">
+                <span>{line.name}</span>
+                <span className="font-medium">{formatSitePrice(line.price!)}</span>
+              </div>
+            ))}
+            {unavailable.length > 0 && (
+              <p className="text-sm text-destructive">
+                {unavailable.length === 1 ? "1 piece in your cart is" : `${unavailable.length} pieces in your cart are`} no longer available and won't be included.
+              </p>
+            )}
+            <div className="flex justify-between border-t pt-4 font-semibold">
+              <span>Total</span>
+              <span data-testid="text-checkout-total">{formatSitePrice(total)}</span>
+            </div>
+            <ApproximateTotal lines={purchasable} />
+            <p className="text-xs text-muted-foreground">
+              Shipping is arranged with you after the order is placed.
+            </p>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
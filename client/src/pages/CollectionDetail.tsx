@@ -0,0 +1,104 @@
+import { useQuery } from "@tanstack/react-query";
+import { useRoute, Link } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ArtworkCard } from "@/components/ArtworkCard";
+import { SEO } from "@/components/SEO";
+import { generateCollectionPageSchema, generateBreadcrumbSchema } from "@/lib/schema";
+import type { CollectionWithArtworks } from "@shared/schema";
+
+export default function CollectionDetail() {
+  const [, params] = useRoute("/collections/:slug");
+  const slug = params?.slug;
+
+  const { data: collection, isLoading } = useQuery<CollectionWithArtworks>({
+    queryKey: ["/api/collections", slug],
+    enabled: !!slug,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen pt-24 pb-16 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-[1600px] mx-auto space-y-8">
+          <div className="h-12 bg-muted rounded animate-pulse w-1/3 mx-auto" />
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="aspect-[4/5] bg-muted rounded-lg animate-pulse" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!collection) {
+    return (
+      <div className="min-h-screen pt-24 pb-16 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto text-center py-24">
+          <h1 className="font-serif text-4xl font-bold mb-4">Collection Not Found</h1>
+          <p className="text-muted-foreground mb-8">The collection you're looking for doesn't exist.</p>
+          <Button asChild>
+            <Link href="/collections">
+              <ArrowLeft className="mr-2 h-5 w-5" />
+              Back to Collections
+            </Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const url = `${window.location.origin}/collections/${collection.slug}`;
+  const collectionSchema = generateCollectionPageSchema(collection.artworks, {
+    name: collection.title,
+    description: collection.description,
+    url,
+    image: collection.coverImage || undefined,
+  });
+  const breadcrumbSchema = generateBreadcrumbSchema([
+    { name: "Home", url: window.location.origin },
+    { name: "Collections", url: `${window.location.origin}/collections` },
+    { name: collection.title, url },
+  ]);
+
+  return (
+    <div className="min-h-screen pt-24 pb-16">
+      <SEO
+        title={`${collection.title} | Quill Your Dream`}
+        description={collection.description}
+        image={collection.coverImage || undefined}
+        url={url}
+        schema={[breadcrumbSchema, collectionSchema]}
+      />
+      <div className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8">
+        <Button variant="ghost" asChild className="mb-8" data-testid="button-back">
+          <Link href="/collections">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All Collections
+          </Link>
+        </Button>
+
+        <div className="mb-16 space-y-6">
+          <h1 className="font-serif text-5xl lg:text-6xl font-bold text-center" data-testid="text-collection-title">
+            {collection.title}
+          </h1>
+          <p className="text-center text-muted-foreground text-lg max-w-2xl mx-auto whitespace-pre-line">
+            {collection.description}
+          </p>
+        </div>
+
+        {collection.artworks.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8" data-testid="grid-collection-artworks">
+            {collection.artworks.map((artwork) => (
+              <ArtworkCard key={artwork.id} artwork={artwork} />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-24">
+            <p className="text-muted-foreground text-lg">This collection has no artworks yet.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { OptimizedImage } from "@/components/OptimizedImage";
+import { SEO } from "@/components/SEO";
+import { generateBreadcrumbSchema } from "@/lib/schema";
+import type { Collection } from "@shared/schema";
+
+export default function Collections() {
+  const { data: collections, isLoading } = useQuery<Collection[]>({
+    queryKey: ["/api/collections"],
+  });
+
+  const breadcrumbSchema = generateBreadcrumbSchema([
+    { name: "Home", url: window.location.origin },
+    { name: "Collections", url: `${window.location.origin}/collections` },
+  ]);
+
+  return (
+    <div className="min-h-screen pt-24 pb-16 px-4 sm:px-6 lg:px-8">
+      <SEO
+        title="Collections | Quill Your Dream"
+        description="Explore series of handcrafted paper quilling artworks by Shushan Aleksanyan, grouped by theme."
+        schema={breadcrumbSchema}
+      />
+      <div className="max-w-[1600px] mx-auto">
+        <div className="mb-16 space-y-6">
+          <h1 className="font-serif text-5xl lg:text-6xl font-bold text-center">
+            Collections
+          </h1>
+          <p className="text-center text-muted-foreground text-lg max-w-2xl mx-auto">
+            Series of works that explore a shared theme, palette, or technique.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="space-y-4">
+                <div className="aspect-[4/3] bg-muted rounded-lg animate-pulse" />
+                <div className="h-4 bg-muted rounded animate-pulse w-3/4" />
+              </div>
+            ))}
+          </div>
+        ) : collections && collections.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8" data-testid="grid-collections">
+            {collections.map((collection) => (
+              <Link
+                key={collection.id}
+                href={`/collections/${collection.slug}`}
+                data-testid={`link-collection-${collection.slug}`}
+              >
+                <Card className="group overflow-hidden border-card-border hover-elevate transition-all duration-500 cursor-pointer h-full">
+                  <div className="aspect-[4/3] overflow-hidden bg-muted">
+                    {collection.coverImage && (
+                      <OptimizedImage
+                        src={collection.coverImage}
+                        alt={collection.title}
+                        size="grid"
+                        className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+                      />
+                    )}
+                  </div>
+                  <div className="p-6 space-y-2">
+                    <h2 className="font-serif text-2xl font-semibold">{collection.title}</h2>
+                    <p className="text-sm text-muted-foreground line-clamp-2">{collection.description}</p>
+                    <p className="text-xs text-muted-foreground pt-2">
+                      {collection.artworkIds.length} {collection.artworkIds.length === 1 ? "artwork" : "artworks"}
+                    </p>
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-24">
+            <p className="text-muted-foreground text-lg">No collections yet.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
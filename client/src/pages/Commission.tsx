@@ -0,0 +1,436 @@
+import { useEffect, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ImagePlus, Plus, X } from "lucide-react";
+import { SEO } from "@/components/SEO";
+import { generateBreadcrumbSchema } from "@/lib/schema";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useSpamGuard } from "@/hooks/use-spam-guard";
+import { useCurrency } from "@/hooks/use-currency";
+import { useUnits } from "@/hooks/use-units";
+import { apiRequest } from "@/lib/queryClient";
+import { commissionRequestSchema, type CommissionRequest } from "@shared/schema";
+
+// Matches the server's limits for reference uploads
+const MAX_REFERENCES = 5;
+const MAX_REFERENCE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_COLORS = 6;
+
+interface Reference {
+  file: File;
+  preview: string;
+}
+
+// Empty number and date inputs mean "not given" rather than 0 or ""
+const optionalValue = (value: string) => (value === "" ? undefined : value);
+
+// apiRequest errors read "<status>: <body>"; validation errors carry a message worth showing
+function describeError(error: Error): string {
+  if (error.message.startsWith("429")) {
+    return "Too many messages have been sent. Please try again later or email directly.";
+  }
+  if (error.message.startsWith("400")) {
+    try {
+      return JSON.parse(error.message.slice(5)).error;
+    } catch {
+      // Fall through to the generic message
+    }
+  }
+  return "Failed to send your request. Please try again or email directly.";
+}
+
+export default function Commission() {
+  const { toast } = useToast();
+  // Budgets are given in the site currency, which the request records
+  const { siteCurrency } = useCurrency();
+  // Sizes are entered in the unit the visitor views the site in
+  const { unit } = useUnits();
+  const { honeypotRef, collectGuard, prepareChallenge } = useSpamGuard();
+  const [references, setReferences] = useState<Reference[]>([]);
+
+  const form = useForm<CommissionRequest>({
+    resolver: zodResolver(commissionRequestSchema),
+    defaultValues: {
+      name: "",
+      email: "",
+      subject: "",
+      description: "",
+      width: undefined,
+      height: undefined,
+      palette: [],
+      deadline: undefined,
+      budgetMin: undefined,
+      budgetMax: undefined,
+    },
+  });
+
+  // Previews are object URLs, which must be released when removed or when leaving the page
+  const referencesRef = useRef(references);
+  referencesRef.current = references;
+  useEffect(() => {
+    return () => referencesRef.current.forEach((reference) => URL.revokeObjectURL(reference.preview));
+  }, []);
+
+  const removeReferences = (removed: Reference[]) => {
+    removed.forEach((reference) => URL.revokeObjectURL(reference.preview));
+    setReferences(references.filter((reference) => !removed.includes(reference)));
+  };
+
+  const addReferences = (files: FileList | null) => {
+    if (!files) return;
+    const accepted: Reference[] = [];
+    for (const file of Array.from(files)) {
+      if (!file.type.startsWith("image/")) {
+        toast({ title: "Error", description: `${file.name} is not an image`, variant: "destructive" });
+      } else if (file.size > MAX_REFERENCE_SIZE) {
+        toast({ title: "Error", description: `${file.name} is larger than 10MB`, variant: "destructive" });
+      } else if (references.length + accepted.length >= MAX_REFERENCES) {
+        toast({ title: "Error", description: `You can attach up to ${MAX_REFERENCES} images`, variant: "destructive" });
+        break;
+      } else {
+        accepted.push({ file, preview: URL.createObjectURL(file) });
+      }
+    }
+    setReferences([...references, ...accepted]);
+  };
+
+  const mutation = useMutation({
+    mutationFn: async (data: CommissionRequest) => {
+      const body = new FormData();
+      body.append("data", JSON.stringify({ ...data, unit, ...(await collectGuard()) }));
+      references.forEach((reference) => body.append("references", reference.file));
+      return apiRequest("POST", "/api/commissions", body);
+    },
+    // Challenges are single-use
+    onSettled: () => prepareChallenge(),
+    onSuccess: () => {
+      toast({
+        title: "Request Sent!",
+        description: "Thank you for your commission request. I'll review your brief and reply with a quote within a few days.",
+      });
+      form.reset();
+      removeReferences(references);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const breadcrumbSchema = generateBreadcrumbSchema([
+    { name: "Home", url: window.location.origin },
+    { name: "Commission a Piece", url: `${window.location.origin}/commission` },
+  ]);
+
+  return (
+    <div className="min-h-screen pt-24 pb-16 px-4 sm:px-6 lg:px-8">
+      <SEO
+        title="Commission a Piece | Quill Your Dream"
+        description="Request a custom paper quilling commission from Shushan Aleksanyan. Share your idea, size, colors, deadline and budget along with reference images."
+        schema={[breadcrumbSchema]}
+      />
+      <div className="max-w-3xl mx-auto">
+        <div className="text-center mb-12 space-y-4">
+          <h1 className="font-serif text-5xl lg:text-6xl font-bold">Commission a Piece</h1>
+          <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
+            Tell me about the piece you have in mind. The more detail you share, the more accurate your quote will be.
+            For anything else, use the <Link href="/contact" className="text-primary hover:underline">contact form</Link>.
+          </p>
+        </div>
+
+        <Card className="p-6 sm:p-8 border-card-border">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-6">
+              <div className="grid sm:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Your full name" {...field} data-testid="input-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email *</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="your.email@example.com" {...field} data-testid="input-email" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="subject"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Subject *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Our family's initials, a wedding bouquet, a portrait of our dog" {...field} data-testid="input-subject" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Details *</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="Describe the piece: style, mood, where it will hang, any text to include..."
+                        className="min-h-[150px] resize-none"
+                        {...field}
+                        data-testid="textarea-description"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="width"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Width ({unit}) *</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(optionalValue(e.target.value))}
+                          data-testid="input-width"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="height"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Height ({unit}) *</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(optionalValue(e.target.value))}
+                          data-testid="input-height"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="palette"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Color Palette</FormLabel>
+                    <div className="flex flex-wrap items-center gap-3">
+                      {field.value.map((color, index) => (
+                        <div key={index} className="relative">
+                          <input
+                            type="color"
+                            value={color}
+                            onChange={(e) => field.onChange(field.value.map((c, i) => (i === index ? e.target.value : c)))}
+                            className="w-12 h-12 rounded-md border cursor-pointer bg-transparent"
+                            aria-label={`Color ${index + 1}`}
+                            data-testid={`input-color-${index}`}
+                          />
+                          <button
+                            type="button"
+                            onClick={() => field.onChange(field.value.filter((_, i) => i !== index))}
+                            className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-background border flex items-center justify-center"
+                            aria-label={`Remove color ${index + 1}`}
+                            data-testid={`button-remove-color-${index}`}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ))}
+                      {field.value.length < MAX_COLORS && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => field.onChange([...field.value, "#2bb3c0"])}
+                          data-testid="button-add-color"
+                        >
+                          <Plus className="w-4 h-4 mr-1" />
+                          Add Color
+                        </Button>
+                      )}
+                    </div>
+                    <FormDescription>Up to {MAX_COLORS} colors, or leave empty to leave the palette to me</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid sm:grid-cols-3 gap-6">
+                <FormField
+                  control={form.control}
+                  name="deadline"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Needed By</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          min={new Date().toISOString().slice(0, 10)}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(optionalValue(e.target.value))}
+                          data-testid="input-deadline"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="budgetMin"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Budget From ({siteCurrency})</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="50"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(optionalValue(e.target.value))}
+                          data-testid="input-budget-min"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="budgetMax"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Budget To ({siteCurrency})</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="50"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(optionalValue(e.target.value))}
+                          data-testid="input-budget-max"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Reference Images</p>
+                <div className="flex flex-wrap gap-3">
+                  {references.map((reference, index) => (
+                    <div key={reference.preview} className="relative w-24 h-24 rounded-md overflow-hidden border">
+                      <img src={reference.preview} alt={reference.file.name} className="w-full h-full object-cover" />
+                      <button
+                        type="button"
+                        onClick={() => removeReferences([reference])}
+                        className="absolute top-1 right-1 w-5 h-5 rounded-full bg-background/90 flex items-center justify-center"
+                        aria-label={`Remove ${reference.file.name}`}
+                        data-testid={`button-remove-reference-${index}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  {references.length < MAX_REFERENCES && (
+                    <label className="w-24 h-24 rounded-md border border-dashed flex flex-col items-center justify-center gap-1 text-xs text-muted-foreground cursor-pointer hover-elevate">
+                      <ImagePlus className="w-5 h-5" />
+                      Add images
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        className="sr-only"
+                        onChange={(e) => {
+                          addReferences(e.target.files);
+                          e.target.value = "";
+                        }}
+                        data-testid="input-references"
+                      />
+                    </label>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Photos, sketches or inspiration; up to {MAX_REFERENCES} images of 10MB each. Only I will see them.
+                </p>
+              </div>
+
+              <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+                <label htmlFor="commission-website">Website</label>
+                <input id="commission-website" name="website" type="text" tabIndex={-1} autoComplete="off" ref={honeypotRef} />
+              </div>
+
+              <Button
+                type="submit"
+                size="lg"
+                className="w-full"
+                disabled={mutation.isPending}
+                data-testid="button-submit"
+              >
+                {mutation.isPending ? "Sending..." : "Send Commission Request"}
+              </Button>
+            </form>
+          </Form>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
+import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
-import { Mail, MapPin, Instagram, ExternalLink } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch, Link } from "wouter";
+import { Mail, MapPin, Instagram, ExternalLink, X } from "lucide-react";
 import { SEO } from "@/components/SEO";
+import { OptimizedImage } from "@/components/OptimizedImage";
 import { generateBreadcrumbSchema } from "@/lib/schema";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -24,11 +27,23 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { contactFormSchema, type ContactForm } from "@shared/schema";
+import { contactFormSchema, type Artwork, type ContactForm } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { useSpamGuard } from "@/hooks/use-spam-guard";
 
 export default function Contact() {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  // Inquiries started from an artwork page arrive as /contact?artwork=<slug>&type=<inquiry type>
+  const params = new URLSearchParams(useSearch());
+  const artworkSlug = params.get("artwork");
+  const requestedType = contactFormSchema.shape.inquiryType.safeParse(params.get("type"));
+
+  const { data: artwork } = useQuery<Artwork>({
+    queryKey: ["/api/artworks", artworkSlug],
+    enabled: !!artworkSlug,
+  });
 
   const form = useForm<ContactForm>({
     resolver: zodResolver(contactFormSchema),
@@ -38,22 +53,57 @@ export default function Contact() {
       subject: "",
       inquiryType: "commission",
       message: "",
+      artworkId: undefined,
     },
   });
 
+  // Prefill from the referenced artwork, without overwriting anything typed already
+  useEffect(() => {
+    if (!artwork) {
+      form.setValue("artworkId", undefined);
+      return;
+    }
+    const inquiryType = requestedType.success ? requestedType.data : "purchase";
+    form.setValue("artworkId", artwork.id);
+    form.setValue("inquiryType", inquiryType);
+    if (!form.getFieldState("subject").isDirty) {
+      form.setValue("subject", inquiryType === "commission"
+        ? `Commission similar to "${artwork.title}"`
+        : `Inquiry about "${artwork.title}"`);
+    }
+  }, [artwork, artworkSlug]);
+
+  const clearArtwork = () => {
+    if (!form.getFieldState("subject").isDirty) {
+      form.resetField("subject");
+    }
+    setLocation("/contact", { replace: true });
+  };
+
+  const { honeypotRef, collectGuard, prepareChallenge } = useSpamGuard();
+
   const mutation = useMutation({
-    mutationFn: (data: ContactForm) => apiRequest("POST", "/api/contact", data),
+    mutationFn: async (data: ContactForm) => {
+      return apiRequest("POST", "/api/contact", { ...data, ...(await collectGuard()) });
+    },
+    // Challenges are single-use
+    onSettled: () => prepareChallenge(),
     onSuccess: () => {
       toast({
         title: "Message Sent!",
         description: "Thank you for reaching out. I'll get back to you within 24-48 hours.",
       });
       form.reset();
+      if (artworkSlug) {
+        setLocation("/contact", { replace: true });
+      }
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to send message. Please try again or email directly.",
+        description: error.message.startsWith("429")
+          ? "Too many messages have been sent. Please try again later or email directly."
+          : "Failed to send message. Please try again or email directly.",
         variant: "destructive",
       });
     },
@@ -87,6 +137,38 @@ export default function Contact() {
           <div>
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {artwork && (
+                  <Card className="p-3 flex items-center gap-4 border-card-border" data-testid="card-inquiry-artwork">
+                    <div className="w-16 h-16 flex-shrink-0 rounded-md overflow-hidden bg-muted">
+                      {artwork.images.length > 0 && (
+                        <OptimizedImage
+                          src={(artwork.images.find((img) => img.isPrimary) || artwork.images[0]).url}
+                          alt={artwork.title}
+                          size="thumbnail"
+                          className="w-full h-full object-cover"
+                        />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-muted-foreground">Your message is about</p>
+                      <Link href={`/artwork/${artwork.slug}`} className="font-semibold truncate block hover:text-primary" data-testid="link-inquiry-artwork">
+                        {artwork.title}
+                      </Link>
+                      <p className="text-sm text-muted-foreground truncate">{artwork.medium}</p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={clearArtwork}
+                      aria-label="Remove artwork from inquiry"
+                      data-testid="button-remove-artwork"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </Card>
+                )}
+
                 <FormField
                   control={form.control}
                   name="name"
@@ -130,7 +212,7 @@ export default function Contact() {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Inquiry Type *</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <Select onValueChange={field.onChange} value={field.value}>
                         <FormControl>
                           <SelectTrigger data-testid="select-inquiry-type">
                             <SelectValue placeholder="Select inquiry type" />
@@ -186,6 +268,11 @@ export default function Contact() {
                   )}
                 />
 
+                <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+                  <label htmlFor="contact-website">Website</label>
+                  <input id="contact-website" name="website" type="text" tabIndex={-1} autoComplete="off" ref={honeypotRef} />
+                </div>
+
                 <Button
                   type="submit"
                   size="lg"
@@ -291,6 +378,9 @@ export default function Contact() {
                   <p>Final payment and secure shipping to your location</p>
                 </div>
               </div>
+              <Button className="w-full" asChild data-testid="button-commission-request">
+                <Link href="/commission">Start a Commission Request</Link>
+              </Button>
             </Card>
 
             <div className="flex gap-4">
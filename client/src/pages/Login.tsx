@@ -1,56 +1,173 @@
-import { useState } from "react";
-import { useLocation } from "wouter";
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import type { SetupStatus } from "@shared/schema";
 
 export default function Login() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // Set once the password is accepted for an account with 2FA on
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { data: setupStatus } = useQuery<SetupStatus>({
+    queryKey: ["/api/setup"],
+  });
+
+  // There's no one to log in as until first-run setup has created an admin
+  useEffect(() => {
+    if (setupStatus?.required) {
+      setLocation("/setup");
+    }
+  }, [setupStatus?.required]);
+
+  const postLogin = async (url: string, body: object) => {
+    const response = await fetch(url, {
+      method: "POST",
+      body: JSON.stringify(body),
+      headers: {
+        "Content-Type": "application/json",
+      },
+      credentials: "include",
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Login failed");
+    }
+    return response.json();
+  };
+
+  const completeLogin = () => {
+    toast({
+      title: "Success",
+      description: "Logged in successfully",
+    });
+
+    // Redirect to admin dashboard
+    window.location.href = "/admin";
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      const response = await fetch("/api/login", {
-        method: "POST",
-        body: JSON.stringify({ email, password }),
-        headers: {
-          "Content-Type": "application/json",
-        },
-        credentials: "include",
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Login failed");
+      const result = await postLogin("/api/login", { email, password });
+      if (result.twoFactorRequired) {
+        setTwoFactorRequired(true);
+        return;
       }
-
+      completeLogin();
+    } catch (error: any) {
       toast({
-        title: "Success",
-        description: "Logged in successfully",
+        variant: "destructive",
+        title: "Login Failed",
+        description: error.message || "Invalid email or password",
       });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
 
-      // Redirect to admin dashboard
-      window.location.href = "/admin";
+    try {
+      await postLogin("/api/login/2fa", { code });
+      completeLogin();
     } catch (error: any) {
+      setCode("");
+      // The pending sign-in is gone after too many tries or when it expires
+      if (error.message?.includes("log in again")) {
+        setTwoFactorRequired(false);
+        setPassword("");
+      }
       toast({
         variant: "destructive",
         title: "Login Failed",
-        description: error.message || "Invalid email or password",
+        description: error.message || "Invalid authentication code",
       });
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (twoFactorRequired) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-2xl font-serif">Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? "Enter one of the recovery codes you saved when you set up two-factor authentication"
+                : "Enter the 6-digit code from your authenticator app"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCodeSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code" data-testid="label-code">
+                  {useRecoveryCode ? "Recovery Code" : "Authentication Code"}
+                </Label>
+                <Input
+                  id="code"
+                  inputMode={useRecoveryCode ? "text" : "numeric"}
+                  autoComplete="one-time-code"
+                  placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  autoFocus
+                  disabled={isLoading}
+                  data-testid="input-code"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading}
+                data-testid="button-verify-code"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  "Verify"
+                )}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode("");
+                }}
+                data-testid="button-toggle-recovery-code"
+              >
+                {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -76,7 +193,12 @@ export default function Login() {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password" data-testid="label-password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password" data-testid="label-password">Password</Label>
+                <Link href="/forgot-password" className="text-sm text-muted-foreground hover:underline" data-testid="link-forgot-password">
+                  Forgot password?
+                </Link>
+              </div>
               <Input
                 id="password"
                 type="password"
@@ -0,0 +1,134 @@
+import { useQuery } from "@tanstack/react-query";
+import { useRoute, Link } from "wouter";
+import { CheckCircle, Clock, RotateCcw, Truck, XCircle } from "lucide-react";
+import { SEO } from "@/components/SEO";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { formatMoney, orderItemName, type Order, type OrderStatus } from "@shared/schema";
+
+const statusDetails: Record<OrderStatus, { icon: typeof Clock; heading: string; message: string }> = {
+  pending: {
+    icon: Clock,
+    heading: "Awaiting payment",
+    message: "Your order is placed and the artwork is reserved for you until payment arrives.",
+  },
+  paid: {
+    icon: CheckCircle,
+    heading: "Paid, thank you!",
+    message: "Payment has been received. You'll hear from us when your artwork ships.",
+  },
+  shipped: {
+    icon: Truck,
+    heading: "On its way",
+    message: "Your artwork has shipped.",
+  },
+  refunded: {
+    icon: RotateCcw,
+    heading: "Refunded",
+    message: "This order has been refunded.",
+  },
+  cancelled: {
+    icon: XCircle,
+    heading: "Cancelled",
+    message: "This order was cancelled and the artwork has been released.",
+  },
+  expired: {
+    icon: XCircle,
+    heading: "Reservation expired",
+    message: "Payment didn't arrive in time, so the artwork has been released.",
+  },
+};
+
+export default function OrderPage() {
+  const [, params] = useRoute("/order/:id");
+
+  const { data: order, isLoading } = useQuery<Order>({
+    queryKey: ["/api/orders", params?.id],
+    enabled: !!params?.id,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen pt-24 pb-16 px-4">
+        <div className="max-w-2xl mx-auto space-y-4">
+          <div className="h-12 bg-muted animate-pulse rounded-md" />
+          <div className="h-48 bg-muted animate-pulse rounded-md" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen pt-24 pb-16 px-4 text-center space-y-6">
+        <h1 className="font-serif text-4xl font-bold">Order not found</h1>
+        <Button asChild>
+          <Link href="/portfolio">Back to Portfolio</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const status = statusDetails[order.status];
+  const address = order.shippingAddress;
+
+  return (
+    <div className="min-h-screen pt-24 pb-16 px-4 sm:px-6 lg:px-8">
+      <SEO title={`Order ${order.number} | Quill Your Dream`} />
+      <div className="max-w-2xl mx-auto space-y-8">
+        <div className="text-center space-y-4">
+          <status.icon className="w-12 h-12 mx-auto text-primary" />
+          <h1 className="font-serif text-4xl lg:text-5xl font-bold" data-testid="text-order-status">{status.heading}</h1>
+          <p className="text-muted-foreground">
+            Order {order.number} · {status.message}
+          </p>
+        </div>
+
+        {order.status === "pending" && order.paymentInstructions && (
+          <Card className="p-6 border-card-border" data-testid="card-payment-instructions">
+            <h2 className="font-serif text-2xl font-semibold mb-4">How to pay</h2>
+            <p className="whitespace-pre-line">{order.paymentInstructions}</p>
+          </Card>
+        )}
+
+        {order.status === "shipped" && order.trackingNumber && (
+          <Card className="p-6 border-card-border" data-testid="card-tracking">
+            <h2 className="font-serif text-xl font-semibold mb-2">Tracking</h2>
+            <p>
+              {order.carrier && <span className="text-muted-foreground">{order.carrier}: </span>}
+              <span className="font-mono">{order.trackingNumber}</span>
+            </p>
+          </Card>
+        )}
+
+        <Card className="p-6 space-y-4 border-card-border">
+          {order.items.map((item) => (
+            <div key={`${item.artworkId}-${item.printId ?? "original"}`} className="flex justify-between gap-4">
+              <Link href={`/artwork/${item.slug}`} className="hover:text-primary">{orderItemName(item)}</Link>
+              <span className="font-medium">{formatMoney(item.price, order.currency)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between border-t pt-4 font-semibold">
+            <span>Total</span>
+            <span data-testid="text-order-total">{formatMoney(order.total, order.currency)}</span>
+          </div>
+        </Card>
+
+        <Card className="p-6 border-card-border">
+          <h2 className="font-serif text-xl font-semibold mb-2">Shipping to</h2>
+          <p className="text-muted-foreground">
+            {order.customer.name}<br />
+            {address.line1}<br />
+            {address.line2 && <>{address.line2}<br /></>}
+            {[address.city, address.region, address.postalCode].filter(Boolean).join(", ")}<br />
+            {address.country}
+          </p>
+        </Card>
+
+        <p className="text-center text-sm text-muted-foreground">
+          A confirmation has been sent to {order.customer.email}. Questions? <Link href="/contact" className="text-primary hover:underline">Get in touch</Link>.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,29 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Link, useLocation, useSearch } from "wouter";
+import { Search, ChevronLeft, ChevronRight, SlidersHorizontal, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { ArtworkCard } from "@/components/ArtworkCard";
 import { SEO } from "@/components/SEO";
 import { generateCollectionPageSchema, generateBreadcrumbSchema } from "@/lib/schema";
-import type { Artwork } from "@shared/schema";
+import { useUnits } from "@/hooks/use-units";
+import { useCurrency } from "@/hooks/use-currency";
+import { DEFAULT_DIMENSION_UNIT, artworkQuerySchema, convertLength, type ArtworkPage, type ArtworkQuery, type ArtworkSort } from "@shared/schema";
 
 const categories = [
   { value: "all", label: "All Works" },
@@ -13,17 +32,108 @@ const categories = [
   { value: "exhibition", label: "Exhibitions" },
 ];
 
+const statuses = [
+  { value: "all", label: "Any Status" },
+  { value: "available", label: "Available" },
+  { value: "reserved", label: "Reserved" },
+  { value: "sold", label: "Sold" },
+];
+
+const sortOptions: { value: ArtworkSort; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "oldest", label: "Oldest" },
+  { value: "price-asc", label: "Price: Low to High" },
+  { value: "price-desc", label: "Price: High to Low" },
+  { value: "size-asc", label: "Size: Small to Large" },
+  { value: "size-desc", label: "Size: Large to Small" },
+  { value: "title", label: "Title" },
+];
+
+// Range filters edited together in the "Filters" popover. Sizes are entered
+// in the visitor's unit, which travels with them in the query.
+const rangeFilters = [
+  { label: "Price", min: "minPrice", max: "maxPrice", size: false },
+  { label: "Width", min: "minWidth", max: "maxWidth", size: true },
+  { label: "Height", min: "minHeight", max: "maxHeight", size: true },
+] as const;
+
+type RangeKey = typeof rangeFilters[number]["min" | "max"];
+
+const PAGE_SIZE = 24;
+
+// The query string is the single source of truth for the view, so a shared
+// link reproduces it exactly. Unknown or invalid parameters are ignored.
+function parseQuery(search: string): ArtworkQuery {
+  const params = new URLSearchParams(search);
+  const query: Record<string, unknown> = {};
+
+  for (const [key, field] of Object.entries(artworkQuerySchema.shape)) {
+    const value = params.get(key);
+    if (key === "pageSize" || !value) continue;
+    const parsed = field.safeParse(value);
+    if (parsed.success) {
+      query[key] = parsed.data;
+    }
+  }
+
+  return artworkQuerySchema.parse(query);
+}
+
+function hasSizeRange(query: ArtworkQuery): boolean {
+  return rangeFilters.some((range) => range.size && (query[range.min] !== undefined || query[range.max] !== undefined));
+}
+
+// Serialise a query back to a path, leaving out defaults to keep links short
+function portfolioPath(query: ArtworkQuery): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === "" || key === "pageSize") continue;
+    if (key === "sort" && value === "newest") continue;
+    if (key === "page" && value === 1) continue;
+    if (key === "unit" && (value === DEFAULT_DIMENSION_UNIT || !hasSizeRange(query))) continue;
+    params.set(key, String(value));
+  }
+  const search = params.toString();
+  return search ? `/portfolio?${search}` : "/portfolio";
+}
+
 export default function Portfolio() {
-  const [selectedCategory, setSelectedCategory] = useState("all");
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+  const query = parseQuery(search);
 
-  const { data: artworks, isLoading } = useQuery<Artwork[]>({
-    queryKey: ["/api/artworks"],
-  });
+  // Filter changes start again from the first page
+  const updateQuery = (changes: Partial<ArtworkQuery>, replace = false) => {
+    setLocation(portfolioPath({ ...query, page: 1, ...changes }), { replace });
+  };
+
+  const [searchInput, setSearchInput] = useState(query.q ?? "");
+
+  // Follow the URL when it changes underneath the input (back/forward navigation)
+  useEffect(() => {
+    if (searchInput.trim() !== (query.q ?? "")) {
+      setSearchInput(query.q ?? "");
+    }
+  }, [query.q]);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const q = searchInput.trim();
+    if (q === (query.q ?? "")) return;
+    const timeout = setTimeout(() => updateQuery({ q: q || undefined }, true), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
-  const filteredArtworks = artworks?.filter((artwork) => {
-    if (selectedCategory === "all") return true;
-    return artwork.category === selectedCategory;
+  const { data, isLoading } = useQuery<ArtworkPage>({
+    queryKey: ["/api/artworks", { ...query, pageSize: PAGE_SIZE }],
+    placeholderData: keepPreviousData,
   });
+  const artworks = data?.artworks;
+
+  const activeRangeCount = rangeFilters.filter(
+    (range) => query[range.min] !== undefined || query[range.max] !== undefined,
+  ).length;
+  const hasFilters = portfolioPath({ ...query, page: 1 }) !== "/portfolio";
 
   const collectionSchema = artworks ? generateCollectionPageSchema(artworks) : null;
   const breadcrumbSchema = generateBreadcrumbSchema([
@@ -38,6 +148,7 @@ export default function Portfolio() {
       <SEO
         title="Portfolio | Quill Your Dream"
         description="Browse the complete collection of handcrafted paper quilling artworks by Shushan Aleksanyan. Original pieces, commissions, and exhibition works available."
+        url={`${window.location.origin}${portfolioPath(query)}`}
         schema={schemas}
       />
       <div className="max-w-[1600px] mx-auto">
@@ -50,12 +161,16 @@ export default function Portfolio() {
           </p>
         </div>
 
-        <div className="flex flex-wrap justify-center gap-3 mb-12">
+        <div className="flex flex-wrap justify-center gap-3 mb-6">
           {categories.map((category) => (
             <Button
               key={category.value}
-              variant={selectedCategory === category.value ? "default" : "outline"}
-              onClick={() => setSelectedCategory(category.value)}
+              variant={(query.category ?? "all") === category.value ? "default" : "outline"}
+              onClick={() =>
+                updateQuery({
+                  category: category.value === "all" ? undefined : category.value as ArtworkQuery["category"],
+                })
+              }
               data-testid={`button-filter-${category.value}`}
               className="min-w-[120px]"
             >
@@ -64,6 +179,62 @@ export default function Portfolio() {
           ))}
         </div>
 
+        <div className="flex flex-col sm:flex-row flex-wrap justify-center gap-3 mb-12">
+          <div className="relative sm:w-80">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Search title, description or medium"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="pl-9"
+              data-testid="input-search"
+            />
+          </div>
+          <Select
+            value={query.status ?? "all"}
+            onValueChange={(value) =>
+              updateQuery({ status: value === "all" ? undefined : value as ArtworkQuery["status"] })
+            }
+          >
+            <SelectTrigger className="sm:w-40" data-testid="select-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {statuses.map((status) => (
+                <SelectItem key={status.value} value={status.value}>
+                  {status.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <RangeFiltersPopover
+            query={query}
+            activeCount={activeRangeCount}
+            onApply={(ranges) => updateQuery(ranges)}
+          />
+          <Select value={query.sort} onValueChange={(value) => updateQuery({ sort: value as ArtworkSort })}>
+            <SelectTrigger className="sm:w-56" data-testid="select-sort">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sortOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {hasFilters && (
+            <Button variant="ghost" asChild data-testid="button-clear-filters">
+              <Link href="/portfolio">
+                <X className="mr-2 h-4 w-4" />
+                Clear
+              </Link>
+            </Button>
+          )}
+        </div>
+
         {isLoading ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
             {Array.from({ length: 8 }).map((_, i) => (
@@ -74,18 +245,146 @@ export default function Portfolio() {
               </div>
             ))}
           </div>
-        ) : filteredArtworks && filteredArtworks.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8" data-testid="grid-artworks">
-            {filteredArtworks.map((artwork) => (
-              <ArtworkCard key={artwork.id} artwork={artwork} />
-            ))}
+        ) : data && artworks && artworks.length > 0 ? (
+          <div className="space-y-12">
+            <p className="text-center text-sm text-muted-foreground" data-testid="text-result-count">
+              {data.total} {data.total === 1 ? "artwork" : "artworks"}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8" data-testid="grid-artworks">
+              {artworks.map((artwork) => (
+                <ArtworkCard key={artwork.id} artwork={artwork} />
+              ))}
+            </div>
+            {data.totalPages > 1 && (
+              <div className="flex items-center justify-center gap-4">
+                {query.page > 1 ? (
+                  <Button variant="outline" asChild data-testid="button-previous-page">
+                    <Link href={portfolioPath({ ...query, page: query.page - 1 })} onClick={() => window.scrollTo({ top: 0 })}>
+                      <ChevronLeft className="mr-2 h-4 w-4" />
+                      Previous
+                    </Link>
+                  </Button>
+                ) : (
+                  <Button variant="outline" disabled data-testid="button-previous-page">
+                    <ChevronLeft className="mr-2 h-4 w-4" />
+                    Previous
+                  </Button>
+                )}
+                <span className="text-sm text-muted-foreground" data-testid="text-page">
+                  Page {data.page} of {data.totalPages}
+                </span>
+                {query.page < data.totalPages ? (
+                  <Button variant="outline" asChild data-testid="button-next-page">
+                    <Link href={portfolioPath({ ...query, page: query.page + 1 })} onClick={() => window.scrollTo({ top: 0 })}>
+                      Next
+                      <ChevronRight className="ml-2 h-4 w-4" />
+                    </Link>
+                  </Button>
+                ) : (
+                  <Button variant="outline" disabled data-testid="button-next-page">
+                    Next
+                    <ChevronRight className="ml-2 h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
         ) : (
           <div className="text-center py-24">
-            <p className="text-muted-foreground text-lg">No artworks found in this category.</p>
+            <p className="text-muted-foreground text-lg">No artworks match your search.</p>
           </div>
         )}
       </div>
     </div>
   );
 }
+
+interface RangeFiltersPopoverProps {
+  query: ArtworkQuery;
+  activeCount: number;
+  onApply: (ranges: Partial<ArtworkQuery>) => void;
+}
+
+// Price and size ranges are edited as a draft and applied together,
+// so typing a number doesn't refetch on every keystroke
+function RangeFiltersPopover({ query, activeCount, onApply }: RangeFiltersPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Partial<Record<RangeKey, string>>>({});
+  const { unit } = useUnits();
+  // Prices are filtered in the site currency, whatever the visitor displays
+  const { siteCurrency } = useCurrency();
+
+  const openPopover = (next: boolean) => {
+    if (next) {
+      const values: Partial<Record<RangeKey, string>> = {};
+      for (const range of rangeFilters) {
+        for (const key of [range.min, range.max]) {
+          const value = query[key];
+          values[key] = value === undefined
+            ? ""
+            : String(range.size ? Math.round(convertLength(value, query.unit, unit) * 10) / 10 : value);
+        }
+      }
+      setDraft(values);
+    }
+    setOpen(next);
+  };
+
+  const apply = (values: Partial<Record<RangeKey, string>>) => {
+    const ranges: Partial<ArtworkQuery> = { unit };
+    for (const range of rangeFilters) {
+      for (const key of [range.min, range.max]) {
+        const value = Number(values[key]);
+        ranges[key] = values[key] && Number.isFinite(value) && value >= 0 ? value : undefined;
+      }
+    }
+    onApply(ranges);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={openPopover}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" data-testid="button-range-filters">
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Filters
+          {activeCount > 0 && <Badge variant="secondary" className="ml-2">{activeCount}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4">
+        {rangeFilters.map((range) => (
+          <div key={range.min} className="space-y-2">
+            <Label>{`${range.label} (${range.size ? unit : siteCurrency})`}</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                placeholder="Min"
+                value={draft[range.min] ?? ""}
+                onChange={(e) => setDraft({ ...draft, [range.min]: e.target.value })}
+                data-testid={`input-${range.min}`}
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="number"
+                min={0}
+                placeholder="Max"
+                value={draft[range.max] ?? ""}
+                onChange={(e) => setDraft({ ...draft, [range.max]: e.target.value })}
+                data-testid={`input-${range.max}`}
+              />
+            </div>
+          </div>
+        ))}
+        <div className="flex justify-between pt-2">
+          <Button variant="ghost" size="sm" onClick={() => apply({})} data-testid="button-reset-ranges">
+            Reset
+          </Button>
+          <Button size="sm" onClick={() => apply(draft)} data-testid="button-apply-ranges">
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import type { PasswordTokenInfo } from "@shared/schema";
+
+// Landing page for both password reset and invitation links
+export default function SetPassword() {
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [done, setDone] = useState(false);
+  const { toast } = useToast();
+
+  const { data: link, isLoading, error } = useQuery<PasswordTokenInfo>({
+    queryKey: [`/api/auth/password-token?token=${encodeURIComponent(token)}`],
+    enabled: token !== "",
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Passwords don't match",
+      });
+      return;
+    }
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/auth/set-password", {
+        method: "POST",
+        body: JSON.stringify({ token, password }),
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to set password");
+      }
+
+      setDone(true);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to set password",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (done || !link || error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md" data-testid={done ? "card-password-set" : "card-link-invalid"}>
+          <CardHeader>
+            <CardTitle className="text-2xl font-serif">{done ? "Password Set" : "Link Expired"}</CardTitle>
+            <CardDescription>
+              {done
+                ? "Your password has been saved. You can now log in with it."
+                : "This link is invalid, has already been used or has expired. Ask for a new one."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Button asChild className="w-full" data-testid="link-login">
+              <Link href="/login">Go to Login</Link>
+            </Button>
+            {!done && (
+              <Button asChild variant="outline" className="w-full" data-testid="link-forgot-password">
+                <Link href="/forgot-password">Request a new reset link</Link>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl font-serif">
+            {link.purpose === "invite" ? "Accept Invitation" : "Choose a New Password"}
+          </CardTitle>
+          <CardDescription data-testid="text-link-email">
+            {link.purpose === "invite"
+              ? `Choose a password to activate ${link.email}`
+              : `Setting a new password for ${link.email}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="new-password"
+                placeholder="Minimum 8 characters"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                minLength={8}
+                disabled={isSaving}
+                data-testid="input-new-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={isSaving}
+                data-testid="input-confirm-password"
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isSaving} data-testid="button-set-password">
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Set Password"
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
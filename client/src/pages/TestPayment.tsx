@@ -0,0 +1,81 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useRoute, useLocation } from "wouter";
+import { FlaskConical } from "lucide-react";
+import { SEO } from "@/components/SEO";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatMoney, type Order } from "@shared/schema";
+
+// Hosted payment page of the fake provider: stands in for a card checkout so
+// the redirect and webhook flow can be tried locally
+export default function TestPayment() {
+  const [, params] = useRoute("/checkout/test-payment/:id");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: order } = useQuery<Order>({
+    queryKey: ["/api/orders", params?.id],
+    enabled: !!params?.id,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (outcome: "paid" | "failed") =>
+      apiRequest("POST", "/api/payments/fake/webhook", { reference: order!.paymentReference, outcome }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", order!.id] });
+      setLocation(`/order/${order!.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen pt-24 pb-16 px-4">
+      <SEO title="Test Payment | Quill Your Dream" />
+      <Card className="max-w-md mx-auto p-8 space-y-6 text-center border-card-border">
+        <FlaskConical className="w-10 h-10 mx-auto text-primary" />
+        <h1 className="font-serif text-3xl font-bold">Test Payment</h1>
+        <p className="text-muted-foreground">
+          This simulates a card payment page. No money is taken.
+        </p>
+        {order && (
+          <>
+            <p className="text-2xl font-semibold" data-testid="text-payment-amount">
+              {order.number} · {formatMoney(order.total, order.currency)}
+            </p>
+            {order.status === "pending" ? (
+              <div className="flex gap-4">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => mutation.mutate("failed")}
+                  disabled={mutation.isPending}
+                  data-testid="button-decline"
+                >
+                  Decline
+                </Button>
+                <Button
+                  className="flex-1"
+                  onClick={() => mutation.mutate("paid")}
+                  disabled={mutation.isPending}
+                  data-testid="button-pay"
+                >
+                  Pay
+                </Button>
+              </div>
+            ) : (
+              <Button onClick={() => setLocation(`/order/${order.id}`)}>View Order</Button>
+            )}
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -26,7 +26,7 @@ export default function AdminArtistInfo() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: number; data: Partial<InsertArtistInfo> }) =>
+    mutationFn: ({ id, data }: { id: string; data: Partial<InsertArtistInfo> }) =>
       apiRequest("PATCH", `/api/admin/artist/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/artist"] });
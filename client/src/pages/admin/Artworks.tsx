@@ -1,8 +1,9 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import { Link } from "wouter";
+import { useFieldArray, useForm, useWatch, type Control } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Plus, Pencil, Trash2, Star } from "lucide-react";
+import { Plus, Pencil, Trash2, Star, Mail, Receipt, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -41,8 +42,11 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useCurrency } from "@/hooks/use-currency";
+import { useUnits } from "@/hooks/use-units";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { insertArtworkSchema, type Artwork, type InsertArtwork } from "@shared/schema";
+import { currencies, insertArtworkSchema, printsRemaining, type Artwork, type ArtworkPage, type Currency, type DimensionUnit, type InsertArtwork, type Inquiry } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
 import { ImageUpload } from "@/components/ImageUpload";
 
@@ -51,10 +55,25 @@ export default function AdminArtworks() {
   const [editingArtwork, setEditingArtwork] = useState<Artwork | null>(null);
   const [deletingArtwork, setDeletingArtwork] = useState<Artwork | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("content.edit");
 
-  const { data: artworks, isLoading } = useQuery<Artwork[]>({
+  const { data: artworkPage, isLoading } = useQuery<ArtworkPage>({
     queryKey: ["/api/artworks"],
   });
+  const artworks = artworkPage?.artworks;
+
+  // Inquiries per artwork, leaving out quarantined spam
+  const { data: inquiries } = useQuery<Inquiry[]>({
+    queryKey: ["/api/admin/inquiries"],
+    enabled: can("inquiries.manage"),
+  });
+  const inquiryCounts = new Map<string, number>();
+  inquiries?.forEach((inquiry) => {
+    if (inquiry.artworkId && inquiry.status !== "spam") {
+      inquiryCounts.set(inquiry.artworkId, (inquiryCounts.get(inquiry.artworkId) ?? 0) + 1);
+    }
+  });
 
   const createMutation = useMutation({
     mutationFn: (data: InsertArtwork) =>
@@ -77,7 +96,7 @@ export default function AdminArtworks() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: number; data: Partial<InsertArtwork> }) =>
+    mutationFn: ({ id, data }: { id: string; data: Partial<InsertArtwork> }) =>
       apiRequest("PATCH", `/api/admin/artworks/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/artworks"] });
@@ -97,7 +116,7 @@ export default function AdminArtworks() {
   });
 
   const deleteMutation = useMutation({
-    mutationFn: (id: number) =>
+    mutationFn: (id: string) =>
       apiRequest("DELETE", `/api/admin/artworks/${id}`, undefined),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/artworks"] });
@@ -125,27 +144,29 @@ export default function AdminArtworks() {
             Add, edit, or remove artwork pieces from your portfolio
           </p>
         </div>
-        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-create-artwork">
-              <Plus className="w-4 h-4 mr-2" />
-              Add Artwork
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Add New Artwork</DialogTitle>
-              <DialogDescription>
-                Create a new piece for your portfolio
-              </DialogDescription>
-            </DialogHeader>
-            <ArtworkForm
-              onSubmit={(data) => createMutation.mutate(data)}
-              isPending={createMutation.isPending}
-              onCancel={() => setIsCreateOpen(false)}
-            />
-          </DialogContent>
-        </Dialog>
+        {canEdit && (
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-create-artwork">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Artwork
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Add New Artwork</DialogTitle>
+                <DialogDescription>
+                  Create a new piece for your portfolio
+                </DialogDescription>
+              </DialogHeader>
+              <ArtworkForm
+                onSubmit={(data) => createMutation.mutate(data)}
+                isPending={createMutation.isPending}
+                onCancel={() => setIsCreateOpen(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
 
       {isLoading ? (
@@ -185,74 +206,96 @@ export default function AdminArtworks() {
                     <Badge variant={artwork.status === "available" ? "default" : "outline"}>
                       {artwork.status}
                     </Badge>
+                    {inquiryCounts.has(artwork.id) && (
+                      <Link href={`/admin/inbox?artwork=${artwork.id}`} data-testid={`link-inquiries-${artwork.id}`}>
+                        <Badge variant="outline" className="hover-elevate">
+                          <Mail className="w-3 h-3 mr-1" />
+                          {inquiryCounts.get(artwork.id)} {inquiryCounts.get(artwork.id) === 1 ? "inquiry" : "inquiries"}
+                        </Badge>
+                      </Link>
+                    )}
                   </div>
                 </CardDescription>
               </CardHeader>
-              <CardFooter className="flex gap-2">
-                <Dialog
-                  open={editingArtwork?.id === artwork.id}
-                  onOpenChange={(open) => setEditingArtwork(open ? artwork : null)}
-                >
-                  <DialogTrigger asChild>
-                    <Button variant="outline" size="sm" data-testid={`button-edit-${artwork.id}`}>
-                      <Pencil className="w-4 h-4 mr-2" />
-                      Edit
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-                    <DialogHeader>
-                      <DialogTitle>Edit Artwork</DialogTitle>
-                      <DialogDescription>
-                        Update the details of {artwork.title}
-                      </DialogDescription>
-                    </DialogHeader>
-                    <ArtworkForm
-                      artwork={artwork}
-                      onSubmit={(data) =>
-                        updateMutation.mutate({ id: artwork.id!, data })
-                      }
-                      isPending={updateMutation.isPending}
-                      onCancel={() => setEditingArtwork(null)}
-                    />
-                  </DialogContent>
-                </Dialog>
-                <Dialog
-                  open={deletingArtwork?.id === artwork.id}
-                  onOpenChange={(open) => setDeletingArtwork(open ? artwork : null)}
-                >
-                  <DialogTrigger asChild>
-                    <Button variant="destructive" size="sm" data-testid={`button-delete-${artwork.id}`}>
-                      <Trash2 className="w-4 h-4 mr-2" />
-                      Delete
+              {(canEdit || can("invoices.manage")) && (
+                <CardFooter className="flex gap-2">
+                  {canEdit && (
+                    <Dialog
+                      open={editingArtwork?.id === artwork.id}
+                      onOpenChange={(open) => setEditingArtwork(open ? artwork : null)}
+                    >
+                      <DialogTrigger asChild>
+                        <Button variant="outline" size="sm" data-testid={`button-edit-${artwork.id}`}>
+                          <Pencil className="w-4 h-4 mr-2" />
+                          Edit
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                        <DialogHeader>
+                          <DialogTitle>Edit Artwork</DialogTitle>
+                          <DialogDescription>
+                            Update the details of {artwork.title}
+                          </DialogDescription>
+                        </DialogHeader>
+                        <ArtworkForm
+                          artwork={artwork}
+                          onSubmit={(data) =>
+                            updateMutation.mutate({ id: artwork.id, data })
+                          }
+                          isPending={updateMutation.isPending}
+                          onCancel={() => setEditingArtwork(null)}
+                        />
+                      </DialogContent>
+                    </Dialog>
+                  )}
+                  {can("invoices.manage") && (
+                    <Button variant="outline" size="sm" asChild data-testid={`button-invoice-${artwork.id}`}>
+                      <Link href={`/admin/invoices?new=invoice&artwork=${artwork.id}`}>
+                        <Receipt className="w-4 h-4 mr-2" />
+                        Invoice
+                      </Link>
                     </Button>
-                  </DialogTrigger>
-                  <DialogContent>
-                    <DialogHeader>
-                      <DialogTitle>Delete Artwork</DialogTitle>
-                      <DialogDescription>
-                        Are you sure you want to delete "{artwork.title}"? This action cannot be undone.
-                      </DialogDescription>
-                    </DialogHeader>
-                    <DialogFooter>
-                      <Button
-                        variant="outline"
-                        onClick={() => setDeletingArtwork(null)}
-                        data-testid="button-cancel-delete"
-                      >
-                        Cancel
-                      </Button>
-                      <Button
-                        variant="destructive"
-                        onClick={() => deleteMutation.mutate(artwork.id!)}
-                        disabled={deleteMutation.isPending}
-                        data-testid="button-confirm-delete"
-                      >
-                        {deleteMutation.isPending ? "Deleting..." : "Delete"}
-                      </Button>
-                    </DialogFooter>
-                  </DialogContent>
-                </Dialog>
-              </CardFooter>
+                  )}
+                  {canEdit && (
+                    <Dialog
+                      open={deletingArtwork?.id === artwork.id}
+                      onOpenChange={(open) => setDeletingArtwork(open ? artwork : null)}
+                    >
+                      <DialogTrigger asChild>
+                        <Button variant="destructive" size="sm" data-testid={`button-delete-${artwork.id}`}>
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>Delete Artwork</DialogTitle>
+                          <DialogDescription>
+                            Are you sure you want to delete "{artwork.title}"? This action cannot be undone.
+                          </DialogDescription>
+                        </DialogHeader>
+                        <DialogFooter>
+                          <Button
+                            variant="outline"
+                            onClick={() => setDeletingArtwork(null)}
+                            data-testid="button-cancel-delete"
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            onClick={() => deleteMutation.mutate(artwork.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid="button-confirm-delete"
+                          >
+                            {deleteMutation.isPending ? "Deleting..." : "Delete"}
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
+                  )}
+                </CardFooter>
+              )}
             </Card>
           ))}
         </div>
@@ -263,18 +306,23 @@ export default function AdminArtworks() {
 
 interface ArtworkFormProps {
   artwork?: Artwork;
+  defaults?: Partial<InsertArtwork>; // Prefill for a new artwork, e.g. from a commission
   onSubmit: (data: InsertArtwork) => void;
   isPending: boolean;
   onCancel: () => void;
 }
 
-function ArtworkForm({ artwork, onSubmit, isPending, onCancel }: ArtworkFormProps) {
+export function ArtworkForm({ artwork, defaults, onSubmit, isPending, onCancel }: ArtworkFormProps) {
+  const { siteCurrency } = useCurrency();
+  const { siteUnit } = useUnits();
   const form = useForm<InsertArtwork>({
     resolver: zodResolver(insertArtworkSchema),
     defaultValues: artwork ? {
       ...artwork,
       depth: artwork.depth || undefined,
       price: artwork.price || undefined,
+      prices: artwork.prices ?? [],
+      prints: artwork.prints ?? [],
     } : {
       title: "",
       slug: "",
@@ -285,14 +333,20 @@ function ArtworkForm({ artwork, onSubmit, isPending, onCancel }: ArtworkFormProp
       width: 0,
       height: 0,
       depth: undefined,
+      unit: siteUnit,
       price: undefined,
       status: "available",
       category: "original",
       images: [],
       featured: false,
+      prices: [],
+      prints: [],
+      ...defaults,
     },
   });
 
+  const unit = useWatch({ control: form.control, name: "unit" });
+
   const handleSubmit = (data: InsertArtwork) => {
     console.log("[ARTWORK FORM] Submitting data:", data);
     console.log("[ARTWORK FORM] Form errors:", form.formState.errors);
@@ -406,13 +460,35 @@ function ArtworkForm({ artwork, onSubmit, isPending, onCancel }: ArtworkFormProp
           />
         </div>
 
-        <div className="grid gap-4 md:grid-cols-4">
+        <div className="grid gap-4 md:grid-cols-5">
+          <FormField
+            control={form.control}
+            name="unit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Units</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-unit">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="in">Inches</SelectItem>
+                    <SelectItem value="cm">Centimetres</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormDescription>Print sizes too</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
           <FormField
             control={form.control}
             name="width"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Width (inches)</FormLabel>
+                <FormLabel>Width ({unit})</FormLabel>
                 <FormControl>
                   <Input
                     type="number"
@@ -430,7 +506,7 @@ function ArtworkForm({ artwork, onSubmit, isPending, onCancel }: ArtworkFormProp
             name="height"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Height (inches)</FormLabel>
+                <FormLabel>Height ({unit})</FormLabel>
                 <FormControl>
                   <Input
                     type="number"
@@ -448,7 +524,7 @@ function ArtworkForm({ artwork, onSubmit, isPending, onCancel }: ArtworkFormProp
             name="depth"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Depth (inches)</FormLabel>
+                <FormLabel>Depth ({unit})</FormLabel>
                 <FormControl>
                   <Input
                     type="number"
@@ -467,7 +543,7 @@ function ArtworkForm({ artwork, onSubmit, isPending, onCancel }: ArtworkFormProp
             name="price"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Price ($)</FormLabel>
+                <FormLabel>Price ({siteCurrency})</FormLabel>
                 <FormControl>
                   <Input
                     type="number"
@@ -520,6 +596,7 @@ function ArtworkForm({ artwork, onSubmit, isPending, onCancel }: ArtworkFormProp
                   </FormControl>
                   <SelectContent>
                     <SelectItem value="available">Available</SelectItem>
+                    <SelectItem value="reserved">Reserved</SelectItem>
                     <SelectItem value="sold">Sold</SelectItem>
                     <SelectItem value="exhibition">Exhibition</SelectItem>
                     <SelectItem value="private">Private</SelectItem>
@@ -573,6 +650,10 @@ function ArtworkForm({ artwork, onSubmit, isPending, onCancel }: ArtworkFormProp
           )}
         />
 
+        <FixedPriceFields control={form.control} siteCurrency={siteCurrency} />
+
+        <PrintFields control={form.control} stored={artwork?.prints ?? []} siteCurrency={siteCurrency} unit={unit} />
+
         <DialogFooter>
           <Button type="button" variant="outline" onClick={onCancel} data-testid="button-cancel">
             Cancel
@@ -585,3 +666,204 @@ function ArtworkForm({ artwork, onSubmit, isPending, onCancel }: ArtworkFormProp
     </Form>
   );
 }
+
+const printNumberFields = [
+  { name: "width", label: "Width", step: "0.1" },
+  { name: "height", label: "Height", step: "0.1" },
+  { name: "price", label: "Price", step: "0.01" },
+  { name: "editionSize", label: "Edition", step: "1" },
+  { name: "sold", label: "Sold", step: "1" },
+] as const;
+
+interface PrintFieldsProps {
+  control: Control<InsertArtwork>;
+  stored: NonNullable<Artwork["prints"]>; // As saved, for the counts held by pending orders
+  siteCurrency: Currency;
+  unit: DimensionUnit;
+}
+
+// Limited-edition prints offered alongside the original
+function PrintFields({ control, stored, siteCurrency, unit }: PrintFieldsProps) {
+  const { fields, append, remove } = useFieldArray({ control, name: "prints", keyName: "key" });
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="space-y-0.5">
+          <FormLabel className="text-base">Limited-Edition Prints</FormLabel>
+          <FormDescription>
+            Sizes and materials sold as prints, each with its own price and edition size
+          </FormDescription>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ width: 0, height: 0, material: "", price: 0, editionSize: 25, sold: 0 })}
+          data-testid="button-add-print"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Print
+        </Button>
+      </div>
+
+      {fields.map((field, index) => {
+        const saved = stored.find((print) => print.id === field.id);
+        return (
+          <div key={field.key} className="space-y-2 border-t pt-3" data-testid={`row-print-${index}`}>
+            <div className="flex items-end gap-2">
+              <FormField
+                control={control}
+                name={`prints.${index}.material`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>Material</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Giclée on cotton rag" {...field} data-testid={`input-print-material-${index}`} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => remove(index)}
+                aria-label="Remove print"
+                data-testid={`button-remove-print-${index}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="grid gap-2 grid-cols-5">
+              {printNumberFields.map(({ name, label, step }) => (
+                <FormField
+                  key={name}
+                  control={control}
+                  name={`prints.${index}.${name}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">{name === "price" ? `${label} (${siteCurrency})` : name === "width" || name === "height" ? `${label} (${unit})` : label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step={step}
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                          // Once saved, sales are counted by checkout
+                          readOnly={name === "sold" && !!saved}
+                          data-testid={`input-print-${name}-${index}`}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            {saved && (
+              <p className="text-xs text-muted-foreground">
+                {printsRemaining(saved)} remaining{saved.reserved > 0 && `, ${saved.reserved} held by pending orders`}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface FixedPriceFieldsProps {
+  control: Control<InsertArtwork>;
+  siteCurrency: Currency;
+}
+
+// Prices set by hand for visitors viewing other currencies, instead of a
+// converted estimate. Checkout still charges the price above.
+function FixedPriceFields({ control, siteCurrency }: FixedPriceFieldsProps) {
+  const { fields, append, remove } = useFieldArray({ control, name: "prices" });
+  const chosen = (useWatch({ control, name: "prices" }) ?? []).map((price) => price.currency);
+  const otherCurrencies = currencies.filter((code) => code !== siteCurrency);
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="space-y-0.5">
+          <FormLabel className="text-base">Prices in Other Currencies</FormLabel>
+          <FormDescription>
+            Shown to visitors browsing in that currency instead of an estimate from the exchange rates
+          </FormDescription>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={fields.length >= otherCurrencies.length}
+          onClick={() => append({ currency: otherCurrencies.find((code) => !chosen.includes(code))!, amount: 0 })}
+          data-testid="button-add-currency-price"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Price
+        </Button>
+      </div>
+
+      {fields.map((field, index) => (
+        <div key={field.id} className="flex items-start gap-2" data-testid={`row-currency-price-${index}`}>
+          <FormField
+            control={control}
+            name={`prices.${index}.currency`}
+            render={({ field }) => (
+              <FormItem className="w-28">
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger data-testid={`select-price-currency-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {/* Each currency once per artwork */}
+                    {otherCurrencies
+                      .filter((code) => code === field.value || !chosen.includes(code))
+                      .map((code) => (
+                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`prices.${index}.amount`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    {...field}
+                    onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    data-testid={`input-price-amount-${index}`}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => remove(index)}
+            aria-label="Remove price"
+            data-testid={`button-remove-currency-price-${index}`}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
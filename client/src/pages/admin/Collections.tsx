@@ -0,0 +1,538 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, Pencil, Trash2, GripVertical, X, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { slugify } from "@/lib/utils";
+import {
+  insertCollectionSchema,
+  type Artwork,
+  type ArtworkPage,
+  type Collection,
+  type InsertCollection,
+} from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+
+export default function AdminCollections() {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingCollection, setEditingCollection] = useState<Collection | null>(null);
+  const [deletingCollection, setDeletingCollection] = useState<Collection | null>(null);
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("content.edit");
+
+  const { data: collections, isLoading } = useQuery<Collection[]>({
+    queryKey: ["/api/collections"],
+  });
+
+  const { data: artworkPage } = useQuery<ArtworkPage>({
+    queryKey: ["/api/artworks"],
+  });
+  const artworks = artworkPage?.artworks;
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertCollection) =>
+      apiRequest("POST", "/api/admin/collections", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      setIsCreateOpen(false);
+      toast({
+        title: "Success",
+        description: "Collection created successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<InsertCollection> }) =>
+      apiRequest("PATCH", `/api/admin/collections/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      setEditingCollection(null);
+      toast({
+        title: "Success",
+        description: "Collection updated successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      apiRequest("DELETE", `/api/admin/collections/${id}`, undefined),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      setDeletingCollection(null);
+      toast({
+        title: "Success",
+        description: "Collection deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-playfair font-bold" data-testid="heading-collections">Manage Collections</h1>
+          <p className="text-muted-foreground mt-2">
+            Group artworks into series and choose the order they appear in
+          </p>
+        </div>
+        {canEdit && (
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-create-collection">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Collection
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Add New Collection</DialogTitle>
+                <DialogDescription>
+                  Create a new series of artworks
+                </DialogDescription>
+              </DialogHeader>
+              <CollectionForm
+                artworks={artworks || []}
+                onSubmit={(data) => createMutation.mutate(data)}
+                isPending={createMutation.isPending}
+                onCancel={() => setIsCreateOpen(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i}>
+              <div className="aspect-[4/3] bg-muted animate-pulse" />
+              <CardHeader>
+                <div className="h-4 bg-muted animate-pulse rounded w-3/4" />
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : collections && collections.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {collections.map((collection) => (
+            <Card key={collection.id} data-testid={`card-collection-${collection.id}`}>
+              <div className="aspect-[4/3] overflow-hidden bg-muted">
+                {collection.coverImage && (
+                  <img
+                    src={collection.coverImage}
+                    alt={collection.title}
+                    className="w-full h-full object-cover"
+                  />
+                )}
+              </div>
+              <CardHeader>
+                <CardTitle className="text-lg">{collection.title}</CardTitle>
+                <CardDescription>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    <Badge variant="secondary">
+                      {collection.artworkIds.length} {collection.artworkIds.length === 1 ? "artwork" : "artworks"}
+                    </Badge>
+                    <Badge variant="outline">/collections/{collection.slug}</Badge>
+                  </div>
+                </CardDescription>
+              </CardHeader>
+              {canEdit && (
+                <CardFooter className="flex gap-2">
+                  <Dialog
+                    open={editingCollection?.id === collection.id}
+                    onOpenChange={(open) => setEditingCollection(open ? collection : null)}
+                  >
+                    <DialogTrigger asChild>
+                      <Button variant="outline" size="sm" data-testid={`button-edit-${collection.id}`}>
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                      <DialogHeader>
+                        <DialogTitle>Edit Collection</DialogTitle>
+                        <DialogDescription>
+                          Update the details of {collection.title}
+                        </DialogDescription>
+                      </DialogHeader>
+                      <CollectionForm
+                        collection={collection}
+                        artworks={artworks || []}
+                        onSubmit={(data) =>
+                          updateMutation.mutate({ id: collection.id, data })
+                        }
+                        isPending={updateMutation.isPending}
+                        onCancel={() => setEditingCollection(null)}
+                      />
+                    </DialogContent>
+                  </Dialog>
+                  <Dialog
+                    open={deletingCollection?.id === collection.id}
+                    onOpenChange={(open) => setDeletingCollection(open ? collection : null)}
+                  >
+                    <DialogTrigger asChild>
+                      <Button variant="destructive" size="sm" data-testid={`button-delete-${collection.id}`}>
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Delete Collection</DialogTitle>
+                        <DialogDescription>
+                          Are you sure you want to delete "{collection.title}"? Its artworks are not deleted.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <DialogFooter>
+                        <Button
+                          variant="outline"
+                          onClick={() => setDeletingCollection(null)}
+                          data-testid="button-cancel-delete"
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          onClick={() => deleteMutation.mutate(collection.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid="button-confirm-delete"
+                        >
+                          {deleteMutation.isPending ? "Deleting..." : "Delete"}
+                        </Button>
+                      </DialogFooter>
+                    </DialogContent>
+                  </Dialog>
+                </CardFooter>
+              )}
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">No collections yet</CardTitle>
+            <CardDescription>Create a collection to group related artworks into a series.</CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function primaryImageUrl(artwork: Artwork): string | undefined {
+  return (artwork.images.find((img) => img.isPrimary) || artwork.images[0])?.url;
+}
+
+interface ArtworkOrderProps {
+  value: string[];
+  artworks: Artwork[];
+  onChange: (ids: string[]) => void;
+}
+
+// Ordered list of the collection's artworks; drag rows to reorder
+function ArtworkOrder({ value, artworks, onChange }: ArtworkOrderProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const byId = new Map(artworks.map((artwork) => [artwork.id, artwork]));
+  const available = artworks.filter((artwork) => !value.includes(artwork.id));
+
+  const moveTo = (target: number) => {
+    if (dragIndex === null || dragIndex === target) return;
+    const next = [...value];
+    const [moved] = next.splice(dragIndex, 1);
+    next.splice(target, 0, moved);
+    setDragIndex(target);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length > 0 ? (
+        <ul className="space-y-2" data-testid="list-collection-artworks">
+          {value.map((id, index) => {
+            const artwork = byId.get(id);
+            const image = artwork && primaryImageUrl(artwork);
+            return (
+              <li
+                key={id}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  moveTo(index);
+                }}
+                onDragEnd={() => setDragIndex(null)}
+                className={`flex items-center gap-3 rounded-md border p-2 bg-background ${
+                  dragIndex === index ? "opacity-50" : ""
+                }`}
+                data-testid={`item-collection-artwork-${id}`}
+              >
+                <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab" />
+                <div className="w-10 h-10 rounded overflow-hidden bg-muted shrink-0">
+                  {image && <img src={image} alt="" className="w-full h-full object-cover" />}
+                </div>
+                <span className="flex-1 text-sm truncate">{artwork?.title ?? id}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange(value.filter((other) => other !== id))}
+                  data-testid={`button-remove-artwork-${id}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No artworks in this collection yet.</p>
+      )}
+
+      {available.length > 0 && (
+        <Select value="" onValueChange={(id) => onChange([...value, id])}>
+          <SelectTrigger data-testid="select-add-artwork">
+            <SelectValue placeholder="Add an artwork..." />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((artwork) => (
+              <SelectItem key={artwork.id} value={artwork.id}>
+                {artwork.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+interface CollectionFormProps {
+  collection?: Collection;
+  artworks: Artwork[];
+  onSubmit: (data: InsertCollection) => void;
+  isPending: boolean;
+  onCancel: () => void;
+}
+
+function CollectionForm({ collection, artworks, onSubmit, isPending, onCancel }: CollectionFormProps) {
+  const form = useForm<InsertCollection>({
+    resolver: zodResolver(insertCollectionSchema),
+    defaultValues: collection ? {
+      title: collection.title,
+      slug: collection.slug,
+      description: collection.description,
+      artworkIds: collection.artworkIds,
+      coverImage: collection.coverImage,
+    } : {
+      title: "",
+      slug: "",
+      description: "",
+      artworkIds: [],
+      coverImage: "",
+    },
+  });
+
+  const artworkIds = form.watch("artworkIds");
+  const byId = new Map(artworks.map((artwork) => [artwork.id, artwork]));
+  const coverOptions = artworkIds
+    .map((id) => byId.get(id))
+    .flatMap((artwork) => artwork?.images.map((image) => ({ ...image, title: artwork.title })) ?? []);
+
+  const handleSubmit = (data: InsertCollection) => {
+    // Default the cover to the first artwork's primary image
+    const first = byId.get(data.artworkIds[0]);
+    const coverImage = data.coverImage || (first && primaryImageUrl(first)) || "";
+    onSubmit({ ...data, coverImage });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="Ocean Series"
+                  {...field}
+                  onChange={(e) => {
+                    field.onChange(e);
+                    if (!collection && !form.getFieldState("slug").isDirty) {
+                      form.setValue("slug", slugify(e.target.value));
+                    }
+                  }}
+                  data-testid="input-title"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="slug"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Slug</FormLabel>
+              <FormControl>
+                <Input placeholder="ocean-series" {...field} data-testid="input-slug" />
+              </FormControl>
+              <FormDescription>Used in the page address: /collections/{field.value || "slug"}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="What ties these pieces together?"
+                  rows={4}
+                  {...field}
+                  data-testid="input-description"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="artworkIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Artworks</FormLabel>
+              <FormDescription>Drag to change the order they appear in</FormDescription>
+              <ArtworkOrder
+                value={field.value}
+                artworks={artworks}
+                onChange={(ids) => {
+                  field.onChange(ids);
+                  const cover = form.getValues("coverImage");
+                  if (cover && !ids.some((id) => byId.get(id)?.images.some((image) => image.url === cover))) {
+                    form.setValue("coverImage", "");
+                  }
+                }}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {coverOptions.length > 0 && (
+          <FormField
+            control={form.control}
+            name="coverImage"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Cover Image</FormLabel>
+                <FormDescription>Defaults to the first artwork's primary image</FormDescription>
+                <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+                  {coverOptions.map((image) => (
+                    <button
+                      key={image.url}
+                      type="button"
+                      onClick={() => field.onChange(image.url)}
+                      className={`relative aspect-square rounded-md overflow-hidden bg-muted ${
+                        field.value === image.url ? "ring-2 ring-primary ring-offset-2" : "opacity-80 hover:opacity-100"
+                      }`}
+                      title={image.title}
+                      data-testid={`button-cover-${image.url}`}
+                    >
+                      <img src={image.url} alt={image.alt} className="w-full h-full object-cover" />
+                      {field.value === image.url && (
+                        <Check className="absolute top-1 right-1 w-4 h-4 text-primary-foreground bg-primary rounded-full p-0.5" />
+                      )}
+                    </button>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} data-testid="button-cancel">
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isPending} data-testid="button-submit">
+            {isPending ? "Saving..." : collection ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,515 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowRight, ImagePlus, Receipt, Reply, ShieldAlert, ShieldCheck, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { slugify } from "@/lib/utils";
+import { ArtworkForm } from "@/pages/admin/Artworks";
+import {
+  DEFAULT_CURRENCY,
+  DEFAULT_DIMENSION_UNIT,
+  commissionStages,
+  describeBudget,
+  formatDimensions,
+  type ArtworkPage,
+  type Commission,
+  type CommissionStage,
+  type InsertArtwork,
+  type UpdateCommission,
+} from "@shared/schema";
+
+type StoredCommission = Commission & { createdAt: string };
+
+const stageLabels: Record<CommissionStage, string> = {
+  new: "New",
+  quoted: "Quoted",
+  "deposit-paid": "Deposit Paid",
+  "in-progress": "In Progress",
+  shipped: "Shipped",
+  completed: "Completed",
+};
+
+function nextStage(stage: CommissionStage): CommissionStage | undefined {
+  return commissionStages[commissionStages.indexOf(stage) + 1];
+}
+
+function formatSize(commission: Commission): string {
+  return formatDimensions([commission.width, commission.height], commission.unit ?? DEFAULT_DIMENSION_UNIT);
+}
+
+function formatBudget(commission: Commission): string {
+  return describeBudget(commission) ?? "No budget given";
+}
+
+function referenceUrl(commission: Commission, file: string): string {
+  return `/api/admin/commissions/${commission.id}/references/${file}`;
+}
+
+function invalidateCommissions() {
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/commissions"] });
+}
+
+export default function AdminCommissions() {
+  const [showSpam, setShowSpam] = useState(false);
+  const [openCommission, setOpenCommission] = useState<StoredCommission | null>(null);
+  const [deletingCommission, setDeletingCommission] = useState<StoredCommission | null>(null);
+  const [promotingCommission, setPromotingCommission] = useState<StoredCommission | null>(null);
+  const { toast } = useToast();
+
+  const { data: commissions, isLoading } = useQuery<StoredCommission[]>({
+    queryKey: ["/api/admin/commissions", { spam: showSpam }],
+  });
+  const { data: artworkPage } = useQuery<ArtworkPage>({
+    queryKey: ["/api/artworks"],
+  });
+  const artworksById = new Map(artworkPage?.artworks.map((artwork) => [artwork.id, artwork]));
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateCommission }) => {
+      const res = await apiRequest("PATCH", `/api/admin/commissions/${id}`, data);
+      return await res.json() as StoredCommission;
+    },
+    onSuccess: (commission) => {
+      invalidateCommissions();
+      if (openCommission?.id === commission.id) {
+        // Released from spam: it now belongs to the other list
+        setOpenCommission(commission.spam === showSpam ? commission : null);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: InsertArtwork }) => {
+      const res = await apiRequest("POST", `/api/admin/commissions/${id}/promote`, data);
+      return await res.json() as { commission: StoredCommission };
+    },
+    onSuccess: ({ commission }) => {
+      invalidateCommissions();
+      queryClient.invalidateQueries({ queryKey: ["/api/artworks"] });
+      setPromotingCommission(null);
+      setOpenCommission(commission);
+      toast({
+        title: "Success",
+        description: "Commission added to the portfolio",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      apiRequest("DELETE", `/api/admin/commissions/${id}`, undefined),
+    onSuccess: () => {
+      invalidateCommissions();
+      setDeletingCommission(null);
+      setOpenCommission(null);
+      toast({
+        title: "Success",
+        description: "Commission deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-playfair font-bold" data-testid="heading-commissions">Commissions</h1>
+          <p className="text-muted-foreground mt-2">
+            Commission requests from quote to delivery
+          </p>
+        </div>
+        <Button
+          variant={showSpam ? "default" : "outline"}
+          onClick={() => setShowSpam(!showSpam)}
+          data-testid="button-toggle-spam"
+        >
+          <ShieldAlert className="w-4 h-4 mr-2" />
+          {showSpam ? "Back to Pipeline" : "Spam"}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-3 xl:grid-cols-6">
+          {commissionStages.map((stage) => (
+            <div key={stage} className="h-40 bg-muted animate-pulse rounded-md" />
+          ))}
+        </div>
+      ) : showSpam ? (
+        commissions && commissions.length > 0 ? (
+          <div className="space-y-3">
+            {commissions.map((commission) => (
+              <CommissionCard key={commission.id} commission={commission} onOpen={() => setOpenCommission(commission)} />
+            ))}
+          </div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">No quarantined requests</CardTitle>
+              <CardDescription>Commission requests flagged as spam appear here.</CardDescription>
+            </CardHeader>
+          </Card>
+        )
+      ) : (
+        <div className="grid gap-4 md:grid-cols-3 xl:grid-cols-6">
+          {commissionStages.map((stage) => {
+            const inStage = commissions?.filter((commission) => commission.stage === stage) ?? [];
+            return (
+              <div key={stage} className="space-y-3" data-testid={`column-${stage}`}>
+                <div className="flex items-center justify-between">
+                  <h2 className="font-semibold text-sm">{stageLabels[stage]}</h2>
+                  <Badge variant="secondary">{inStage.length}</Badge>
+                </div>
+                {inStage.map((commission) => (
+                  <CommissionCard key={commission.id} commission={commission} onOpen={() => setOpenCommission(commission)} />
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={!!openCommission} onOpenChange={(isOpen) => !isOpen && setOpenCommission(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {openCommission && (
+            <CommissionDetail
+              key={openCommission.id}
+              commission={openCommission}
+              artworkSlug={openCommission.artworkId ? artworksById.get(openCommission.artworkId)?.slug : undefined}
+              isPending={updateMutation.isPending}
+              onUpdate={(data) => updateMutation.mutate({ id: openCommission.id, data })}
+              onPromote={() => setPromotingCommission(openCommission)}
+              onDelete={() => setDeletingCommission(openCommission)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!promotingCommission} onOpenChange={(isOpen) => !isOpen && setPromotingCommission(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add to Portfolio</DialogTitle>
+            <DialogDescription>
+              Create an artwork in the commission category from this request. Add photos of the finished piece.
+            </DialogDescription>
+          </DialogHeader>
+          {promotingCommission && (
+            <ArtworkForm
+              defaults={{
+                title: promotingCommission.subject,
+                slug: slugify(promotingCommission.subject),
+                description: promotingCommission.description,
+                width: promotingCommission.width,
+                height: promotingCommission.height,
+                unit: promotingCommission.unit ?? DEFAULT_DIMENSION_UNIT,
+                status: "private",
+                category: "commission",
+              }}
+              onSubmit={(data) => promoteMutation.mutate({ id: promotingCommission.id, data })}
+              isPending={promoteMutation.isPending}
+              onCancel={() => setPromotingCommission(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deletingCommission} onOpenChange={(isOpen) => !isOpen && setDeletingCommission(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Commission</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete the request from {deletingCommission?.name} and its reference images? This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeletingCommission(null)}
+              data-testid="button-cancel-delete"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deletingCommission && deleteMutation.mutate(deletingCommission.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function CommissionCard({ commission, onOpen }: { commission: StoredCommission; onOpen: () => void }) {
+  return (
+    <Card
+      className="cursor-pointer hover-elevate"
+      onClick={onOpen}
+      data-testid={`card-commission-${commission.id}`}
+    >
+      <CardHeader className="p-4 space-y-1">
+        <CardTitle className="text-sm">{commission.subject}</CardTitle>
+        <CardDescription className="text-xs space-y-1">
+          <span className="block">{commission.name}</span>
+          <span className="block">{formatSize(commission)} · {formatBudget(commission)}</span>
+          {commission.deadline && <span className="block">Needed by {commission.deadline}</span>}
+          <span className="block">Received {new Date(commission.createdAt).toLocaleDateString()}</span>
+        </CardDescription>
+        {commission.palette.length > 0 && (
+          <div className="flex gap-1 pt-1">
+            {commission.palette.map((color, index) => (
+              <span key={index} className="w-4 h-4 rounded-full border" style={{ backgroundColor: color }} />
+            ))}
+          </div>
+        )}
+      </CardHeader>
+    </Card>
+  );
+}
+
+interface CommissionDetailProps {
+  commission: StoredCommission;
+  artworkSlug?: string;
+  isPending: boolean;
+  onUpdate: (data: UpdateCommission) => void;
+  onPromote: () => void;
+  onDelete: () => void;
+}
+
+function CommissionDetail({ commission, artworkSlug, isPending, onUpdate, onPromote, onDelete }: CommissionDetailProps) {
+  const { can } = useAuth();
+  const [notes, setNotes] = useState(commission.notes);
+  const [quote, setQuote] = useState(commission.quote?.toString() ?? "");
+  const replyLink = `mailto:${commission.email}?subject=${encodeURIComponent(`Re: ${commission.subject}`)}`;
+  const next = nextStage(commission.stage);
+  const quoteValue = quote === "" ? undefined : Number(quote);
+  // A quote can be changed but not removed once given
+  const hasChanges = notes !== commission.notes || (quoteValue !== undefined && quoteValue !== commission.quote);
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{commission.subject}</DialogTitle>
+        <DialogDescription>
+          From {commission.name} &lt;{commission.email}&gt; on {new Date(commission.createdAt).toLocaleString()}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-6">
+        {commission.spam && (
+          <div className="flex flex-wrap items-center justify-between gap-4 rounded-md border border-destructive/50 p-4" data-testid="panel-spam">
+            <div className="flex gap-3 text-sm">
+              <ShieldAlert className="w-5 h-5 text-destructive shrink-0" />
+              <div>
+                <p className="font-medium">Quarantined as suspected spam</p>
+                {commission.spamReasons && commission.spamReasons.length > 0 && (
+                  <p className="text-muted-foreground">{commission.spamReasons.join("; ")}</p>
+                )}
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => onUpdate({ spam: false })}
+              disabled={isPending}
+              data-testid="button-not-spam"
+            >
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Not Spam
+            </Button>
+          </div>
+        )}
+
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+          <dt className="text-muted-foreground">Size</dt>
+          <dd data-testid="text-size">{formatSize(commission)}</dd>
+          <dt className="text-muted-foreground">Budget</dt>
+          <dd data-testid="text-budget">{formatBudget(commission)}</dd>
+          <dt className="text-muted-foreground">Needed by</dt>
+          <dd>{commission.deadline || "Flexible"}</dd>
+          <dt className="text-muted-foreground">Palette</dt>
+          <dd className="flex flex-wrap gap-1">
+            {commission.palette.length > 0 ? commission.palette.map((color, index) => (
+              <span key={index} className="w-5 h-5 rounded-full border" style={{ backgroundColor: color }} title={color} />
+            )) : "Open"}
+          </dd>
+        </dl>
+
+        <p className="whitespace-pre-line text-sm" data-testid="text-description">{commission.description}</p>
+
+        {commission.references.length > 0 && (
+          <div className="space-y-2">
+            <Label>Reference Images</Label>
+            <div className="flex flex-wrap gap-3">
+              {commission.references.map((reference) => (
+                <a
+                  key={reference.file}
+                  href={referenceUrl(commission, reference.file)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="w-24 h-24 rounded-md overflow-hidden border"
+                  title={reference.name}
+                  data-testid={`link-reference-${reference.file}`}
+                >
+                  <img src={referenceUrl(commission, reference.file)} alt={reference.name} className="w-full h-full object-cover" />
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Stage</Label>
+            <Select
+              value={commission.stage}
+              onValueChange={(stage) => onUpdate({ stage: stage as CommissionStage })}
+            >
+              <SelectTrigger className="w-44" data-testid="select-commission-stage">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {commissionStages.map((stage) => (
+                  <SelectItem key={stage} value={stage}>
+                    {stageLabels[stage]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {next && (
+            <Button
+              variant="outline"
+              onClick={() => onUpdate({ stage: next })}
+              disabled={isPending}
+              data-testid="button-next-stage"
+            >
+              <ArrowRight className="w-4 h-4 mr-2" />
+              Move to {stageLabels[next]}
+            </Button>
+          )}
+          <Button variant="outline" asChild data-testid="button-reply">
+            <a href={replyLink}>
+              <Reply className="w-4 h-4 mr-2" />
+              Reply by Email
+            </a>
+          </Button>
+          {can("invoices.manage") && (
+            <Button variant="outline" asChild data-testid="button-create-quote">
+              <Link href={`/admin/invoices?new=${commission.stage === "new" ? "quote" : "invoice"}&commission=${commission.id}`}>
+                <Receipt className="w-4 h-4 mr-2" />
+                {commission.stage === "new" ? "Create Quote" : "Create Invoice"}
+              </Link>
+            </Button>
+          )}
+        </div>
+
+        {commission.stage === "completed" && (
+          artworkSlug ? (
+            <p className="text-sm" data-testid="text-promoted">
+              In the portfolio as{" "}
+              <a href={`/artwork/${artworkSlug}`} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                /artwork/{artworkSlug}
+              </a>
+            </p>
+          ) : can("content.edit") && (
+            <Button onClick={onPromote} data-testid="button-promote">
+              <ImagePlus className="w-4 h-4 mr-2" />
+              Add to Portfolio
+            </Button>
+          )
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="commission-quote">Quote ({commission.currency ?? DEFAULT_CURRENCY})</Label>
+          <Input
+            id="commission-quote"
+            type="number"
+            min="0"
+            className="w-40"
+            value={quote}
+            onChange={(e) => setQuote(e.target.value)}
+            data-testid="input-quote"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="commission-notes">Notes</Label>
+          <Textarea
+            id="commission-notes"
+            placeholder="Private notes, e.g. materials, agreed changes or shipping details"
+            rows={4}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            data-testid="input-notes"
+          />
+        </div>
+      </div>
+
+      <DialogFooter className="gap-2">
+        <Button variant="destructive" onClick={onDelete} data-testid="button-delete">
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete
+        </Button>
+        <Button
+          onClick={() => onUpdate({ notes, quote: quoteValue })}
+          disabled={isPending || !hasChanges}
+          data-testid="button-save"
+        >
+          {isPending ? "Saving..." : "Save"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
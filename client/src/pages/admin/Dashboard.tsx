@@ -1,18 +1,27 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { FileImage, HelpCircle, Eye, Star } from "lucide-react";
-import type { Artwork, Faq } from "@shared/schema";
+import type { ArtworkPage, FAQ } from "@shared/schema";
 import { RebuildButton } from "@/components/RebuildButton";
+import { useAuth } from "@/hooks/useAuth";
 
 export default function AdminDashboard() {
-  const { data: artworks, isLoading: artworksLoading } = useQuery<Artwork[]>({
+  const { can } = useAuth();
+  const { data: artworkPage, isLoading: artworksLoading } = useQuery<ArtworkPage>({
     queryKey: ["/api/artworks"],
   });
+  const artworks = artworkPage?.artworks;
 
-  const { data: faqs, isLoading: faqsLoading } = useQuery<Faq[]>({
+  const { data: faqs, isLoading: faqsLoading } = useQuery<FAQ[]>({
     queryKey: ["/api/faqs"],
   });
 
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/admin/inquiries/unread-count"],
+    enabled: can("inquiries.manage"),
+  });
+
   const stats = [
     {
       title: "Total Artworks",
@@ -82,32 +91,53 @@ export default function AdminDashboard() {
         </div>
       )}
 
-      <RebuildButton />
+      {can("site.manage") && <RebuildButton />}
 
       <div className="grid gap-6 md:grid-cols-2">
-        <Card>
-          <CardHeader>
-            <CardTitle>Quick Actions</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-2">
-            <a
-              href="/admin/artworks"
-              className="block p-3 rounded-md hover-elevate active-elevate-2 border"
-              data-testid="link-quick-manage-artworks"
-            >
-              <div className="font-medium">Manage Artworks</div>
-              <div className="text-sm text-muted-foreground">Add, edit, or remove artwork pieces</div>
-            </a>
-            <a
-              href="/admin/faqs"
-              className="block p-3 rounded-md hover-elevate active-elevate-2 border"
-              data-testid="link-quick-manage-faqs"
-            >
-              <div className="font-medium">Manage FAQs</div>
-              <div className="text-sm text-muted-foreground">Update frequently asked questions</div>
-            </a>
-          </CardContent>
-        </Card>
+        {(can("inquiries.manage") || can("content.edit")) && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Quick Actions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {can("inquiries.manage") && (
+                <a
+                  href="/admin/inbox"
+                  className="flex items-center justify-between p-3 rounded-md hover-elevate active-elevate-2 border"
+                  data-testid="link-quick-inbox"
+                >
+                  <div>
+                    <div className="font-medium">Inbox</div>
+                    <div className="text-sm text-muted-foreground">Read and reply to contact inquiries</div>
+                  </div>
+                  {!!unread?.count && (
+                    <Badge data-testid="badge-unread-inquiries">{unread.count} unread</Badge>
+                  )}
+                </a>
+              )}
+              {can("content.edit") && (
+                <>
+                  <a
+                    href="/admin/artworks"
+                    className="block p-3 rounded-md hover-elevate active-elevate-2 border"
+                    data-testid="link-quick-manage-artworks"
+                  >
+                    <div className="font-medium">Manage Artworks</div>
+                    <div className="text-sm text-muted-foreground">Add, edit, or remove artwork pieces</div>
+                  </a>
+                  <a
+                    href="/admin/faqs"
+                    className="block p-3 rounded-md hover-elevate active-elevate-2 border"
+                    data-testid="link-quick-manage-faqs"
+                  >
+                    <div className="font-medium">Manage FAQs</div>
+                    <div className="text-sm text-muted-foreground">Update frequently asked questions</div>
+                  </a>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         <Card>
           <CardHeader>
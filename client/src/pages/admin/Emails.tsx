@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { EmailDelivery, EmailStatus } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+
+type StoredEmail = EmailDelivery & { createdAt: string };
+
+interface EmailLog {
+  transport: string;
+  emails: StoredEmail[];
+}
+
+const kindLabels: Record<string, string> = {
+  "inquiry-notification": "Inquiry notification",
+  "inquiry-acknowledgement": "Inquiry acknowledgement",
+  "commission-notification": "Commission notification",
+  "commission-acknowledgement": "Commission acknowledgement",
+  "order-notification": "Order notification",
+  "order-confirmation": "Order confirmation",
+  "order-shipped": "Order shipped",
+};
+
+const statusVariants: Record<EmailStatus, "default" | "secondary" | "destructive"> = {
+  sent: "secondary",
+  pending: "default",
+  failed: "destructive",
+};
+
+export default function AdminEmails() {
+  const [status, setStatus] = useState("all");
+  const [viewing, setViewing] = useState<StoredEmail | null>(null);
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<EmailLog>({
+    queryKey: ["/api/admin/emails", { status: status === "all" ? undefined : status }],
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/emails/${id}/retry`, undefined);
+      return await res.json() as StoredEmail;
+    },
+    onSuccess: (email) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/emails"] });
+      toast({
+        title: email.status === "sent" ? "Success" : "Error",
+        description: email.status === "sent"
+          ? "Email sent successfully"
+          : email.attempts[email.attempts.length - 1]?.error || "Email could not be sent",
+        variant: email.status === "sent" ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-playfair font-bold" data-testid="heading-emails">Email Log</h1>
+          <p className="text-muted-foreground mt-2">
+            Outgoing messages and every delivery attempt
+            {data && <> — sending via <span className="font-medium">{data.transport}</span></>}
+          </p>
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-36" data-testid="select-email-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="sent">Sent</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <div className="h-4 bg-muted animate-pulse rounded w-1/3" />
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : data && data.emails.length > 0 ? (
+        <div className="space-y-3">
+          {data.emails.map((email) => {
+            const lastAttempt = email.attempts[email.attempts.length - 1];
+            return (
+              <Card key={email.id} data-testid={`card-email-${email.id}`}>
+                <CardHeader className="pb-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <CardTitle
+                      className="text-base cursor-pointer hover:underline"
+                      onClick={() => setViewing(email)}
+                    >
+                      {email.subject}
+                    </CardTitle>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{kindLabels[email.kind] || email.kind}</Badge>
+                      <Badge variant={statusVariants[email.status]}>{email.status}</Badge>
+                    </div>
+                  </div>
+                  <CardDescription>
+                    To {email.to} · queued {new Date(email.createdAt).toLocaleString()} · {email.attempts.length} {email.attempts.length === 1 ? "attempt" : "attempts"}
+                    {email.status === "pending" && email.nextAttemptAt && email.attempts.length > 0 &&
+                      ` · next retry ${new Date(email.nextAttemptAt).toLocaleString()}`}
+                  </CardDescription>
+                </CardHeader>
+                {(lastAttempt?.error || email.status !== "sent") && (
+                  <CardContent className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-sm text-destructive">{lastAttempt?.error}</p>
+                    {email.status !== "sent" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => retryMutation.mutate(email.id)}
+                        disabled={retryMutation.isPending}
+                        data-testid={`button-retry-${email.id}`}
+                      >
+                        <RefreshCw className="w-4 h-4 mr-2" />
+                        Retry Now
+                      </Button>
+                    )}
+                  </CardContent>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">No emails</CardTitle>
+            <CardDescription>Messages appear here once the contact form has been used.</CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {viewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{viewing.subject}</DialogTitle>
+                <DialogDescription>
+                  To {viewing.to}{viewing.replyTo && `, reply to ${viewing.replyTo}`}
+                </DialogDescription>
+              </DialogHeader>
+              <pre className="whitespace-pre-wrap text-sm bg-muted p-4 rounded-md font-sans" data-testid="text-email-body">
+                {viewing.text}
+              </pre>
+              <div className="space-y-2">
+                <h3 className="font-medium text-sm">Delivery attempts</h3>
+                {viewing.attempts.length > 0 ? (
+                  <ul className="space-y-1 text-sm">
+                    {viewing.attempts.map((attempt, index) => (
+                      <li key={index} className="flex flex-wrap gap-2">
+                        <span className="text-muted-foreground">{new Date(attempt.at).toLocaleString()}</span>
+                        <span>via {attempt.transport}</span>
+                        <span className={attempt.error ? "text-destructive" : ""}>
+                          {attempt.error || "delivered"}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Not attempted yet.</p>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
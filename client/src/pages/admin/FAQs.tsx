@@ -39,17 +39,20 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { insertFaqSchema, type Faq, type InsertFaq } from "@shared/schema";
+import { insertFaqSchema, type FAQ, type InsertFaq } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
 
 export default function AdminFAQs() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
-  const [editingFaq, setEditingFaq] = useState<Faq | null>(null);
-  const [deletingFaq, setDeletingFaq] = useState<Faq | null>(null);
+  const [editingFaq, setEditingFaq] = useState<FAQ | null>(null);
+  const [deletingFaq, setDeletingFaq] = useState<FAQ | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("content.edit");
 
-  const { data: faqs, isLoading } = useQuery<Faq[]>({
+  const { data: faqs, isLoading } = useQuery<FAQ[]>({
     queryKey: ["/api/faqs"],
   });
 
@@ -74,7 +77,7 @@ export default function AdminFAQs() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: number; data: Partial<InsertFaq> }) =>
+    mutationFn: ({ id, data }: { id: string; data: Partial<InsertFaq> }) =>
       apiRequest("PATCH", `/api/admin/faqs/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/faqs"] });
@@ -94,7 +97,7 @@ export default function AdminFAQs() {
   });
 
   const deleteMutation = useMutation({
-    mutationFn: (id: number) =>
+    mutationFn: (id: string) =>
       apiRequest("DELETE", `/api/admin/faqs/${id}`, undefined),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/faqs"] });
@@ -119,7 +122,7 @@ export default function AdminFAQs() {
     }
     acc[faq.category].push(faq);
     return acc;
-  }, {} as Record<string, Faq[]>);
+  }, {} as Record<string, FAQ[]>);
 
   return (
     <div className="space-y-6">
@@ -130,27 +133,29 @@ export default function AdminFAQs() {
             Add, edit, or remove frequently asked questions
           </p>
         </div>
-        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-create-faq">
-              <Plus className="w-4 h-4 mr-2" />
-              Add FAQ
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>Add New FAQ</DialogTitle>
-              <DialogDescription>
-                Create a new frequently asked question
-              </DialogDescription>
-            </DialogHeader>
-            <FAQForm
-              onSubmit={(data) => createMutation.mutate(data)}
-              isPending={createMutation.isPending}
-              onCancel={() => setIsCreateOpen(false)}
-            />
-          </DialogContent>
-        </Dialog>
+        {canEdit && (
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-create-faq">
+                <Plus className="w-4 h-4 mr-2" />
+                Add FAQ
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Add New FAQ</DialogTitle>
+                <DialogDescription>
+                  Create a new frequently asked question
+                </DialogDescription>
+              </DialogHeader>
+              <FAQForm
+                onSubmit={(data) => createMutation.mutate(data)}
+                isPending={createMutation.isPending}
+                onCancel={() => setIsCreateOpen(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
 
       {isLoading ? (
@@ -184,71 +189,73 @@ export default function AdminFAQs() {
                         <Badge variant="secondary">{faq.category}</Badge>
                       </div>
                     </CardHeader>
-                    <CardFooter className="flex gap-2">
-                      <Dialog
-                        open={editingFaq?.id === faq.id}
-                        onOpenChange={(open) => setEditingFaq(open ? faq : null)}
-                      >
-                        <DialogTrigger asChild>
-                          <Button variant="outline" size="sm" data-testid={`button-edit-${faq.id}`}>
-                            <Pencil className="w-4 h-4 mr-2" />
-                            Edit
-                          </Button>
-                        </DialogTrigger>
-                        <DialogContent className="max-w-2xl">
-                          <DialogHeader>
-                            <DialogTitle>Edit FAQ</DialogTitle>
-                            <DialogDescription>
-                              Update the FAQ details
-                            </DialogDescription>
-                          </DialogHeader>
-                          <FAQForm
-                            faq={faq}
-                            onSubmit={(data) =>
-                              updateMutation.mutate({ id: faq.id, data })
-                            }
-                            isPending={updateMutation.isPending}
-                            onCancel={() => setEditingFaq(null)}
-                          />
-                        </DialogContent>
-                      </Dialog>
-                      <Dialog
-                        open={deletingFaq?.id === faq.id}
-                        onOpenChange={(open) => setDeletingFaq(open ? faq : null)}
-                      >
-                        <DialogTrigger asChild>
-                          <Button variant="destructive" size="sm" data-testid={`button-delete-${faq.id}`}>
-                            <Trash2 className="w-4 h-4 mr-2" />
-                            Delete
-                          </Button>
-                        </DialogTrigger>
-                        <DialogContent>
-                          <DialogHeader>
-                            <DialogTitle>Delete FAQ</DialogTitle>
-                            <DialogDescription>
-                              Are you sure you want to delete this FAQ? This action cannot be undone.
-                            </DialogDescription>
-                          </DialogHeader>
-                          <DialogFooter>
-                            <Button
-                              variant="outline"
-                              onClick={() => setDeletingFaq(null)}
-                              data-testid="button-cancel-delete"
-                            >
-                              Cancel
+                    {canEdit && (
+                      <CardFooter className="flex gap-2">
+                        <Dialog
+                          open={editingFaq?.id === faq.id}
+                          onOpenChange={(open) => setEditingFaq(open ? faq : null)}
+                        >
+                          <DialogTrigger asChild>
+                            <Button variant="outline" size="sm" data-testid={`button-edit-${faq.id}`}>
+                              <Pencil className="w-4 h-4 mr-2" />
+                              Edit
                             </Button>
-                            <Button
-                              variant="destructive"
-                              onClick={() => deleteMutation.mutate(faq.id)}
-                              disabled={deleteMutation.isPending}
-                              data-testid="button-confirm-delete"
-                            >
-                              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+                          </DialogTrigger>
+                          <DialogContent className="max-w-2xl">
+                            <DialogHeader>
+                              <DialogTitle>Edit FAQ</DialogTitle>
+                              <DialogDescription>
+                                Update the FAQ details
+                              </DialogDescription>
+                            </DialogHeader>
+                            <FAQForm
+                              faq={faq}
+                              onSubmit={(data) =>
+                                updateMutation.mutate({ id: faq.id, data })
+                              }
+                              isPending={updateMutation.isPending}
+                              onCancel={() => setEditingFaq(null)}
+                            />
+                          </DialogContent>
+                        </Dialog>
+                        <Dialog
+                          open={deletingFaq?.id === faq.id}
+                          onOpenChange={(open) => setDeletingFaq(open ? faq : null)}
+                        >
+                          <DialogTrigger asChild>
+                            <Button variant="destructive" size="sm" data-testid={`button-delete-${faq.id}`}>
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Delete
                             </Button>
-                          </DialogFooter>
-                        </DialogContent>
-                      </Dialog>
-                    </CardFooter>
+                          </DialogTrigger>
+                          <DialogContent>
+                            <DialogHeader>
+                              <DialogTitle>Delete FAQ</DialogTitle>
+                              <DialogDescription>
+                                Are you sure you want to delete this FAQ? This action cannot be undone.
+                              </DialogDescription>
+                            </DialogHeader>
+                            <DialogFooter>
+                              <Button
+                                variant="outline"
+                                onClick={() => setDeletingFaq(null)}
+                                data-testid="button-cancel-delete"
+                              >
+                                Cancel
+                              </Button>
+                              <Button
+                                variant="destructive"
+                                onClick={() => deleteMutation.mutate(faq.id)}
+                                disabled={deleteMutation.isPending}
+                                data-testid="button-confirm-delete"
+                              >
+                                {deleteMutation.isPending ? "Deleting..." : "Delete"}
+                              </Button>
+                            </DialogFooter>
+                          </DialogContent>
+                        </Dialog>
+                      </CardFooter>
+                    )}
                   </Card>
                 ))}
               </div>
@@ -261,7 +268,7 @@ export default function AdminFAQs() {
 }
 
 interface FAQFormProps {
-  faq?: Faq;
+  faq?: FAQ;
   onSubmit: (data: InsertFaq) => void;
   isPending: boolean;
   onCancel: () => void;
@@ -0,0 +1,472 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { Archive, ExternalLink, Image, Mail, MailOpen, Receipt, Reply, ShieldAlert, ShieldCheck, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Artwork, ArtworkPage, Inquiry, InquiryStatus, UpdateInquiry } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+
+type StoredInquiry = Inquiry & { createdAt: string };
+
+const inquiryTypes = [
+  { value: "all", label: "All Types" },
+  { value: "commission", label: "Commission Artwork" },
+  { value: "purchase", label: "Purchase Existing Piece" },
+  { value: "exhibition", label: "Exhibition Inquiry" },
+  { value: "press", label: "Press & Media" },
+  { value: "other", label: "Other" },
+];
+
+// "open" hides archived and quarantined inquiries without asking the server for a specific status
+const statusFilters = [
+  { value: "open", label: "Open" },
+  { value: "new", label: "New" },
+  { value: "replied", label: "Replied" },
+  { value: "archived", label: "Archived" },
+  { value: "spam", label: "Spam" },
+  { value: "all", label: "All" },
+];
+
+const statusLabels: Record<InquiryStatus, string> = {
+  new: "New",
+  replied: "Replied",
+  archived: "Archived",
+  spam: "Spam",
+};
+
+function invalidateInquiries() {
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/inquiries"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/inquiries/unread-count"] });
+}
+
+export default function AdminInbox() {
+  // /admin/inbox?artwork=<artwork id> lists the inquiries about one piece
+  const artworkFilter = new URLSearchParams(useSearch()).get("artwork") ?? undefined;
+  const [inquiryType, setInquiryType] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [openInquiry, setOpenInquiry] = useState<StoredInquiry | null>(null);
+  const [deletingInquiry, setDeletingInquiry] = useState<StoredInquiry | null>(null);
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<StoredInquiry[]>({
+    queryKey: ["/api/admin/inquiries", {
+      inquiryType: inquiryType === "all" ? undefined : inquiryType,
+      status: statusFilter === "open" || statusFilter === "all" ? undefined : statusFilter,
+      artworkId: artworkFilter,
+    }],
+  });
+  const { data: artworkPage } = useQuery<ArtworkPage>({
+    queryKey: ["/api/artworks"],
+  });
+  const artworksById = new Map(artworkPage?.artworks.map((artwork) => [artwork.id, artwork]));
+  const filteredArtwork = artworkFilter ? artworksById.get(artworkFilter) : undefined;
+  const inquiries = statusFilter === "open"
+    ? data?.filter((inquiry) => inquiry.status !== "archived" && inquiry.status !== "spam")
+    : data;
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateInquiry }) => {
+      const res = await apiRequest("PATCH", `/api/admin/inquiries/${id}`, data);
+      return await res.json() as StoredInquiry;
+    },
+    onSuccess: (inquiry) => {
+      invalidateInquiries();
+      if (openInquiry?.id === inquiry.id) {
+        setOpenInquiry(inquiry);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      apiRequest("DELETE", `/api/admin/inquiries/${id}`, undefined),
+    onSuccess: () => {
+      invalidateInquiries();
+      setDeletingInquiry(null);
+      setOpenInquiry(null);
+      toast({
+        title: "Success",
+        description: "Inquiry deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const open = (inquiry: StoredInquiry) => {
+    setOpenInquiry(inquiry);
+    if (!inquiry.read) {
+      updateMutation.mutate({ id: inquiry.id, data: { read: true } });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-playfair font-bold" data-testid="heading-inbox">Inbox</h1>
+          <p className="text-muted-foreground mt-2">
+            Messages sent through the contact form
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={inquiryType} onValueChange={setInquiryType}>
+            <SelectTrigger className="w-52" data-testid="select-inquiry-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {inquiryTypes.map((type) => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-36" data-testid="select-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {statusFilters.map((status) => (
+                <SelectItem key={status.value} value={status.value}>
+                  {status.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {artworkFilter && (
+        <div className="flex items-center gap-2 text-sm" data-testid="filter-artwork">
+          <Image className="w-4 h-4 text-muted-foreground" />
+          <span>
+            Inquiries about <strong>{filteredArtwork?.title ?? "a deleted artwork"}</strong>
+          </span>
+          <Button variant="ghost" size="sm" asChild data-testid="button-clear-artwork-filter">
+            <Link href="/admin/inbox">
+              <X className="w-4 h-4 mr-1" />
+              Show all
+            </Link>
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <div className="h-4 bg-muted animate-pulse rounded w-1/3" />
+                <div className="h-3 bg-muted animate-pulse rounded w-2/3 mt-2" />
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : inquiries && inquiries.length > 0 ? (
+        <div className="space-y-3">
+          {inquiries.map((inquiry) => (
+            <Card
+              key={inquiry.id}
+              className={`cursor-pointer hover-elevate ${inquiry.read ? "" : "border-primary"}`}
+              onClick={() => open(inquiry)}
+              data-testid={`card-inquiry-${inquiry.id}`}
+            >
+              <CardHeader className="space-y-1">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <CardTitle className={`text-base ${inquiry.read ? "font-normal" : ""}`}>
+                    {!inquiry.read && <span className="inline-block w-2 h-2 rounded-full bg-primary mr-2 align-middle" />}
+                    {inquiry.subject}
+                  </CardTitle>
+                  <div className="flex items-center gap-2">
+                    {inquiry.artworkId && artworksById.has(inquiry.artworkId) && (
+                      <Badge variant="outline" className="max-w-48 truncate">
+                        <Image className="w-3 h-3 mr-1 shrink-0" />
+                        {artworksById.get(inquiry.artworkId)!.title}
+                      </Badge>
+                    )}
+                    <Badge variant="outline">{inquiryTypes.find((type) => type.value === inquiry.inquiryType)?.label}</Badge>
+                    <Badge variant={inquiry.status === "new" ? "default" : "secondary"}>{statusLabels[inquiry.status]}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(inquiry.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                </div>
+                <CardDescription className="line-clamp-1">
+                  {inquiry.name} &lt;{inquiry.email}&gt; — {inquiry.message}
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">No inquiries</CardTitle>
+            <CardDescription>Nothing matches the selected filters.</CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      <Dialog open={!!openInquiry} onOpenChange={(isOpen) => !isOpen && setOpenInquiry(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {openInquiry && (
+            <InquiryDetail
+              key={openInquiry.id}
+              inquiry={openInquiry}
+              artwork={openInquiry.artworkId ? artworksById.get(openInquiry.artworkId) : undefined}
+              onShowArtworkInquiries={() => setOpenInquiry(null)}
+              isPending={updateMutation.isPending}
+              onUpdate={(data) => updateMutation.mutate({ id: openInquiry.id, data })}
+              onDelete={() => setDeletingInquiry(openInquiry)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deletingInquiry} onOpenChange={(isOpen) => !isOpen && setDeletingInquiry(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Inquiry</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete the message from {deletingInquiry?.name}? This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeletingInquiry(null)}
+              data-testid="button-cancel-delete"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deletingInquiry && deleteMutation.mutate(deletingInquiry.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface InquiryDetailProps {
+  inquiry: StoredInquiry;
+  artwork?: Artwork;
+  onShowArtworkInquiries: () => void;
+  isPending: boolean;
+  onUpdate: (data: UpdateInquiry) => void;
+  onDelete: () => void;
+}
+
+function InquiryDetail({ inquiry, artwork, onShowArtworkInquiries, isPending, onUpdate, onDelete }: InquiryDetailProps) {
+  const { can } = useAuth();
+  const [notes, setNotes] = useState(inquiry.notes);
+  const replyLink = `mailto:${inquiry.email}?subject=${encodeURIComponent(`Re: ${inquiry.subject}`)}`;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{inquiry.subject}</DialogTitle>
+        <DialogDescription>
+          From {inquiry.name} &lt;{inquiry.email}&gt; on {new Date(inquiry.createdAt).toLocaleString()}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline">{inquiryTypes.find((type) => type.value === inquiry.inquiryType)?.label}</Badge>
+        </div>
+
+        {inquiry.artworkId && (
+          <div className="flex items-center gap-4 rounded-md border p-3" data-testid="panel-inquiry-artwork">
+            <div className="w-16 h-16 shrink-0 rounded-md overflow-hidden bg-muted">
+              {artwork && artwork.images.length > 0 && (
+                <img
+                  src={(artwork.images.find((img) => img.isPrimary) || artwork.images[0]).url}
+                  alt={artwork.title}
+                  className="w-full h-full object-cover"
+                />
+              )}
+            </div>
+            <div className="flex-1 min-w-0 text-sm">
+              <p className="text-muted-foreground">About the artwork</p>
+              <p className="font-medium truncate">{artwork?.title ?? "This artwork has been deleted"}</p>
+              {artwork && (
+                <div className="flex flex-wrap gap-x-4">
+                  <a
+                    href={`/artwork/${artwork.slug}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center text-primary hover:underline"
+                    data-testid="link-view-artwork"
+                  >
+                    View artwork
+                    <ExternalLink className="w-3 h-3 ml-1" />
+                  </a>
+                  <Link
+                    href={`/admin/inbox?artwork=${artwork.id}`}
+                    onClick={onShowArtworkInquiries}
+                    className="text-primary hover:underline"
+                    data-testid="link-artwork-inquiries"
+                  >
+                    All inquiries about this piece
+                  </Link>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {inquiry.status === "spam" && (
+          <div className="flex flex-wrap items-center justify-between gap-4 rounded-md border border-destructive/50 p-4" data-testid="panel-spam">
+            <div className="flex gap-3 text-sm">
+              <ShieldAlert className="w-5 h-5 text-destructive shrink-0" />
+              <div>
+                <p className="font-medium">Quarantined as suspected spam</p>
+                {inquiry.spamReasons && inquiry.spamReasons.length > 0 && (
+                  <p className="text-muted-foreground">{inquiry.spamReasons.join("; ")}</p>
+                )}
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => onUpdate({ status: "new", read: false })}
+              disabled={isPending}
+              data-testid="button-not-spam"
+            >
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Not Spam
+            </Button>
+          </div>
+        )}
+
+        <p className="whitespace-pre-line text-sm" data-testid="text-inquiry-message">{inquiry.message}</p>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select
+              value={inquiry.status}
+              onValueChange={(status) => onUpdate({ status: status as InquiryStatus })}
+            >
+              <SelectTrigger className="w-40" data-testid="select-inquiry-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(statusLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" asChild data-testid="button-reply">
+            <a href={replyLink} onClick={() => inquiry.status === "new" && onUpdate({ status: "replied" })}>
+              <Reply className="w-4 h-4 mr-2" />
+              Reply by Email
+            </a>
+          </Button>
+          {can("invoices.manage") && (
+            <Button variant="outline" asChild data-testid="button-create-quote">
+              <Link href={`/admin/invoices?new=quote&inquiry=${inquiry.id}`}>
+                <Receipt className="w-4 h-4 mr-2" />
+                Create Quote
+              </Link>
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => onUpdate({ read: !inquiry.read })}
+            disabled={isPending}
+            data-testid="button-toggle-read"
+          >
+            {inquiry.read ? <Mail className="w-4 h-4 mr-2" /> : <MailOpen className="w-4 h-4 mr-2" />}
+            Mark as {inquiry.read ? "Unread" : "Read"}
+          </Button>
+          {inquiry.status !== "archived" && (
+            <Button
+              variant="outline"
+              onClick={() => onUpdate({ status: "archived" })}
+              disabled={isPending}
+              data-testid="button-archive"
+            >
+              <Archive className="w-4 h-4 mr-2" />
+              Archive
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="inquiry-notes">Notes</Label>
+          <Textarea
+            id="inquiry-notes"
+            placeholder="Private notes, e.g. quoted price or follow-up date"
+            rows={4}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            data-testid="input-notes"
+          />
+        </div>
+      </div>
+
+      <DialogFooter className="gap-2">
+        <Button variant="destructive" onClick={onDelete} data-testid="button-delete">
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete
+        </Button>
+        <Button
+          onClick={() => onUpdate({ notes })}
+          disabled={isPending || notes === inquiry.notes}
+          data-testid="button-save-notes"
+        >
+          {isPending ? "Saving..." : "Save Notes"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,878 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useLocation, useSearch } from "wouter";
+import { Ban, CheckCircle, Download, FileText, Plus, Printer, Receipt, Send, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  DEFAULT_CURRENCY,
+  DEFAULT_DIMENSION_UNIT,
+  currencies,
+  formatDimensions,
+  formatMoney,
+  insertInvoiceSchema,
+  invoiceTotals,
+  type ArtworkPage,
+  type Commission,
+  type Currency,
+  type InsertInvoice,
+  type Inquiry,
+  type Invoice,
+  type InvoiceKind,
+  type InvoiceStatus,
+  type UpdateInvoice,
+} from "@shared/schema";
+
+type StoredInvoice = Invoice & { createdAt: string };
+
+const kindLabels: Record<InvoiceKind, string> = {
+  quote: "Quote",
+  invoice: "Invoice",
+};
+
+const statusLabels: Record<InvoiceStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  paid: "Paid",
+  void: "Void",
+};
+
+const statusVariants: Record<InvoiceStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  draft: "outline",
+  sent: "default",
+  paid: "secondary",
+  void: "destructive",
+};
+
+// "none" stands in for an empty link, since Select items can't have an empty value
+const NONE = "none";
+
+function isoDate(daysFromToday = 0): string {
+  return new Date(Date.now() + daysFromToday * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function invalidateInvoices() {
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+}
+
+// Links a new document can start from, taken from /admin/invoices?new=quote&commission=<id> etc.
+interface InvoiceSource {
+  kind: InvoiceKind;
+  inquiryId?: string;
+  artworkId?: string;
+  commissionId?: string;
+}
+
+function parseSource(search: string): InvoiceSource | null {
+  const params = new URLSearchParams(search);
+  const kind = params.get("new");
+  if (kind !== "quote" && kind !== "invoice") return null;
+  return {
+    kind,
+    inquiryId: params.get("inquiry") ?? undefined,
+    artworkId: params.get("artwork") ?? undefined,
+    commissionId: params.get("commission") ?? undefined,
+  };
+}
+
+export default function AdminInvoices() {
+  const [, setLocation] = useLocation();
+  const source = parseSource(useSearch());
+  const [kindFilter, setKindFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [openInvoice, setOpenInvoice] = useState<StoredInvoice | null>(null);
+  const [deletingInvoice, setDeletingInvoice] = useState<StoredInvoice | null>(null);
+  const { toast } = useToast();
+  const { siteCurrency } = useCurrency();
+
+  const { data: invoices, isLoading } = useQuery<StoredInvoice[]>({
+    queryKey: ["/api/admin/invoices", {
+      kind: kindFilter === "all" ? undefined : kindFilter,
+      status: statusFilter === "all" ? undefined : statusFilter,
+    }],
+  });
+  const { data: inquiries } = useQuery<Inquiry[]>({
+    queryKey: ["/api/admin/inquiries"],
+  });
+  const { data: artworkPage } = useQuery<ArtworkPage>({
+    queryKey: ["/api/artworks"],
+  });
+  const { data: commissions } = useQuery<Commission[]>({
+    queryKey: ["/api/admin/commissions", { spam: false }],
+  });
+  const links: InvoiceLinks = {
+    inquiries: inquiries?.filter((inquiry) => inquiry.status !== "spam") ?? [],
+    artworks: artworkPage?.artworks ?? [],
+    commissions: commissions ?? [],
+  };
+
+  const closeNew = () => setLocation("/admin/invoices", { replace: true });
+  const startNew = (kind: InvoiceKind) => setLocation(`/admin/invoices?new=${kind}`);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertInvoice) => {
+      const res = await apiRequest("POST", "/api/admin/invoices", data);
+      return await res.json() as StoredInvoice;
+    },
+    onSuccess: (invoice) => {
+      invalidateInvoices();
+      closeNew();
+      setOpenInvoice(invoice);
+      toast({
+        title: "Success",
+        description: `${kindLabels[invoice.kind]} draft created`,
+      });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateInvoice }) => {
+      const res = await apiRequest("PATCH", `/api/admin/invoices/${id}`, data);
+      return await res.json() as StoredInvoice;
+    },
+    onSuccess: (invoice) => {
+      invalidateInvoices();
+      setOpenInvoice(invoice);
+      toast({
+        title: "Success",
+        description: `${kindLabels[invoice.kind]} ${invoice.number ?? "draft"} saved`,
+      });
+    },
+    onError,
+  });
+
+  const convertMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/invoices/${id}/convert`, undefined);
+      return await res.json() as StoredInvoice;
+    },
+    onSuccess: (invoice) => {
+      invalidateInvoices();
+      setOpenInvoice(invoice);
+      toast({
+        title: "Success",
+        description: "Invoice draft created from the quote",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      apiRequest("DELETE", `/api/admin/invoices/${id}`, undefined),
+    onSuccess: () => {
+      invalidateInvoices();
+      setDeletingInvoice(null);
+      setOpenInvoice(null);
+      toast({
+        title: "Success",
+        description: "Draft deleted successfully",
+      });
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-playfair font-bold" data-testid="heading-invoices">Quotes & Invoices</h1>
+          <p className="text-muted-foreground mt-2">
+            Price commissions and artwork sales, then track payment
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Select value={kindFilter} onValueChange={setKindFilter}>
+            <SelectTrigger className="w-36" data-testid="select-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Documents</SelectItem>
+              <SelectItem value="quote">Quotes</SelectItem>
+              <SelectItem value="invoice">Invoices</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-32" data-testid="select-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any Status</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => startNew("quote")} data-testid="button-new-quote">
+            <Plus className="w-4 h-4 mr-2" />
+            New Quote
+          </Button>
+          <Button onClick={() => startNew("invoice")} data-testid="button-new-invoice">
+            <Plus className="w-4 h-4 mr-2" />
+            New Invoice
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <div className="h-4 bg-muted animate-pulse rounded w-1/3" />
+                <div className="h-3 bg-muted animate-pulse rounded w-2/3 mt-2" />
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : invoices && invoices.length > 0 ? (
+        <div className="space-y-3">
+          {invoices.map((invoice) => (
+            <Card
+              key={invoice.id}
+              className="cursor-pointer hover-elevate"
+              onClick={() => setOpenInvoice(invoice)}
+              data-testid={`card-invoice-${invoice.id}`}
+            >
+              <CardHeader className="space-y-1">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {invoice.kind === "quote" ? <FileText className="w-4 h-4" /> : <Receipt className="w-4 h-4" />}
+                    {kindLabels[invoice.kind]} {invoice.number ?? "(draft)"} — {invoice.customer.name}
+                  </CardTitle>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatMoney(invoiceTotals(invoice).total, invoice.currency)}</span>
+                    <Badge variant={statusVariants[invoice.status]}>{statusLabels[invoice.status]}</Badge>
+                  </div>
+                </div>
+                <CardDescription>
+                  Issued {invoice.issueDate} · {invoice.kind === "quote" ? "Valid until" : "Due"} {invoice.dueDate}
+                  {invoice.lineItems[0] && ` · ${invoice.lineItems[0].description}`}
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">No quotes or invoices</CardTitle>
+            <CardDescription>Create one here, or from an inquiry, commission or artwork.</CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      <Dialog open={!!source} onOpenChange={(isOpen) => !isOpen && closeNew()}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New {source ? kindLabels[source.kind] : ""}</DialogTitle>
+            <DialogDescription>
+              Saved as a draft; it gets its number when you mark it sent.
+            </DialogDescription>
+          </DialogHeader>
+          {source && (
+            <InvoiceForm
+              defaults={newInvoiceDefaults(source, links, siteCurrency)}
+              links={links}
+              onSubmit={(data) => createMutation.mutate(data)}
+              isPending={createMutation.isPending}
+              onCancel={closeNew}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!openInvoice} onOpenChange={(isOpen) => !isOpen && setOpenInvoice(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {openInvoice && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {kindLabels[openInvoice.kind]} {openInvoice.number ?? "(draft)"}
+                </DialogTitle>
+                <DialogDescription>
+                  {statusLabels[openInvoice.status]}
+                  {openInvoice.sentAt && ` · sent ${new Date(openInvoice.sentAt).toLocaleDateString()}`}
+                  {openInvoice.paidAt && ` · paid ${new Date(openInvoice.paidAt).toLocaleDateString()}`}
+                  {openInvoice.quoteId && ` · from quote ${invoices?.find((invoice) => invoice.id === openInvoice.quoteId)?.number ?? ""}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" asChild data-testid="button-print">
+                  <a href={`/api/admin/invoices/${openInvoice.id}/html`} target="_blank" rel="noopener noreferrer">
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print
+                  </a>
+                </Button>
+                <Button variant="outline" size="sm" asChild data-testid="button-pdf">
+                  <a href={`/api/admin/invoices/${openInvoice.id}/pdf`}>
+                    <Download className="w-4 h-4 mr-2" />
+                    PDF
+                  </a>
+                </Button>
+                {openInvoice.status === "draft" && (
+                  <Button
+                    size="sm"
+                    onClick={() => updateMutation.mutate({ id: openInvoice.id, data: { status: "sent" } })}
+                    disabled={updateMutation.isPending}
+                    data-testid="button-mark-sent"
+                  >
+                    <Send className="w-4 h-4 mr-2" />
+                    Mark Sent
+                  </Button>
+                )}
+                {openInvoice.kind === "invoice" && (openInvoice.status === "draft" || openInvoice.status === "sent") && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateMutation.mutate({ id: openInvoice.id, data: { status: "paid" } })}
+                    disabled={updateMutation.isPending}
+                    data-testid="button-mark-paid"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    Mark Paid
+                  </Button>
+                )}
+                {openInvoice.kind === "quote" && openInvoice.status !== "void" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => convertMutation.mutate(openInvoice.id)}
+                    disabled={convertMutation.isPending}
+                    data-testid="button-convert"
+                  >
+                    <Receipt className="w-4 h-4 mr-2" />
+                    Create Invoice
+                  </Button>
+                )}
+                {(openInvoice.status === "sent" || openInvoice.status === "paid") && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateMutation.mutate({ id: openInvoice.id, data: { status: "void" } })}
+                    disabled={updateMutation.isPending}
+                    data-testid="button-void"
+                  >
+                    <Ban className="w-4 h-4 mr-2" />
+                    Void
+                  </Button>
+                )}
+                {openInvoice.status === "draft" && (
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => setDeletingInvoice(openInvoice)}
+                    data-testid="button-delete"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+
+              {openInvoice.status === "draft" ? (
+                <InvoiceForm
+                  key={openInvoice.id}
+                  defaults={openInvoice}
+                  links={links}
+                  onSubmit={({ kind, ...data }) => updateMutation.mutate({ id: openInvoice.id, data })}
+                  isPending={updateMutation.isPending}
+                  onCancel={() => setOpenInvoice(null)}
+                />
+              ) : (
+                <InvoiceSummary invoice={openInvoice} />
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deletingInvoice} onOpenChange={(isOpen) => !isOpen && setDeletingInvoice(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Draft</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete this draft for {deletingInvoice?.customer.name}? This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeletingInvoice(null)}
+              data-testid="button-cancel-delete"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deletingInvoice && deleteMutation.mutate(deletingInvoice.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface InvoiceLinks {
+  inquiries: Inquiry[];
+  artworks: ArtworkPage["artworks"];
+  commissions: Commission[];
+}
+
+// Prefill a new document from whatever it was started from
+function newInvoiceDefaults(source: InvoiceSource, links: InvoiceLinks, currency: Currency): InsertInvoice {
+  const inquiry = links.inquiries.find((item) => item.id === source.inquiryId);
+  const commission = links.commissions.find((item) => item.id === source.commissionId);
+  const artwork = links.artworks.find((item) => item.id === (source.artworkId ?? inquiry?.artworkId));
+  const customer = commission ?? inquiry;
+
+  return {
+    kind: source.kind,
+    currency,
+    customer: { name: customer?.name ?? "", email: customer?.email ?? "", address: "" },
+    inquiryId: inquiry?.id,
+    artworkId: artwork?.id,
+    commissionId: commission?.id,
+    lineItems: commission
+      ? [{ description: `Commission: ${commission.subject} (${formatDimensions([commission.width, commission.height], commission.unit ?? DEFAULT_DIMENSION_UNIT)})`, quantity: 1, unitPrice: commission.quote ?? 0 }]
+      : artwork
+      ? [{ description: `${artwork.title} — ${artwork.medium}, ${formatDimensions([artwork.width, artwork.height], artwork.unit)}`, quantity: 1, unitPrice: artwork.price ?? 0 }]
+      : [{ description: "", quantity: 1, unitPrice: 0 }],
+    shipping: 0,
+    taxRate: 0,
+    depositPercent: commission ? 50 : 0,
+    issueDate: isoDate(),
+    dueDate: isoDate(source.kind === "quote" ? 30 : 14),
+    notes: "",
+  };
+}
+
+function InvoiceSummary({ invoice }: { invoice: Invoice }) {
+  const totals = invoiceTotals(invoice);
+  return (
+    <div className="space-y-4 text-sm" data-testid="invoice-summary">
+      <div>
+        <p className="font-medium">{invoice.customer.name}</p>
+        <p className="text-muted-foreground">{invoice.customer.email}</p>
+        {invoice.customer.address && <p className="whitespace-pre-line text-muted-foreground">{invoice.customer.address}</p>}
+      </div>
+      <div className="space-y-1">
+        {invoice.lineItems.map((item, index) => (
+          <div key={index} className="flex justify-between gap-4">
+            <span>{item.quantity} × {item.description}</span>
+            <span>{formatMoney(item.quantity * item.unitPrice, invoice.currency)}</span>
+          </div>
+        ))}
+      </div>
+      <TotalsTable totals={totals} taxRate={invoice.taxRate} depositPercent={invoice.depositPercent} currency={invoice.currency} />
+      <p className="text-muted-foreground">
+        Issued {invoice.issueDate} · {invoice.kind === "quote" ? "Valid until" : "Due"} {invoice.dueDate}
+      </p>
+      {invoice.notes && <p className="whitespace-pre-line">{invoice.notes}</p>}
+    </div>
+  );
+}
+
+interface TotalsTableProps {
+  totals: ReturnType<typeof invoiceTotals>;
+  taxRate: number;
+  depositPercent: number;
+  currency?: Currency;
+}
+
+function TotalsTable({ totals, taxRate, depositPercent, currency }: TotalsTableProps) {
+  return (
+    <dl className="ml-auto w-64 grid grid-cols-2 gap-y-1 text-sm" data-testid="invoice-totals">
+      <dt className="text-muted-foreground">Subtotal</dt>
+      <dd className="text-right">{formatMoney(totals.subtotal, currency)}</dd>
+      <dt className="text-muted-foreground">Tax ({taxRate}%)</dt>
+      <dd className="text-right">{formatMoney(totals.tax, currency)}</dd>
+      <dt className="text-muted-foreground">Shipping</dt>
+      <dd className="text-right">{formatMoney(totals.shipping, currency)}</dd>
+      <dt className="font-semibold border-t pt-1">Total</dt>
+      <dd className="font-semibold border-t pt-1 text-right">{formatMoney(totals.total, currency)}</dd>
+      {depositPercent > 0 && (
+        <>
+          <dt className="text-muted-foreground">Deposit ({depositPercent}%)</dt>
+          <dd className="text-right">{formatMoney(totals.deposit, currency)}</dd>
+          <dt className="text-muted-foreground">Balance</dt>
+          <dd className="text-right">{formatMoney(totals.balance, currency)}</dd>
+        </>
+      )}
+    </dl>
+  );
+}
+
+interface InvoiceFormProps {
+  defaults: InsertInvoice;
+  links: InvoiceLinks;
+  onSubmit: (data: InsertInvoice) => void;
+  isPending: boolean;
+  onCancel: () => void;
+}
+
+// Number inputs report NaN while empty; treat that as 0 so totals stay readable
+const numberValue = (value: number) => (isNaN(value) ? 0 : value);
+
+function InvoiceForm({ defaults, links, onSubmit, isPending, onCancel }: InvoiceFormProps) {
+  const form = useForm<InsertInvoice>({
+    resolver: zodResolver(insertInvoiceSchema),
+    defaultValues: {
+      kind: defaults.kind,
+      currency: defaults.currency,
+      customer: defaults.customer,
+      inquiryId: defaults.inquiryId,
+      artworkId: defaults.artworkId,
+      commissionId: defaults.commissionId,
+      lineItems: defaults.lineItems,
+      shipping: defaults.shipping,
+      taxRate: defaults.taxRate,
+      depositPercent: defaults.depositPercent,
+      issueDate: defaults.issueDate,
+      dueDate: defaults.dueDate,
+      notes: defaults.notes,
+    },
+  });
+  const lineItems = useFieldArray({ control: form.control, name: "lineItems" });
+  const values = form.watch();
+  const totals = invoiceTotals({
+    lineItems: values.lineItems.map((item) => ({ ...item, quantity: numberValue(item.quantity), unitPrice: numberValue(item.unitPrice) })),
+    shipping: numberValue(values.shipping),
+    taxRate: numberValue(values.taxRate),
+    depositPercent: numberValue(values.depositPercent),
+  });
+
+  const linkSelect = (
+    name: "inquiryId" | "artworkId" | "commissionId",
+    label: string,
+    options: { id: string; label: string }[],
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select
+            value={field.value ?? NONE}
+            onValueChange={(value) => field.onChange(value === NONE ? undefined : value)}
+          >
+            <FormControl>
+              <SelectTrigger data-testid={`select-${name}`}>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value={NONE}>None</SelectItem>
+              {options.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="customer.name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Customer Name</FormLabel>
+                <FormControl>
+                  <Input {...field} data-testid="input-customer-name" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="customer.email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Customer Email</FormLabel>
+                <FormControl>
+                  <Input type="email" {...field} data-testid="input-customer-email" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="customer.address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Address</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} data-testid="input-customer-address" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid sm:grid-cols-3 gap-4">
+          {linkSelect("inquiryId", "Inquiry", links.inquiries.map((inquiry) => ({ id: inquiry.id, label: `${inquiry.name}: ${inquiry.subject}` })))}
+          {linkSelect("artworkId", "Artwork", links.artworks.map((artwork) => ({ id: artwork.id, label: artwork.title })))}
+          {linkSelect("commissionId", "Commission", links.commissions.map((commission) => ({ id: commission.id, label: `${commission.name}: ${commission.subject}` })))}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Line Items</p>
+          {lineItems.fields.map((item, index) => (
+            <div key={item.id} className="flex gap-2 items-start">
+              <FormField
+                control={form.control}
+                name={`lineItems.${index}.description`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="Description" {...field} data-testid={`input-item-description-${index}`} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`lineItems.${index}.quantity`}
+                render={({ field }) => (
+                  <FormItem className="w-20">
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="1"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        data-testid={`input-item-quantity-${index}`}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`lineItems.${index}.unitPrice`}
+                render={({ field }) => (
+                  <FormItem className="w-32">
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        data-testid={`input-item-price-${index}`}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => lineItems.remove(index)}
+                disabled={lineItems.fields.length === 1}
+                aria-label="Remove line item"
+                data-testid={`button-remove-item-${index}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => lineItems.append({ description: "", quantity: 1, unitPrice: 0 })}
+            data-testid="button-add-item"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Line Item
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-6 gap-4">
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <Select value={field.value ?? DEFAULT_CURRENCY} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {currencies.map((code) => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {([
+            ["shipping", "Shipping", "0.01"],
+            ["taxRate", "Tax (%)", "0.01"],
+            ["depositPercent", "Deposit (%)", "1"],
+          ] as const).map(([name, label, step]) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      step={step}
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                      data-testid={`input-${name}`}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+          <FormField
+            control={form.control}
+            name="issueDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Issued</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} data-testid="input-issue-date" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="dueDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{defaults.kind === "quote" ? "Valid Until" : "Due"}</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} data-testid="input-due-date" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <TotalsTable
+          totals={totals}
+          taxRate={numberValue(values.taxRate)}
+          depositPercent={numberValue(values.depositPercent)}
+          currency={values.currency}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={3}
+                  placeholder="Printed on the document, e.g. payment details or what's included"
+                  {...field}
+                  data-testid="input-invoice-notes"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} data-testid="button-cancel">
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isPending} data-testid="button-save">
+            {isPending ? "Saving..." : "Save Draft"}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,405 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Ban, CheckCircle, ExternalLink, Mail, RotateCcw, Search, Truck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatMoney, orderItemName, type Order, type OrderStatus, type UpdateOrder } from "@shared/schema";
+
+type StoredOrder = Order & { createdAt: string };
+
+const statusLabels: Record<OrderStatus, string> = {
+  pending: "Awaiting Payment",
+  paid: "Paid",
+  shipped: "Shipped",
+  refunded: "Refunded",
+  cancelled: "Cancelled",
+  expired: "Expired",
+};
+
+const statusVariants: Record<OrderStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  pending: "outline",
+  paid: "default",
+  shipped: "secondary",
+  refunded: "destructive",
+  cancelled: "outline",
+  expired: "outline",
+};
+
+const paymentLabels: Record<string, string> = {
+  manual: "Bank transfer",
+  fake: "Test card payment",
+};
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
+
+export default function AdminOrders() {
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [search, setSearch] = useState("");
+  const [openOrder, setOpenOrder] = useState<StoredOrder | null>(null);
+  const [refundingOrder, setRefundingOrder] = useState<StoredOrder | null>(null);
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<StoredOrder[]>({
+    queryKey: ["/api/admin/orders", {
+      status: statusFilter === "all" ? undefined : statusFilter,
+    }],
+  });
+
+  // Number, name and email are matched here; the list is small enough to filter in the browser
+  const term = search.trim().toLowerCase();
+  const orders = term
+    ? data?.filter((order) =>
+        [order.number, order.customer.name, order.customer.email].some((value) => value.toLowerCase().includes(term)))
+    : data;
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateOrder }) => {
+      const res = await apiRequest("PATCH", `/api/admin/orders/${id}`, data);
+      return await res.json() as StoredOrder;
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      // Paying, cancelling and refunding change artwork status
+      queryClient.invalidateQueries({ queryKey: ["/api/artworks"] });
+      setOpenOrder(order);
+      setRefundingOrder(null);
+      toast({
+        title: "Success",
+        description: `Order ${order.number} updated`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-playfair font-bold" data-testid="heading-orders">Orders</h1>
+          <p className="text-muted-foreground mt-2">
+            Confirm payments, ship artworks and handle refunds
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Number, name or email"
+              className="pl-9 w-56"
+              data-testid="input-search"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-44" data-testid="select-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Orders</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <div className="h-4 bg-muted animate-pulse rounded w-1/3" />
+                <div className="h-3 bg-muted animate-pulse rounded w-2/3 mt-2" />
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : orders && orders.length > 0 ? (
+        <div className="space-y-3">
+          {orders.map((order) => (
+            <Card
+              key={order.id}
+              className="cursor-pointer hover-elevate"
+              onClick={() => setOpenOrder(order)}
+              data-testid={`card-order-${order.id}`}
+            >
+              <CardHeader className="space-y-1">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <CardTitle className="text-base">
+                    {order.number} — {order.customer.name}
+                  </CardTitle>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatMoney(order.total, order.currency)}</span>
+                    <Badge variant={statusVariants[order.status]}>{statusLabels[order.status]}</Badge>
+                  </div>
+                </div>
+                <CardDescription>
+                  {formatDateTime(order.createdAt)} · {order.items.map(orderItemName).join(", ")}
+                  {order.status === "pending" && ` · reserved until ${formatDateTime(order.reservedUntil)}`}
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">No orders</CardTitle>
+            <CardDescription>Orders appear here when buyers check out.</CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      <Dialog open={!!openOrder} onOpenChange={(isOpen) => !isOpen && setOpenOrder(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {openOrder && (
+            <OrderDetail
+              key={`${openOrder.id}-${openOrder.status}`}
+              order={openOrder}
+              onUpdate={(data) => updateMutation.mutate({ id: openOrder.id, data })}
+              onRefund={() => setRefundingOrder(openOrder)}
+              isPending={updateMutation.isPending}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!refundingOrder} onOpenChange={(isOpen) => !isOpen && setRefundingOrder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund Order</DialogTitle>
+            <DialogDescription>
+              Mark {refundingOrder?.number} as refunded? Send the money back to {refundingOrder?.customer.name} yourself; this only records it.
+              {refundingOrder?.status === "paid" && " The artworks haven't shipped, so they go back on sale."}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRefundingOrder(null)}
+              data-testid="button-cancel-refund"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => refundingOrder && updateMutation.mutate({ id: refundingOrder.id, data: { status: "refunded" } })}
+              disabled={updateMutation.isPending}
+              data-testid="button-confirm-refund"
+            >
+              {updateMutation.isPending ? "Saving..." : "Mark Refunded"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface OrderDetailProps {
+  order: StoredOrder;
+  onUpdate: (data: UpdateOrder) => void;
+  onRefund: () => void;
+  isPending: boolean;
+}
+
+function OrderDetail({ order, onUpdate, onRefund, isPending }: OrderDetailProps) {
+  const [carrier, setCarrier] = useState(order.carrier ?? "");
+  const [trackingNumber, setTrackingNumber] = useState(order.trackingNumber ?? "");
+  const address = order.shippingAddress;
+  const trackingChanged = carrier !== (order.carrier ?? "") || trackingNumber !== (order.trackingNumber ?? "");
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          {order.number}
+          <Badge variant={statusVariants[order.status]}>{statusLabels[order.status]}</Badge>
+        </DialogTitle>
+        <DialogDescription>
+          Placed {formatDateTime(order.createdAt)} · {paymentLabels[order.provider] ?? order.provider}
+          {order.paymentReference && ` (${order.paymentReference})`}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-6 text-sm">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div data-testid="order-customer">
+            <p className="text-muted-foreground mb-1">Customer</p>
+            <p className="font-medium">{order.customer.name}</p>
+            <a href={`mailto:${order.customer.email}`} className="text-primary hover:underline flex items-center gap-1">
+              <Mail className="w-3 h-3" />
+              {order.customer.email}
+            </a>
+            {order.customer.phone && <p>{order.customer.phone}</p>}
+          </div>
+          <div data-testid="order-address">
+            <p className="text-muted-foreground mb-1">Ship to</p>
+            <p>
+              {address.line1}<br />
+              {address.line2 && <>{address.line2}<br /></>}
+              {[address.city, address.region, address.postalCode].filter(Boolean).join(", ")}<br />
+              {address.country}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          {order.items.map((item) => (
+            <div key={`${item.artworkId}-${item.printId ?? "original"}`} className="flex justify-between gap-4">
+              <a
+                href={`/artwork/${item.slug}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="hover:text-primary inline-flex items-center gap-1"
+              >
+                {orderItemName(item)}
+                <ExternalLink className="w-3 h-3" />
+              </a>
+              <span>{formatMoney(item.price, order.currency)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between gap-4 border-t pt-1 font-semibold">
+            <span>Total</span>
+            <span>{formatMoney(order.total, order.currency)}</span>
+          </div>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-y-1 text-muted-foreground" data-testid="order-timeline">
+          {order.status === "pending" && (
+            <>
+              <dt>Reserved until</dt>
+              <dd>{formatDateTime(order.reservedUntil)}</dd>
+            </>
+          )}
+          {order.paidAt && (
+            <>
+              <dt>Paid</dt>
+              <dd>{formatDateTime(order.paidAt)}</dd>
+            </>
+          )}
+          {order.shippedAt && (
+            <>
+              <dt>Shipped</dt>
+              <dd>{formatDateTime(order.shippedAt)}</dd>
+            </>
+          )}
+          {order.refundedAt && (
+            <>
+              <dt>Refunded</dt>
+              <dd>{formatDateTime(order.refundedAt)}</dd>
+            </>
+          )}
+          {order.cancelledAt && (
+            <>
+              <dt>{order.status === "expired" ? "Reservation expired" : "Cancelled"}</dt>
+              <dd>{formatDateTime(order.cancelledAt)}</dd>
+            </>
+          )}
+        </dl>
+
+        {(order.status === "paid" || order.status === "shipped") && (
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="order-carrier">Carrier</Label>
+              <Input
+                id="order-carrier"
+                value={carrier}
+                onChange={(e) => setCarrier(e.target.value)}
+                placeholder="e.g. USPS"
+                data-testid="input-carrier"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="order-tracking">Tracking Number</Label>
+              <Input
+                id="order-tracking"
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+                data-testid="input-tracking-number"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {order.status === "pending" && (
+            <>
+              <Button onClick={() => onUpdate({ status: "paid" })} disabled={isPending} data-testid="button-mark-paid">
+                <CheckCircle className="w-4 h-4 mr-2" />
+                Mark Paid
+              </Button>
+              <Button variant="outline" onClick={() => onUpdate({ status: "cancelled" })} disabled={isPending} data-testid="button-cancel-order">
+                <Ban className="w-4 h-4 mr-2" />
+                Cancel Order
+              </Button>
+            </>
+          )}
+          {order.status === "paid" && (
+            <Button
+              onClick={() => onUpdate({ status: "shipped", carrier, trackingNumber })}
+              disabled={isPending}
+              data-testid="button-mark-shipped"
+            >
+              <Truck className="w-4 h-4 mr-2" />
+              Mark Shipped
+            </Button>
+          )}
+          {order.status === "shipped" && (
+            <Button
+              variant="outline"
+              onClick={() => onUpdate({ carrier, trackingNumber })}
+              disabled={isPending || !trackingChanged}
+              data-testid="button-save-tracking"
+            >
+              Save Tracking
+            </Button>
+          )}
+          {(order.status === "paid" || order.status === "shipped") && (
+            <Button variant="outline" onClick={onRefund} disabled={isPending} data-testid="button-refund">
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Refund
+            </Button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
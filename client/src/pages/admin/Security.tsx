@@ -0,0 +1,158 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Globe, LockOpen, User as UserIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AuditEntry, AuditEvent, LoginLockout } from "@shared/schema";
+
+type StoredAuditEntry = AuditEntry & { createdAt: string };
+
+const eventLabels: Record<AuditEvent, string> = {
+  "login.failed": "Failed login",
+  "login.locked": "Locked out",
+  "login.unlocked": "Unlocked",
+};
+
+const eventVariants: Record<AuditEvent, "default" | "secondary" | "destructive" | "outline"> = {
+  "login.failed": "outline",
+  "login.locked": "destructive",
+  "login.unlocked": "secondary",
+};
+
+export default function AdminSecurity() {
+  const { toast } = useToast();
+
+  // Refreshed while the page is open, as lockouts come and go on their own
+  const { data: lockouts = [], isLoading: lockoutsLoading } = useQuery<LoginLockout[]>({
+    queryKey: ["/api/admin/login-lockouts"],
+    refetchInterval: 30 * 1000,
+  });
+
+  const { data: entries = [], isLoading: entriesLoading } = useQuery<StoredAuditEntry[]>({
+    queryKey: ["/api/admin/audit"],
+    refetchInterval: 30 * 1000,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: (lockout: LoginLockout) =>
+      apiRequest("POST", "/api/admin/login-lockouts/unlock", { scope: lockout.scope, key: lockout.key }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/login-lockouts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit"] });
+      toast({
+        title: "Success",
+        description: "Unlocked",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-playfair font-bold" data-testid="heading-security">Sign-in Security</h1>
+        <p className="text-muted-foreground mt-2">
+          Repeated failed logins slow down and then lock out the account and IP address they came from
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Waiting or Locked Out</CardTitle>
+          <CardDescription>
+            Accounts are locked for 15 minutes after 10 failed logins, IP addresses after 30. Unlocking lets them try again straight away.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {lockoutsLoading ? (
+            <div className="h-4 bg-muted animate-pulse rounded w-1/3" />
+          ) : lockouts.length > 0 ? (
+            <div className="divide-y">
+              {lockouts.map((lockout) => (
+                <div
+                  key={`${lockout.scope}:${lockout.key}`}
+                  className="flex flex-wrap items-center justify-between gap-2 py-3"
+                  data-testid={`row-lockout-${lockout.scope}-${lockout.key}`}
+                >
+                  <div className="flex items-center gap-3">
+                    {lockout.scope === "account" ? (
+                      <UserIcon className="w-4 h-4 text-muted-foreground" />
+                    ) : (
+                      <Globe className="w-4 h-4 text-muted-foreground" />
+                    )}
+                    <div>
+                      <p className="font-medium">{lockout.key}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {lockout.failures} failed {lockout.failures === 1 ? "login" : "logins"} · can try again {new Date(lockout.retryAt).toLocaleTimeString()}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={lockout.locked ? "destructive" : "outline"}>
+                      {lockout.locked ? "Locked" : "Slowed down"}
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => unlockMutation.mutate(lockout)}
+                      disabled={unlockMutation.isPending}
+                      data-testid={`button-unlock-${lockout.scope}-${lockout.key}`}
+                    >
+                      <LockOpen className="w-4 h-4 mr-2" />
+                      Unlock
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-lockouts">Nobody is locked out.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Activity</CardTitle>
+          <CardDescription>Failed logins, lockouts and unlocks, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entriesLoading ? (
+            <div className="h-4 bg-muted animate-pulse rounded w-1/3" />
+          ) : entries.length > 0 ? (
+            <div className="divide-y">
+              {entries.map((entry) => (
+                <div key={entry.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm" data-testid={`row-audit-${entry.id}`}>
+                  <div className="flex items-center gap-3">
+                    <Badge variant={eventVariants[entry.event]}>{eventLabels[entry.event]}</Badge>
+                    <span>{entry.detail}</span>
+                    <span className="text-muted-foreground">
+                      {[entry.email, entry.ip].filter(Boolean).join(" · ")}
+                    </span>
+                  </div>
+                  <span className="text-muted-foreground">{new Date(entry.createdAt).toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No failed logins yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
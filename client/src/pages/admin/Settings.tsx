@@ -5,13 +5,20 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useState, useEffect } from "react";
 import { Lock } from "lucide-react";
+import { BackupCard } from "@/components/BackupCard";
+import { CurrencyCard } from "@/components/CurrencyCard";
+import { UnitsCard } from "@/components/UnitsCard";
+import { TwoFactorCard } from "@/components/TwoFactorCard";
 import type { SiteSettings } from "@shared/schema";
 
 export default function AdminSettings() {
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageSite = can("site.manage");
   const { data: settings, isLoading } = useQuery<SiteSettings>({
     queryKey: ["/api/settings"],
   });
@@ -140,159 +147,167 @@ export default function AdminSettings() {
           Site Settings
         </h1>
         <p className="text-muted-foreground mt-2">
-          Customize your website's appearance
+          {canManageSite ? "Customize your website's appearance" : "Manage your account"}
         </p>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Accent Color</CardTitle>
-          <CardDescription>
-            Choose the primary accent color for your website
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-6">
-          <div className="space-y-4">
-            <div className="flex gap-6">
-              <div className="flex-1 space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="hue-slider">
-                    Hue: {hue}°
-                  </Label>
-                  <Slider
-                    id="hue-slider"
-                    min={0}
-                    max={360}
-                    step={1}
-                    value={[hue]}
-                    onValueChange={([value]) => setHue(value)}
-                    data-testid="slider-hue"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    0° = Red, 120° = Green, 240° = Blue
-                  </p>
-                </div>
+      {canManageSite && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Accent Color</CardTitle>
+              <CardDescription>
+                Choose the primary accent color for your website
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-4">
+                <div className="flex gap-6">
+                  <div className="flex-1 space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="hue-slider">
+                        Hue: {hue}°
+                      </Label>
+                      <Slider
+                        id="hue-slider"
+                        min={0}
+                        max={360}
+                        step={1}
+                        value={[hue]}
+                        onValueChange={([value]) => setHue(value)}
+                        data-testid="slider-hue"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        0° = Red, 120° = Green, 240° = Blue
+                      </p>
+                    </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="saturation-slider">
-                    Saturation: {saturation}%
-                  </Label>
-                  <Slider
-                    id="saturation-slider"
-                    min={0}
-                    max={100}
-                    step={1}
-                    value={[saturation]}
-                    onValueChange={([value]) => setSaturation(value)}
-                    data-testid="slider-saturation"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    0% = Gray, 100% = Vivid
-                  </p>
-                </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="saturation-slider">
+                        Saturation: {saturation}%
+                      </Label>
+                      <Slider
+                        id="saturation-slider"
+                        min={0}
+                        max={100}
+                        step={1}
+                        value={[saturation]}
+                        onValueChange={([value]) => setSaturation(value)}
+                        data-testid="slider-saturation"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        0% = Gray, 100% = Vivid
+                      </p>
+                    </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="lightness-slider">
-                    Lightness: {lightness}%
-                  </Label>
-                  <Slider
-                    id="lightness-slider"
-                    min={0}
-                    max={100}
-                    step={1}
-                    value={[lightness]}
-                    onValueChange={([value]) => setLightness(value)}
-                    data-testid="slider-lightness"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    0% = Black, 50% = Pure color, 100% = White
-                  </p>
-                </div>
-              </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="lightness-slider">
+                        Lightness: {lightness}%
+                      </Label>
+                      <Slider
+                        id="lightness-slider"
+                        min={0}
+                        max={100}
+                        step={1}
+                        value={[lightness]}
+                        onValueChange={([value]) => setLightness(value)}
+                        data-testid="slider-lightness"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        0% = Black, 50% = Pure color, 100% = White
+                      </p>
+                    </div>
+                  </div>
 
-              <div className="w-48">
-                <Label>Preview</Label>
-                <div className="mt-2 space-y-3">
-                  <div
-                    className="w-full h-32 rounded-md border"
-                    style={{ backgroundColor: previewColor }}
-                    data-testid="preview-color"
-                  />
-                  <div className="text-center">
-                    <code className="text-xs bg-muted px-2 py-1 rounded">
-                      {previewColor}
-                    </code>
+                  <div className="w-48">
+                    <Label>Preview</Label>
+                    <div className="mt-2 space-y-3">
+                      <div
+                        className="w-full h-32 rounded-md border"
+                        style={{ backgroundColor: previewColor }}
+                        data-testid="preview-color"
+                      />
+                      <div className="text-center">
+                        <code className="text-xs bg-muted px-2 py-1 rounded">
+                          {previewColor}
+                        </code>
+                      </div>
+                      <Button
+                        className="w-full"
+                        style={{ backgroundColor: previewColor, color: 'white' }}
+                      >
+                        Sample Button
+                      </Button>
+                    </div>
                   </div>
+                </div>
+
+                <div className="flex gap-2 pt-4">
                   <Button
-                    className="w-full"
-                    style={{ backgroundColor: previewColor, color: 'white' }}
+                    onClick={handleSave}
+                    disabled={!hasChanges || updateMutation.isPending}
+                    data-testid="button-save-settings"
                   >
-                    Sample Button
+                    {updateMutation.isPending ? "Saving..." : "Save Changes"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleReset}
+                    disabled={updateMutation.isPending}
+                    data-testid="button-reset-settings"
+                  >
+                    Reset to Default
                   </Button>
                 </div>
               </div>
-            </div>
+            </CardContent>
+          </Card>
 
-            <div className="flex gap-2 pt-4">
-              <Button
-                onClick={handleSave}
-                disabled={!hasChanges || updateMutation.isPending}
-                data-testid="button-save-settings"
-              >
-                {updateMutation.isPending ? "Saving..." : "Save Changes"}
-              </Button>
-              <Button
-                variant="outline"
-                onClick={handleReset}
-                disabled={updateMutation.isPending}
-                data-testid="button-reset-settings"
-              >
-                Reset to Default
-              </Button>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Color Suggestions</CardTitle>
+              <CardDescription>
+                Popular color palettes for art portfolios
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {[
+                  { name: "Terracotta", hue: 15, sat: 75, light: 55 },
+                  { name: "Sage Green", hue: 140, sat: 35, light: 45 },
+                  { name: "Navy Blue", hue: 220, sat: 70, light: 35 },
+                  { name: "Burgundy", hue: 350, sat: 65, light: 40 },
+                  { name: "Teal", hue: 180, sat: 60, light: 45 },
+                  { name: "Plum", hue: 280, sat: 50, light: 50 },
+                  { name: "Forest", hue: 130, sat: 55, light: 35 },
+                  { name: "Coral", hue: 10, sat: 75, light: 60 },
+                ].map((preset) => (
+                  <button
+                    key={preset.name}
+                    onClick={() => {
+                      setHue(preset.hue);
+                      setSaturation(preset.sat);
+                      setLightness(preset.light);
+                    }}
+                    className="flex flex-col items-center gap-2 p-3 rounded-md border hover-elevate active-elevate-2"
+                    data-testid={`preset-${preset.name.toLowerCase().replace(' ', '-')}`}
+                  >
+                    <div
+                      className="w-full h-12 rounded"
+                      style={{ backgroundColor: `hsl(${preset.hue}, ${preset.sat}%, ${preset.light}%)` }}
+                    />
+                    <span className="text-sm font-medium">{preset.name}</span>
+                  </button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Color Suggestions</CardTitle>
-          <CardDescription>
-            Popular color palettes for art portfolios
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-            {[
-              { name: "Terracotta", hue: 15, sat: 75, light: 55 },
-              { name: "Sage Green", hue: 140, sat: 35, light: 45 },
-              { name: "Navy Blue", hue: 220, sat: 70, light: 35 },
-              { name: "Burgundy", hue: 350, sat: 65, light: 40 },
-              { name: "Teal", hue: 180, sat: 60, light: 45 },
-              { name: "Plum", hue: 280, sat: 50, light: 50 },
-              { name: "Forest", hue: 130, sat: 55, light: 35 },
-              { name: "Coral", hue: 10, sat: 75, light: 60 },
-            ].map((preset) => (
-              <button
-                key={preset.name}
-                onClick={() => {
-                  setHue(preset.hue);
-                  setSaturation(preset.sat);
-                  setLightness(preset.light);
-                }}
-                className="flex flex-col items-center gap-2 p-3 rounded-md border hover-elevate active-elevate-2"
-                data-testid={`preset-${preset.name.toLowerCase().replace(' ', '-')}`}
-              >
-                <div
-                  className="w-full h-12 rounded"
-                  style={{ backgroundColor: `hsl(${preset.hue}, ${preset.sat}%, ${preset.light}%)` }}
-                />
-                <span className="text-sm font-medium">{preset.name}</span>
-              </button>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+          <CurrencyCard />
+
+          <UnitsCard />
+        </>
+      )}
 
       <Card>
         <CardHeader>
@@ -354,6 +369,10 @@ export default function AdminSettings() {
           </form>
         </CardContent>
       </Card>
+
+      <TwoFactorCard />
+
+      {canManageSite && <BackupCard />}
     </div>
   );
 }
@@ -7,41 +7,108 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Trash2, UserPlus, Mail, Shield, User as UserIcon } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { Trash2, UserPlus, Mail, Send, Shield, ShieldCheck, ShieldOff, User as UserIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import { type User, type InsertUser } from "@shared/schema";
+import { roleLabels, userRoles, type PublicUser, type InviteUser, type UserRole } from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 
+// What each role can reach in the admin panel
+const roleDescriptions: Record<UserRole, string> = {
+  owner: "Everything, including users, settings and backups",
+  editor: "Artworks, collections and FAQs",
+  sales: "Inbox, commissions and orders",
+  viewer: "Read-only access to artworks, collections and FAQs",
+};
+
 export default function Users() {
   const { toast } = useToast();
+  const { user: currentUser } = useAuth();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [deletingUserId, setDeletingUserId] = useState<number | null>(null);
+  const [deletingUserId, setDeletingUserId] = useState<string | null>(null);
 
-  const { data: users = [], isLoading } = useQuery<User[]>({
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
     queryKey: ['/api/admin/users'],
   });
 
-  const createMutation = useMutation({
-    mutationFn: (data: InsertUser) => apiRequest("POST", "/api/admin/users", data),
+  const inviteMutation = useMutation({
+    mutationFn: (data: InviteUser) => apiRequest("POST", "/api/admin/users", data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
       setIsAddDialogOpen(false);
       toast({
         title: "Success",
-        description: "User created successfully",
+        description: "Invitation sent",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to invite user",
+      });
+    },
+    // The account exists even when the email couldn't be sent
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/admin/users/${id}/invitation`),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Invitation sent again",
       });
     },
     onError: (error: any) => {
       toast({
         variant: "destructive",
         title: "Error",
-        description: error.message || "Failed to create user",
+        description: error.message || "Failed to resend invitation",
+      });
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: string; role: UserRole }) =>
+      apiRequest("PATCH", `/api/admin/users/${id}`, { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      toast({
+        title: "Success",
+        description: "Role updated successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update role",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/admin/users/${id}/two-factor`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      toast({
+        title: "Success",
+        description: "Two-factor authentication reset",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to reset two-factor authentication",
       });
     },
   });
 
   const deleteMutation = useMutation({
-    mutationFn: (id: number) => apiRequest("DELETE", `/api/admin/users/${id}`),
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/admin/users/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
       setDeletingUserId(null);
@@ -65,25 +132,25 @@ export default function Users() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold">User Management</h1>
-          <p className="text-muted-foreground">Manage admin and user accounts</p>
+          <p className="text-muted-foreground">Manage staff accounts and what each role can do</p>
         </div>
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
           <DialogTrigger asChild>
-            <Button data-testid="button-add-user">
+            <Button data-testid="button-invite-user">
               <UserPlus className="w-4 h-4 mr-2" />
-              Add User
+              Invite User
             </Button>
           </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Add New User</DialogTitle>
+              <DialogTitle>Invite User</DialogTitle>
               <DialogDescription>
-                Create a new user account
+                We'll email them a link to choose their own password
               </DialogDescription>
             </DialogHeader>
-            <UserForm
-              onSubmit={(data) => createMutation.mutate(data)}
-              isPending={createMutation.isPending}
+            <InviteForm
+              onSubmit={(data) => inviteMutation.mutate(data)}
+              isPending={inviteMutation.isPending}
               onCancel={() => setIsAddDialogOpen(false)}
             />
           </DialogContent>
@@ -95,7 +162,7 @@ export default function Users() {
       ) : (
         <div className="grid gap-4">
           {users.map((user) => (
-            <Card key={user.id || user._id}>
+            <Card key={user.id}>
               <CardHeader className="pb-3">
                 <div className="flex items-start justify-between">
                   <div className="flex items-center gap-3">
@@ -111,10 +178,64 @@ export default function Users() {
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
-                    <Badge variant={user.role === "admin" ? "default" : "secondary"}>
-                      <Shield className="w-3 h-3 mr-1" />
-                      {user.role}
-                    </Badge>
+                    {user.invitePending && (
+                      <>
+                        <Badge variant="outline" data-testid={`badge-invited-${user.id}`}>Invited</Badge>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => resendMutation.mutate(user.id)}
+                          disabled={resendMutation.isPending}
+                          data-testid={`button-resend-invite-${user.id}`}
+                        >
+                          <Send className="w-4 h-4 mr-2" />
+                          Resend
+                        </Button>
+                      </>
+                    )}
+                    {user.twoFactorEnabled && (
+                      <>
+                        <Badge variant="secondary" data-testid={`badge-two-factor-${user.id}`}>
+                          <ShieldCheck className="w-3 h-3 mr-1" />
+                          2FA
+                        </Badge>
+                        {user.id !== currentUser?.id && (
+                          // For someone who lost both their device and their recovery codes
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => resetTwoFactorMutation.mutate(user.id)}
+                            disabled={resetTwoFactorMutation.isPending}
+                            data-testid={`button-reset-two-factor-${user.id}`}
+                          >
+                            <ShieldOff className="w-4 h-4 mr-2" />
+                            Reset 2FA
+                          </Button>
+                        )}
+                      </>
+                    )}
+                    {user.id === currentUser?.id ? (
+                      // Your own role can't be changed, so an owner always remains
+                      <Badge variant={user.role === "owner" ? "default" : "secondary"} data-testid={`badge-role-${user.id}`}>
+                        <Shield className="w-3 h-3 mr-1" />
+                        {roleLabels[user.role]}
+                      </Badge>
+                    ) : (
+                      <Select
+                        value={user.role}
+                        onValueChange={(role: UserRole) => roleMutation.mutate({ id: user.id, role })}
+                        disabled={roleMutation.isPending}
+                      >
+                        <SelectTrigger className="w-40" data-testid={`select-role-${user.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {userRoles.map((role) => (
+                            <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
                     <Dialog
                       open={deletingUserId === user.id}
                       onOpenChange={(open) => !open && setDeletingUserId(null)}
@@ -123,7 +244,7 @@ export default function Users() {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => setDeletingUserId(user.id!)}
+                          onClick={() => setDeletingUserId(user.id)}
                           data-testid={`button-delete-${user.id}`}
                         >
                           <Trash2 className="w-4 h-4" />
@@ -146,7 +267,7 @@ export default function Users() {
                           </Button>
                           <Button
                             variant="destructive"
-                            onClick={() => deleteMutation.mutate(user.id!)}
+                            onClick={() => deleteMutation.mutate(user.id)}
                             disabled={deleteMutation.isPending}
                             data-testid="button-confirm-delete"
                           >
@@ -166,20 +287,19 @@ export default function Users() {
   );
 }
 
-interface UserFormProps {
-  onSubmit: (data: InsertUser) => void;
+interface InviteFormProps {
+  onSubmit: (data: InviteUser) => void;
   isPending: boolean;
   onCancel: () => void;
 }
 
-function UserForm({ onSubmit, isPending, onCancel }: UserFormProps) {
+function InviteForm({ onSubmit, isPending, onCancel }: InviteFormProps) {
   const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [role, setRole] = useState<"user" | "admin">("user");
+  const [role, setRole] = useState<UserRole>("viewer");
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit({ email, password, role });
+    onSubmit({ email, role });
   };
 
   return (
@@ -196,37 +316,26 @@ function UserForm({ onSubmit, isPending, onCancel }: UserFormProps) {
           data-testid="input-email"
         />
       </div>
-      <div className="space-y-2">
-        <Label htmlFor="password">Password</Label>
-        <Input
-          id="password"
-          type="password"
-          placeholder="Minimum 8 characters"
-          value={password}
-          onChange={(e) => setPassword(e.target.value)}
-          required
-          minLength={8}
-          data-testid="input-password"
-        />
-      </div>
       <div className="space-y-2">
         <Label htmlFor="role">Role</Label>
-        <Select value={role} onValueChange={(value: "user" | "admin") => setRole(value)}>
+        <Select value={role} onValueChange={(value: UserRole) => setRole(value)}>
           <SelectTrigger data-testid="select-role">
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="user">User</SelectItem>
-            <SelectItem value="admin">Admin</SelectItem>
+            {userRoles.map((value) => (
+              <SelectItem key={value} value={value}>{roleLabels[value]}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
+        <p className="text-sm text-muted-foreground">{roleDescriptions[role]}</p>
       </div>
       <div className="flex justify-end gap-2">
         <Button type="button" variant="outline" onClick={onCancel} disabled={isPending}>
           Cancel
         </Button>
         <Button type="submit" disabled={isPending} data-testid="button-submit">
-          {isPending ? "Creating..." : "Create User"}
+          {isPending ? "Sending..." : "Send Invitation"}
         </Button>
       </div>
     </form>
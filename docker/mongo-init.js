@@ -53,24 +53,8 @@ if (Array.isArray(faqs) && faqs.length > 0) {
   print('⚠️  No FAQs to import');
 }
 
-// Create default admin user with bcrypt password hash
-print('Creating default admin user...');
-
-// Pre-generated bcrypt hash for "BlueGrass20!" (cost factor 10)
-// This is generated using: bcrypt.hashSync('BlueGrass20!', 10)
-const adminPasswordHash = '$2b$10$HwB1wK.uTyjtXJKwmUUsL.sX90eQIHbKRxHv1/hRdULI9pUz7.yOm';
-
-db.users.insertOne({
-  email: 'admin@quillyourdream.com',
-  password: adminPasswordHash,
-  role: 'admin',
-  createdAt: new Date()
-});
-
-print('✅ Default admin user created');
-print('   Email: admin@quillyourdream.com');
-print('   Password: BlueGrass20!');
-print('   ⚠️  IMPORTANT: Change this password immediately after first login!');
+// No admin user is created here: the app prints a setup token on first start
+// and the owner creates the admin account at /setup
 
 // Create indexes for better performance
 print('Creating database indexes...');
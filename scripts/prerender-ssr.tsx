@@ -3,9 +3,8 @@ import { mkdir, writeFile, readFile } from "fs/promises";
 import { join } from "path";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
-import { db } from "../server/db.js";
-import { artworks, artistInfo, faqs } from "../shared/schema.js";
-import type { Artwork, ArtistInfo, FAQ } from "../shared/schema.js";
+import { connectDB } from "../server/db.js";
+import { getRepositories } from "../server/repositories/index.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -47,10 +46,13 @@ async function generateStaticRoutes(): Promise<RouteData[]> {
   const routes: RouteData[] = [];
   
   // Fetch all data upfront
-  const [allArtworks, artist, allFaqs] = await Promise.all([
-    db.select().from(artworks),
-    db.select().from(artistInfo).then(rows => rows[0]),
-    db.select().from(faqs)
+  await connectDB();
+  const { artworks, artist: artistRepo, faqs, collections } = getRepositories();
+  const [allArtworks, artist, allFaqs, allCollections] = await Promise.all([
+    artworks.list({ sort: { createdAt: -1 } }),
+    artistRepo.find(),
+    faqs.list({ sort: { order: 1 } }),
+    collections.list({ sort: { title: 1 } })
   ]);
 
   const featuredArtworks = allArtworks.filter(a => a.featured).slice(0, 6);
@@ -73,6 +75,15 @@ async function generateStaticRoutes(): Promise<RouteData[]> {
     data: { artworks: allArtworks }
   });
 
+  // Collections
+  routes.push({
+    path: "/collections",
+    title: "Collections | Shushan Aleksanyan Paper Quilling Art",
+    description: "Explore series of handcrafted paper quilling artworks by Shushan Aleksanyan, grouped by theme.",
+    component: "collections",
+    data: { collections: allCollections }
+  });
+
   // About
   routes.push({
     path: "/about",
@@ -115,6 +126,21 @@ async function generateStaticRoutes(): Promise<RouteData[]> {
     });
   }
 
+  // Collection pages, artworks in the order chosen by the admin
+  for (const collection of allCollections) {
+    const collectionArtworks = collection.artworkIds
+      .map(id => allArtworks.find(a => a.id === id))
+      .filter(Boolean);
+
+    routes.push({
+      path: `/collections/${collection.slug}`,
+      title: `${collection.title} | Shushan Aleksanyan Paper Quilling Art`,
+      description: escapeHtml(truncateDescription(collection.description)),
+      component: "collection",
+      data: { collection: { ...collection, artworks: collectionArtworks } }
+    });
+  }
+
   return routes;
 }
 
@@ -243,7 +269,7 @@ Sitemap: https://quillyourdream.com/sitemap.xml`;
   console.log("✅ Generated robots.txt");
 }
 
-prebuildStatic().catch((err) => {
+prebuildStatic().then(() => process.exit(0)).catch((err) => {
   console.error("Error during prerendering:", err);
   process.exit(1);
 });
@@ -0,0 +1,6 @@
+export class AccountError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
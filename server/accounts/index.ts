@@ -0,0 +1,159 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { InviteUser, PasswordTokenInfo, PasswordTokenPurpose, User } from '@shared/schema';
+import { getRepositories, type Stored } from '../repositories';
+import { hashPassword } from '../auth';
+import { sendInvitationEmail, sendPasswordResetEmail, SITE_URL } from '../mail';
+import { RateLimiter } from '../spam/rateLimit';
+import { AccountError } from './errors';
+
+export { AccountError } from './errors';
+export {
+  startTwoFactorEnrolment,
+  confirmTwoFactorEnrolment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  resetTwoFactor,
+  verifySecondFactor,
+  isTwoFactorSetupRequired,
+} from './twoFactor';
+export {
+  startLoginAttempt,
+  recordLoginFailure,
+  recordLoginSuccess,
+  cancelLoginAttempt,
+  listLoginLockouts,
+  unlockLogin,
+} from './loginThrottle';
+export type { LoginAttempt } from './loginThrottle';
+
+const RESET_TTL = 60 * 60 * 1000; // 1 hour
+const INVITE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const tokenTtl: Record<PasswordTokenPurpose, number> = {
+  reset: RESET_TTL,
+  invite: INVITE_TTL,
+};
+
+// Reset requests are limited per IP, and quietly per account so nobody can
+// flood an inbox; the reply never says which limit applied
+const resetIpLimiter = new RateLimiter(5, 10 * 60 * 1000); // 5 per 10 minutes
+const resetEmailLimiter = new RateLimiter(3, 60 * 60 * 1000); // 3 per hour
+
+const invalidLink = () => new AccountError('This link is invalid or has expired', 400);
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function passwordLink(token: string): string {
+  return `${SITE_URL}/set-password?token=${encodeURIComponent(token)}`;
+}
+
+// Tokens read "<user id>.<secret>". The secret is only stored hashed, and a
+// new token replaces any earlier one for the same user.
+async function issueToken(user: Stored<User>, purpose: PasswordTokenPurpose): Promise<string> {
+  const secret = randomBytes(32).toString('base64url');
+  await getRepositories().users.update(user._id, {
+    passwordToken: {
+      hash: hashSecret(secret),
+      purpose,
+      expiresAt: new Date(Date.now() + tokenTtl[purpose]).toISOString(),
+    },
+  });
+  return `${user.id}.${secret}`;
+}
+
+async function findTokenUser(token: string): Promise<Stored<User>> {
+  const [id, secret] = token.split('.');
+  const user = id && secret ? await getRepositories().users.findByPublicId(id) : null;
+  const stored = user?.passwordToken;
+  if (!user || !stored || Date.parse(stored.expiresAt) <= Date.now()) {
+    throw invalidLink();
+  }
+
+  const expected = Buffer.from(stored.hash, 'hex');
+  const actual = Buffer.from(hashSecret(secret), 'hex');
+  if (!timingSafeEqual(expected, actual)) {
+    throw invalidLink();
+  }
+  return user;
+}
+
+// Emails a reset link when the address belongs to an account. Resolves the
+// same way either way, so the form can't be used to discover accounts.
+export async function requestPasswordReset(email: string, ip: string): Promise<void> {
+  if (!resetIpLimiter.hit(ip)) {
+    throw new AccountError('Too many reset requests. Please try again later.', 429);
+  }
+
+  const user = await getRepositories().users.find({ email });
+  if (!user || !resetEmailLimiter.hit(email)) {
+    return;
+  }
+
+  // Not awaited: the reply must take as long when an account exists as when
+  // it doesn't, and the token write and mail delivery would give it away
+  sendResetLink(user).catch((error) => {
+    console.error(`❌ Password reset email to ${email} failed:`, error);
+  });
+}
+
+async function sendResetLink(user: Stored<User>): Promise<void> {
+  const token = await issueToken(user, 'reset');
+  await sendPasswordResetEmail(user, passwordLink(token), RESET_TTL / 60000);
+}
+
+// Creates the account without a usable password and emails the invitee a
+// link to choose one
+export async function inviteUser(invite: InviteUser): Promise<Stored<User>> {
+  const { users } = getRepositories();
+  if (await users.find({ email: invite.email })) {
+    throw new AccountError('User with this email already exists', 400);
+  }
+
+  const user = await users.create({
+    email: invite.email,
+    role: invite.role,
+    password: await hashPassword(randomBytes(32).toString('hex')),
+    invitePending: true,
+  });
+  return sendInvitation(user);
+}
+
+// Issues a fresh invitation link, invalidating the previous one
+export async function resendInvitation(user: Stored<User>): Promise<Stored<User>> {
+  if (!user.invitePending) {
+    throw new AccountError('This user has already accepted their invitation', 400);
+  }
+  return sendInvitation(user);
+}
+
+async function sendInvitation(user: Stored<User>): Promise<Stored<User>> {
+  const token = await issueToken(user, 'invite');
+  try {
+    await sendInvitationEmail(user, passwordLink(token), INVITE_TTL / (24 * 60 * 60 * 1000));
+  } catch (error) {
+    console.error(`❌ Invitation email to ${user.email} failed:`, error);
+    throw new AccountError('The invitation was saved but the email could not be sent. Try resending it.', 502);
+  }
+  return user;
+}
+
+export async function checkPasswordToken(token: string): Promise<PasswordTokenInfo> {
+  const user = await findTokenUser(token);
+  return { email: user.email, purpose: user.passwordToken!.purpose };
+}
+
+// Sets the password and uses up the link
+export async function redeemPasswordToken(token: string, password: string): Promise<Stored<User>> {
+  const user = await findTokenUser(token);
+  const updated = await getRepositories().users.update(user._id, {
+    password: await hashPassword(password),
+    passwordToken: null,
+    invitePending: false,
+  });
+  if (!updated) {
+    throw invalidLink();
+  }
+  return updated;
+}
@@ -0,0 +1,197 @@
+import type { LoginLockout, LoginLockoutScope, PublicUser } from '@shared/schema';
+import { recordAudit } from '../audit';
+import { AccountError } from './errors';
+
+// Failed logins are counted per account and per IP. A few mistakes are free;
+// after that each failure doubles the wait before the next attempt, and past
+// the lockout threshold attempts are refused for LOCKOUT_MS. Every attempt is
+// counted as a failure before the password is checked, so parallel requests
+// can't all slip through one opening; the ones that turn out fine are handed
+// back. Like the spam rate limits this is kept in memory, so a restart clears it.
+const MAX_DELAY_MS = 30 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000; // 15 minutes
+// Counts start over after this long without a failure; until then every
+// failure after a lockout ends locks again straight away
+const FORGET_AFTER_MS = 60 * 60 * 1000; // 1 hour
+
+interface ThrottlePolicy {
+  freeFailures: number;
+  lockAfter: number;
+}
+
+// Unknown emails are tracked like real accounts, so the replies never reveal
+// which addresses have one
+const ACCOUNT_POLICY: ThrottlePolicy = { freeFailures: 3, lockAfter: 10 };
+// Looser, as several people may share an address
+const IP_POLICY: ThrottlePolicy = { freeFailures: 10, lockAfter: 30 };
+
+interface FailureRecord {
+  failures: number;
+  lastFailedAt: number;
+  retryAt: number;
+}
+
+class FailureTracker {
+  private records = new Map<string, FailureRecord>();
+
+  constructor(private scope: LoginLockoutScope, private policy: ThrottlePolicy) {
+    const timer = setInterval(() => this.prune(), FORGET_AFTER_MS);
+    timer.unref();
+  }
+
+  // When the key may try again, or null if it may now
+  retryAt(key: string, now = Date.now()): number | null {
+    const record = this.current(key, now);
+    return record && record.retryAt > now ? record.retryAt : null;
+  }
+
+  // Counts a failure; true when it locks the key out
+  fail(key: string, now = Date.now()): boolean {
+    const failures = (this.current(key, now)?.failures ?? 0) + 1;
+    this.records.set(key, { failures, lastFailedAt: now, retryAt: now + this.waitAfter(failures) });
+    return failures >= this.policy.lockAfter;
+  }
+
+  // Takes back one counted failure, for an attempt that didn't fail after all
+  refund(key: string, now = Date.now()): void {
+    const record = this.current(key, now);
+    if (!record) {
+      return;
+    }
+    const failures = record.failures - 1;
+    if (failures <= 0) {
+      this.records.delete(key);
+    } else {
+      this.records.set(key, { ...record, failures, retryAt: record.lastFailedAt + this.waitAfter(failures) });
+    }
+  }
+
+  clear(key: string): boolean {
+    return this.records.delete(key);
+  }
+
+  // Keys that are waiting right now
+  list(now = Date.now()): LoginLockout[] {
+    return Array.from(this.records.entries())
+      .filter(([, record]) => record.retryAt > now)
+      .map(([key, record]) => ({
+        scope: this.scope,
+        key,
+        failures: record.failures,
+        lastFailedAt: new Date(record.lastFailedAt).toISOString(),
+        retryAt: new Date(record.retryAt).toISOString(),
+        locked: record.failures >= this.policy.lockAfter,
+      }));
+  }
+
+  private waitAfter(failures: number): number {
+    if (failures >= this.policy.lockAfter) {
+      return LOCKOUT_MS;
+    }
+    const excess = failures - this.policy.freeFailures;
+    return excess > 0 ? Math.min(1000 * 2 ** (excess - 1), MAX_DELAY_MS) : 0;
+  }
+
+  private current(key: string, now: number): FailureRecord | undefined {
+    const record = this.records.get(key);
+    if (record && now - record.lastFailedAt > FORGET_AFTER_MS) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const key of Array.from(this.records.keys())) {
+      this.current(key, now);
+    }
+  }
+}
+
+const trackers: Record<LoginLockoutScope, FailureTracker> = {
+  account: new FailureTracker('account', ACCOUNT_POLICY),
+  ip: new FailureTracker('ip', IP_POLICY),
+};
+
+function accountKey(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// A login attempt already counted against its account and IP. It must end
+// in exactly one of recordLoginFailure, recordLoginSuccess or cancelLoginAttempt.
+export interface LoginAttempt {
+  email: string; // Lowercased
+  ip: string;
+  locks: LoginLockoutScope[]; // Scopes this attempt locks out if it fails
+}
+
+export type LoginCheck =
+  | { allowed: false; retryAfter: number } // Seconds
+  | { allowed: true; attempt: LoginAttempt };
+
+// Refuses the attempt while the account or IP is waiting; otherwise counts it
+// as a failure up front
+export function startLoginAttempt(email: string, ip: string): LoginCheck {
+  const now = Date.now();
+  const key = accountKey(email);
+  const retryAt = Math.max(trackers.account.retryAt(key, now) ?? 0, trackers.ip.retryAt(ip, now) ?? 0);
+  if (retryAt > now) {
+    return { allowed: false, retryAfter: Math.ceil((retryAt - now) / 1000) };
+  }
+
+  const locks: LoginLockoutScope[] = [];
+  if (trackers.account.fail(key, now)) {
+    locks.push('account');
+  }
+  if (trackers.ip.fail(ip, now)) {
+    locks.push('ip');
+  }
+  return { allowed: true, attempt: { email: key, ip, locks } };
+}
+
+// A wrong password or second-factor code: the failure stays counted and is
+// audited, along with any lockout it causes
+export async function recordLoginFailure(attempt: LoginAttempt, detail: string): Promise<void> {
+  const { email, ip, locks } = attempt;
+  await recordAudit({ event: 'login.failed', email, ip, detail });
+  if (locks.includes('account')) {
+    await recordAudit({ event: 'login.locked', email, ip, detail: `Account locked for ${LOCKOUT_MS / 60000} minutes` });
+  }
+  if (locks.includes('ip')) {
+    await recordAudit({ event: 'login.locked', ip, detail: `IP address locked for ${LOCKOUT_MS / 60000} minutes` });
+  }
+}
+
+// A full login (including any second factor) clears the account's count.
+// The IP only gets this attempt back, so one good login can't reset an attack.
+export function recordLoginSuccess(attempt: LoginAttempt): void {
+  trackers.account.clear(attempt.email);
+  trackers.ip.refund(attempt.ip);
+}
+
+// Neither success nor failure, e.g. a correct password still waiting for its
+// second factor, or a request that errored
+export function cancelLoginAttempt(attempt: LoginAttempt): void {
+  trackers.account.refund(attempt.email);
+  trackers.ip.refund(attempt.ip);
+}
+
+export function listLoginLockouts(): LoginLockout[] {
+  const now = Date.now();
+  return [...trackers.account.list(now), ...trackers.ip.list(now)]
+    .sort((a, b) => b.lastFailedAt.localeCompare(a.lastFailedAt));
+}
+
+export async function unlockLogin(scope: LoginLockoutScope, key: string, actor: PublicUser): Promise<void> {
+  const trackedKey = scope === 'account' ? accountKey(key) : key;
+  if (!trackers[scope].clear(trackedKey)) {
+    throw new AccountError('Nothing to unlock', 404);
+  }
+  await recordAudit({
+    event: 'login.unlocked',
+    ...(scope === 'account' ? { email: trackedKey } : { ip: trackedKey }),
+    detail: `Unlocked by ${actor.email}`,
+    actorId: actor.id,
+  });
+}
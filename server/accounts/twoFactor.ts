@@ -0,0 +1,154 @@
+import { createHash, randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import type { PublicUser, TwoFactorEnrolment, User } from '@shared/schema';
+import { getRepositories, type Stored } from '../repositories';
+import { verifyPassword } from '../auth';
+import { AccountError } from './errors';
+import { generateTotpSecret, totpUri, verifyTotp } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+const invalidCode = () => new AccountError('Invalid authentication code', 400);
+
+// Recovery codes are compared without case or separators, so "ab12c-3de45"
+// and "AB12C3DE45" are the same code
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+async function loadUser(userId: string): Promise<Stored<User>> {
+  const user = await getRepositories().users.findById(userId);
+  if (!user) {
+    throw new AccountError('User not found', 404);
+  }
+  return user;
+}
+
+// Stores a new secret awaiting its first code. Starting again replaces an
+// unconfirmed secret, but never one that is already in use.
+export async function startTwoFactorEnrolment(userId: string): Promise<TwoFactorEnrolment> {
+  const { users, artist } = getRepositories();
+  const user = await loadUser(userId);
+  if (user.twoFactor?.enabledAt) {
+    throw new AccountError('Two-factor authentication is already on', 409);
+  }
+
+  const secret = generateTotpSecret();
+  await users.update(user._id, { twoFactor: { secret, enabledAt: null, recoveryCodes: [] } });
+
+  const issuer = (await artist.find())?.name || 'Quill Your Dream';
+  const otpauthUrl = totpUri(secret, user.email, issuer);
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+// Turns 2FA on once the app produces a valid code. Returns the recovery
+// codes, which are only ever shown this once.
+export async function confirmTwoFactorEnrolment(userId: string, code: string): Promise<string[]> {
+  const user = await loadUser(userId);
+  const twoFactor = user.twoFactor;
+  if (!twoFactor || twoFactor.enabledAt) {
+    throw new AccountError('Start two-factor setup first', 400);
+  }
+
+  const step = verifyTotp(twoFactor.secret, code);
+  if (step === null) {
+    throw invalidCode();
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await getRepositories().users.update(user._id, {
+    twoFactor: {
+      secret: twoFactor.secret,
+      enabledAt: new Date().toISOString(),
+      recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      lastStep: step,
+    },
+  });
+  return recoveryCodes;
+}
+
+// Checks an authenticator code or an unused recovery code, using up the
+// latter. Each authenticator code is accepted once, so an observed code
+// can't be replayed within its 30 seconds.
+export async function verifySecondFactor(user: Stored<User>, code: string): Promise<boolean> {
+  const twoFactor = user.twoFactor;
+  if (!twoFactor?.enabledAt) {
+    return false;
+  }
+  const { users } = getRepositories();
+  const digits = code.replace(/\s/g, '');
+
+  if (/^\d{6}$/.test(digits)) {
+    const step = verifyTotp(twoFactor.secret, digits);
+    if (step === null || step <= (twoFactor.lastStep ?? -1)) {
+      return false;
+    }
+    await users.update(user._id, { twoFactor: { ...twoFactor, lastStep: step } });
+    return true;
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!twoFactor.recoveryCodes.includes(hash)) {
+    return false;
+  }
+  await users.update(user._id, {
+    twoFactor: { ...twoFactor, recoveryCodes: twoFactor.recoveryCodes.filter((stored) => stored !== hash) },
+  });
+  return true;
+}
+
+// Needs both the password and a current code, so a session left open on
+// someone else's computer can't switch 2FA off
+export async function disableTwoFactor(userId: string, password: string, code: string): Promise<void> {
+  const { users, settings } = getRepositories();
+  const user = await loadUser(userId);
+  if (!user.twoFactor?.enabledAt) {
+    throw new AccountError('Two-factor authentication is not on', 400);
+  }
+  if ((await settings.find())?.requireTwoFactor) {
+    throw new AccountError('This site requires two-factor authentication for every account', 400);
+  }
+  if (!(await verifyPassword(password, user.password))) {
+    throw new AccountError('Password is incorrect', 400);
+  }
+  if (!(await verifySecondFactor(user, code))) {
+    throw invalidCode();
+  }
+  await users.update(user._id, { twoFactor: null });
+}
+
+// Replaces every recovery code, e.g. once most have been used
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  const user = await loadUser(userId);
+  if (!(await verifySecondFactor(user, code))) {
+    throw invalidCode();
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const latest = await loadUser(userId); // verifySecondFactor may have moved lastStep on
+  await getRepositories().users.update(user._id, {
+    twoFactor: { ...latest.twoFactor!, recoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+  });
+  return recoveryCodes;
+}
+
+// For an owner helping someone who lost both their device and their codes
+export async function resetTwoFactor(user: Stored<User>): Promise<void> {
+  await getRepositories().users.update(user._id, { twoFactor: null });
+}
+
+// True while the site requires 2FA and the user hasn't enrolled yet; such a
+// session can only enrol until then
+export async function isTwoFactorSetupRequired(user: Pick<PublicUser, 'twoFactorEnabled'>): Promise<boolean> {
+  if (user.twoFactorEnabled) {
+    return false;
+  }
+  return !!(await getRepositories().settings.find())?.requireTwoFactor;
+}
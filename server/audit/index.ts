@@ -0,0 +1,50 @@
+import type { AuditEntry } from '@shared/schema';
+import { getRepositories, type NewDocument, type Stored } from '../repositories';
+
+const RECENT_LIMIT = 200;
+
+// The log keeps its newest MAX_ENTRIES, so a flood of failed logins can't
+// grow it without limit. Checked every PRUNE_EVERY writes rather than on each.
+const MAX_ENTRIES = 10000;
+const PRUNE_EVERY = 100;
+
+let writesSincePrune = 0;
+let pruning: Promise<void> | null = null;
+
+// Writes an entry without ever failing the request that caused it
+export async function recordAudit(entry: NewDocument<AuditEntry>): Promise<void> {
+  try {
+    await getRepositories().audit.create(entry);
+  } catch (error) {
+    console.error(`❌ Could not write audit entry (${entry.event}):`, error);
+    return;
+  }
+
+  writesSincePrune += 1;
+  if (writesSincePrune >= PRUNE_EVERY && !pruning) {
+    writesSincePrune = 0;
+    pruning = pruneAuditLog()
+      .catch((error) => console.error('❌ Could not prune the audit log:', error))
+      .finally(() => {
+        pruning = null;
+      });
+  }
+}
+
+// Deletes the oldest entries beyond MAX_ENTRIES
+async function pruneAuditLog(): Promise<void> {
+  const { audit } = getRepositories();
+  const excess = (await audit.count()) - MAX_ENTRIES;
+  if (excess <= 0) {
+    return;
+  }
+  const oldest = await audit.list({ sort: { createdAt: 1 }, limit: excess });
+  for (const entry of oldest) {
+    await audit.delete(entry._id);
+  }
+}
+
+// Newest first
+export function listAuditEntries(limit = RECENT_LIMIT): Promise<Stored<AuditEntry>[]> {
+  return getRepositories().audit.list({ sort: { createdAt: -1 }, limit: Math.min(limit, RECENT_LIMIT) });
+}
@@ -5,19 +5,58 @@ import MongoStore from 'connect-mongo';
 import FileStore from 'session-file-store';
 import bcrypt from 'bcrypt';
 import { type Express, type Request, type Response, type NextFunction } from 'express';
-import { User, MONGODB_URI, isMongoDBConnected } from './db';
+import { MONGODB_URI, isMongoDBConnected } from './db';
+import { getRepositories } from './repositories';
+import { hasPermission, twoFactorCodeSchema, type Permission, type PublicUser, type User } from '@shared/schema';
+import {
+  cancelLoginAttempt,
+  isTwoFactorSetupRequired,
+  recordLoginFailure,
+  recordLoginSuccess,
+  startLoginAttempt,
+  verifySecondFactor,
+} from './accounts';
+import type { LoginAttempt } from './accounts';
 
 const FileStoreSession = FileStore(session);
 
-// Password hashing using bcrypt with salt rounds
+// Where each session store keeps its data (also read by the backend sync tool)
+export const SESSION_FILE_DIR = './data/sessions';
+export const MONGO_SESSION_COLLECTION = 'sessions';
+
+// Password hashing using bcrypt with salt rounds. The async calls run on
+// libuv's thread pool, so a burst of logins doesn't stall other requests.
 const SALT_ROUNDS = 10;
 
-export function hashPassword(password: string): string {
-  return bcrypt.hashSync(password, SALT_ROUNDS);
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, SALT_ROUNDS);
+}
+
+export function verifyPassword(password: string, hash: string): Promise<boolean> {
+  return bcrypt.compare(password, hash);
 }
 
-export function verifyPassword(password: string, hash: string): boolean {
-  return bcrypt.compareSync(password, hash);
+// Compared against when the email has no account, so those logins take as
+// long as a wrong password and don't reveal which addresses exist
+const unknownAccountHash = hashPassword('no account has this password');
+
+// Drop the fields that must never leave the server
+export function toPublicUser<T extends Pick<User, 'password' | 'passwordToken' | 'twoFactor'>>(
+  user: T,
+): Omit<T, 'password' | 'passwordToken' | 'twoFactor'> & { twoFactorEnabled: boolean } {
+  const { password, passwordToken, twoFactor, ...publicUser } = user;
+  return { ...publicUser, twoFactorEnabled: !!twoFactor?.enabledAt };
+}
+
+// A password login waiting for its second factor. Nothing is signed in
+// until the code passes.
+const PENDING_LOGIN_TTL = 5 * 60 * 1000; // 5 minutes
+const MAX_CODE_ATTEMPTS = 5;
+
+declare module 'express-session' {
+  interface SessionData {
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+  }
 }
 
 // Passport serialization
@@ -27,11 +66,9 @@ passport.serializeUser((user: any, done) => {
 
 passport.deserializeUser(async (id: string, done) => {
   try {
-    const user = await User.findOne({ _id: id });
+    const user = await getRepositories().users.findById(id);
     if (user) {
-      // Remove password from user object
-      const { password, ...userWithoutPassword } = user as any;
-      done(null, userWithoutPassword);
+      done(null, toPublicUser(user));
     } else {
       done(null, false);
     }
@@ -40,6 +77,11 @@ passport.deserializeUser(async (id: string, done) => {
   }
 });
 
+// The same message either way; the login route audits the detail
+function loginFailure(detail: string) {
+  return { message: 'Invalid email or password', detail };
+}
+
 // Local strategy for email/password authentication
 passport.use(
   new LocalStrategy(
@@ -49,16 +91,17 @@ passport.use(
     },
     async (email, password, done) => {
       try {
-        const user = await User.findOne({ email });
+        const user = await getRepositories().users.find({ email });
 
         if (!user) {
-          return done(null, false, { message: 'Invalid email or password' });
+          await verifyPassword(password, await unknownAccountHash);
+          return done(null, false, loginFailure('Unknown account'));
         }
 
         // Use bcrypt to verify password
-        const isPasswordValid = verifyPassword(password, user.password);
+        const isPasswordValid = await verifyPassword(password, user.password);
         if (!isPasswordValid) {
-          return done(null, false, { message: 'Invalid email or password' });
+          return done(null, false, loginFailure('Wrong password'));
         }
 
         return done(null, user);
@@ -81,6 +124,7 @@ export async function setupAuth(app: Express) {
         saveUninitialized: false,
         store: MongoStore.create({
           mongoUrl: MONGODB_URI,
+          collectionName: MONGO_SESSION_COLLECTION,
           touchAfter: 24 * 3600, // Lazy update session (once per 24h)
         }),
         cookie: {
@@ -100,7 +144,7 @@ export async function setupAuth(app: Express) {
         resave: false,
         saveUninitialized: false,
         store: new FileStoreSession({
-          path: './data/sessions',
+          path: SESSION_FILE_DIR,
           ttl: 7 * 24 * 60 * 60, // 7 days in seconds
           retries: 0,
         }),
@@ -117,65 +161,98 @@ export async function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
-  // Create default admin user (works with both NeDB and MongoDB)
-  try {
-    const adminEmail = 'admin@quillyourdream.com';
-    const existingAdmin = await User.findOne({ email: adminEmail });
-
-    if (!existingAdmin) {
-      // Different passwords for MongoDB vs NeDB for security
-      const defaultPassword = isMongoDBConnected() ? 'BlueGrass20!' : 'admin123';
-      
-      if (isMongoDBConnected()) {
-        // MongoDB: use Mongoose model
-        const admin = new User({
-          email: adminEmail,
-          password: hashPassword(defaultPassword),
-          role: 'admin',
-        });
-        await admin.save();
-        console.log('✅ Default admin user created (MongoDB)');
-        console.log('   Email: admin@quillyourdream.com');
-        console.log('   Password: BlueGrass20!');
-        console.log('   ⚠️  Change this password immediately!');
-      } else {
-        // NeDB: Admin user already created during NeDB initialization
-        console.log('✅ Admin user managed by NeDB database service');
-        console.log('   Email: admin@quillyourdream.com');
-        console.log('   Password: admin123');
-      }
+  // Login route. Attempts are refused without checking the password while
+  // the account or IP is waiting out earlier failures.
+  app.post('/api/login', (req: Request, res: Response, next: NextFunction) => {
+    const email = typeof req.body?.email === 'string' ? req.body.email : '';
+    const check = startLoginAttempt(email, req.ip || 'unknown');
+    if (!check.allowed) {
+      return tooManyAttempts(res, check.retryAfter);
     }
-  } catch (error) {
-    console.error('⚠️  Could not verify admin user:', error instanceof Error ? error.message : error);
-  }
+    const { attempt } = check;
 
-  // Login route
-  app.post('/api/login', (req: Request, res: Response, next: NextFunction) => {
-    passport.authenticate('local', (err: any, user: any, info: any) => {
+    passport.authenticate('local', async (err: any, user: any, info: any) => {
       if (err) {
+        cancelLoginAttempt(attempt);
         return res.status(500).json({ message: 'Authentication error' });
       }
 
       if (!user) {
+        // Passport answers missing fields itself, without a detail
+        if (info?.detail) {
+          await recordLoginFailure(attempt, info.detail);
+        } else {
+          cancelLoginAttempt(attempt);
+        }
         return res.status(401).json({ message: info?.message || 'Invalid credentials' });
       }
 
-      req.logIn(user, (err) => {
-        if (err) {
-          return res.status(500).json({ message: 'Login failed' });
-        }
-
-        const userResponse = {
-          _id: user._id,
-          email: user.email,
-          role: user.role,
+      if (user.twoFactor?.enabledAt) {
+        // The account's count stays until the code passes too
+        cancelLoginAttempt(attempt);
+        req.session.pendingTwoFactor = {
+          userId: user._id.toString(),
+          expiresAt: Date.now() + PENDING_LOGIN_TTL,
+          attempts: 0,
         };
+        return res.json({ twoFactorRequired: true });
+      }
 
-        return res.json({ user: userResponse });
-      });
+      recordLoginSuccess(attempt);
+      logInUser(req, res, user);
     })(req, res, next);
   });
 
+  // Second login step: an authenticator or recovery code for the pending login
+  app.post('/api/login/2fa', async (req: Request, res: Response) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: 'Your sign-in has expired. Please log in again.' });
+    }
+
+    const validation = twoFactorCodeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: validation.error.errors[0].message });
+    }
+
+    let attempt: LoginAttempt | undefined;
+    try {
+      const user = await getRepositories().users.findById(pending.userId);
+      if (!user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: 'Your sign-in has expired. Please log in again.' });
+      }
+
+      // Wrong codes count towards the account's lockout as well, so logging
+      // in again for a fresh set of attempts doesn't help guess codes
+      const check = startLoginAttempt(user.email, req.ip || 'unknown');
+      if (!check.allowed) {
+        return tooManyAttempts(res, check.retryAfter);
+      }
+      attempt = check.attempt;
+
+      if (!(await verifySecondFactor(user, validation.data.code))) {
+        await recordLoginFailure(attempt, 'Invalid two-factor code');
+        pending.attempts += 1;
+        if (pending.attempts >= MAX_CODE_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: 'Too many invalid codes. Please log in again.' });
+        }
+        return res.status(401).json({ message: 'Invalid authentication code' });
+      }
+
+      recordLoginSuccess(attempt);
+      logInUser(req, res, user);
+    } catch (error) {
+      if (attempt) {
+        cancelLoginAttempt(attempt);
+      }
+      console.error('Error verifying two-factor code:', error);
+      res.status(500).json({ message: 'Authentication error' });
+    }
+  });
+
   // Logout route
   app.post('/api/logout', (req: Request, res: Response) => {
     req.logout((err) => {
@@ -187,6 +264,32 @@ export async function setupAuth(app: Express) {
   });
 }
 
+function tooManyAttempts(res: Response, seconds: number) {
+  const wait = seconds < 60
+    ? `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`
+    : `${Math.ceil(seconds / 60)} minutes`;
+  res.set('Retry-After', String(seconds));
+  return res.status(429).json({ message: `Too many failed login attempts. Please try again in ${wait}.` });
+}
+
+// Starts the session (passport regenerates it, dropping any pending login)
+function logInUser(req: Request, res: Response, user: any) {
+  req.logIn(user, (err) => {
+    if (err) {
+      return res.status(500).json({ message: 'Login failed' });
+    }
+
+    const userResponse = {
+      _id: user._id,
+      id: user.id,
+      email: user.email,
+      role: user.role,
+    };
+
+    return res.json({ user: userResponse });
+  });
+}
+
 // Middleware to check if user is authenticated
 export function isAuthenticated(req: Request, res: Response, next: NextFunction) {
   if (req.isAuthenticated()) {
@@ -195,10 +298,34 @@ export function isAuthenticated(req: Request, res: Response, next: NextFunction)
   res.status(401).json({ message: 'Unauthorized' });
 }
 
-// Middleware to check if user is admin
-export function isAdmin(req: Request, res: Response, next: NextFunction) {
-  if (req.isAuthenticated() && (req.user as any)?.role === 'admin') {
-    return next();
-  }
-  res.status(403).json({ message: 'Forbidden - Admin access required' });
+// Middleware factory requiring every listed permission from the user's role.
+// While the site requires 2FA, accounts without it are refused until they enrol.
+export function requirePermission(...required: Permission[]) {
+  return permissionGuard((role) => required.every((permission) => hasPermission(role, permission)));
+}
+
+// Same, for routes that any one of the listed permissions opens
+export function requireAnyPermission(...allowed: readonly Permission[]) {
+  return permissionGuard((role) => allowed.some((permission) => hasPermission(role, permission)));
+}
+
+function permissionGuard(allows: (role: PublicUser['role']) => boolean) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    const user = req.user as PublicUser;
+    if (!allows(user.role)) {
+      return res.status(403).json({ message: 'Forbidden - Your role does not allow this action' });
+    }
+
+    try {
+      if (await isTwoFactorSetupRequired(user)) {
+        return res.status(403).json({ message: 'Forbidden - Set up two-factor authentication first' });
+      }
+    } catch (error) {
+      return next(error);
+    }
+    next();
+  };
 }
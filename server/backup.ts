@@ -0,0 +1,81 @@
+import { resolve } from "path";
+import { connectDB, getMigrationTarget } from "./db";
+import { createBackup, restoreBackup, BackupError } from "./backups";
+
+// Usage:
+//   npm run backup -- create [--out <file>]
+//   npm run backup -- restore <file> [--dry-run]
+//
+// Archives are portable between database services: set USE_NEDB to choose
+// which backend a backup is read from or restored into.
+function parseArgs(argv: string[]) {
+  const [command, ...rest] = argv;
+  const outIndex = rest.indexOf("--out");
+
+  return {
+    command,
+    out: outIndex >= 0 ? rest[outIndex + 1] : undefined,
+    file: rest.find((arg, index) => !arg.startsWith("--") && (outIndex < 0 || index !== outIndex + 1)),
+    dryRun: rest.includes("--dry-run"),
+  };
+}
+
+function defaultArchiveName(): string {
+  return `backup-${new Date().toISOString().replace(/[:.]/g, "-")}.tar.gz`;
+}
+
+async function main() {
+  const { command, out, file, dryRun } = parseArgs(process.argv.slice(2));
+
+  switch (command) {
+    case "create": {
+      await connectDB();
+      const target = getMigrationTarget();
+      const archive = resolve(out ?? defaultArchiveName());
+
+      console.log(`\nBacking up ${target.backend} database service...\n`);
+      const manifest = await createBackup(target, archive);
+      for (const [name, entry] of Object.entries(manifest.collections)) {
+        console.log(`  ${name.padEnd(10)} ${entry.count} document(s)`);
+      }
+      console.log(`  ${"media".padEnd(10)} ${manifest.media.length} file(s)`);
+      console.log(`  ${"references".padEnd(10)} ${manifest.references?.length ?? 0} file(s)`);
+      console.log(`\n✓ Backup written to ${archive}`);
+      break;
+    }
+    case "restore": {
+      if (!file) {
+        throw new Error("restore expects the path of an archive");
+      }
+
+      // The archive carries its own schema version; restore brings it up to date
+      await connectDB({ runMigrations: false });
+      const target = getMigrationTarget();
+
+      console.log(`\nRestoring ${file} into ${target.backend} database service${dryRun ? " (dry run)" : ""}...\n`);
+      const result = await restoreBackup(target, resolve(file), { dryRun });
+      console.log(`  Archive created ${result.manifest.createdAt} from ${result.manifest.backend}`);
+      for (const [name, count] of Object.entries(result.collections)) {
+        console.log(`  ${name.padEnd(10)} ${count} document(s)`);
+      }
+      console.log(`  ${"media".padEnd(10)} ${result.media} file(s)`);
+      console.log(`  ${"references".padEnd(10)} ${result.references} file(s)`);
+      console.log(`\n✓ Archive ${dryRun ? "is valid; nothing was written" : "restored"}`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command ?? ""}" (expected create or restore)`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("✗ Backup failed:", error instanceof Error ? error.message : error);
+    if (error instanceof BackupError) {
+      for (const detail of error.details) {
+        console.error(`  - ${detail}`);
+      }
+    }
+    process.exit(1);
+  });
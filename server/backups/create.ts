@@ -0,0 +1,106 @@
+import { existsSync } from 'fs';
+import { mkdtemp, mkdir, readdir, rm, stat, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative, sep } from 'path';
+import * as tar from 'tar';
+import type { MigrationTarget, RawDocument } from '../migrations';
+import {
+  BACKUP_FORMAT,
+  FORMAT_VERSION,
+  MANIFEST_FILE,
+  COLLECTIONS_DIR,
+  mediaRoots,
+  backupMediaRoots,
+  backupCollections,
+  sha256File,
+  type BackupManifest,
+  type ManifestEntry,
+  type MediaRootName,
+} from './manifest';
+
+// Plain JSON form of a stored document: ObjectIds become strings, dates ISO strings
+function toPortable(doc: RawDocument): RawDocument {
+  const { __v, ...rest } = doc;
+  return JSON.parse(JSON.stringify(rest));
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(path));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
+
+async function describeMedia(root: string): Promise<ManifestEntry[]> {
+  if (!existsSync(root)) {
+    return [];
+  }
+
+  const media: ManifestEntry[] = [];
+  for (const file of (await listFiles(root)).sort()) {
+    media.push({
+      path: relative(root, file).split(sep).join('/'),
+      size: (await stat(file)).size,
+      sha256: await sha256File(file),
+    });
+  }
+  return media;
+}
+
+// Write a gzipped tar archive of every collection, optimized image and
+// commission reference image to `outFile`
+export async function createBackup(target: MigrationTarget, outFile: string): Promise<BackupManifest> {
+  const staging = await mkdtemp(join(tmpdir(), 'qyd-backup-'));
+
+  try {
+    await mkdir(join(staging, COLLECTIONS_DIR));
+
+    const collections = {} as BackupManifest['collections'];
+    for (const name of backupCollections) {
+      const docs = (await target.collections[name].find()).map(toPortable);
+      const path = `${COLLECTIONS_DIR}/${name}.json`;
+      const file = join(staging, path);
+
+      await writeFile(file, JSON.stringify(docs, null, 2));
+      collections[name] = { path, count: docs.length, size: (await stat(file)).size, sha256: await sha256File(file) };
+    }
+
+    const files = {} as Record<MediaRootName, ManifestEntry[]>;
+    for (const name of backupMediaRoots) {
+      files[name] = await describeMedia(mediaRoots[name]);
+    }
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      formatVersion: FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      backend: target.backend,
+      migrations: (await target.log.list()).map(({ version, name }) => ({ version, name })),
+      collections,
+      ...files,
+    };
+    await writeFile(join(staging, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+    // Media is linked rather than copied into the staging directory
+    const entries = [MANIFEST_FILE, COLLECTIONS_DIR];
+    for (const name of backupMediaRoots) {
+      if (files[name].length > 0) {
+        await symlink(mediaRoots[name], join(staging, name), 'dir');
+        entries.push(name);
+      }
+    }
+
+    await tar.c({ gzip: true, portable: true, follow: true, cwd: staging, file: outFile }, entries);
+    return manifest;
+  } finally {
+    await rm(staging, { recursive: true, force: true });
+  }
+}
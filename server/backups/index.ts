@@ -0,0 +1,3 @@
+export { createBackup } from './create';
+export { restoreBackup, BackupError, type RestoreOptions, type RestoreResult } from './restore';
+export { BACKUP_FORMAT, FORMAT_VERSION, type BackupManifest } from './manifest';
@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { join } from 'path';
+import type { ZodTypeAny } from 'zod';
+import { artworkSchema, collectionSchema, inquirySchema, emailDeliverySchema, commissionSchema, invoiceSchema, orderSchema, artistInfoSchema, faqSchema, userSchema, siteSettingsSchema, auditEntrySchema } from '@shared/schema';
+import type { CollectionName, MigrationTarget } from '../migrations';
+import { REFERENCES_ROOT } from '../commissions/references';
+
+// Identifies archives produced by this tool; bump FORMAT_VERSION when the layout changes.
+// Format 2 added commission reference images.
+export const BACKUP_FORMAT = 'quillyourdream-backup';
+export const FORMAT_VERSION = 2;
+
+export const MANIFEST_FILE = 'manifest.json';
+export const COLLECTIONS_DIR = 'collections';
+
+// Folders of files archived with the documents. Each is stored in the archive
+// directory, and listed under the manifest field, of the same name.
+export const mediaRoots = {
+  media: join(process.cwd(), 'attached_assets', 'optimized'), // Optimized images served from /attached_assets/optimized
+  references: REFERENCES_ROOT, // Commission reference images
+};
+
+export type MediaRootName = keyof typeof mediaRoots;
+
+export const backupMediaRoots = Object.keys(mediaRoots) as MediaRootName[];
+
+// Schema every document in a collection must satisfy before it is restored
+export const collectionSchemas: Record<CollectionName, ZodTypeAny> = {
+  artworks: artworkSchema,
+  collections: collectionSchema,
+  inquiries: inquirySchema,
+  emails: emailDeliverySchema,
+  commissions: commissionSchema,
+  invoices: invoiceSchema,
+  orders: orderSchema,
+  artist: artistInfoSchema,
+  faqs: faqSchema,
+  users: userSchema,
+  settings: siteSettingsSchema,
+  audit: auditEntrySchema,
+};
+
+export const backupCollections = Object.keys(collectionSchemas) as CollectionName[];
+
+// Fields besides _id and the public id that MongoDB keeps unique
+export const uniqueFields: Partial<Record<CollectionName, string[]>> = {
+  artworks: ['slug'],
+  collections: ['slug'],
+  faqs: ['question'],
+  users: ['email'],
+};
+
+export interface ManifestEntry {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  createdAt: string;
+  backend: MigrationTarget['backend'];
+  // Applied migration versions; the archive's documents match this schema
+  migrations: { version: number; name: string }[];
+  collections: Record<CollectionName, ManifestEntry & { count: number }>;
+  media: ManifestEntry[];
+  references?: ManifestEntry[]; // Missing from format 1 archives
+}
+
+export function sha256File(path: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(path)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
@@ -0,0 +1,298 @@
+import { copyFile, mkdir, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join, resolve, sep } from 'path';
+import * as tar from 'tar';
+import Datastore from '@seald-io/nedb';
+import {
+  migrations,
+  migrateUp,
+  createNeDBMigrationTarget,
+  toBackendDocument,
+  type CollectionName,
+  type MigrationTarget,
+  type RawDocument,
+} from '../migrations';
+import {
+  BACKUP_FORMAT,
+  FORMAT_VERSION,
+  MANIFEST_FILE,
+  mediaRoots,
+  backupMediaRoots,
+  backupCollections,
+  collectionSchemas,
+  uniqueFields,
+  sha256File,
+  type BackupManifest,
+  type ManifestEntry,
+  type MediaRootName,
+} from './manifest';
+
+// Raised when an archive is unreadable or fails validation; nothing has been written
+export class BackupError extends Error {
+  constructor(message: string, public details: string[] = []) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export interface RestoreOptions {
+  // Verify and validate the archive without writing anything
+  dryRun?: boolean;
+}
+
+export interface RestoreResult {
+  manifest: BackupManifest;
+  collections: Record<CollectionName, number>;
+  media: number; // Optimized images
+  references: number; // Commission reference images
+  migrationsApplied: number;
+}
+
+// Most validation errors reported back; the rest are summarised as a count
+const MAX_REPORTED_ERRORS = 20;
+
+// Resolve an archive path, refusing anything that escapes `root`
+function resolveInside(root: string, path: string): string {
+  const resolved = resolve(root, path);
+  if (!resolved.startsWith(root + sep)) {
+    throw new BackupError(`Archive entry "${path}" points outside the archive`);
+  }
+  return resolved;
+}
+
+async function verifyEntry(root: string, entry: ManifestEntry, errors: string[]): Promise<string> {
+  const file = resolveInside(root, entry.path);
+  try {
+    if (await sha256File(file) !== entry.sha256) {
+      errors.push(`${entry.path}: checksum mismatch`);
+    }
+  } catch {
+    errors.push(`${entry.path}: missing from archive`);
+  }
+  return file;
+}
+
+async function readManifest(root: string): Promise<BackupManifest> {
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(await readFile(join(root, MANIFEST_FILE), 'utf-8'));
+  } catch {
+    throw new BackupError('Archive has no readable manifest');
+  }
+
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new BackupError('File is not a site backup archive');
+  }
+  if (
+    !Array.isArray(manifest.migrations) ||
+    !Array.isArray(manifest.media) ||
+    (manifest.references !== undefined && !Array.isArray(manifest.references)) ||
+    typeof manifest.collections !== 'object'
+  ) {
+    throw new BackupError('Archive manifest is malformed');
+  }
+  if (manifest.formatVersion > FORMAT_VERSION) {
+    throw new BackupError(`Archive format ${manifest.formatVersion} is newer than this version supports (${FORMAT_VERSION})`);
+  }
+
+  const known = new Set(migrations.map((migration) => migration.version));
+  const unknown = manifest.migrations.filter((migration) => !known.has(migration.version));
+  if (unknown.length > 0) {
+    throw new BackupError(`Archive was created by a newer version (unknown migration ${unknown[0].version} "${unknown[0].name}")`);
+  }
+
+  return manifest;
+}
+
+function describeDocument(doc: RawDocument): string {
+  return doc.slug ?? doc.email ?? doc.id ?? doc._id ?? 'unknown';
+}
+
+function readCollection(name: CollectionName, docs: unknown, expected: number, errors: string[]): RawDocument[] {
+  if (!Array.isArray(docs)) {
+    errors.push(`${name}: expected an array of documents`);
+    return [];
+  }
+  if (docs.length !== expected) {
+    errors.push(`${name}: manifest lists ${expected} document(s) but archive contains ${docs.length}`);
+  }
+  return docs;
+}
+
+// Brings the archive's documents up to the current schema in throwaway
+// in-memory datastores, so a backup made before a migration validates and
+// restores like a new one. Returns the migrated documents and the full log.
+async function migrateArchive(manifest: BackupManifest, archived: Record<CollectionName, RawDocument[]>) {
+  const stores = { migrations: new Datastore() } as Record<CollectionName, Datastore> & { migrations: Datastore };
+  for (const name of backupCollections) {
+    stores[name] = new Datastore();
+  }
+  const memory = createNeDBMigrationTarget(stores);
+
+  for (const name of backupCollections) {
+    for (const doc of archived[name]) {
+      try {
+        await memory.collections[name].insertOne(doc);
+      } catch (error) {
+        throwIfInvalid([`${name} (${describeDocument(doc)}): ${error instanceof Error ? error.message : error}`]);
+      }
+    }
+  }
+  for (const { version, name } of manifest.migrations) {
+    await memory.log.add({ version, name, appliedAt: new Date() });
+  }
+
+  const applied = await migrateUp(memory, migrations);
+  const documents = {} as Record<CollectionName, RawDocument[]>;
+  for (const name of backupCollections) {
+    documents[name] = await memory.collections[name].find();
+  }
+  return { documents, applied, log: await memory.log.list() };
+}
+
+function throwIfInvalid(errors: string[]): void {
+  if (errors.length === 0) {
+    return;
+  }
+  const reported = errors.slice(0, MAX_REPORTED_ERRORS);
+  if (errors.length > reported.length) {
+    reported.push(`...and ${errors.length - reported.length} more`);
+  }
+  throw new BackupError(`Archive failed validation with ${errors.length} error(s)`, reported);
+}
+
+// Checks every document against its schema and every unique field, so no
+// write can fail part way through. Returns the documents as parsed, without
+// fields the schema doesn't know; the storage fields it leaves out are kept.
+function validateCollection(name: CollectionName, docs: RawDocument[], errors: string[]): RawDocument[] {
+  const schema = collectionSchemas[name];
+  const unique = ['_id', 'id', ...(uniqueFields[name] ?? [])];
+  const seen = new Map(unique.map((field) => [field, new Set<string>()]));
+  const parsed: RawDocument[] = [];
+
+  docs.forEach((doc: RawDocument, index) => {
+    const result = schema.safeParse(doc);
+    if (!result.success) {
+      for (const issue of result.error.errors) {
+        errors.push(`${name}[${index}] (${describeDocument(doc)}): ${issue.path.join('.') || 'document'} ${issue.message}`);
+      }
+      return;
+    }
+    for (const field of unique) {
+      if (doc[field] === undefined) {
+        continue;
+      }
+      const value = String(doc[field]);
+      if (seen.get(field)!.has(value)) {
+        errors.push(`${name}[${index}] (${describeDocument(doc)}): duplicate ${field} "${value}"`);
+      }
+      seen.get(field)!.add(value);
+    }
+
+    const { _id, createdAt, updatedAt } = doc;
+    parsed.push({
+      ...result.data,
+      ...(_id !== undefined && { _id }),
+      ...(createdAt !== undefined && { createdAt }),
+      ...(updatedAt !== undefined && { updatedAt }),
+    });
+  });
+  return parsed;
+}
+
+// Replace every collection and restore optimized and reference images from an archive
+// created by createBackup(). The whole archive is verified against its
+// checksums, migrated to the current schema in memory and every document
+// validated before anything is written.
+export async function restoreBackup(
+  target: MigrationTarget,
+  archiveFile: string,
+  { dryRun = false }: RestoreOptions = {},
+): Promise<RestoreResult> {
+  const root = await mkdtemp(join(tmpdir(), 'qyd-restore-'));
+
+  try {
+    try {
+      await tar.x({ file: archiveFile, cwd: root, strict: true });
+    } catch (error) {
+      throw new BackupError(`Could not extract archive: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const manifest = await readManifest(root);
+    const errors: string[] = [];
+    const archived = {} as Record<CollectionName, RawDocument[]>;
+
+    for (const name of backupCollections) {
+      const entry = manifest.collections?.[name];
+      if (!entry) {
+        // Archives created before the collection existed restore it empty
+        archived[name] = [];
+        continue;
+      }
+
+      const file = await verifyEntry(root, entry, errors);
+      try {
+        archived[name] = readCollection(name, JSON.parse(await readFile(file, 'utf-8')), entry.count, errors);
+      } catch {
+        errors.push(`${entry.path}: not valid JSON`);
+      }
+    }
+
+    const mediaFiles: { source: string; destination: string }[] = [];
+    const fileCounts = {} as Record<MediaRootName, number>;
+    for (const name of backupMediaRoots) {
+      // Archives from before a folder was backed up restore none of its files
+      const entries = manifest[name] ?? [];
+      for (const entry of entries) {
+        mediaFiles.push({
+          source: await verifyEntry(join(root, name), entry, errors),
+          destination: resolveInside(mediaRoots[name], entry.path),
+        });
+      }
+      fileCounts[name] = entries.length;
+    }
+
+    throwIfInvalid(errors);
+
+    const { documents: migrated, applied, log } = await migrateArchive(manifest, archived);
+    const documents = {} as Record<CollectionName, RawDocument[]>;
+    for (const name of backupCollections) {
+      documents[name] = validateCollection(name, migrated[name], errors);
+    }
+    throwIfInvalid(errors);
+
+    const collections = {} as Record<CollectionName, number>;
+    for (const name of backupCollections) {
+      collections[name] = documents[name].length;
+    }
+
+    if (dryRun) {
+      return { manifest, collections, ...fileCounts, migrationsApplied: applied.length };
+    }
+
+    for (const name of backupCollections) {
+      const collection = target.collections[name];
+      await collection.deleteMany({});
+      for (const doc of documents[name]) {
+        await collection.insertOne(toBackendDocument(doc, target.backend));
+      }
+    }
+
+    for (const { source, destination } of mediaFiles) {
+      await mkdir(dirname(destination), { recursive: true });
+      await copyFile(source, destination);
+    }
+
+    // The documents are already migrated, so the log records every version
+    for (const record of await target.log.list()) {
+      await target.log.remove(record.version);
+    }
+    for (const { version, name } of log) {
+      await target.log.add({ version, name, appliedAt: new Date() });
+    }
+
+    return { manifest, collections, ...fileCounts, migrationsApplied: applied.length };
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+}
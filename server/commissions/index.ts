@@ -0,0 +1 @@
+export { saveReferenceImages, deleteReferenceImages, referencePath, ReferenceImageError, MAX_REFERENCES } from './references';
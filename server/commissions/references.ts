@@ -0,0 +1,63 @@
+import { mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import type { Commission } from '@shared/schema';
+
+// Reference images can show people and homes, so they are kept outside the
+// publicly served attached_assets folder and only served to admins
+export const REFERENCES_ROOT = join(process.cwd(), 'uploads', 'commissions');
+
+export const MAX_REFERENCES = 5;
+
+// Longest edge kept; references only need to be good enough to work from
+const MAX_DIMENSION = 2048;
+
+const FILE_PATTERN = /^[0-9a-f-]{36}\.jpg$/;
+
+export class ReferenceImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReferenceImageError';
+  }
+}
+
+// Re-encode every upload as JPEG, which drops metadata such as GPS location
+// and weeds out files that only claim to be images
+export async function saveReferenceImages(files: Express.Multer.File[]): Promise<Commission['references']> {
+  await mkdir(REFERENCES_ROOT, { recursive: true });
+
+  const references: Commission['references'] = [];
+  try {
+    for (const upload of files) {
+      const file = `${randomUUID()}.jpg`;
+      try {
+        await sharp(upload.buffer)
+          .rotate()
+          .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+          .jpeg({ quality: 85 })
+          .toFile(join(REFERENCES_ROOT, file));
+      } catch {
+        throw new ReferenceImageError(`"${upload.originalname}" could not be read as an image`);
+      }
+      references.push({ file, name: upload.originalname });
+    }
+  } catch (error) {
+    await deleteReferenceImages(references);
+    throw error;
+  }
+  return references;
+}
+
+export async function deleteReferenceImages(references: Commission['references']): Promise<void> {
+  for (const { file } of references) {
+    if (FILE_PATTERN.test(file)) {
+      await rm(join(REFERENCES_ROOT, file), { force: true });
+    }
+  }
+}
+
+// Absolute path of a stored reference, or null if the name isn't one we wrote
+export function referencePath(file: string): string | null {
+  return FILE_PATTERN.test(file) ? join(REFERENCES_ROOT, file) : null;
+}
@@ -1,10 +1,51 @@
 import mongoose from 'mongoose';
-import { initNeDB, getNeDBStores, isNeDBReady, NeDBModel } from './nedb';
+import { initNeDB, getNeDBStores } from './nedb';
+import { activateRepositories, createNeDBRepositories, createMongoRepositories } from './repositories';
+import { migrations, migrateUp, createNeDBMigrationTarget, createMongoMigrationTarget, type MigrationTarget } from './migrations';
+import { readStorageConfig } from './setup/storage';
 
 // Database mode tracking
 let usingNeDB = false;
 
-// MongoDB connection URI (only used if USE_NEDB=false)
+export type DatabaseBackend = MigrationTarget['backend'];
+
+export interface DatabaseStatus {
+  // Backend selected by USE_NEDB, or by first-run setup when it isn't set
+  configured: DatabaseBackend;
+  // Backend serving requests, or null when none could be opened
+  active: DatabaseBackend | null;
+  // True when MongoDB was configured but unreachable, so NeDB is in use
+  fallback: boolean;
+  fallbackSince: Date | null;
+  strict: boolean;
+}
+
+// DB_STRICT=true refuses to start rather than fall back to another backend
+const strictMode = process.env.DB_STRICT === 'true';
+
+const storageConfig = readStorageConfig();
+
+// Environment variables override the choice saved by first-run setup
+export function isStorageSetByEnvironment(): boolean {
+  return process.env.USE_NEDB !== undefined || process.env.MONGODB_URI !== undefined;
+}
+
+function configuredBackend(): DatabaseBackend {
+  if (process.env.USE_NEDB !== undefined) {
+    return process.env.USE_NEDB === 'false' ? 'mongodb' : 'nedb';
+  }
+  return storageConfig?.backend ?? 'nedb';
+}
+
+const databaseStatus: DatabaseStatus = {
+  configured: configuredBackend(),
+  active: null,
+  fallback: false,
+  fallbackSince: null,
+  strict: strictMode,
+};
+
+// MongoDB connection URI (only used when MongoDB is the configured backend)
 export let MONGODB_URI: string;
 if (process.env.MONGODB_URI) {
   MONGODB_URI = process.env.MONGODB_URI;
@@ -13,18 +54,25 @@ if (process.env.MONGODB_URI) {
   // Check if DATABASE_URL is MongoDB or PostgreSQL
   if (dbUrl.startsWith('mongodb://') || dbUrl.startsWith('mongodb+srv://')) {
     MONGODB_URI = dbUrl;
+  } else if (storageConfig?.mongoUri) {
+    MONGODB_URI = storageConfig.mongoUri;
   } else {
     // Default to local MongoDB
     MONGODB_URI = 'mongodb://localhost:27017/quillyourdream';
   }
 }
 
-export async function connectDB() {
+export interface ConnectOptions {
+  // Apply pending schema migrations on connect (default: true)
+  runMigrations?: boolean;
+}
+
+export async function connectDB(options: ConnectOptions = {}) {
   // Default to NeDB when USE_NEDB is not set or set to any value other than 'false'
-  // USE_NEDB not set (no .env file) → uses NeDB
+  // USE_NEDB not set (no .env file) → the backend picked during setup, else NeDB
   // USE_NEDB='true' → uses NeDB
   // USE_NEDB='false' → uses MongoDB
-  const useMongoDB = process.env.USE_NEDB === 'false';
+  const useMongoDB = databaseStatus.configured === 'mongodb';
   
   if (!useMongoDB) {
     // Use NeDB database service (default)
@@ -32,11 +80,13 @@ export async function connectDB() {
     try {
       await initNeDB();
       usingNeDB = true;
-      return;
     } catch (nedbError: any) {
       console.error('❌ NeDB database service initialization error:', nedbError.message);
       throw nedbError;
     }
+    await prepareDatabase(options);
+    databaseStatus.active = 'nedb';
+    return;
   }
 
   // Try MongoDB database service
@@ -50,17 +100,69 @@ export async function connectDB() {
     usingNeDB = false;
   } catch (error: any) {
     console.error('❌ MongoDB database service connection error:', error.message);
-    console.warn('⚠️  Switching to NeDB database service...');
+    if (strictMode) {
+      throw new Error('MongoDB database service unavailable and DB_STRICT is enabled; refusing to start without it');
+    }
+    console.warn('⚠️  Switching to NeDB database service (fallback storage)...');
     
     // Initialize NeDB database service
     try {
       await initNeDB();
       usingNeDB = true;
+      databaseStatus.fallback = true;
+      databaseStatus.fallbackSince = new Date();
     } catch (nedbError: any) {
       console.error('❌ NeDB database service initialization error:', nedbError.message);
       console.warn('⚠️  Application will continue with limited functionality.');
+      return;
+    }
+  }
+
+  await prepareDatabase(options);
+  databaseStatus.active = usingNeDB ? 'nedb' : 'mongodb';
+}
+
+// Which backend is configured and which one is actually serving requests
+export function getDatabaseStatus(): DatabaseStatus {
+  return { ...databaseStatus };
+}
+
+// Migration target for the database service selected by connectDB()
+export function getMigrationTarget(): MigrationTarget {
+  return usingNeDB ? createNeDBMigrationTarget(getNeDBStores()) : createMongoMigrationTarget();
+}
+
+// Bring the connected database up to the latest schema, then route repository calls to it
+async function prepareDatabase(options: ConnectOptions) {
+  if (options.runMigrations !== false) {
+    const applied = await migrateUp(getMigrationTarget(), migrations);
+    if (applied.length > 0) {
+      console.log(`✅ Applied ${applied.length} database migration(s)`);
     }
   }
+
+  await activateRepositories(usingNeDB ? createNeDBRepositories(getNeDBStores()) : createMongoRepositories());
+}
+
+// Open NeDB and MongoDB side by side, both migrated to the latest schema, for
+// tools that move data between them. Unlike connectDB() there is no fallback
+// and NeDB is not seeded with sample data.
+export async function connectBothBackends(): Promise<Record<MigrationTarget['backend'], MigrationTarget>> {
+  try {
+    await mongoose.connect(MONGODB_URI, { serverSelectionTimeoutMS: 5000 });
+  } catch (error: any) {
+    throw new Error(`MongoDB is not reachable at ${MONGODB_URI.replace(/\/\/.*@/, '//<credentials>@')}: ${error.message}`);
+  }
+  await initNeDB({ seed: false });
+
+  const targets = {
+    nedb: createNeDBMigrationTarget(getNeDBStores()),
+    mongodb: createMongoMigrationTarget(),
+  };
+  for (const target of Object.values(targets)) {
+    await migrateUp(target, migrations);
+  }
+  return targets;
 }
 
 // Helper to check if MongoDB is currently connected
@@ -82,143 +184,5 @@ export function checkMongoConnection(): void {
   }
 }
 
-// Artwork Schema
-const artworkSchema = new mongoose.Schema({
-  title: { type: String, required: true },
-  slug: { type: String, required: true, unique: true },
-  description: { type: String, required: true },
-  medium: { type: String, required: true },
-  artform: { type: String, required: true },
-  dateCreated: { type: String, required: true },
-  width: { type: Number, required: true },
-  height: { type: Number, required: true },
-  depth: { type: Number },
-  price: { type: Number },
-  status: { 
-    type: String, 
-    enum: ['available', 'sold', 'exhibition', 'private'],
-    default: 'available' 
-  },
-  category: { 
-    type: String, 
-    enum: ['original', 'commission', 'exhibition'],
-    required: true 
-  },
-  images: [{
-    url: { type: String, required: true },
-    alt: { type: String, required: true },
-    isPrimary: { type: Boolean, default: false }
-  }],
-  featured: { type: Boolean, default: false },
-}, { timestamps: true });
-
-const ArtworkMongoose = mongoose.model('Artwork', artworkSchema);
-
-// Artist Info Schema
-const artistInfoSchema = new mongoose.Schema({
-  name: { type: String, required: true },
-  tagline: { type: String, required: true },
-  bio: { type: String, required: true },
-  location: { type: String, required: true },
-  email: { type: String, required: true },
-  phone: String,
-  social: {
-    instagram: String,
-    etsy: String,
-    website: String,
-  },
-  profileImage: String,
-  exhibitions: [{
-    year: String,
-    title: String,
-    location: String,
-  }],
-}, { timestamps: true });
-
-const ArtistInfoMongoose = mongoose.model('ArtistInfo', artistInfoSchema);
-
-// FAQ Schema
-const faqSchema = new mongoose.Schema({
-  question: { type: String, required: true, unique: true },
-  answer: { type: String, required: true },
-  category: { type: String, required: true },
-  order: { type: Number, default: 0 },
-}, { timestamps: true });
-
-const FAQMongoose = mongoose.model('FAQ', faqSchema);
-
-// User Schema
-const userSchema = new mongoose.Schema({
-  email: { type: String, required: true, unique: true },
-  password: { type: String, required: true },
-  role: { 
-    type: String, 
-    enum: ['user', 'admin'],
-    default: 'user' 
-  },
-}, { timestamps: true });
-
-const UserMongoose = mongoose.model('User', userSchema);
-
-// Site Settings Schema
-const siteSettingsSchema = new mongoose.Schema({
-  accentHue: { type: Number, default: 186, min: 0, max: 360 },
-  accentSaturation: { type: Number, default: 68, min: 0, max: 100 },
-  accentLightness: { type: Number, default: 45, min: 0, max: 100 },
-}, { timestamps: true });
-
-const SiteSettingsMongoose = mongoose.model('SiteSettings', siteSettingsSchema);
-
-// Dynamic model getters - return NeDB models if using fallback, otherwise Mongoose
-export const Artwork = new Proxy({} as any, {
-  get(_, prop) {
-    if (usingNeDB) {
-      const stores = getNeDBStores();
-      return new NeDBModel(stores.artworks)[prop as keyof NeDBModel<any>];
-    }
-    return (ArtworkMongoose as any)[prop];
-  }
-});
-
-export const ArtistInfo = new Proxy({} as any, {
-  get(_, prop) {
-    if (usingNeDB) {
-      const stores = getNeDBStores();
-      return new NeDBModel(stores.artist)[prop as keyof NeDBModel<any>];
-    }
-    return (ArtistInfoMongoose as any)[prop];
-  }
-});
-
-export const FAQ = new Proxy({} as any, {
-  get(_, prop) {
-    if (usingNeDB) {
-      const stores = getNeDBStores();
-      return new NeDBModel(stores.faqs)[prop as keyof NeDBModel<any>];
-    }
-    return (FAQMongoose as any)[prop];
-  }
-});
-
-export const User = new Proxy({} as any, {
-  get(_, prop) {
-    if (usingNeDB) {
-      const stores = getNeDBStores();
-      return new NeDBModel(stores.users)[prop as keyof NeDBModel<any>];
-    }
-    return (UserMongoose as any)[prop];
-  }
-});
-
-export const SiteSettings = new Proxy({} as any, {
-  get(_, prop) {
-    if (usingNeDB) {
-      const stores = getNeDBStores();
-      return new NeDBModel(stores.settings)[prop as keyof NeDBModel<any>];
-    }
-    return (SiteSettingsMongoose as any)[prop];
-  }
-});
-
 // Export connection
 export { mongoose };
@@ -0,0 +1,86 @@
+import { mongoose, MONGODB_URI, getDatabaseStatus, getMigrationTarget } from "./db";
+import { createMongoMigrationTarget } from "./migrations";
+import { diffBackends, type CollectionDiff } from "./sync";
+
+// How often to look for MongoDB while running on fallback storage
+const RECOVERY_CHECK_INTERVAL = 60 * 1000; // 1 minute
+
+export interface ReconciliationReport {
+  mongoAvailableAt: Date;
+  fallbackSince: Date | null;
+  // Documents that differ or exist in only one backend
+  differences: number;
+  collections: CollectionDiff[];
+}
+
+let reconciliationReport: ReconciliationReport | null = null;
+
+export function getReconciliationReport(): ReconciliationReport | null {
+  return reconciliationReport;
+}
+
+function countDifferences(diffs: CollectionDiff[]): number {
+  return diffs.reduce(
+    (total, diff) => total + diff.changed.length + diff.onlyIn.nedb.length + diff.onlyIn.mongodb.length,
+    0,
+  );
+}
+
+// Compare the fallback NeDB data with MongoDB once it is reachable again.
+// The server keeps writing to NeDB until restarted, so the report tells the
+// admin what has to be copied across before switching back.
+async function reconcile(): Promise<ReconciliationReport> {
+  const collections = await diffBackends(getMigrationTarget(), createMongoMigrationTarget());
+  const status = getDatabaseStatus();
+
+  return {
+    mongoAvailableAt: new Date(),
+    fallbackSince: status.fallbackSince,
+    differences: countDifferences(collections),
+    collections,
+  };
+}
+
+// When connectDB() fell back to NeDB, poll MongoDB and build a reconciliation
+// report as soon as it accepts connections again
+export function watchForMongoRecovery(): void {
+  if (!getDatabaseStatus().fallback) {
+    return;
+  }
+
+  let checking = false;
+  const timer = setInterval(async () => {
+    if (checking) {
+      return;
+    }
+    checking = true;
+
+    try {
+      await mongoose.connect(MONGODB_URI, { serverSelectionTimeoutMS: 5000 });
+    } catch {
+      // Still unreachable; try again on the next tick
+      checking = false;
+      return;
+    }
+
+    try {
+      reconciliationReport = await reconcile();
+      clearInterval(timer);
+      console.warn(`⚠️  MongoDB database service is reachable again after running on fallback storage`);
+      console.warn(`⚠️  ${reconciliationReport.differences} document(s) differ between NeDB and MongoDB`);
+      for (const diff of reconciliationReport.collections) {
+        const pending = diff.changed.length + diff.onlyIn.nedb.length + diff.onlyIn.mongodb.length;
+        if (pending > 0) {
+          console.warn(`   ${diff.collection}: ${diff.onlyIn.nedb.length} only in NeDB, ${diff.onlyIn.mongodb.length} only in MongoDB, ${diff.changed.length} changed`);
+        }
+      }
+      console.warn('⚠️  Review with `npm run db:sync -- diff`, copy with `npm run db:sync -- nedb-to-mongo`, then restart');
+    } catch (error) {
+      console.error("Error reconciling fallback storage with MongoDB:", error);
+    } finally {
+      checking = false;
+    }
+  }, RECOVERY_CHECK_INTERVAL);
+
+  timer.unref();
+}
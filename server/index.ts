@@ -14,6 +14,10 @@ app.use(express.urlencoded({ extended: false }));
 // Serve attached assets (images, etc.)
 app.use('/attached_assets', express.static(path.join(process.cwd(), 'attached_assets')));
 
+function isSensitivePath(path: string): boolean {
+  return path.startsWith("/api/auth/") || path.startsWith("/api/login");
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -29,7 +33,8 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      // Account responses can carry TOTP secrets and recovery codes
+      if (capturedJsonResponse && !isSensitivePath(path)) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -0,0 +1,245 @@
+import PDFDocument from 'pdfkit';
+import { formatMoney, invoiceTotals, type Invoice } from '@shared/schema';
+import { escapeHtml, type MailContext } from '../mail';
+
+// Quotes and invoices share one layout; these are the words that differ
+const labels = {
+  quote: { title: 'Quote', due: 'Valid until', deposit: 'Deposit to begin work', balance: 'Balance on completion' },
+  invoice: { title: 'Invoice', due: 'Payment due', deposit: 'Deposit due', balance: 'Balance due' },
+};
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export function invoiceFileName(invoice: Invoice): string {
+  return `${invoice.number || `${invoice.kind}-draft-${invoice.id}`}.pdf`;
+}
+
+// Everything both renderers print, worked out once
+function documentLines(invoice: Invoice) {
+  const text = labels[invoice.kind];
+  const totals = invoiceTotals(invoice);
+  const summary: [string, string][] = [['Subtotal', formatMoney(totals.subtotal, invoice.currency)]];
+  if (invoice.taxRate > 0) summary.push([`Tax (${invoice.taxRate}%)`, formatMoney(totals.tax, invoice.currency)]);
+  if (invoice.shipping > 0) summary.push(['Shipping', formatMoney(totals.shipping, invoice.currency)]);
+
+  const payment: [string, string][] = invoice.depositPercent > 0
+    ? [
+        [`${text.deposit} (${invoice.depositPercent}%)`, formatMoney(totals.deposit, invoice.currency)],
+        [text.balance, formatMoney(totals.balance, invoice.currency)],
+      ]
+    : [];
+
+  return {
+    title: text.title,
+    reference: invoice.number || 'Draft',
+    dates: [
+      ['Issued', formatDate(invoice.issueDate)],
+      [text.due, formatDate(invoice.dueDate)],
+    ] as [string, string][],
+    summary,
+    total: formatMoney(totals.total, invoice.currency),
+    payment,
+    // Paid and void documents are stamped so a printout can't be mistaken for one still owed
+    stamp: invoice.status === 'paid' ? 'Paid' : invoice.status === 'void' ? 'Void' : invoice.status === 'draft' ? 'Draft' : null,
+  };
+}
+
+// Standalone page for the browser; the toolbar is hidden when printing
+export function renderInvoiceHtml(invoice: Invoice, context: MailContext): string {
+  const doc = documentLines(invoice);
+  const rows = invoice.lineItems.map((item) => `
+          <tr>
+            <td>${escapeHtml(item.description)}</td>
+            <td class="num">${item.quantity}</td>
+            <td class="num">${formatMoney(item.unitPrice, invoice.currency)}</td>
+            <td class="num">${formatMoney(item.quantity * item.unitPrice, invoice.currency)}</td>
+          </tr>`).join('');
+  const totalRows = [...doc.summary.map(([label, value]) => `
+          <tr><td>${escapeHtml(label)}</td><td class="num">${value}</td></tr>`),
+    `
+          <tr class="total"><td>Total</td><td class="num">${doc.total}</td></tr>`,
+    ...doc.payment.map(([label, value]) => `
+          <tr><td>${escapeHtml(label)}</td><td class="num">${value}</td></tr>`),
+  ].join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${doc.title} ${escapeHtml(doc.reference)} | ${escapeHtml(context.artistName)}</title>
+  <style>
+    body { margin: 0; background: #f5f5f4; font-family: Helvetica, Arial, sans-serif; color: #1c1917; font-size: 14px; }
+    .toolbar { max-width: 800px; margin: 16px auto; display: flex; gap: 8px; justify-content: flex-end; }
+    .toolbar a, .toolbar button { font: inherit; padding: 8px 16px; border: 1px solid #d6d3d1; background: #fff; color: inherit; text-decoration: none; cursor: pointer; }
+    .page { position: relative; max-width: 800px; margin: 0 auto 32px; background: #fff; padding: 48px; box-sizing: border-box; border-top: 6px solid ${context.accentColor}; }
+    header { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 40px; }
+    .artist { font-family: Georgia, 'Times New Roman', serif; font-size: 22px; color: ${context.accentColor}; margin: 0 0 4px; }
+    h1 { font-family: Georgia, 'Times New Roman', serif; font-weight: normal; font-size: 32px; margin: 0; text-align: right; }
+    .muted { color: #78716c; }
+    .meta { text-align: right; }
+    .meta p, .artist-details p, .customer p { margin: 2px 0; }
+    .customer { margin-bottom: 32px; }
+    .label { text-transform: uppercase; letter-spacing: 1px; font-size: 11px; color: #78716c; margin-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; }
+    .items th { text-align: left; font-size: 11px; text-transform: uppercase; letter-spacing: 1px; color: #78716c; border-bottom: 2px solid #e7e5e4; padding: 8px 0; }
+    .items td { padding: 10px 0; border-bottom: 1px solid #e7e5e4; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; padding-left: 16px; }
+    .totals { width: 320px; margin: 24px 0 0 auto; }
+    .totals td { padding: 4px 0; }
+    .totals .total td { font-weight: bold; font-size: 16px; border-top: 2px solid #1c1917; padding-top: 8px; }
+    .notes { margin-top: 40px; white-space: pre-line; }
+    .stamp { position: absolute; top: 160px; right: 48px; transform: rotate(-12deg); border: 3px solid ${context.accentColor}; color: ${context.accentColor}; padding: 4px 16px; font-size: 28px; text-transform: uppercase; letter-spacing: 4px; opacity: 0.6; }
+    @media print {
+      body { background: #fff; }
+      .toolbar { display: none; }
+      .page { margin: 0; padding: 0; max-width: none; border-top: none; }
+    }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <button type="button" onclick="window.print()">Print</button>
+    <a href="pdf">Download PDF</a>
+  </div>
+  <main class="page">
+    ${doc.stamp ? `<div class="stamp">${doc.stamp}</div>` : ''}
+    <header>
+      <div class="artist-details">
+        <p class="artist">${escapeHtml(context.artistName)}</p>
+        ${context.artistEmail ? `<p>${escapeHtml(context.artistEmail)}</p>` : ''}
+        <p class="muted">${escapeHtml(context.siteUrl.replace(/^https?:\/\//, ''))}</p>
+      </div>
+      <div class="meta">
+        <h1>${doc.title}</h1>
+        <p><strong>${escapeHtml(doc.reference)}</strong></p>
+        ${doc.dates.map(([label, value]) => `<p><span class="muted">${label}:</span> ${value}</p>`).join('\n        ')}
+      </div>
+    </header>
+    <section class="customer">
+      <div class="label">${invoice.kind === 'quote' ? 'Prepared for' : 'Bill to'}</div>
+      <p><strong>${escapeHtml(invoice.customer.name)}</strong></p>
+      <p>${escapeHtml(invoice.customer.email)}</p>
+      ${invoice.customer.address ? `<p style="white-space:pre-line">${escapeHtml(invoice.customer.address)}</p>` : ''}
+    </section>
+    <table class="items">
+      <thead>
+        <tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+      </thead>
+      <tbody>${rows}
+      </tbody>
+    </table>
+    <table class="totals">
+      <tbody>${totalRows}
+      </tbody>
+    </table>
+    ${invoice.notes ? `<section class="notes"><div class="label">Notes</div>${escapeHtml(invoice.notes)}</section>` : ''}
+  </main>
+</body>
+</html>`;
+}
+
+// Same document as a PDF, drawn with PDFKit's built-in fonts
+export function renderInvoicePdf(invoice: Invoice, context: MailContext): Promise<Buffer> {
+  const doc = documentLines(invoice);
+  const pdf = new PDFDocument({ size: 'LETTER', margin: 54, info: { Title: `${doc.title} ${doc.reference}`, Author: context.artistName } });
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+
+    const left = pdf.page.margins.left;
+    const right = pdf.page.width - pdf.page.margins.right;
+    const width = right - left;
+    const muted = '#78716c';
+
+    pdf.rect(0, 0, pdf.page.width, 6).fill(context.accentColor);
+
+    // Header: artist on the left, document details on the right
+    pdf.fillColor(context.accentColor).font('Times-Roman').fontSize(20).text(context.artistName, left, 54);
+    pdf.fillColor('#1c1917').font('Helvetica').fontSize(10);
+    if (context.artistEmail) pdf.text(context.artistEmail);
+    pdf.fillColor(muted).text(context.siteUrl.replace(/^https?:\/\//, ''));
+
+    pdf.fillColor('#1c1917').font('Times-Roman').fontSize(26).text(doc.title, left, 54, { width, align: 'right' });
+    pdf.font('Helvetica-Bold').fontSize(10).text(doc.reference, { width, align: 'right' });
+    pdf.font('Helvetica');
+    for (const [label, value] of doc.dates) {
+      pdf.text(`${label}: ${value}`, { width, align: 'right' });
+    }
+
+    // Customer
+    let y = 150;
+    pdf.fillColor(muted).fontSize(8).text((invoice.kind === 'quote' ? 'PREPARED FOR' : 'BILL TO'), left, y, { characterSpacing: 1 });
+    pdf.fillColor('#1c1917').font('Helvetica-Bold').fontSize(10).text(invoice.customer.name);
+    pdf.font('Helvetica').text(invoice.customer.email);
+    if (invoice.customer.address) pdf.text(invoice.customer.address);
+
+    if (doc.stamp) {
+      pdf.save()
+        .rotate(-12, { origin: [right - 70, 170] })
+        .fillColor(context.accentColor).fillOpacity(0.5)
+        .font('Helvetica-Bold').fontSize(24)
+        .text(doc.stamp.toUpperCase(), right - 150, 160, { width: 160, align: 'center', characterSpacing: 4 })
+        .restore();
+      pdf.fillOpacity(1);
+    }
+
+    // Line items
+    const columns = { qty: right - 230, unit: right - 170, amount: right - 80 };
+    y = Math.max(pdf.y, 210) + 24;
+    pdf.fillColor(muted).fontSize(8);
+    pdf.text('DESCRIPTION', left, y, { characterSpacing: 1 });
+    pdf.text('QTY', columns.qty, y, { width: 50, align: 'right' });
+    pdf.text('UNIT PRICE', columns.unit, y, { width: 80, align: 'right' });
+    pdf.text('AMOUNT', columns.amount, y, { width: 80, align: 'right' });
+    y += 14;
+    pdf.moveTo(left, y).lineTo(right, y).lineWidth(1.5).strokeColor('#e7e5e4').stroke();
+
+    pdf.fillColor('#1c1917').fontSize(10);
+    for (const item of invoice.lineItems) {
+      y += 8;
+      if (y > pdf.page.height - 160) {
+        pdf.addPage();
+        y = pdf.page.margins.top;
+      }
+      pdf.text(item.description, left, y, { width: columns.qty - left - 16 });
+      const rowBottom = pdf.y;
+      pdf.text(String(item.quantity), columns.qty, y, { width: 50, align: 'right' });
+      pdf.text(formatMoney(item.unitPrice, invoice.currency), columns.unit, y, { width: 80, align: 'right' });
+      pdf.text(formatMoney(item.quantity * item.unitPrice, invoice.currency), columns.amount, y, { width: 80, align: 'right' });
+      y = Math.max(rowBottom, pdf.y) + 6;
+      pdf.moveTo(left, y).lineTo(right, y).lineWidth(0.5).strokeColor('#e7e5e4').stroke();
+    }
+
+    // Totals
+    y += 16;
+    const totalsLeft = right - 240;
+    const row = (label: string, value: string, bold = false) => {
+      pdf.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 12 : 10);
+      pdf.text(label, totalsLeft, y, { width: 150 });
+      pdf.text(value, right - 90, y, { width: 90, align: 'right' });
+      y = pdf.y + 4;
+    };
+    doc.summary.forEach(([label, value]) => row(label, value));
+    pdf.moveTo(totalsLeft, y).lineTo(right, y).lineWidth(1.5).strokeColor('#1c1917').stroke();
+    y += 6;
+    row('Total', doc.total, true);
+    doc.payment.forEach(([label, value]) => row(label, value));
+
+    if (invoice.notes) {
+      pdf.fillColor(muted).font('Helvetica').fontSize(8).text('NOTES', left, y + 24, { characterSpacing: 1 });
+      pdf.fillColor('#1c1917').fontSize(10).text(invoice.notes, { width });
+    }
+
+    pdf.end();
+  });
+}
@@ -0,0 +1,2 @@
+export { issueInvoice, InvoiceError } from './numbering';
+export { renderInvoiceHtml, renderInvoicePdf, invoiceFileName } from './documents';
@@ -0,0 +1,49 @@
+import type { Invoice, InvoiceKind } from '@shared/schema';
+import { getRepositories, type NewDocument, type Stored } from '../repositories';
+import { createLock } from '../lock';
+
+const PREFIXES: Record<InvoiceKind, string> = {
+  quote: 'Q',
+  invoice: 'INV',
+};
+
+// Numbering runs one at a time so two documents issued together can't take
+// the same number
+const exclusive = createLock();
+
+export class InvoiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+// Drafts have no number; each kind is numbered in sequence when first sent,
+// so deleted drafts never leave gaps
+export function issueInvoice(invoice: Stored<Invoice>, changes: Partial<NewDocument<Invoice>>): Promise<Stored<Invoice> | null> {
+  const { invoices } = getRepositories();
+
+  return exclusive(async () => {
+    // Re-read inside the lock: another send of the same draft may have
+    // numbered it while this one waited
+    const current = await invoices.findById(invoice._id);
+    if (!current) {
+      return null;
+    }
+    if (current.status !== 'draft') {
+      throw new InvoiceError(`This ${invoice.kind} has already been sent as ${current.number}`);
+    }
+
+    const [last] = await invoices.list({
+      filter: { kind: invoice.kind, sequence: { $exists: true } },
+      sort: { sequence: -1 },
+      limit: 1,
+    });
+    const sequence = (last?.sequence ?? 0) + 1;
+    return invoices.update(invoice._id, {
+      ...changes,
+      sequence,
+      number: `${PREFIXES[invoice.kind]}-${String(sequence).padStart(4, '0')}`,
+    });
+  });
+}
@@ -0,0 +1,10 @@
+// Runs tasks one at a time, each starting once the previous one settles. The
+// server is a single process, so an in-memory promise chain is enough.
+export function createLock(): <T>(task: () => Promise<T>) => Promise<T> {
+  let tail: Promise<unknown> = Promise.resolve();
+  return (task) => {
+    const result = tail.then(task);
+    tail = result.catch(() => {});
+    return result;
+  };
+}
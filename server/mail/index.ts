@@ -0,0 +1,134 @@
+import { roleLabels, type Commission, type Inquiry, type Order, type User } from '@shared/schema';
+import { getRepositories } from '../repositories';
+import { getPaymentProvider } from '../payments';
+import { enqueueEmail } from './queue';
+import { getMailTransport } from './transport';
+import {
+  buildMailContext,
+  renderCommissionAcknowledgement,
+  renderCommissionNotification,
+  renderInquiryAcknowledgement,
+  renderInquiryNotification,
+  renderInvitation,
+  renderOrderConfirmation,
+  renderOrderNotification,
+  renderOrderShipped,
+  renderPasswordReset,
+} from './templates';
+
+export { enqueueEmail, retryEmail, startMailQueue } from './queue';
+export { getMailTransport, MAIL_FROM } from './transport';
+export type { MailMessage, MailTransport } from './transport';
+export { buildMailContext, escapeHtml, SITE_URL } from './templates';
+export type { MailContext, RenderedMail } from './templates';
+
+// Notify the artist of a new inquiry and acknowledge it to the visitor.
+// MAIL_NOTIFY_TO overrides the artist's public email as the recipient.
+export async function sendInquiryEmails(inquiry: Inquiry): Promise<void> {
+  const { artist, settings, artworks } = getRepositories();
+  const context = buildMailContext(await artist.find(), await settings.find());
+  const notifyTo = process.env.MAIL_NOTIFY_TO || context.artistEmail;
+  const artwork = inquiry.artworkId ? await artworks.findByPublicId(inquiry.artworkId) : null;
+
+  if (notifyTo) {
+    await enqueueEmail({
+      kind: 'inquiry-notification',
+      to: notifyTo,
+      replyTo: inquiry.email,
+      inquiryId: inquiry.id,
+      ...renderInquiryNotification(inquiry, context, artwork),
+    });
+  } else {
+    console.warn('⚠️  No artist email or MAIL_NOTIFY_TO configured; skipping inquiry notification');
+  }
+
+  await enqueueEmail({
+    kind: 'inquiry-acknowledgement',
+    to: inquiry.email,
+    replyTo: notifyTo || undefined,
+    inquiryId: inquiry.id,
+    ...renderInquiryAcknowledgement(context),
+  });
+}
+
+// Same as sendInquiryEmails, for a commission request
+export async function sendCommissionEmails(commission: Commission): Promise<void> {
+  const { artist, settings } = getRepositories();
+  const context = buildMailContext(await artist.find(), await settings.find());
+  const notifyTo = process.env.MAIL_NOTIFY_TO || context.artistEmail;
+
+  if (notifyTo) {
+    await enqueueEmail({
+      kind: 'commission-notification',
+      to: notifyTo,
+      replyTo: commission.email,
+      commissionId: commission.id,
+      ...renderCommissionNotification(commission, context),
+    });
+  } else {
+    console.warn('⚠️  No artist email or MAIL_NOTIFY_TO configured; skipping commission notification');
+  }
+
+  await enqueueEmail({
+    kind: 'commission-acknowledgement',
+    to: commission.email,
+    replyTo: notifyTo || undefined,
+    commissionId: commission.id,
+    ...renderCommissionAcknowledgement(context),
+  });
+}
+
+// Tell the artist about a new order and send the buyer a confirmation with
+// payment instructions
+export async function sendOrderEmails(order: Order): Promise<void> {
+  const { artist, settings } = getRepositories();
+  const context = buildMailContext(await artist.find(), await settings.find());
+  const notifyTo = process.env.MAIL_NOTIFY_TO || context.artistEmail;
+
+  if (notifyTo) {
+    await enqueueEmail({
+      kind: 'order-notification',
+      to: notifyTo,
+      replyTo: order.customer.email,
+      orderId: order.id,
+      ...renderOrderNotification(order, context, getPaymentProvider(order.provider)?.label ?? order.provider),
+    });
+  } else {
+    console.warn('⚠️  No artist email or MAIL_NOTIFY_TO configured; skipping order notification');
+  }
+
+  await enqueueEmail({
+    kind: 'order-confirmation',
+    to: order.customer.email,
+    replyTo: notifyTo || undefined,
+    orderId: order.id,
+    ...renderOrderConfirmation(order, context),
+  });
+}
+
+export async function sendOrderShippedEmail(order: Order): Promise<void> {
+  const { artist, settings } = getRepositories();
+  const context = buildMailContext(await artist.find(), await settings.find());
+
+  await enqueueEmail({
+    kind: 'order-shipped',
+    to: order.customer.email,
+    replyTo: process.env.MAIL_NOTIFY_TO || context.artistEmail || undefined,
+    orderId: order.id,
+    ...renderOrderShipped(order, context),
+  });
+}
+
+// Account emails carry single-use password links, so they go straight to the
+// transport instead of being kept in the delivery log. Failures reach the caller.
+export async function sendPasswordResetEmail(user: Pick<User, 'email'>, link: string, expiresInMinutes: number): Promise<void> {
+  const { artist, settings } = getRepositories();
+  const context = buildMailContext(await artist.find(), await settings.find());
+  await getMailTransport().send({ to: user.email, ...renderPasswordReset(link, context, expiresInMinutes) });
+}
+
+export async function sendInvitationEmail(user: Pick<User, 'email' | 'role'>, link: string, expiresInDays: number): Promise<void> {
+  const { artist, settings } = getRepositories();
+  const context = buildMailContext(await artist.find(), await settings.find());
+  await getMailTransport().send({ to: user.email, ...renderInvitation(link, roleLabels[user.role], context, expiresInDays) });
+}
@@ -0,0 +1,117 @@
+import type { EmailDelivery } from '@shared/schema';
+import { getRepositories, type NewDocument, type Stored } from '../repositories';
+import { getMailTransport, type MailMessage } from './transport';
+
+// How often pending messages whose retry time has come are picked up
+const QUEUE_INTERVAL = 30 * 1000; // 30 seconds
+
+// Wait before each retry; a message is marked failed once these run out
+const RETRY_DELAYS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+];
+
+export interface QueuedMail extends MailMessage {
+  kind: string;
+  inquiryId?: string;
+  commissionId?: string;
+  orderId?: string;
+}
+
+// Ids currently being sent, so the timer never delivers a message twice
+const inFlight = new Set<string>();
+
+async function deliver(email: Stored<EmailDelivery>): Promise<Stored<EmailDelivery> | null> {
+  const { emails } = getRepositories();
+  if (inFlight.has(email.id)) {
+    return email;
+  }
+  inFlight.add(email.id);
+
+  const transport = getMailTransport();
+  const attempt: EmailDelivery['attempts'][number] = { at: new Date().toISOString(), transport: transport.name };
+
+  try {
+    await transport.send({
+      to: email.to,
+      replyTo: email.replyTo,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+    return await emails.update(email._id, {
+      status: 'sent',
+      attempts: [...email.attempts, attempt],
+      nextAttemptAt: null,
+    });
+  } catch (error) {
+    attempt.error = error instanceof Error ? error.message : String(error);
+    const attempts = [...email.attempts, attempt];
+    const delay = RETRY_DELAYS[attempts.length - 1];
+    console.error(`❌ Email "${email.subject}" to ${email.to} failed (attempt ${attempts.length}):`, attempt.error);
+
+    return await emails.update(email._id, {
+      status: delay === undefined ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt: delay === undefined ? null : new Date(Date.now() + delay).toISOString(),
+    });
+  } finally {
+    inFlight.delete(email.id);
+  }
+}
+
+// Record a message in the delivery log and try to send it straight away.
+// Resolves once it is queued; delivery continues in the background.
+export async function enqueueEmail(mail: QueuedMail): Promise<Stored<EmailDelivery>> {
+  const { emails } = getRepositories();
+  const data: NewDocument<EmailDelivery> = {
+    ...mail,
+    status: 'pending',
+    attempts: [],
+    nextAttemptAt: new Date().toISOString(),
+  };
+  const email = await emails.create(data);
+
+  deliver(email).catch((error) => console.error("Error delivering email:", error));
+  return email;
+}
+
+// Send a failed or pending message again now, e.g. from the admin log
+export async function retryEmail(email: Stored<EmailDelivery>): Promise<Stored<EmailDelivery> | null> {
+  return deliver(email);
+}
+
+async function processQueue(): Promise<void> {
+  const { emails } = getRepositories();
+  const due = await emails.list({
+    filter: { status: 'pending', nextAttemptAt: { $lte: new Date().toISOString() } },
+    sort: { nextAttemptAt: 1 },
+    limit: 20,
+  });
+
+  for (const email of due) {
+    await deliver(email);
+  }
+}
+
+export function startMailQueue(): void {
+  let processing = false;
+  const timer = setInterval(async () => {
+    if (processing) {
+      return;
+    }
+    processing = true;
+
+    try {
+      await processQueue();
+    } catch (error) {
+      console.error("Error processing email queue:", error);
+    } finally {
+      processing = false;
+    }
+  }, QUEUE_INTERVAL);
+
+  timer.unref();
+}
@@ -0,0 +1,352 @@
+import { DEFAULT_DIMENSION_UNIT, describeBudget, formatDimensions, formatMoney, orderItemName, type ArtistInfo, type Artwork, type Commission, type Inquiry, type Order, type SiteSettings } from '@shared/schema';
+import type { MailMessage } from './transport';
+
+export const SITE_URL = process.env.SITE_URL || 'https://quillyourdream.com';
+
+// Branding shared by every template
+export interface MailContext {
+  artistName: string;
+  artistEmail: string;
+  accentColor: string; // Hex, since not every mail client understands hsl()
+  siteUrl: string;
+}
+
+export type RenderedMail = Pick<MailMessage, 'subject' | 'html' | 'text'>;
+
+const inquiryTypeLabels: Record<Inquiry['inquiryType'], string> = {
+  commission: 'Commission Artwork',
+  purchase: 'Purchase Existing Piece',
+  exhibition: 'Exhibition Inquiry',
+  press: 'Press & Media',
+  other: 'Other',
+};
+
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+export function buildMailContext(artist: ArtistInfo | null, settings: SiteSettings | null): MailContext {
+  return {
+    artistName: artist?.name || 'Quill Your Dream',
+    artistEmail: artist?.email || '',
+    accentColor: settings
+      ? hslToHex(settings.accentHue, settings.accentSaturation, settings.accentLightness)
+      : '#2bb3c0',
+    siteUrl: SITE_URL,
+  };
+}
+
+export function escapeHtml(text: string): string {
+  const map: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;'
+  };
+  return text.replace(/[&<>"']/g, m => map[m]);
+}
+
+// Paragraphs keep the visitor's line breaks
+function htmlParagraphs(text: string): string {
+  return escapeHtml(text).replace(/\n/g, '<br>');
+}
+
+// Table-based layout with inline styles, which is what mail clients render reliably
+function layout(context: MailContext, heading: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <body style="margin:0;padding:0;background:#f5f5f4;font-family:Georgia,'Times New Roman',serif;color:#1c1917;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f5f5f4;padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-top:6px solid ${context.accentColor};">
+            <tr>
+              <td style="padding:32px 32px 8px;">
+                <p style="margin:0;font-size:13px;letter-spacing:2px;text-transform:uppercase;color:${context.accentColor};">${escapeHtml(context.artistName)}</p>
+                <h1 style="margin:8px 0 0;font-size:24px;font-weight:normal;">${escapeHtml(heading)}</h1>
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:16px 32px 32px;font-family:Helvetica,Arial,sans-serif;font-size:15px;line-height:1.6;">
+                ${body}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:16px 32px;border-top:1px solid #e7e5e4;font-family:Helvetica,Arial,sans-serif;font-size:12px;color:#78716c;">
+                <a href="${context.siteUrl}" style="color:${context.accentColor};">${escapeHtml(context.siteUrl.replace(/^https?:\/\//, ''))}</a>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+}
+
+// Sent to the artist for every new inquiry
+export function renderInquiryNotification(inquiry: Inquiry, context: MailContext, artwork?: Artwork | null): RenderedMail {
+  const type = inquiryTypeLabels[inquiry.inquiryType];
+  const inboxUrl = `${context.siteUrl}/admin/inbox`;
+  const artworkUrl = artwork ? `${context.siteUrl}/artwork/${artwork.slug}` : null;
+
+  const html = layout(context, 'New inquiry', `
+                <p style="margin:0 0 16px;"><strong>${escapeHtml(inquiry.name)}</strong> &lt;<a href="mailto:${escapeHtml(inquiry.email)}" style="color:${context.accentColor};">${escapeHtml(inquiry.email)}</a>&gt; sent a message through the contact form.</p>
+                <p style="margin:0 0 4px;"><strong>Subject:</strong> ${escapeHtml(inquiry.subject)}</p>
+                <p style="margin:0 0 ${artwork ? 4 : 16}px;"><strong>Type:</strong> ${escapeHtml(type)}</p>${artwork ? `
+                <p style="margin:0 0 16px;"><strong>Artwork:</strong> <a href="${artworkUrl}" style="color:${context.accentColor};">${escapeHtml(artwork.title)}</a></p>` : ''}
+                <p style="margin:0 0 24px;padding:16px;background:#fafaf9;border-left:3px solid ${context.accentColor};">${htmlParagraphs(inquiry.message)}</p>
+                <p style="margin:0;"><a href="${inboxUrl}" style="display:inline-block;padding:10px 20px;background:${context.accentColor};color:#ffffff;text-decoration:none;">Open the inbox</a></p>`);
+
+  const text = [
+    `New inquiry from ${inquiry.name} <${inquiry.email}>`,
+    '',
+    `Subject: ${inquiry.subject}`,
+    `Type: ${type}`,
+    ...(artwork ? [`Artwork: ${artwork.title} (${artworkUrl})`] : []),
+    '',
+    inquiry.message,
+    '',
+    `Open the inbox: ${inboxUrl}`,
+  ].join('\n');
+
+  return { subject: `New inquiry: ${inquiry.subject}`, html, text };
+}
+
+// Sent to the visitor to confirm their message arrived. Anyone can enter any
+// address in the form, so nothing they submitted is repeated back.
+export function renderInquiryAcknowledgement(context: MailContext): RenderedMail {
+  const html = layout(context, 'Thank you for getting in touch', `
+                <p style="margin:0 0 16px;">Hello,</p>
+                <p style="margin:0 0 24px;">Thank you for your message. It has been received and ${escapeHtml(context.artistName)} will reply personally as soon as possible.</p>
+                <p style="margin:0;">Warm regards,<br>${escapeHtml(context.artistName)}</p>`);
+
+  const text = [
+    'Hello,',
+    '',
+    `Thank you for your message. It has been received and ${context.artistName} will reply personally as soon as possible.`,
+    '',
+    'Warm regards,',
+    context.artistName,
+    context.siteUrl,
+  ].join('\n');
+
+  return { subject: `Thank you for contacting ${context.artistName}`, html, text };
+}
+
+// The structured part of a commission brief as label/value pairs
+function commissionBriefLines(commission: Commission): [string, string][] {
+  return [
+    ['Subject', commission.subject],
+    ['Size', formatDimensions([commission.width, commission.height], commission.unit ?? DEFAULT_DIMENSION_UNIT)],
+    ['Palette', commission.palette.length > 0 ? commission.palette.join(', ') : 'Open'],
+    ['Deadline', commission.deadline || 'Flexible'],
+    ['Budget', describeBudget(commission) ?? 'Not given'],
+    ['Reference images', String(commission.references.length)],
+  ];
+}
+
+function htmlBrief(commission: Commission, context: MailContext): string {
+  return commissionBriefLines(commission).map(([label, value]) => `
+                <p style="margin:0 0 4px;"><strong>${label}:</strong> ${escapeHtml(value)}</p>`).join('') + `
+                <p style="margin:12px 0 24px;padding:16px;background:#fafaf9;border-left:3px solid ${context.accentColor};">${htmlParagraphs(commission.description)}</p>`;
+}
+
+// Sent to the artist for every new commission request
+export function renderCommissionNotification(commission: Commission, context: MailContext): RenderedMail {
+  const pipelineUrl = `${context.siteUrl}/admin/commissions`;
+
+  const html = layout(context, 'New commission request', `
+                <p style="margin:0 0 16px;"><strong>${escapeHtml(commission.name)}</strong> &lt;<a href="mailto:${escapeHtml(commission.email)}" style="color:${context.accentColor};">${escapeHtml(commission.email)}</a>&gt; sent a commission request.</p>${htmlBrief(commission, context)}
+                <p style="margin:0;"><a href="${pipelineUrl}" style="display:inline-block;padding:10px 20px;background:${context.accentColor};color:#ffffff;text-decoration:none;">Open commissions</a></p>`);
+
+  const text = [
+    `New commission request from ${commission.name} <${commission.email}>`,
+    '',
+    ...commissionBriefLines(commission).map(([label, value]) => `${label}: ${value}`),
+    '',
+    commission.description,
+    '',
+    `Open commissions: ${pipelineUrl}`,
+  ].join('\n');
+
+  return { subject: `New commission request: ${commission.subject}`, html, text };
+}
+
+// Sent to the visitor to confirm their commission request arrived. Like the
+// inquiry acknowledgement it repeats nothing they submitted.
+export function renderCommissionAcknowledgement(context: MailContext): RenderedMail {
+  const html = layout(context, 'Thank you for your commission request', `
+                <p style="margin:0 0 16px;">Hello,</p>
+                <p style="margin:0 0 24px;">Thank you for your commission request. ${escapeHtml(context.artistName)} will review your brief and reply with a quote as soon as possible.</p>
+                <p style="margin:0;">Warm regards,<br>${escapeHtml(context.artistName)}</p>`);
+
+  const text = [
+    'Hello,',
+    '',
+    `Thank you for your commission request. ${context.artistName} will review your brief and reply with a quote as soon as possible.`,
+    '',
+    'Warm regards,',
+    context.artistName,
+    context.siteUrl,
+  ].join('\n');
+
+  return { subject: `Your commission request to ${context.artistName}`, html, text };
+}
+
+// Items, total and shipping address of an order as plain lines
+function orderSummaryLines(order: Order): string[] {
+  const address = order.shippingAddress;
+  return [
+    ...order.items.map((item) => `${orderItemName(item)}: ${formatMoney(item.price, order.currency)}`),
+    `Total: ${formatMoney(order.total, order.currency)}`,
+    '',
+    'Ship to:',
+    order.customer.name,
+    address.line1,
+    ...(address.line2 ? [address.line2] : []),
+    [address.city, address.region, address.postalCode].filter(Boolean).join(', '),
+    address.country,
+  ];
+}
+
+function htmlOrderSummary(order: Order, context: MailContext): string {
+  const items = order.items.map((item) => `
+                <p style="margin:0 0 4px;">${escapeHtml(orderItemName(item))}: ${formatMoney(item.price, order.currency)}</p>`).join('');
+  const address = order.shippingAddress;
+  const addressLines = [
+    order.customer.name,
+    address.line1,
+    address.line2,
+    [address.city, address.region, address.postalCode].filter(Boolean).join(', '),
+    address.country,
+  ].filter(Boolean).map((line) => escapeHtml(line!)).join('<br>');
+  return `${items}
+                <p style="margin:0 0 16px;"><strong>Total: ${formatMoney(order.total, order.currency)}</strong></p>
+                <p style="margin:0 0 24px;padding:16px;background:#fafaf9;border-left:3px solid ${context.accentColor};">${addressLines}</p>`;
+}
+
+// Sent to the artist when a buyer checks out
+export function renderOrderNotification(order: Order, context: MailContext, paymentMethod: string): RenderedMail {
+  const ordersUrl = `${context.siteUrl}/admin/orders`;
+
+  const html = layout(context, `New order ${order.number}`, `
+                <p style="margin:0 0 16px;"><strong>${escapeHtml(order.customer.name)}</strong> &lt;<a href="mailto:${escapeHtml(order.customer.email)}" style="color:${context.accentColor};">${escapeHtml(order.customer.email)}</a>&gt; placed an order, paying by ${escapeHtml(paymentMethod.toLowerCase())}. The artworks are reserved until it is paid or cancelled.</p>${htmlOrderSummary(order, context)}
+                <p style="margin:0;"><a href="${ordersUrl}" style="display:inline-block;padding:10px 20px;background:${context.accentColor};color:#ffffff;text-decoration:none;">Open orders</a></p>`);
+
+  const text = [
+    `New order ${order.number} from ${order.customer.name} <${order.customer.email}>, paying by ${paymentMethod.toLowerCase()}`,
+    '',
+    ...orderSummaryLines(order),
+    '',
+    `Open orders: ${ordersUrl}`,
+  ].join('\n');
+
+  return { subject: `New order ${order.number}`, html, text };
+}
+
+// Sent to the buyer with how to pay and a link back to the order
+export function renderOrderConfirmation(order: Order, context: MailContext): RenderedMail {
+  const orderUrl = `${context.siteUrl}/order/${order.id}`;
+
+  const html = layout(context, `Thank you for your order`, `
+                <p style="margin:0 0 16px;">Dear ${escapeHtml(order.customer.name)},</p>
+                <p style="margin:0 0 16px;">Thank you for your order ${escapeHtml(order.number)}.</p>${htmlOrderSummary(order, context)}${order.paymentInstructions ? `
+                <p style="margin:0 0 24px;">${htmlParagraphs(order.paymentInstructions)}</p>` : ''}
+                <p style="margin:0 0 24px;"><a href="${orderUrl}" style="display:inline-block;padding:10px 20px;background:${context.accentColor};color:#ffffff;text-decoration:none;">View your order</a></p>
+                <p style="margin:0;">Warm regards,<br>${escapeHtml(context.artistName)}</p>`);
+
+  const text = [
+    `Dear ${order.customer.name},`,
+    '',
+    `Thank you for your order ${order.number}.`,
+    '',
+    ...orderSummaryLines(order),
+    ...(order.paymentInstructions ? ['', order.paymentInstructions] : []),
+    '',
+    `View your order: ${orderUrl}`,
+    '',
+    'Warm regards,',
+    context.artistName,
+    context.siteUrl,
+  ].join('\n');
+
+  return { subject: `Your order ${order.number} from ${context.artistName}`, html, text };
+}
+
+// Sent to the buyer when the artist marks the order shipped
+export function renderOrderShipped(order: Order, context: MailContext): RenderedMail {
+  const orderUrl = `${context.siteUrl}/order/${order.id}`;
+  const tracking = order.trackingNumber
+    ? `${order.carrier ? `${order.carrier} tracking number` : 'Tracking number'}: ${order.trackingNumber}`
+    : null;
+
+  const html = layout(context, 'Your artwork is on its way', `
+                <p style="margin:0 0 16px;">Dear ${escapeHtml(order.customer.name)},</p>
+                <p style="margin:0 0 16px;">Your order ${escapeHtml(order.number)} has shipped.</p>${tracking ? `
+                <p style="margin:0 0 16px;"><strong>${escapeHtml(tracking)}</strong></p>` : ''}${htmlOrderSummary(order, context)}
+                <p style="margin:0 0 24px;"><a href="${orderUrl}" style="display:inline-block;padding:10px 20px;background:${context.accentColor};color:#ffffff;text-decoration:none;">View your order</a></p>
+                <p style="margin:0;">Warm regards,<br>${escapeHtml(context.artistName)}</p>`);
+
+  const text = [
+    `Dear ${order.customer.name},`,
+    '',
+    `Your order ${order.number} has shipped.`,
+    ...(tracking ? [tracking] : []),
+    '',
+    ...orderSummaryLines(order),
+    '',
+    `View your order: ${orderUrl}`,
+    '',
+    'Warm regards,',
+    context.artistName,
+    context.siteUrl,
+  ].join('\n');
+
+  return { subject: `Your order ${order.number} has shipped`, html, text };
+}
+
+// Sent when someone asks to reset their admin password
+export function renderPasswordReset(link: string, context: MailContext, expiresInMinutes: number): RenderedMail {
+  const html = layout(context, 'Reset your password', `
+                <p style="margin:0 0 16px;">Someone asked to reset the password for your ${escapeHtml(context.artistName)} admin account. The link below works once and expires in ${expiresInMinutes} minutes.</p>
+                <p style="margin:0 0 24px;"><a href="${link}" style="display:inline-block;padding:10px 20px;background:${context.accentColor};color:#ffffff;text-decoration:none;">Choose a new password</a></p>
+                <p style="margin:0;color:#78716c;">If you didn't ask for this, ignore this email and your password stays the same.</p>`);
+
+  const text = [
+    `Someone asked to reset the password for your ${context.artistName} admin account. The link below works once and expires in ${expiresInMinutes} minutes.`,
+    '',
+    `Choose a new password: ${link}`,
+    '',
+    "If you didn't ask for this, ignore this email and your password stays the same.",
+  ].join('\n');
+
+  return { subject: `Reset your ${context.artistName} password`, html, text };
+}
+
+// Sent to someone an admin has invited to help run the site
+export function renderInvitation(link: string, role: string, context: MailContext, expiresInDays: number): RenderedMail {
+  const html = layout(context, "You've been invited", `
+                <p style="margin:0 0 16px;">You've been invited to the ${escapeHtml(context.artistName)} admin panel with the ${escapeHtml(role)} role. Choose a password to activate your account; the link expires in ${expiresInDays} days.</p>
+                <p style="margin:0 0 24px;"><a href="${link}" style="display:inline-block;padding:10px 20px;background:${context.accentColor};color:#ffffff;text-decoration:none;">Accept invitation</a></p>
+                <p style="margin:0;color:#78716c;">If you weren't expecting this, you can ignore this email.</p>`);
+
+  const text = [
+    `You've been invited to the ${context.artistName} admin panel with the ${role} role. Choose a password to activate your account; the link expires in ${expiresInDays} days.`,
+    '',
+    `Accept invitation: ${link}`,
+    '',
+    "If you weren't expecting this, you can ignore this email.",
+  ].join('\n');
+
+  return { subject: `Your invitation to ${context.artistName}`, html, text };
+}
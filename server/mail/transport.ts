@@ -0,0 +1,59 @@
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Anything that can hand a message to a mail server (or pretend to)
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MAIL_FROM = process.env.MAIL_FROM || 'Quill Your Dream <no-reply@quillyourdream.com>';
+
+// SMTP delivery, e.g. a provider relay in production or MailHog
+// (SMTP_HOST=localhost SMTP_PORT=1025) during development
+function createSmtpTransport(): MailTransport {
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: MAIL_FROM, ...message });
+    },
+  };
+}
+
+// Logs messages instead of sending them, for development without a mail server
+const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(`📧 Email to ${message.to}: ${message.subject}`);
+    console.log(message.text.split('\n').map((line) => `   ${line}`).join('\n'));
+  },
+};
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = process.env.SMTP_HOST ? createSmtpTransport() : consoleTransport;
+    if (transport === consoleTransport) {
+      console.log('📧 SMTP_HOST not set; outgoing email will be logged to the console');
+    }
+  }
+  return transport;
+}
@@ -1,4 +1,5 @@
-import { connectDB, Artwork, ArtistInfo, FAQ } from "./db";
+import { connectDB } from "./db";
+import { getRepositories, type Repository, type Stored, type NewDocument } from "./repositories";
 import fs from "fs/promises";
 import path from "path";
 
@@ -8,12 +9,18 @@ async function readJsonData(filename: string) {
   return JSON.parse(data);
 }
 
+// Update the document matching the filter, or create it if none exists
+async function upsert<T>(repository: Repository<T>, existing: Stored<T> | null, data: NewDocument<T>) {
+  return existing ? repository.update(existing._id, data) : repository.create(data);
+}
+
 async function migrateData() {
   console.log("Starting data migration from JSON to MongoDB...\n");
 
   try {
     // Connect to MongoDB
     await connectDB();
+    const { artworks, artist, faqs } = getRepositories();
 
     // Migrate artworks
     console.log("Migrating artworks...");
@@ -23,11 +30,7 @@ async function migrateData() {
     for (const artwork of artworksData) {
       const { id, ...artworkWithoutId } = artwork;
       
-      await Artwork.findOneAndUpdate(
-        { slug: artworkWithoutId.slug },
-        artworkWithoutId,
-        { upsert: true, new: true }
-      );
+      await upsert(artworks, await artworks.find({ slug: artworkWithoutId.slug }), artworkWithoutId);
       artworkCount++;
     }
     console.log(`✓ Migrated/updated ${artworkCount} artworks`);
@@ -36,11 +39,7 @@ async function migrateData() {
     console.log("\nMigrating artist information...");
     const artistData = await readJsonData("artist.json");
     
-    await ArtistInfo.findOneAndUpdate(
-      {},
-      artistData,
-      { upsert: true, new: true }
-    );
+    await upsert(artist, await artist.find(), artistData);
     console.log("✓ Migrated artist information");
 
     // Migrate FAQs
@@ -52,11 +51,7 @@ async function migrateData() {
       const faq = faqsData[i];
       const { id, ...faqWithoutId } = faq;
       
-      await FAQ.findOneAndUpdate(
-        { question: faqWithoutId.question },
-        { ...faqWithoutId, order: i },
-        { upsert: true, new: true }
-      );
+      await upsert(faqs, await faqs.find({ question: faqWithoutId.question }), { ...faqWithoutId, order: i });
       faqCount++;
     }
     console.log(`✓ Migrated/updated ${faqCount} FAQs`);
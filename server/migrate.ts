@@ -0,0 +1,56 @@
+import { connectDB, getMigrationTarget } from "./db";
+import { migrations, getMigrationStatus, migrateUp, migrateDown } from "./migrations";
+
+// Usage:
+//   npm run db:migrate -- status
+//   npm run db:migrate -- up [--to <version>] [--dry-run]
+//   npm run db:migrate -- down [--to <version>] [--dry-run]
+function parseArgs(argv: string[]) {
+  const [command = "status", ...rest] = argv;
+  const toIndex = rest.indexOf("--to");
+  const to = toIndex >= 0 ? parseInt(rest[toIndex + 1], 10) : undefined;
+
+  if (to !== undefined && isNaN(to)) {
+    throw new Error("--to expects a migration version number");
+  }
+
+  return { command, to, dryRun: rest.includes("--dry-run") };
+}
+
+async function main() {
+  const { command, to, dryRun } = parseArgs(process.argv.slice(2));
+
+  await connectDB({ runMigrations: false });
+  const target = getMigrationTarget();
+  console.log(`\nDatabase service: ${target.backend}${dryRun ? " (dry run)" : ""}\n`);
+
+  switch (command) {
+    case "status": {
+      const status = await getMigrationStatus(target, migrations);
+      for (const entry of status) {
+        const state = entry.appliedAt ? `applied ${new Date(entry.appliedAt).toISOString()}` : "pending";
+        console.log(`  ${String(entry.version).padStart(3, "0")}  ${entry.name.padEnd(32)} ${state}`);
+      }
+      break;
+    }
+    case "up": {
+      const applied = await migrateUp(target, migrations, { dryRun, to });
+      console.log(`\n✓ ${applied.length} migration(s) ${dryRun ? "would be applied" : "applied"}`);
+      break;
+    }
+    case "down": {
+      const rolledBack = await migrateDown(target, migrations, { dryRun, to });
+      console.log(`\n✓ ${rolledBack.length} migration(s) ${dryRun ? "would be rolled back" : "rolled back"}`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}" (expected status, up or down)`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("✗ Migration failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
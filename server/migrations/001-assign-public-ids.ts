@@ -0,0 +1,36 @@
+import { generatePublicId, hasPublicId } from '../repositories/publicId';
+import type { CollectionName, Migration } from './types';
+
+const COLLECTIONS: CollectionName[] = ['artworks', 'artist', 'faqs', 'users', 'settings'];
+
+// Replaces the legacy numeric ids (seed data and hashed _ids) with the
+// persisted string public ids the repositories assign on create
+export const assignPublicIds: Migration = {
+  version: 1,
+  name: 'assign-public-ids',
+
+  async up({ collections }) {
+    for (const name of COLLECTIONS) {
+      const docs = await collections[name].find();
+      const taken = new Set(docs.filter(hasPublicId).map((doc) => doc.id));
+
+      for (const doc of docs) {
+        if (hasPublicId(doc)) continue;
+
+        let id = generatePublicId();
+        while (taken.has(id)) {
+          id = generatePublicId();
+        }
+        taken.add(id);
+
+        await collections[name].updateOne({ _id: doc._id }, { $set: { id } });
+      }
+    }
+  },
+
+  async down({ collections }) {
+    for (const name of COLLECTIONS) {
+      await collections[name].updateMany({}, { $unset: { id: true } });
+    }
+  },
+};
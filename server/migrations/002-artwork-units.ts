@@ -0,0 +1,16 @@
+import type { Migration } from './types';
+
+// Dimensions were unitless and always shown as inches; record that explicitly
+// now that artworks can be measured in centimetres
+export const artworkUnits: Migration = {
+  version: 2,
+  name: 'artwork-units',
+
+  async up({ collections }) {
+    await collections.artworks.updateMany({ unit: { $exists: false } }, { $set: { unit: 'in' } });
+  },
+
+  async down({ collections }) {
+    await collections.artworks.updateMany({}, { $unset: { unit: true } });
+  },
+};
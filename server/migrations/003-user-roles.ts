@@ -0,0 +1,19 @@
+import type { Migration } from './types';
+
+// The admin/user split became owner, editor, sales and viewer. Admins keep
+// full control as owners; plain users only ever had read access, so they
+// become viewers.
+export const userRoles: Migration = {
+  version: 3,
+  name: 'user-roles',
+
+  async up({ collections }) {
+    await collections.users.updateMany({ role: 'admin' }, { $set: { role: 'owner' } });
+    await collections.users.updateMany({ role: 'user' }, { $set: { role: 'viewer' } });
+  },
+
+  async down({ collections }) {
+    await collections.users.updateMany({ role: 'owner' }, { $set: { role: 'admin' } });
+    await collections.users.updateMany({ role: { $ne: 'admin' } }, { $set: { role: 'user' } });
+  },
+};
@@ -0,0 +1,41 @@
+import { randomBytes } from 'crypto';
+import bcrypt from 'bcrypt';
+import type { Migration } from './types';
+
+// Installs from before first-run setup created this account with a published
+// password (admin123 on NeDB, BlueGrass20! on MongoDB)
+const DEFAULT_ADMIN_EMAIL = 'admin@quillyourdream.com';
+const DEFAULT_PASSWORDS = ['admin123', 'BlueGrass20!'];
+
+// If the default admin still has one of those passwords, it is replaced with
+// a random one nobody knows, along with any outstanding reset link. The
+// account keeps its role and content; its owner chooses a new password
+// through "Forgot password". Irreversible, so there is no down.
+export const defaultAdminPassword: Migration = {
+  version: 4,
+  name: 'default-admin-password',
+
+  async up({ collections, dryRun }) {
+    for (const user of await collections.users.find({ email: DEFAULT_ADMIN_EMAIL })) {
+      let matches = false;
+      for (const password of DEFAULT_PASSWORDS) {
+        if (typeof user.password === 'string' && await bcrypt.compare(password, user.password)) {
+          matches = true;
+          break;
+        }
+      }
+      if (!matches) {
+        continue;
+      }
+
+      await collections.users.updateOne({ _id: user._id }, {
+        $set: {
+          password: await bcrypt.hash(randomBytes(32).toString('hex'), 10),
+          passwordToken: null,
+        },
+      });
+      console.warn(`  ⚠️  ${dryRun ? '[dry-run] Would disable' : 'Disabled'} the published default password of ${DEFAULT_ADMIN_EMAIL}`);
+      console.warn('     Choose a new one with "Forgot password" on the login page; without SMTP the link is printed to this log');
+    }
+  },
+};
@@ -0,0 +1,30 @@
+import mongoose from 'mongoose';
+import type { MigrationTarget, RawDocument } from './types';
+
+// Shape a raw document read from either backend (or parsed from JSON) for
+// insertion into `backend`. `_id` is kept where the backend accepts it so
+// sessions and references survive, and timestamps become Dates again.
+export function toBackendDocument(doc: RawDocument, backend: MigrationTarget['backend']): RawDocument {
+  const { __v, ...stored } = doc;
+
+  for (const field of ['createdAt', 'updatedAt']) {
+    if (typeof stored[field] === 'string') {
+      stored[field] = new Date(stored[field]);
+    }
+  }
+
+  if (stored._id === undefined || stored._id === null) {
+    delete stored._id;
+  } else if (backend === 'mongodb') {
+    const id = String(stored._id);
+    if (mongoose.isValidObjectId(id) && id.length === 24) {
+      stored._id = new mongoose.Types.ObjectId(id);
+    } else {
+      delete stored._id;
+    }
+  } else {
+    stored._id = String(stored._id);
+  }
+
+  return stored;
+}
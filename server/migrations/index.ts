@@ -0,0 +1,19 @@
+import { assignPublicIds } from './001-assign-public-ids';
+import { artworkUnits } from './002-artwork-units';
+import { userRoles } from './003-user-roles';
+import { defaultAdminPassword } from './004-default-admin-password';
+import type { Migration } from './types';
+
+export type { Migration, MigrationContext, MigrationTarget, CollectionName, RawDocument } from './types';
+export { getMigrationStatus, migrateUp, migrateDown, type MigrationStatus, type MigrateOptions } from './runner';
+export { createNeDBMigrationTarget } from './nedb';
+export { createMongoMigrationTarget } from './mongo';
+export { toBackendDocument } from './documents';
+
+// Every migration in version order; append new ones to the end
+export const migrations: Migration[] = [
+  assignPublicIds,
+  artworkUnits,
+  userRoles,
+  defaultAdminPassword,
+];
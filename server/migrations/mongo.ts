@@ -0,0 +1,70 @@
+import type { Collection } from 'mongodb';
+import { ArtworkModel, CollectionModel, InquiryModel, EmailDeliveryModel, CommissionModel, InvoiceModel, OrderModel, ArtistInfoModel, FAQModel, UserModel, SiteSettingsModel, AuditEntryModel, MigrationModel } from '../models';
+import type { CollectionName, MigrationCollection, MigrationRecord, MigrationTarget, RawDocument } from './types';
+
+// Uses the native driver collection behind each Mongoose model so migrations
+// are not filtered by the current schema
+class MongoMigrationCollection implements MigrationCollection {
+  constructor(private collection: Collection) {}
+
+  find(query: RawDocument = {}): Promise<RawDocument[]> {
+    return this.collection.find(query).toArray();
+  }
+
+  async insertOne(doc: RawDocument): Promise<void> {
+    await this.collection.insertOne(doc);
+  }
+
+  async updateOne(query: RawDocument, update: RawDocument): Promise<void> {
+    await this.collection.updateOne(query, update);
+  }
+
+  async updateMany(query: RawDocument, update: RawDocument): Promise<number> {
+    const result = await this.collection.updateMany(query, update);
+    return result.modifiedCount;
+  }
+
+  async deleteMany(query: RawDocument): Promise<number> {
+    const result = await this.collection.deleteMany(query);
+    return result.deletedCount;
+  }
+}
+
+export function createMongoMigrationTarget(): MigrationTarget {
+  const models: Record<CollectionName, { collection: Collection }> = {
+    artworks: ArtworkModel,
+    collections: CollectionModel,
+    inquiries: InquiryModel,
+    emails: EmailDeliveryModel,
+    commissions: CommissionModel,
+    invoices: InvoiceModel,
+    orders: OrderModel,
+    artist: ArtistInfoModel,
+    faqs: FAQModel,
+    users: UserModel,
+    settings: SiteSettingsModel,
+    audit: AuditEntryModel,
+  };
+
+  const collections = {} as Record<CollectionName, MigrationCollection>;
+  for (const [name, model] of Object.entries(models) as [CollectionName, { collection: Collection }][]) {
+    collections[name] = new MongoMigrationCollection(model.collection);
+  }
+
+  return {
+    backend: 'mongodb',
+    collections,
+    log: {
+      async list() {
+        const records = await MigrationModel.find().sort({ version: 1 }).lean().exec();
+        return records as unknown as MigrationRecord[];
+      },
+      async add(record) {
+        await MigrationModel.create(record);
+      },
+      async remove(version) {
+        await MigrationModel.deleteOne({ version }).exec();
+      },
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import type Datastore from '@seald-io/nedb';
+import type { CollectionName, MigrationCollection, MigrationRecord, MigrationTarget, RawDocument } from './types';
+
+class NeDBMigrationCollection implements MigrationCollection {
+  constructor(private db: Datastore) {}
+
+  async find(query: RawDocument = {}): Promise<RawDocument[]> {
+    return await this.db.findAsync(query);
+  }
+
+  async insertOne(doc: RawDocument): Promise<void> {
+    await this.db.insertAsync(doc);
+  }
+
+  async updateOne(query: RawDocument, update: RawDocument): Promise<void> {
+    await this.db.updateAsync(query, update, {});
+  }
+
+  async updateMany(query: RawDocument, update: RawDocument): Promise<number> {
+    const { numAffected } = await this.db.updateAsync(query, update, { multi: true });
+    return numAffected;
+  }
+
+  deleteMany(query: RawDocument): Promise<number> {
+    return this.db.removeAsync(query, { multi: true });
+  }
+}
+
+export function createNeDBMigrationTarget(
+  stores: Record<CollectionName, Datastore> & { migrations: Datastore },
+): MigrationTarget {
+  const collections = {} as Record<CollectionName, MigrationCollection>;
+  for (const name of ['artworks', 'collections', 'inquiries', 'emails', 'commissions', 'invoices', 'orders', 'artist', 'faqs', 'users', 'settings', 'audit'] as CollectionName[]) {
+    collections[name] = new NeDBMigrationCollection(stores[name]);
+  }
+
+  return {
+    backend: 'nedb',
+    collections,
+    log: {
+      async list() {
+        const records = await stores.migrations.find({}).sort({ version: 1 }).execAsync();
+        return records as unknown as MigrationRecord[];
+      },
+      async add(record) {
+        await stores.migrations.insertAsync(record);
+      },
+      async remove(version) {
+        await stores.migrations.removeAsync({ version }, {});
+      },
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import type {
+  CollectionName,
+  Migration,
+  MigrationCollection,
+  MigrationContext,
+  MigrationTarget,
+  RawDocument,
+} from './types';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null;
+}
+
+export interface MigrateOptions {
+  dryRun?: boolean;
+  // Up: highest version to apply. Down: version to roll back to (exclusive).
+  to?: number;
+}
+
+// Reads pass through; writes are reported with the number of matching documents
+function dryRunCollection(name: CollectionName, collection: MigrationCollection): MigrationCollection {
+  const report = (action: string, count: number) =>
+    console.log(`    [dry-run] ${name}: would ${action} ${count} document(s)`);
+
+  return {
+    find: (query?: RawDocument) => collection.find(query),
+    async insertOne() {
+      report('insert', 1);
+    },
+    async updateOne(query: RawDocument) {
+      report('update', Math.min((await collection.find(query)).length, 1));
+    },
+    async updateMany(query: RawDocument) {
+      const count = (await collection.find(query)).length;
+      report('update', count);
+      return count;
+    },
+    async deleteMany(query: RawDocument) {
+      const count = (await collection.find(query)).length;
+      report('delete', count);
+      return count;
+    },
+  };
+}
+
+function createContext(target: MigrationTarget, dryRun: boolean): MigrationContext {
+  if (!dryRun) {
+    return { backend: target.backend, collections: target.collections, dryRun };
+  }
+
+  const collections = {} as Record<CollectionName, MigrationCollection>;
+  for (const [name, collection] of Object.entries(target.collections) as [CollectionName, MigrationCollection][]) {
+    collections[name] = dryRunCollection(name, collection);
+  }
+  return { backend: target.backend, collections, dryRun };
+}
+
+function assertOrdered(migrations: Migration[]): void {
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version <= migrations[i - 1].version) {
+      throw new Error(`Migrations must have unique ascending versions (found ${migrations[i].version} after ${migrations[i - 1].version})`);
+    }
+  }
+}
+
+export async function getMigrationStatus(target: MigrationTarget, migrations: Migration[]): Promise<MigrationStatus[]> {
+  const applied = new Map((await target.log.list()).map((record) => [record.version, record]));
+
+  return migrations.map((migration) => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version)?.appliedAt ?? null,
+  }));
+}
+
+// Apply every pending migration (up to `to`), returning those that ran
+export async function migrateUp(
+  target: MigrationTarget,
+  migrations: Migration[],
+  { dryRun = false, to = Infinity }: MigrateOptions = {},
+): Promise<Migration[]> {
+  assertOrdered(migrations);
+  const applied = new Set((await target.log.list()).map((record) => record.version));
+  const pending = migrations.filter((migration) => !applied.has(migration.version) && migration.version <= to);
+  const context = createContext(target, dryRun);
+
+  for (const migration of pending) {
+    console.log(`  ⬆️  ${dryRun ? '[dry-run] ' : ''}Migration ${migration.version} (${migration.name})`);
+    await migration.up(context);
+    if (!dryRun) {
+      await target.log.add({ version: migration.version, name: migration.name, appliedAt: new Date() });
+    }
+  }
+
+  return pending;
+}
+
+// Roll back applied migrations newer than `to` (default: only the latest one)
+export async function migrateDown(
+  target: MigrationTarget,
+  migrations: Migration[],
+  { dryRun = false, to }: MigrateOptions = {},
+): Promise<Migration[]> {
+  assertOrdered(migrations);
+  const applied = new Set((await target.log.list()).map((record) => record.version));
+  const appliedMigrations = migrations.filter((migration) => applied.has(migration.version)).reverse();
+  const rollback = to === undefined
+    ? appliedMigrations.slice(0, 1)
+    : appliedMigrations.filter((migration) => migration.version > to);
+
+  const irreversible = rollback.find((migration) => !migration.down);
+  if (irreversible) {
+    throw new Error(`Migration ${irreversible.version} (${irreversible.name}) cannot be rolled back`);
+  }
+
+  const context = createContext(target, dryRun);
+  for (const migration of rollback) {
+    console.log(`  ⬇️  ${dryRun ? '[dry-run] ' : ''}Rolling back migration ${migration.version} (${migration.name})`);
+    await migration.down!(context);
+    if (!dryRun) {
+      await target.log.remove(migration.version);
+    }
+  }
+
+  return rollback;
+}
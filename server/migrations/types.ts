@@ -0,0 +1,46 @@
+// Migrations operate on raw documents rather than repositories so they can
+// reshape data the current repository contracts no longer accept.
+
+export type RawDocument = Record<string, any>;
+
+export type CollectionName = 'artworks' | 'collections' | 'inquiries' | 'emails' | 'commissions' | 'invoices' | 'orders' | 'artist' | 'faqs' | 'users' | 'settings' | 'audit';
+
+export interface MigrationCollection {
+  find(query?: RawDocument): Promise<RawDocument[]>;
+  insertOne(doc: RawDocument): Promise<void>;
+  updateOne(query: RawDocument, update: RawDocument): Promise<void>;
+  updateMany(query: RawDocument, update: RawDocument): Promise<number>;
+  deleteMany(query: RawDocument): Promise<number>;
+}
+
+export interface MigrationRecord {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+// Where applied versions are persisted for a backend
+export interface MigrationLog {
+  list(): Promise<MigrationRecord[]>;
+  add(record: MigrationRecord): Promise<void>;
+  remove(version: number): Promise<void>;
+}
+
+export interface MigrationTarget {
+  backend: 'nedb' | 'mongodb';
+  collections: Record<CollectionName, MigrationCollection>;
+  log: MigrationLog;
+}
+
+export interface MigrationContext {
+  backend: MigrationTarget['backend'];
+  collections: Record<CollectionName, MigrationCollection>;
+  dryRun: boolean;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(context: MigrationContext): Promise<void>;
+  down?(context: MigrationContext): Promise<void>;
+}
@@ -0,0 +1,328 @@
+import mongoose from 'mongoose';
+
+const currencies = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'CHF', 'JPY', 'AMD'];
+
+// Artwork Schema
+const artworkSchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  title: { type: String, required: true },
+  slug: { type: String, required: true, unique: true },
+  description: { type: String, required: true },
+  medium: { type: String, required: true },
+  artform: { type: String, required: true },
+  dateCreated: { type: String, required: true },
+  width: { type: Number, required: true },
+  height: { type: Number, required: true },
+  depth: { type: Number },
+  unit: { type: String, enum: ['in', 'cm'], default: 'in' },
+  price: { type: Number },
+  prices: [{
+    _id: false,
+    currency: { type: String, enum: currencies, required: true },
+    amount: { type: Number, required: true },
+  }],
+  status: { 
+    type: String, 
+    enum: ['available', 'reserved', 'sold', 'exhibition', 'private'],
+    default: 'available' 
+  },
+  category: { 
+    type: String, 
+    enum: ['original', 'commission', 'exhibition'],
+    required: true 
+  },
+  images: [{
+    url: { type: String, required: true },
+    alt: { type: String, required: true },
+    isPrimary: { type: Boolean, default: false }
+  }],
+  featured: { type: Boolean, default: false },
+  prints: [{
+    _id: false,
+    id: { type: String, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+    material: { type: String, required: true },
+    price: { type: Number, required: true },
+    editionSize: { type: Number, required: true },
+    sold: { type: Number, default: 0 },
+    reserved: { type: Number, default: 0 },
+  }],
+}, { timestamps: true });
+
+export const ArtworkModel = mongoose.model('Artwork', artworkSchema);
+
+// Collection Schema (a series of artworks)
+const collectionSchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  title: { type: String, required: true },
+  slug: { type: String, required: true, unique: true },
+  description: { type: String, default: '' },
+  artworkIds: [{ type: String }],
+  coverImage: { type: String, default: '' },
+}, { timestamps: true });
+
+export const CollectionModel = mongoose.model('Collection', collectionSchema);
+
+// Inquiry Schema (contact form submissions)
+const inquirySchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  name: { type: String, required: true },
+  email: { type: String, required: true },
+  subject: { type: String, required: true },
+  inquiryType: { type: String, enum: ['commission', 'purchase', 'exhibition', 'press', 'other'], required: true },
+  message: { type: String, required: true },
+  artworkId: { type: String },
+  status: { type: String, enum: ['new', 'replied', 'archived', 'spam'], default: 'new' },
+  read: { type: Boolean, default: false },
+  notes: { type: String, default: '' },
+  spamReasons: [{ type: String }],
+}, { timestamps: true });
+
+export const InquiryModel = mongoose.model('Inquiry', inquirySchema);
+
+// Commission Schema (structured commission requests and their pipeline stage)
+const commissionSchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  name: { type: String, required: true },
+  email: { type: String, required: true },
+  subject: { type: String, required: true },
+  description: { type: String, required: true },
+  width: { type: Number, required: true },
+  height: { type: Number, required: true },
+  unit: { type: String, enum: ['in', 'cm'] },
+  palette: [{ type: String }],
+  deadline: { type: String },
+  budgetMin: { type: Number },
+  budgetMax: { type: Number },
+  stage: {
+    type: String,
+    enum: ['new', 'quoted', 'deposit-paid', 'in-progress', 'shipped', 'completed'],
+    default: 'new',
+  },
+  references: [{
+    _id: false,
+    file: { type: String, required: true },
+    name: { type: String, required: true },
+  }],
+  currency: { type: String, enum: currencies },
+  quote: { type: Number },
+  notes: { type: String, default: '' },
+  spam: { type: Boolean, default: false },
+  spamReasons: [{ type: String }],
+  artworkId: { type: String },
+}, { timestamps: true });
+
+export const CommissionModel = mongoose.model('Commission', commissionSchema);
+
+// Invoice Schema (quotes and invoices)
+const invoiceSchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  kind: { type: String, enum: ['quote', 'invoice'], required: true },
+  currency: { type: String, enum: currencies },
+  status: { type: String, enum: ['draft', 'sent', 'paid', 'void'], default: 'draft' },
+  number: { type: String },
+  sequence: { type: Number },
+  customer: {
+    name: { type: String, required: true },
+    email: { type: String, required: true },
+    address: { type: String, default: '' },
+  },
+  inquiryId: { type: String },
+  artworkId: { type: String },
+  commissionId: { type: String },
+  quoteId: { type: String },
+  lineItems: [{
+    _id: false,
+    description: { type: String, required: true },
+    quantity: { type: Number, required: true },
+    unitPrice: { type: Number, required: true },
+  }],
+  shipping: { type: Number, default: 0 },
+  taxRate: { type: Number, default: 0 },
+  depositPercent: { type: Number, default: 0 },
+  issueDate: { type: String, required: true },
+  dueDate: { type: String, required: true },
+  notes: { type: String, default: '' },
+  sentAt: { type: String },
+  paidAt: { type: String },
+}, { timestamps: true });
+
+export const InvoiceModel = mongoose.model('Invoice', invoiceSchema);
+
+// Order Schema (artworks bought through checkout)
+const orderSchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  number: { type: String, required: true },
+  sequence: { type: Number, required: true },
+  status: { type: String, enum: ['pending', 'paid', 'shipped', 'refunded', 'cancelled', 'expired'], default: 'pending' },
+  items: [{
+    _id: false,
+    artworkId: { type: String, required: true },
+    title: { type: String, required: true },
+    slug: { type: String, required: true },
+    printId: { type: String },
+    print: { type: String },
+    price: { type: Number, required: true },
+  }],
+  customer: {
+    name: { type: String, required: true },
+    email: { type: String, required: true },
+    phone: { type: String },
+  },
+  shippingAddress: {
+    line1: { type: String, required: true },
+    line2: { type: String },
+    city: { type: String, required: true },
+    region: { type: String, default: '' },
+    postalCode: { type: String, required: true },
+    country: { type: String, required: true },
+  },
+  total: { type: Number, required: true },
+  currency: { type: String, enum: currencies },
+  provider: { type: String, required: true },
+  paymentReference: { type: String },
+  paymentInstructions: { type: String },
+  reservedUntil: { type: String, required: true },
+  carrier: { type: String },
+  trackingNumber: { type: String },
+  paidAt: { type: String },
+  shippedAt: { type: String },
+  refundedAt: { type: String },
+  cancelledAt: { type: String },
+}, { timestamps: true });
+
+export const OrderModel = mongoose.model('Order', orderSchema);
+
+// Email Delivery Schema (outbound mail queue and delivery log)
+const emailDeliverySchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  kind: { type: String, required: true },
+  to: { type: String, required: true },
+  replyTo: { type: String },
+  subject: { type: String, required: true },
+  html: { type: String, required: true },
+  text: { type: String, required: true },
+  status: { type: String, enum: ['pending', 'sent', 'failed'], default: 'pending' },
+  attempts: [{
+    _id: false,
+    at: { type: String, required: true },
+    transport: { type: String, required: true },
+    error: { type: String },
+  }],
+  nextAttemptAt: { type: String, default: null },
+  inquiryId: { type: String },
+  commissionId: { type: String },
+  orderId: { type: String },
+}, { timestamps: true });
+
+export const EmailDeliveryModel = mongoose.model('EmailDelivery', emailDeliverySchema);
+
+// Artist Info Schema
+const artistInfoSchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  name: { type: String, required: true },
+  // Setup leaves these blank until the artist fills them in
+  tagline: { type: String, default: '' },
+  bio: { type: String, default: '' },
+  location: { type: String, default: '' },
+  email: { type: String, required: true },
+  phone: String,
+  social: {
+    instagram: String,
+    etsy: String,
+    website: String,
+  },
+  profileImage: String,
+  exhibitions: [{
+    year: String,
+    title: String,
+    location: String,
+  }],
+}, { timestamps: true });
+
+export const ArtistInfoModel = mongoose.model('ArtistInfo', artistInfoSchema);
+
+// FAQ Schema
+const faqSchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  question: { type: String, required: true, unique: true },
+  answer: { type: String, required: true },
+  category: { type: String, required: true },
+  order: { type: Number, default: 0 },
+}, { timestamps: true });
+
+export const FAQModel = mongoose.model('FAQ', faqSchema);
+
+// User Schema
+const userSchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  email: { type: String, required: true, unique: true },
+  password: { type: String, required: true },
+  role: { 
+    type: String, 
+    enum: ['owner', 'editor', 'sales', 'viewer'],
+    default: 'viewer' 
+  },
+  invitePending: { type: Boolean },
+  passwordToken: {
+    type: new mongoose.Schema({
+      hash: { type: String, required: true },
+      purpose: { type: String, enum: ['reset', 'invite'], required: true },
+      expiresAt: { type: String, required: true },
+    }, { _id: false }),
+    default: null,
+  },
+  twoFactor: {
+    type: new mongoose.Schema({
+      secret: { type: String, required: true },
+      enabledAt: { type: String, default: null },
+      recoveryCodes: [{ type: String }],
+      lastStep: { type: Number },
+    }, { _id: false }),
+    default: null,
+  },
+}, { timestamps: true });
+
+export const UserModel = mongoose.model('User', userSchema);
+
+// Site Settings Schema
+const siteSettingsSchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  accentHue: { type: Number, default: 186, min: 0, max: 360 },
+  accentSaturation: { type: Number, default: 68, min: 0, max: 100 },
+  accentLightness: { type: Number, default: 45, min: 0, max: 100 },
+  currency: { type: String, enum: currencies },
+  exchangeRates: [{
+    _id: false,
+    currency: { type: String, enum: currencies, required: true },
+    rate: { type: Number, required: true },
+  }],
+  exchangeRatesUpdatedAt: { type: String },
+  dimensionUnit: { type: String, enum: ['in', 'cm'] },
+  setupCompletedAt: { type: String },
+  requireTwoFactor: { type: Boolean },
+}, { timestamps: true });
+
+export const SiteSettingsModel = mongoose.model('SiteSettings', siteSettingsSchema);
+
+// Sign-in audit log
+const auditEntrySchema = new mongoose.Schema({
+  id: { type: String, unique: true, sparse: true },
+  event: { type: String, enum: ['login.failed', 'login.locked', 'login.unlocked'], required: true },
+  email: { type: String },
+  ip: { type: String },
+  detail: { type: String, required: true },
+  actorId: { type: String },
+}, { timestamps: true });
+
+export const AuditEntryModel = mongoose.model('AuditEntry', auditEntrySchema);
+
+// Applied schema migrations
+const migrationSchema = new mongoose.Schema({
+  version: { type: Number, required: true, unique: true },
+  name: { type: String, required: true },
+  appliedAt: { type: Date, required: true },
+});
+
+export const MigrationModel = mongoose.model('Migration', migrationSchema);
@@ -5,17 +5,30 @@ import { existsSync } from 'fs';
 
 // NeDB databases - file-based persistent storage
 let artworksDB: Datastore;
+let collectionsDB: Datastore;
+let inquiriesDB: Datastore;
+let emailsDB: Datastore;
+let commissionsDB: Datastore;
+let invoicesDB: Datastore;
+let ordersDB: Datastore;
 let artistDB: Datastore;
 let faqsDB: Datastore;
 let usersDB: Datastore;
 let settingsDB: Datastore;
+let auditDB: Datastore;
+let migrationsDB: Datastore;
 
 let isNeDBInitialized = false;
 
 // NeDB data directory
 const NEDB_DATA_DIR = join(process.cwd(), 'data', 'nedb');
 
-export async function initNeDB() {
+export interface InitNeDBOptions {
+  // Load sample data into empty datastores (default: true)
+  seed?: boolean;
+}
+
+export async function initNeDB({ seed = true }: InitNeDBOptions = {}) {
   if (isNeDBInitialized) {
     return;
   }
@@ -30,10 +43,18 @@ export async function initNeDB() {
 
   // Initialize NeDB datastores with file persistence
   artworksDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'artworks.db'), autoload: true });
+  collectionsDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'collections.db'), autoload: true });
+  inquiriesDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'inquiries.db'), autoload: true });
+  emailsDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'emails.db'), autoload: true });
+  commissionsDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'commissions.db'), autoload: true });
+  invoicesDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'invoices.db'), autoload: true });
+  ordersDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'orders.db'), autoload: true });
   artistDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'artist.db'), autoload: true });
   faqsDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'faqs.db'), autoload: true });
   usersDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'users.db'), autoload: true });
   settingsDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'settings.db'), autoload: true });
+  auditDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'audit.db'), autoload: true });
+  migrationsDB = new Datastore({ filename: join(NEDB_DATA_DIR, 'migrations.db'), autoload: true });
 
   // Check if database files already exist and have data
   const hasExistingData = await new Promise<boolean>((resolve) => {
@@ -42,15 +63,10 @@ export async function initNeDB() {
     });
   });
 
-  // Check if admin user exists
-  const hasAdminUser = await new Promise<boolean>((resolve) => {
-    usersDB.findOne({ email: 'admin@quillyourdream.com' }, (err, doc) => {
-      resolve(!err && doc !== null);
-    });
-  });
-
   // Only load sample data if database is empty
-  if (!hasExistingData) {
+  if (!seed) {
+    console.log('  ✅ Opened NeDB data without sample data');
+  } else if (!hasExistingData) {
     console.log('  📦 Loading initial sample data...');
     try {
       // Load artworks
@@ -113,26 +129,6 @@ export async function initNeDB() {
     console.log('  ✅ Loaded existing NeDB data from disk');
   }
 
-  // Always ensure admin user exists (create if not present)
-  if (!hasAdminUser) {
-    const bcrypt = await import('bcrypt');
-    const adminPasswordHash = bcrypt.hashSync('admin123', 10);
-    await new Promise((resolve, reject) => {
-      usersDB.insert({
-        email: 'admin@quillyourdream.com',
-        password: adminPasswordHash,
-        role: 'admin',
-        createdAt: new Date()
-      }, (err) => {
-        if (err) reject(err);
-        else resolve(null);
-      });
-    });
-    console.log('  ✅ Created default admin user (email: admin@quillyourdream.com, password: admin123)');
-  } else {
-    console.log('  ✅ Admin user already exists');
-  }
-
   isNeDBInitialized = true;
   console.log(`✅ NeDB database service ready (${NEDB_DATA_DIR})`);
 }
@@ -144,164 +140,21 @@ export function getNeDBStores() {
   
   return {
     artworks: artworksDB,
+    collections: collectionsDB,
+    inquiries: inquiriesDB,
+    emails: emailsDB,
+    commissions: commissionsDB,
+    invoices: invoicesDB,
+    orders: ordersDB,
     artist: artistDB,
     faqs: faqsDB,
     users: usersDB,
-    settings: settingsDB
+    settings: settingsDB,
+    audit: auditDB,
+    migrations: migrationsDB
   };
 }
 
 export function isNeDBReady(): boolean {
   return isNeDBInitialized;
 }
-
-// NeDB Query Builder for chaining
-class NeDBQuery<T> {
-  private query: any = {};
-  private sortObj: any = null;
-  private limitNum: number | null = null;
-
-  constructor(private db: Datastore, query: any = {}) {
-    this.query = query;
-  }
-
-  sort(sortObj: any): this {
-    this.sortObj = sortObj;
-    return this;
-  }
-
-  limit(num: number): this {
-    this.limitNum = num;
-    return this;
-  }
-
-  exec(): Promise<T[]> {
-    return new Promise((resolve, reject) => {
-      let cursor = this.db.find(this.query);
-      
-      if (this.sortObj) {
-        cursor = cursor.sort(this.sortObj);
-      }
-      
-      if (this.limitNum !== null) {
-        cursor = cursor.limit(this.limitNum);
-      }
-      
-      cursor.exec((err: Error | null, docs: any[]) => {
-        if (err) reject(err);
-        else resolve(docs as T[]);
-      });
-    });
-  }
-
-  // Make it thenable for async/await
-  then(onfulfilled?: any, onrejected?: any): Promise<T[]> {
-    return this.exec().then(onfulfilled, onrejected);
-  }
-
-  catch(onrejected?: any): Promise<T[]> {
-    return this.exec().catch(onrejected);
-  }
-}
-
-// NeDB adapter for Mongoose-like operations
-export class NeDBModel<T> {
-  constructor(private db: Datastore) {}
-
-  find(query: any = {}): NeDBQuery<T> {
-    return new NeDBQuery<T>(this.db, query);
-  }
-
-  findOne(query: any): Promise<T | null> {
-    return new Promise((resolve, reject) => {
-      this.db.findOne(query, (err: Error | null, doc: any) => {
-        if (err) reject(err);
-        else resolve(doc as T | null);
-      });
-    });
-  }
-
-  async countDocuments(query: any = {}): Promise<number> {
-    return new Promise((resolve, reject) => {
-      this.db.count(query, (err: Error | null, count: number) => {
-        if (err) reject(err);
-        else resolve(count);
-      });
-    });
-  }
-
-  create(doc: any): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.db.insert(doc, (err: Error | null, newDoc: any) => {
-        if (err) reject(err);
-        else resolve(newDoc as T);
-      });
-    });
-  }
-
-  updateOne(query: any, update: any): Promise<number> {
-    return new Promise((resolve, reject) => {
-      this.db.update(query, update, {}, (err: Error | null, numAffected: number) => {
-        if (err) reject(err);
-        else resolve(numAffected);
-      });
-    });
-  }
-
-  deleteOne(query: any): Promise<number> {
-    return new Promise((resolve, reject) => {
-      this.db.remove(query, {}, (err: Error | null, numRemoved: number) => {
-        if (err) reject(err);
-        else resolve(numRemoved);
-      });
-    });
-  }
-
-  async findByIdAndUpdate(id: string, update: any, options?: any): Promise<T | null> {
-    // First find the document
-    const doc = await this.findOne({ _id: id });
-    if (!doc) {
-      return null;
-    }
-
-    // Update the document
-    return new Promise((resolve, reject) => {
-      this.db.update(
-        { _id: id },
-        { ...doc, ...update },
-        {},
-        (err: Error | null, numAffected: number) => {
-          if (err) {
-            reject(err);
-          } else if (numAffected === 0) {
-            resolve(null);
-          } else {
-            // Return the updated document
-            this.findOne({ _id: id }).then(resolve).catch(reject);
-          }
-        }
-      );
-    });
-  }
-
-  async findByIdAndDelete(id: string): Promise<T | null> {
-    // First find the document to return it
-    const doc = await this.findOne({ _id: id });
-    if (!doc) {
-      return null;
-    }
-
-    // Delete the document
-    return new Promise((resolve, reject) => {
-      this.db.remove({ _id: id }, {}, (err: Error | null, numRemoved: number) => {
-        if (err) {
-          reject(err);
-        } else if (numRemoved === 0) {
-          resolve(null);
-        } else {
-          resolve(doc);
-        }
-      });
-    });
-  }
-}
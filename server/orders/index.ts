@@ -0,0 +1,2 @@
+export { placeOrder, markOrderPaid, cancelOrder, shipOrder, refundOrder, expireReservations, startReservationExpiry, OrderError } from './lifecycle';
+export { createArtwork, updateArtwork } from './prints';
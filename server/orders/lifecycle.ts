@@ -0,0 +1,192 @@
+import { DEFAULT_CURRENCY, describePrint, printsRemaining, type Artwork, type ArtworkPrint, type Checkout, type Order, type OrderItem, type OrderStatus, type PlacedOrder } from '@shared/schema';
+import { getRepositories, type Stored } from '../repositories';
+import type { PaymentProvider } from '../payments';
+import { createLock } from '../lock';
+
+export class OrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderError';
+  }
+}
+
+// Every change to an order's status also changes its artworks, so they run
+// one at a time: two buyers can't reserve the same piece, and a payment can't
+// race a cancellation or expiry.
+export const exclusive = createLock();
+
+const EXPIRY_INTERVAL = 60 * 1000; // 1 minute
+
+// Move the order's artworks from one status to another, leaving alone any the
+// admin has changed by hand since. Prints move between the matching counts
+// instead: reserving adds to `reserved`, paying moves one to `sold`.
+async function moveArtworks(order: Stored<Order>, from: Artwork['status'], to: Artwork['status']): Promise<void> {
+  const { artworks } = getRepositories();
+  for (const item of order.items) {
+    const artwork = await artworks.findByPublicId(item.artworkId);
+    if (!artwork) continue;
+
+    if (item.printId) {
+      const prints = (artwork.prints ?? []).map((print) =>
+        print.id === item.printId ? movePrint(print, from, to) : print);
+      await artworks.update(artwork._id, { prints });
+    } else if (artwork.status === from) {
+      await artworks.update(artwork._id, { status: to });
+    }
+  }
+}
+
+function movePrint(print: ArtworkPrint, from: Artwork['status'], to: Artwork['status']): ArtworkPrint {
+  const moved = { ...print };
+  if (from === 'reserved' || from === 'sold') moved[from] = Math.max(0, moved[from] - 1);
+  if (to === 'reserved' || to === 'sold') moved[to] += 1;
+  return moved;
+}
+
+// Load the latest copy of an order and check it is in one of the given statuses
+async function currentOrder(order: Stored<Order>, allowed: OrderStatus[], message: string): Promise<Stored<Order>> {
+  const current = await getRepositories().orders.findById(order._id);
+  if (!current || !allowed.includes(current.status)) {
+    throw new OrderError(message);
+  }
+  return current;
+}
+
+// Reserve the artworks, record the order and start payment with the provider.
+// Throws OrderError when a piece can't be bought.
+export async function placeOrder(checkout: Checkout, provider: PaymentProvider): Promise<PlacedOrder> {
+  const { artworks, orders, settings } = getRepositories();
+
+  // A lapsed reservation shouldn't keep a piece from its next buyer until the timer runs
+  await expireReservations();
+
+  const order = await exclusive(async () => {
+    const items: OrderItem[] = [];
+    for (const line of checkout.items) {
+      if (items.some((item) => item.artworkId === line.artworkId && item.printId === line.printId)) {
+        continue;
+      }
+      const artwork = await artworks.findByPublicId(line.artworkId);
+      if (!artwork) {
+        throw new OrderError('An artwork in your cart no longer exists');
+      }
+
+      const item = { artworkId: artwork.id, title: artwork.title, slug: artwork.slug };
+      if (line.printId) {
+        const print = artwork.prints?.find((candidate) => candidate.id === line.printId);
+        if (!print) {
+          throw new OrderError(`A print of "${artwork.title}" in your cart is no longer offered`);
+        }
+        if (printsRemaining(print) < 1) {
+          throw new OrderError(`The ${describePrint(print, artwork.unit)} print of "${artwork.title}" has sold out`);
+        }
+        items.push({ ...item, printId: print.id, print: describePrint(print, artwork.unit), price: print.price });
+      } else {
+        if (artwork.status !== 'available' || artwork.price === undefined) {
+          throw new OrderError(`"${artwork.title}" is no longer available`);
+        }
+        items.push({ ...item, price: artwork.price });
+      }
+    }
+
+    const [last] = await orders.list({ sort: { sequence: -1 }, limit: 1 });
+    const sequence = (last?.sequence ?? 0) + 1;
+    const siteSettings = await settings.find();
+
+    const created = await orders.create({
+      number: `ORD-${String(sequence).padStart(4, '0')}`,
+      sequence,
+      status: 'pending',
+      items,
+      customer: checkout.customer,
+      shippingAddress: checkout.shippingAddress,
+      total: items.reduce((sum, item) => sum + item.price, 0),
+      currency: siteSettings?.currency ?? DEFAULT_CURRENCY,
+      provider: provider.id,
+      reservedUntil: new Date(Date.now() + provider.reservationHours * 60 * 60 * 1000).toISOString(),
+    });
+
+    await moveArtworks(created, 'available', 'reserved');
+    return created;
+  });
+
+  try {
+    const payment = await provider.startPayment(order);
+    const started = await orders.update(order._id, {
+      paymentReference: payment.reference,
+      ...(payment.instructions && { paymentInstructions: payment.instructions }),
+    });
+    return { order: started ?? order, ...(payment.redirectUrl && { redirectUrl: payment.redirectUrl }) };
+  } catch (error) {
+    await cancelOrder(order);
+    throw error;
+  }
+}
+
+// Sells the reserved artworks. Only pending orders can be paid; a payment
+// that arrives after cancellation or expiry is left for the admin to refund.
+export function markOrderPaid(order: Stored<Order>): Promise<Stored<Order> | null> {
+  return exclusive(async () => {
+    const current = await currentOrder(order, ['pending'], 'Only pending orders can be marked paid');
+    await moveArtworks(current, 'reserved', 'sold');
+    return getRepositories().orders.update(current._id, { status: 'paid', paidAt: new Date().toISOString() });
+  });
+}
+
+// Returns the reserved artworks to sale
+export function cancelOrder(order: Stored<Order>): Promise<Stored<Order> | null> {
+  return exclusive(async () => {
+    const current = await currentOrder(order, ['pending'], 'Only pending orders can be cancelled');
+    await moveArtworks(current, 'reserved', 'available');
+    return getRepositories().orders.update(current._id, { status: 'cancelled', cancelledAt: new Date().toISOString() });
+  });
+}
+
+export function shipOrder(order: Stored<Order>, tracking: Pick<Order, 'carrier' | 'trackingNumber'>): Promise<Stored<Order> | null> {
+  return exclusive(async () => {
+    const current = await currentOrder(order, ['paid'], 'Only paid orders can be shipped');
+    return getRepositories().orders.update(current._id, { ...tracking, status: 'shipped', shippedAt: new Date().toISOString() });
+  });
+}
+
+// A refund before shipping puts the pieces back on sale. Once shipped they are
+// with the buyer, so a returned piece is relisted by hand.
+export function refundOrder(order: Stored<Order>): Promise<Stored<Order> | null> {
+  return exclusive(async () => {
+    const current = await currentOrder(order, ['paid', 'shipped'], 'Only paid or shipped orders can be refunded');
+    if (current.status === 'paid') {
+      await moveArtworks(current, 'sold', 'available');
+    }
+    return getRepositories().orders.update(current._id, { status: 'refunded', refundedAt: new Date().toISOString() });
+  });
+}
+
+// Release every pending order whose reservation has run out; returns how many
+export function expireReservations(): Promise<number> {
+  const { orders } = getRepositories();
+
+  return exclusive(async () => {
+    const now = new Date().toISOString();
+    const lapsed = await orders.list({ filter: { status: 'pending', reservedUntil: { $lte: now } } });
+    for (const order of lapsed) {
+      await moveArtworks(order, 'reserved', 'available');
+      await orders.update(order._id, { status: 'expired', cancelledAt: now });
+    }
+    return lapsed.length;
+  });
+}
+
+export function startReservationExpiry(): void {
+  const timer = setInterval(async () => {
+    try {
+      const expired = await expireReservations();
+      if (expired > 0) {
+        console.log(`🛒 Released ${expired} expired order reservation${expired === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      console.error("Error expiring order reservations:", error);
+    }
+  }, EXPIRY_INTERVAL);
+
+  timer.unref();
+}
@@ -0,0 +1,45 @@
+import { randomUUID } from 'crypto';
+import type { Artwork, ArtworkPrint, InsertArtwork, PrintInput } from '@shared/schema';
+import { getRepositories, type Stored } from '../repositories';
+import { exclusive, OrderError } from './lifecycle';
+
+// Prints from the admin form: new ones get an id. Sold and reserved counts of
+// existing prints stay as checkout left them, so a sale made while the form
+// was open isn't undone, and the edition can't shrink below them.
+function mergePrints(input: PrintInput[], existing: ArtworkPrint[] = []): ArtworkPrint[] {
+  return input.map((print) => {
+    const current = existing.find((candidate) => candidate.id === print.id);
+    if (!current) {
+      return { ...print, id: randomUUID(), reserved: 0 };
+    }
+
+    const taken = current.sold + current.reserved;
+    if (print.editionSize < taken) {
+      throw new OrderError(`The edition size can't be below the ${taken} prints already sold or reserved`);
+    }
+    return { ...print, id: current.id, sold: current.sold, reserved: current.reserved };
+  });
+}
+
+export function createArtwork(input: InsertArtwork): Promise<Stored<Artwork>> {
+  const { prints, ...fields } = input;
+  return getRepositories().artworks.create({ ...fields, ...(prints && { prints: mergePrints(prints) }) });
+}
+
+// Saves an admin edit to an artwork. Runs under the order lock so a print
+// reserved while the form was open isn't lost.
+export function updateArtwork(
+  artwork: Stored<Artwork>,
+  changes: Partial<Omit<Artwork, 'prints'>> & { prints?: PrintInput[] },
+): Promise<Stored<Artwork> | null> {
+  const { artworks } = getRepositories();
+
+  return exclusive(async () => {
+    const { prints, ...rest } = changes;
+    const current = await artworks.findById(artwork._id);
+    return artworks.update(artwork._id, {
+      ...rest,
+      ...(prints && { prints: mergePrints(prints, current?.prints) }),
+    });
+  });
+}
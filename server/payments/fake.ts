@@ -0,0 +1,30 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { PaymentProvider } from './types';
+
+const webhookSchema = z.object({
+  reference: z.string(),
+  outcome: z.enum(['paid', 'failed']),
+});
+
+// Stands in for a card provider during development: the buyer is sent to a
+// local test payment page whose Pay/Decline buttons call the webhook, so the
+// whole redirect-and-confirm flow can be tried without an account anywhere
+export const fakeProvider: PaymentProvider = {
+  id: 'fake',
+  label: 'Test card payment',
+  description: 'Simulated card payment for testing. No money is taken.',
+  reservationHours: 1,
+
+  async startPayment(order) {
+    return {
+      reference: `fake_${randomUUID()}`,
+      redirectUrl: `/checkout/test-payment/${order.id}`,
+    };
+  },
+
+  async handleWebhook(body) {
+    const validation = webhookSchema.safeParse(body);
+    return validation.success ? validation.data : null;
+  },
+};
@@ -0,0 +1,25 @@
+import type { PaymentMethod } from '@shared/schema';
+import { manualProvider } from './manual';
+import { fakeProvider } from './fake';
+import type { PaymentProvider } from './types';
+
+export type { PaymentEvent, PaymentProvider, PaymentStart } from './types';
+
+const available: PaymentProvider[] = [manualProvider, fakeProvider];
+
+// PAYMENT_PROVIDERS picks what checkout offers, e.g. "manual"; the test
+// provider is only on by default outside production
+const enabledIds = (process.env.PAYMENT_PROVIDERS || (process.env.NODE_ENV === 'production' ? 'manual' : 'manual,fake'))
+  .split(',')
+  .map((id) => id.trim())
+  .filter(Boolean);
+
+const enabled = available.filter((provider) => enabledIds.includes(provider.id));
+
+export function getPaymentProvider(id: string): PaymentProvider | undefined {
+  return enabled.find((provider) => provider.id === id);
+}
+
+export function listPaymentMethods(): PaymentMethod[] {
+  return enabled.map(({ id, label, description }) => ({ id, label, description }));
+}
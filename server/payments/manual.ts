@@ -0,0 +1,26 @@
+import { formatMoney } from '@shared/schema';
+import type { PaymentProvider } from './types';
+
+// Account details printed on the order, e.g. "Account name: ...\nIBAN: ...";
+// a literal \n in the environment variable starts a new line
+const BANK_DETAILS = (process.env.BANK_TRANSFER_DETAILS || '').replace(/\\n/g, '\n').trim();
+
+// Bank transfer: the buyer pays quoting the order number and the artist marks
+// the order paid once the money arrives
+export const manualProvider: PaymentProvider = {
+  id: 'manual',
+  label: 'Bank transfer',
+  description: 'Pay by bank transfer. The piece is held for you for 3 days.',
+  reservationHours: 72,
+
+  async startPayment(order) {
+    const lines = [
+      `Please transfer ${formatMoney(order.total, order.currency)} quoting ${order.number} as the payment reference.`,
+      '',
+      BANK_DETAILS || 'Bank details will be emailed to you shortly.',
+      '',
+      `The artwork is reserved for you until ${new Date(order.reservedUntil).toUTCString()}.`,
+    ];
+    return { reference: order.number, instructions: lines.join('\n') };
+  },
+};
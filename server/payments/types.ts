@@ -0,0 +1,27 @@
+import type { Order } from '@shared/schema';
+
+// How a newly placed order gets paid: either instructions the buyer follows
+// (bank transfer) or a hosted payment page to send them to (card checkout)
+export interface PaymentStart {
+  reference: string; // The provider's id for this payment, used to match webhooks
+  instructions?: string;
+  redirectUrl?: string;
+}
+
+// A payment outcome reported by the provider
+export interface PaymentEvent {
+  reference: string;
+  outcome: 'paid' | 'failed';
+}
+
+// Anything that can take payment for an order. A Stripe-style adapter creates
+// a checkout session in startPayment and confirms it in handleWebhook.
+export interface PaymentProvider {
+  id: string; // Stored on the order
+  label: string; // Shown at checkout
+  description: string;
+  reservationHours: number; // How long a pending order holds its artworks
+  startPayment(order: Order): Promise<PaymentStart>;
+  // Providers without webhooks (bank transfer) are confirmed by the admin instead
+  handleWebhook?(body: unknown): Promise<PaymentEvent | null>;
+}
@@ -0,0 +1,88 @@
+import { convertLength, dimensionUnits, type Artwork, type ArtworkQuery, type ArtworkSort } from '@shared/schema';
+import type { Condition, Filter, Sort, Stored } from './types';
+
+type StoredArtwork = Stored<Artwork>;
+
+// Every sort ends on _id so pages stay stable when the primary key ties.
+// "Size" orders by width, then height; both backends can only sort on stored fields,
+// so artworks measured in different units sort by their numbers as entered.
+const sorts: Record<ArtworkSort, Sort<StoredArtwork>> = {
+  'newest': { createdAt: -1, _id: 1 },
+  'oldest': { createdAt: 1, _id: 1 },
+  'price-asc': { price: 1, _id: 1 },
+  'price-desc': { price: -1, _id: 1 },
+  'size-asc': { width: 1, height: 1, _id: 1 },
+  'size-desc': { width: -1, height: -1, _id: 1 },
+  'title': { title: 1, _id: 1 },
+};
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function range<V>(min: V | undefined, max: V | undefined, maxOperator: '$lte' | '$lt' = '$lte'): Condition<V> | undefined {
+  if (min === undefined && max === undefined) {
+    return undefined;
+  }
+  const condition: Condition<V> = {};
+  if (min !== undefined) condition.$gte = min;
+  if (max !== undefined) condition[maxOperator] = max;
+  return condition;
+}
+
+// Size bounds arrive in the query's unit; artworks stored in each unit are
+// compared against the bounds converted to it
+function sizeFilter(query: ArtworkQuery): Filter<StoredArtwork> | undefined {
+  const bounds = [query.minWidth, query.maxWidth, query.minHeight, query.maxHeight];
+  if (bounds.every((bound) => bound === undefined)) {
+    return undefined;
+  }
+
+  return {
+    $or: dimensionUnits.map((unit) => {
+      const convert = (value: number | undefined) => value === undefined ? undefined : convertLength(value, query.unit, unit);
+      const filter: Filter<StoredArtwork> = { unit };
+      const width = range(convert(query.minWidth), convert(query.maxWidth));
+      if (width) filter.width = width;
+      const height = range(convert(query.minHeight), convert(query.maxHeight));
+      if (height) filter.height = height;
+      return filter;
+    }),
+  };
+}
+
+// Translate a validated listing query into a filter both NeDB and MongoDB evaluate identically
+export function buildArtworkFilter(query: ArtworkQuery): Filter<StoredArtwork> {
+  const filter: Filter<StoredArtwork> = {};
+
+  if (query.q) {
+    const pattern = new RegExp(escapeRegex(query.q), 'i');
+    filter.$or = [
+      { title: { $regex: pattern } },
+      { description: { $regex: pattern } },
+      { medium: { $regex: pattern } },
+    ];
+  }
+  if (query.category) filter.category = query.category;
+  if (query.status) filter.status = query.status;
+
+  const price = range(query.minPrice, query.maxPrice);
+  if (price) filter.price = price;
+  const size = sizeFilter(query);
+  if (size) filter.$and = [size];
+
+  // dateCreated is a string starting with the year ("2024" or "2024-05-01"),
+  // so a lexical range selects whole years
+  const year = range(
+    query.yearFrom?.toString(),
+    query.yearTo !== undefined ? (query.yearTo + 1).toString() : undefined,
+    '$lt',
+  );
+  if (year) filter.dateCreated = year;
+
+  return filter;
+}
+
+export function artworkSort(sort: ArtworkSort): Sort<StoredArtwork> {
+  return sorts[sort];
+}
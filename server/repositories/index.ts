@@ -0,0 +1,93 @@
+import type Datastore from '@seald-io/nedb';
+import type { Artwork, Collection, Inquiry, EmailDelivery, Commission, Invoice, Order, ArtistInfo, FAQ, User, SiteSettings, AuditEntry } from '@shared/schema';
+import { ArtworkModel, CollectionModel, InquiryModel, EmailDeliveryModel, CommissionModel, InvoiceModel, OrderModel, ArtistInfoModel, FAQModel, UserModel, SiteSettingsModel, AuditEntryModel } from '../models';
+import { NeDBRepository } from './nedb';
+import { MongoRepository } from './mongo';
+import type { Repository } from './types';
+
+export type { Repository, Stored, Filter, ListOptions, Sort, NewDocument } from './types';
+export { buildArtworkFilter, artworkSort } from './artworkQuery';
+
+export interface Repositories {
+  artworks: Repository<Artwork>;
+  collections: Repository<Collection>;
+  inquiries: Repository<Inquiry>;
+  emails: Repository<EmailDelivery>;
+  commissions: Repository<Commission>;
+  invoices: Repository<Invoice>;
+  orders: Repository<Order>;
+  artist: Repository<ArtistInfo>;
+  faqs: Repository<FAQ>;
+  users: Repository<User>;
+  settings: Repository<SiteSettings>;
+  audit: Repository<AuditEntry>;
+}
+
+export interface NeDBStores {
+  artworks: Datastore;
+  collections: Datastore;
+  inquiries: Datastore;
+  emails: Datastore;
+  commissions: Datastore;
+  invoices: Datastore;
+  orders: Datastore;
+  artist: Datastore;
+  faqs: Datastore;
+  users: Datastore;
+  settings: Datastore;
+  audit: Datastore;
+}
+
+export function createNeDBRepositories(stores: NeDBStores): Repositories {
+  return {
+    artworks: new NeDBRepository<Artwork>(stores.artworks),
+    collections: new NeDBRepository<Collection>(stores.collections),
+    inquiries: new NeDBRepository<Inquiry>(stores.inquiries),
+    emails: new NeDBRepository<EmailDelivery>(stores.emails),
+    commissions: new NeDBRepository<Commission>(stores.commissions),
+    invoices: new NeDBRepository<Invoice>(stores.invoices),
+    orders: new NeDBRepository<Order>(stores.orders),
+    artist: new NeDBRepository<ArtistInfo>(stores.artist),
+    faqs: new NeDBRepository<FAQ>(stores.faqs),
+    users: new NeDBRepository<User>(stores.users),
+    settings: new NeDBRepository<SiteSettings>(stores.settings),
+    audit: new NeDBRepository<AuditEntry>(stores.audit),
+  };
+}
+
+export function createMongoRepositories(): Repositories {
+  return {
+    artworks: new MongoRepository<Artwork>(ArtworkModel),
+    collections: new MongoRepository<Collection>(CollectionModel),
+    inquiries: new MongoRepository<Inquiry>(InquiryModel),
+    emails: new MongoRepository<EmailDelivery>(EmailDeliveryModel),
+    commissions: new MongoRepository<Commission>(CommissionModel),
+    invoices: new MongoRepository<Invoice>(InvoiceModel),
+    orders: new MongoRepository<Order>(OrderModel),
+    artist: new MongoRepository<ArtistInfo>(ArtistInfoModel),
+    faqs: new MongoRepository<FAQ>(FAQModel),
+    users: new MongoRepository<User>(UserModel),
+    settings: new MongoRepository<SiteSettings>(SiteSettingsModel),
+    audit: new MongoRepository<AuditEntry>(AuditEntryModel),
+  };
+}
+
+// Active repositories, chosen once by connectDB()
+let activeRepositories: Repositories | null = null;
+
+// Activate repositories for the chosen backend once its data is migrated,
+// indexing public ids for lookups
+export async function activateRepositories(repositories: Repositories): Promise<void> {
+  for (const repository of Object.values(repositories) as Repository<unknown>[]) {
+    await repository.ensureIndexes();
+  }
+
+  activeRepositories = repositories;
+}
+
+export function getRepositories(): Repositories {
+  if (!activeRepositories) {
+    throw new Error('Repositories not initialized. Call connectDB() first.');
+  }
+  return activeRepositories;
+}
@@ -0,0 +1,86 @@
+import mongoose, { type Model } from 'mongoose';
+import type { Filter, ListOptions, NewDocument, Repository, Stored } from './types';
+import { uniquePublicId } from './publicId';
+
+// Convert a lean Mongoose document into the plain shape NeDB returns
+function toPlain<T>(doc: any): Stored<T> | null {
+  if (!doc) return null;
+  const { __v, ...rest } = doc;
+  return { ...rest, _id: rest._id.toString() } as Stored<T>;
+}
+
+function toUpdate<T>(data: Partial<NewDocument<T>>): Record<string, unknown> {
+  const { _id, id, createdAt, updatedAt, ...fields } = data as Record<string, unknown>;
+  return fields;
+}
+
+// MongoDB implementation of the repository contract
+export class MongoRepository<T> implements Repository<T> {
+  constructor(private model: Model<any>) {}
+
+  async list(options: ListOptions<Stored<T>> = {}): Promise<Stored<T>[]> {
+    let query = this.model.find(options.filter ?? {});
+
+    if (options.sort) {
+      query = query.sort(options.sort as Record<string, 1 | -1>);
+    }
+    if (options.skip) {
+      query = query.skip(options.skip);
+    }
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
+    const docs = await query.lean().exec();
+    return docs.map((doc) => toPlain<T>(doc)!);
+  }
+
+  async find(filter: Filter<Stored<T>> = {}): Promise<Stored<T> | null> {
+    const doc = await this.model.findOne(filter).lean().exec();
+    return toPlain<T>(doc);
+  }
+
+  async findById(id: string): Promise<Stored<T> | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const doc = await this.model.findById(id).lean().exec();
+    return toPlain<T>(doc);
+  }
+
+  async findByPublicId(id: string): Promise<Stored<T> | null> {
+    const doc = await this.model.findOne({ id }).lean().exec();
+    return toPlain<T>(doc);
+  }
+
+  count(filter: Filter<Stored<T>> = {}): Promise<number> {
+    return this.model.countDocuments(filter).exec();
+  }
+
+  async create(data: NewDocument<T>): Promise<Stored<T>> {
+    const id = await this.newPublicId();
+    const doc = await this.model.create({ ...toUpdate<T>(data), id });
+    return toPlain<T>(doc.toObject())!;
+  }
+
+  async update(id: string, data: Partial<NewDocument<T>>): Promise<Stored<T> | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const doc = await this.model
+      .findByIdAndUpdate(id, { $set: toUpdate<T>(data) }, { new: true, runValidators: true })
+      .lean()
+      .exec();
+    return toPlain<T>(doc);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    const doc = await this.model.findByIdAndDelete(id).exec();
+    return doc !== null;
+  }
+
+  async ensureIndexes(): Promise<void> {
+    await this.model.createIndexes();
+  }
+
+  private newPublicId(): Promise<string> {
+    return uniquePublicId(async (id) => (await this.model.countDocuments({ id }).exec()) > 0);
+  }
+}
@@ -0,0 +1,77 @@
+import type Datastore from '@seald-io/nedb';
+import type { Filter, ListOptions, NewDocument, Repository, Stored } from './types';
+import { uniquePublicId } from './publicId';
+
+// Remove fields NeDB must never be asked to overwrite
+function toUpdate<T>(data: Partial<NewDocument<T>>): Record<string, unknown> {
+  const { _id, id, createdAt, updatedAt, ...fields } = data as Record<string, unknown>;
+  return fields;
+}
+
+// NeDB implementation of the repository contract
+// Timestamps are maintained here to mirror Mongoose's `timestamps: true`
+export class NeDBRepository<T> implements Repository<T> {
+  constructor(private db: Datastore) {}
+
+  async list(options: ListOptions<Stored<T>> = {}): Promise<Stored<T>[]> {
+    let cursor = this.db.find(options.filter ?? {});
+
+    if (options.sort) {
+      cursor = cursor.sort(options.sort);
+    }
+    if (options.skip) {
+      cursor = cursor.skip(options.skip);
+    }
+    if (options.limit) {
+      cursor = cursor.limit(options.limit);
+    }
+
+    return (await cursor.execAsync()) as unknown as Stored<T>[];
+  }
+
+  async find(filter: Filter<Stored<T>> = {}): Promise<Stored<T> | null> {
+    const doc = await this.db.findOneAsync(filter);
+    return (doc as unknown as Stored<T>) ?? null;
+  }
+
+  findById(id: string): Promise<Stored<T> | null> {
+    return this.find({ _id: id } as Filter<Stored<T>>);
+  }
+
+  findByPublicId(id: string): Promise<Stored<T> | null> {
+    return this.find({ id } as Filter<Stored<T>>);
+  }
+
+  async count(filter: Filter<Stored<T>> = {}): Promise<number> {
+    return await this.db.countAsync(filter);
+  }
+
+  async create(data: NewDocument<T>): Promise<Stored<T>> {
+    const now = new Date();
+    const id = await this.newPublicId();
+    const doc = await this.db.insertAsync({ ...toUpdate<T>(data), id, createdAt: now, updatedAt: now });
+    return doc as unknown as Stored<T>;
+  }
+
+  async update(id: string, data: Partial<NewDocument<T>>): Promise<Stored<T> | null> {
+    const { affectedDocuments } = await this.db.updateAsync(
+      { _id: id },
+      { $set: { ...toUpdate<T>(data), updatedAt: new Date() } },
+      { returnUpdatedDocs: true },
+    );
+    return (affectedDocuments as unknown as Stored<T>) ?? null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const numRemoved = await this.db.removeAsync({ _id: id }, {});
+    return numRemoved > 0;
+  }
+
+  async ensureIndexes(): Promise<void> {
+    await this.db.ensureIndexAsync({ fieldName: 'id', unique: true, sparse: true });
+  }
+
+  private newPublicId(): Promise<string> {
+    return uniquePublicId(async (id) => (await this.db.countAsync({ id })) > 0);
+  }
+}
@@ -0,0 +1,32 @@
+import { randomInt } from 'crypto';
+
+// Public identifiers are what the API and client use to reference documents.
+// They are stored on the document at creation time so they never depend on
+// the backend's native _id format (NeDB strings vs MongoDB ObjectIds).
+
+const ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const PUBLIC_ID_LENGTH = 12;
+const MAX_ATTEMPTS = 5;
+
+export function generatePublicId(): string {
+  let id = '';
+  for (let i = 0; i < PUBLIC_ID_LENGTH; i++) {
+    id += ALPHABET[randomInt(ALPHABET.length)];
+  }
+  return id;
+}
+
+// Generate a public id that is not yet taken, checked against the store
+export async function uniquePublicId(isTaken: (id: string) => Promise<boolean>): Promise<string> {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const id = generatePublicId();
+    if (!(await isTaken(id))) {
+      return id;
+    }
+  }
+  throw new Error(`Could not generate a unique public id after ${MAX_ATTEMPTS} attempts`);
+}
+
+export function hasPublicId(doc: { id?: unknown }): boolean {
+  return typeof doc.id === 'string' && doc.id.length > 0;
+}
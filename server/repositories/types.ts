@@ -0,0 +1,58 @@
+// Backend-agnostic repository contracts shared by the NeDB and MongoDB implementations.
+// Filters use the Mongo query subset that NeDB also understands, so a single
+// query shape works against either database service.
+
+export type Condition<V> = {
+  $ne?: V;
+  $in?: V[];
+  $nin?: V[];
+  $gt?: V;
+  $gte?: V;
+  $lt?: V;
+  $lte?: V;
+  $regex?: RegExp;
+  $exists?: boolean;
+};
+
+// Array fields also match when they contain the given element
+type FieldValue<V> = V extends (infer E)[] ? V | E : V;
+
+export type Filter<T> = {
+  [K in keyof T]?: FieldValue<T[K]> | Condition<FieldValue<T[K]>>;
+} & {
+  $or?: Filter<T>[];
+  $and?: Filter<T>[];
+};
+
+export type SortOrder = 1 | -1;
+
+export type Sort<T> = Partial<Record<keyof T & string, SortOrder>>;
+
+export interface ListOptions<T> {
+  filter?: Filter<T>;
+  sort?: Sort<T>;
+  skip?: number;
+  limit?: number;
+}
+
+// Shape of every document handed back by a repository: plain object, string _id
+export type Stored<T> = Omit<T, "_id"> & {
+  _id: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+};
+
+// Fields assigned by the repository itself (_id, public id and timestamps)
+export type NewDocument<T> = Omit<T, "_id" | "id" | "createdAt" | "updatedAt">;
+
+export interface Repository<T> {
+  list(options?: ListOptions<Stored<T>>): Promise<Stored<T>[]>;
+  find(filter?: Filter<Stored<T>>): Promise<Stored<T> | null>;
+  findById(id: string): Promise<Stored<T> | null>;
+  findByPublicId(id: string): Promise<Stored<T> | null>;
+  count(filter?: Filter<Stored<T>>): Promise<number>;
+  create(data: NewDocument<T>): Promise<Stored<T>>;
+  update(id: string, data: Partial<NewDocument<T>>): Promise<Stored<T> | null>;
+  delete(id: string): Promise<boolean>;
+  ensureIndexes(): Promise<void>;
+}
@@ -1,14 +1,27 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { z } from "zod";
-import { contactFormSchema, insertUserSchema, updatePasswordSchema, insertArtworkSchema } from "@shared/schema";
-import { connectDB, Artwork, ArtistInfo, FAQ, SiteSettings, User, isUsingNeDB } from "./db";
-import { setupAuth, isAuthenticated, isAdmin, hashPassword, verifyPassword } from "./auth";
+import { contactFormSchema, contactGuardSchema, inviteUserSchema, forgotPasswordSchema, setPasswordSchema, twoFactorCodeSchema, disableTwoFactorSchema, updatePasswordSchema, insertArtworkSchema, insertCollectionSchema, artworkQuerySchema, type ArtworkPage, inquirySchema, updateInquirySchema, emailDeliverySchema, commissionRequestSchema, commissionSchema, updateCommissionSchema, insertInvoiceSchema, invoiceSchema, updateInvoiceSchema, type Invoice, checkoutSchema, orderSchema, updateOrderSchema, updateSiteSettingsSchema, setupSchema, updateUserRoleSchema, unlockLoginSchema, DEFAULT_CURRENCY, writePermissions } from "@shared/schema";
+import { connectDB, getMigrationTarget, getDatabaseStatus } from "./db";
+import { watchForMongoRecovery, getReconciliationReport } from "./fallback";
+import { getRepositories, buildArtworkFilter, artworkSort } from "./repositories";
+import { setupAuth, isAuthenticated, requirePermission, requireAnyPermission, hashPassword, verifyPassword, toPublicUser } from "./auth";
 import { triggerRebuild, getRebuildStatus } from "./rebuild";
+import { createBackup, restoreBackup, BackupError } from "./backups";
+import { sendInquiryEmails, sendCommissionEmails, sendOrderEmails, sendOrderShippedEmail, startMailQueue, retryEmail, getMailTransport, buildMailContext } from "./mail";
+import { issueChallenge, checkContactRate, checkContactSubmission, checkCheckoutRate } from "./spam";
+import { saveReferenceImages, deleteReferenceImages, referencePath, ReferenceImageError, MAX_REFERENCES } from "./commissions";
+import { issueInvoice, InvoiceError, renderInvoiceHtml, renderInvoicePdf, invoiceFileName } from "./invoices";
+import { getPaymentProvider, listPaymentMethods } from "./payments";
+import { initSetup, getSetupStatus, completeSetup, SetupError } from "./setup";
+import { inviteUser, resendInvitation, requestPasswordReset, checkPasswordToken, redeemPasswordToken, startTwoFactorEnrolment, confirmTwoFactorEnrolment, disableTwoFactor, regenerateRecoveryCodes, resetTwoFactor, isTwoFactorSetupRequired, listLoginLockouts, unlockLogin, AccountError } from "./accounts";
+import { listAuditEntries } from "./audit";
+import { placeOrder, markOrderPaid, cancelOrder, shipOrder, refundOrder, startReservationExpiry, OrderError, createArtwork, updateArtwork } from "./orders";
 import multer from "multer";
 import sharp from "sharp";
 import { join } from "path";
-import { mkdir } from "fs/promises";
+import { mkdir, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
 import { randomUUID } from "crypto";
 
 // Configure multer for image uploads
@@ -26,63 +39,86 @@ const upload = multer({
   },
 });
 
-// Simple hash function to convert string to stable numeric ID
-function hashStringToNumber(str: string): number {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash);
-}
-
-// Helper function to normalize database documents for frontend compatibility
-// Ensures id field is always a number as expected by frontend
-function normalizeId(doc: any): any {
-  if (!doc) return doc;
-  
-  const obj = doc.toObject ? doc.toObject() : doc;
-  
-  if (isUsingNeDB()) {
-    // NeDB: ensure numeric id exists by hashing _id
-    if (!obj.id && obj._id) {
-      obj.id = hashStringToNumber(obj._id);
-    } else if (obj.id && typeof obj.id === 'string') {
-      // Legacy: convert string id to number
-      obj.id = parseInt(obj.id, 10);
-    }
-  } else {
-    // MongoDB: hash ObjectId to create numeric id for frontend
-    if (obj._id && !obj.id) {
-      const idStr = obj._id.toString();
-      obj.id = hashStringToNumber(idStr);
-    }
-  }
-  
-  return obj;
-}
-
-// Helper to normalize arrays of documents
-function normalizeIds(docs: any[]): any[] {
-  return docs.map(normalizeId);
-}
+// Backup archives are staged on disk rather than held in memory
+const archiveUpload = multer({
+  dest: tmpdir(),
+  limits: {
+    fileSize: 2 * 1024 * 1024 * 1024, // 2GB limit
+  },
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Connect to MongoDB
   await connectDB();
+  watchForMongoRecovery();
+  startMailQueue();
+  startReservationExpiry();
   
   // Setup authentication
   await setupAuth(app);
+  await initSetup();
+
+  const { artworks, collections, inquiries, emails, commissions, invoices, orders, artist: artistInfo, faqs, users, settings: siteSettings } = getRepositories();
 
   // Health check endpoint
   app.get('/api/health', async (req, res) => {
     try {
-      await Artwork.find().limit(1);
-      res.status(200).json({ status: 'healthy', timestamp: new Date().toISOString() });
+      await artworks.list({ limit: 1 });
+      const database = getDatabaseStatus();
+      res.status(200).json({
+        status: database.fallback ? 'degraded' : 'healthy',
+        timestamp: new Date().toISOString(),
+        database,
+      });
     } catch (error) {
       console.error("Health check failed:", error);
-      res.status(503).json({ status: 'unhealthy', error: 'Database connection failed' });
+      res.status(503).json({ status: 'unhealthy', error: 'Database connection failed', database: getDatabaseStatus() });
+    }
+  });
+
+  // Database backend status, with a reconciliation report once MongoDB
+  // returns after a fallback period. Anyone who saves data sees it, since
+  // their changes are what would be stranded in NeDB.
+  app.get('/api/admin/database', requireAnyPermission(...writePermissions), async (req, res) => {
+    res.json({ ...getDatabaseStatus(), reconciliation: getReconciliationReport() });
+  });
+
+  // First-run setup, open until the first admin account is created
+  app.get('/api/setup', async (req, res) => {
+    try {
+      res.json(await getSetupStatus());
+    } catch (error) {
+      console.error("Error reading setup status:", error);
+      res.status(500).json({ error: "Failed to load setup status" });
+    }
+  });
+
+  app.post('/api/setup', async (req, res) => {
+    try {
+      const validation = setupSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const { user, restartRequired } = await completeSetup(validation.data);
+      const userResponse = { _id: user._id, id: user.id, email: user.email, role: user.role };
+
+      // The new admin lives in another database until the restart, so there's no session yet
+      if (restartRequired) {
+        return res.status(201).json({ user: userResponse, restartRequired });
+      }
+      req.logIn(user, (err) => {
+        if (err) {
+          console.error("Error signing in after setup:", err);
+        }
+        res.status(201).json({ user: userResponse, restartRequired });
+      });
+    } catch (error) {
+      if (error instanceof SetupError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error completing setup:", error);
+      res.status(500).json({ error: "Failed to complete setup" });
     }
   });
 
@@ -90,7 +126,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      res.json(user);
+      res.json({ ...user, twoFactorSetupRequired: await isTwoFactorSetupRequired(user) });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -107,35 +143,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const { currentPassword, newPassword } = validation.data;
       
-      console.log('Password update - User from session:', JSON.stringify(req.user));
-      console.log('Password update - Using NeDB?', isUsingNeDB());
-      
-      // Find user with password field
-      const query = isUsingNeDB() 
-        ? { email: req.user.email }  // Use email for lookup
-        : { _id: req.user._id };
-      
-      console.log('Password update - Query:', JSON.stringify(query));
-      const userWithPassword = await User.findOne(query);
-      
-      console.log('Password update - Found user?', userWithPassword ? 'yes' : 'no');
+      const userWithPassword = await users.findById(req.user._id);
       if (!userWithPassword) {
         return res.status(404).json({ error: "User not found" });
       }
 
       // Verify current password
-      const isValid = verifyPassword(currentPassword, userWithPassword.password);
+      const isValid = await verifyPassword(currentPassword, userWithPassword.password);
       if (!isValid) {
         return res.status(400).json({ error: "Current password is incorrect" });
       }
 
-      // Update password
-      const hashedPassword = hashPassword(newPassword);
-      if (isUsingNeDB()) {
-        await User.updateOne({ email: req.user.email }, { $set: { password: hashedPassword } });
-      } else {
-        await User.findByIdAndUpdate(req.user._id, { password: hashedPassword });
-      }
+      // Update password, voiding any reset link still in someone's inbox
+      await users.update(userWithPassword._id, { password: await hashPassword(newPassword), passwordToken: null });
 
       console.log('Password updated successfully for', req.user.email);
       res.json({ message: "Password updated successfully" });
@@ -145,98 +165,266 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // User management routes (admin only)
-  app.get('/api/admin/users', isAdmin, async (req, res) => {
+  // Two-factor authentication for the signed-in user. These stay open while
+  // the site requires 2FA and the user hasn't enrolled, so they can enrol.
+  app.post('/api/auth/2fa/setup', isAuthenticated, async (req: any, res) => {
     try {
-      const users = await User.find().sort({ email: 1 });
-      // Remove passwords from response
-      const usersWithoutPasswords = users.map(user => {
-        const userObj = user.toObject ? user.toObject() : user;
-        const { password, ...userWithoutPassword } = userObj;
-        return normalizeId(userWithoutPassword);
-      });
-      res.json(usersWithoutPasswords);
+      res.json(await startTwoFactorEnrolment(req.user._id));
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ error: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post('/api/auth/2fa/enable', isAuthenticated, async (req: any, res) => {
+    try {
+      const validation = twoFactorCodeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const recoveryCodes = await confirmTwoFactorEnrolment(req.user._id, validation.data.code);
+      console.log('Two-factor authentication enabled for', req.user.email);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({ error: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post('/api/auth/2fa/disable', isAuthenticated, async (req: any, res) => {
+    try {
+      const validation = disableTwoFactorSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      await disableTwoFactor(req.user._id, validation.data.password, validation.data.code);
+      console.log('Two-factor authentication disabled for', req.user.email);
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).json({ error: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  app.post('/api/auth/2fa/recovery-codes', isAuthenticated, async (req: any, res) => {
+    try {
+      const validation = twoFactorCodeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user._id, validation.data.code) });
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ error: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  // Forgotten passwords and invitations, for people who aren't signed in
+  app.post('/api/auth/forgot-password', async (req, res) => {
+    try {
+      const validation = forgotPasswordSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      await requestPasswordReset(validation.data.email, req.ip || "unknown");
+      res.json({ message: "If an account uses that email, a reset link is on its way" });
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({ error: "Failed to request password reset" });
+    }
+  });
+
+  app.get('/api/auth/password-token', async (req, res) => {
+    try {
+      res.json(await checkPasswordToken(String(req.query.token ?? "")));
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error checking password link:", error);
+      res.status(500).json({ error: "Failed to check link" });
+    }
+  });
+
+  app.post('/api/auth/set-password', async (req, res) => {
+    try {
+      const validation = setPasswordSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const user = await redeemPasswordToken(validation.data.token, validation.data.password);
+      console.log('Password set from emailed link for', user.email);
+      res.json({ message: "Password set. You can now log in." });
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error setting password:", error);
+      res.status(500).json({ error: "Failed to set password" });
+    }
+  });
+
+  // User management routes (owners only)
+  app.get('/api/admin/users', requirePermission('users.manage'), async (req, res) => {
+    try {
+      const allUsers = await users.list({ sort: { email: 1 } });
+      res.json(allUsers.map(toPublicUser));
     } catch (error) {
       console.error("Error fetching users:", error);
       res.status(500).json({ error: "Failed to fetch users" });
     }
   });
 
-  app.post('/api/admin/users', isAdmin, async (req, res) => {
+  app.post('/api/admin/users', requirePermission('users.manage'), async (req, res) => {
+    try {
+      const validation = inviteUserSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const user = await inviteUser(validation.data);
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error inviting user:", error);
+      res.status(500).json({ error: "Failed to invite user" });
+    }
+  });
+
+  app.post('/api/admin/users/:id/invitation', requirePermission('users.manage'), async (req, res) => {
+    try {
+      const targetUser = await users.findByPublicId(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      res.json(toPublicUser(await resendInvitation(targetUser)));
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error resending invitation:", error);
+      res.status(500).json({ error: "Failed to resend invitation" });
+    }
+  });
+
+  app.patch('/api/admin/users/:id', requirePermission('users.manage'), async (req: any, res) => {
     try {
-      const validation = insertUserSchema.safeParse(req.body);
+      const validation = updateUserRoleSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({ error: validation.error.errors[0].message });
       }
 
-      const { email, password, role } = validation.data;
+      const targetUser = await users.findByPublicId(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { role } = validation.data;
+
+      // Owners can't demote themselves, so someone with user management always remains
+      if (targetUser._id === req.user._id.toString() && role !== targetUser.role) {
+        return res.status(400).json({ error: "Cannot change your own role" });
+      }
+
+      const updated = await users.update(targetUser._id, { role });
+      if (!updated) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      res.json(toPublicUser(updated));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  // Turns 2FA off for someone locked out of it; they can enrol again after signing in
+  app.delete('/api/admin/users/:id/two-factor', requirePermission('users.manage'), async (req, res) => {
+    try {
+      const targetUser = await users.findByPublicId(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      await resetTwoFactor(targetUser);
+      console.log('Two-factor authentication reset for', targetUser.email);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({ error: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // Sign-in security: accounts and IPs waiting out failed logins, and the audit log
+  app.get('/api/admin/login-lockouts', requirePermission('users.manage'), (req, res) => {
+    res.json(listLoginLockouts());
+  });
 
-      // Check if user already exists
-      const existingUser = await User.findOne({ email });
-      if (existingUser) {
-        return res.status(400).json({ error: "User with this email already exists" });
+  app.post('/api/admin/login-lockouts/unlock', requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const validation = unlockLoginSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
       }
 
-      // Hash password and create user
-      const hashedPassword = hashPassword(password);
-      const user = await User.create({ email, password: hashedPassword, role });
+      await unlockLogin(validation.data.scope, validation.data.key, req.user);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error unlocking login:", error);
+      res.status(500).json({ error: "Failed to unlock login" });
+    }
+  });
 
-      // Remove password from response
-      const userObj = user.toObject ? user.toObject() : user;
-      const { password: _, ...userWithoutPassword } = userObj;
-      res.status(201).json(normalizeId(userWithoutPassword));
+  app.get('/api/admin/audit', requirePermission('users.manage'), async (req, res) => {
+    try {
+      res.json(await listAuditEntries());
     } catch (error) {
-      console.error("Error creating user:", error);
-      res.status(500).json({ error: "Failed to create user" });
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ error: "Failed to fetch audit log" });
     }
   });
 
-  app.delete('/api/admin/users/:id', isAdmin, async (req: any, res) => {
+  app.delete('/api/admin/users/:id', requirePermission('users.manage'), async (req: any, res) => {
     try {
-      const targetId = parseInt(req.params.id, 10);
-      
-      if (isNaN(targetId)) {
-        return res.status(400).json({ error: "Invalid user ID" });
+      const targetUser = await users.findByPublicId(req.params.id);
+
+      if (!targetUser) {
+        return res.status(404).json({ error: "User not found" });
       }
-      
-      if (isUsingNeDB()) {
-        // NeDB: Find user by _id that hashes to the target numeric id
-        const allUsers = await User.find();
-        const targetUser = allUsers.find(u => {
-          const userId = hashStringToNumber(u._id);
-          return userId === targetId;
-        });
-        
-        if (!targetUser) {
-          return res.status(404).json({ error: "User not found" });
-        }
-        
-        // Prevent deleting yourself
-        if (targetUser.email === req.user.email) {
-          return res.status(400).json({ error: "Cannot delete your own account" });
-        }
-        
-        await User.deleteOne({ _id: targetUser._id });
-      } else {
-        // MongoDB: search by numeric hash
-        const allUsers = await User.find();
-        const targetUser = allUsers.find(u => {
-          const userId = hashStringToNumber(u._id.toString());
-          return userId === targetId;
-        });
-        
-        if (!targetUser) {
-          return res.status(404).json({ error: "User not found" });
-        }
-        
-        // Prevent deleting yourself
-        if (targetUser._id.toString() === req.user._id.toString()) {
-          return res.status(400).json({ error: "Cannot delete your own account" });
-        }
-        
-        await User.findByIdAndDelete(targetUser._id);
+
+      // Prevent deleting yourself
+      if (targetUser._id === req.user._id.toString()) {
+        return res.status(400).json({ error: "Cannot delete your own account" });
       }
 
+      await users.delete(targetUser._id);
+
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting user:", error);
@@ -244,11 +432,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all artworks
+  // List artworks with optional search, filters, sort and pagination
   app.get("/api/artworks", async (req, res) => {
     try {
-      const allArtworks = await Artwork.find().sort({ createdAt: -1 });
-      res.json(normalizeIds(allArtworks));
+      const validation = artworkQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const query = validation.data;
+      const filter = buildArtworkFilter(query);
+      const total = await artworks.count(filter);
+      const pageSize = query.pageSize ?? Math.max(total, 1);
+      const matches = await artworks.list({
+        filter,
+        sort: artworkSort(query.sort),
+        skip: (query.page - 1) * pageSize,
+        limit: pageSize,
+      });
+
+      const page: ArtworkPage = {
+        artworks: matches,
+        total,
+        page: query.page,
+        pageSize,
+        totalPages: Math.max(Math.ceil(total / pageSize), 1),
+      };
+      res.json(page);
     } catch (error) {
       console.error("Error reading artworks:", error);
       res.status(500).json({ error: "Failed to load artworks" });
@@ -258,8 +468,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get featured artworks
   app.get("/api/artworks/featured", async (req, res) => {
     try {
-      const featured = await Artwork.find({ featured: true }).sort({ createdAt: -1 });
-      res.json(normalizeIds(featured));
+      const featured = await artworks.list({ filter: { featured: true }, sort: { createdAt: -1 } });
+      res.json(featured);
     } catch (error) {
       console.error("Error reading featured artworks:", error);
       res.status(500).json({ error: "Failed to load featured artworks" });
@@ -269,13 +479,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get artwork by slug
   app.get("/api/artworks/:slug", async (req, res) => {
     try {
-      const artwork = await Artwork.findOne({ slug: req.params.slug });
+      const artwork = await artworks.find({ slug: req.params.slug });
       
       if (!artwork) {
         return res.status(404).json({ error: "Artwork not found" });
       }
       
-      res.json(normalizeId(artwork));
+      res.json(artwork);
     } catch (error) {
       console.error("Error reading artwork:", error);
       res.status(500).json({ error: "Failed to load artwork" });
@@ -285,29 +495,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get related artworks
   app.get("/api/artworks/related/:slug", async (req, res) => {
     try {
-      const currentArtwork = await Artwork.findOne({ slug: req.params.slug });
+      const currentArtwork = await artworks.find({ slug: req.params.slug });
       
       if (!currentArtwork) {
         return res.json([]);
       }
       
-      const related = await Artwork.find({ 
-        category: currentArtwork.category,
-        slug: { $ne: req.params.slug }
-      }).limit(3);
+      const related = await artworks.list({
+        filter: {
+          category: currentArtwork.category,
+          slug: { $ne: req.params.slug },
+        },
+        limit: 3,
+      });
       
-      res.json(normalizeIds(related));
+      res.json(related);
     } catch (error) {
       console.error("Error reading related artworks:", error);
       res.status(500).json({ error: "Failed to load related artworks" });
     }
   });
 
+  // Get all collections
+  app.get("/api/collections", async (req, res) => {
+    try {
+      const allCollections = await collections.list({ sort: { title: 1 } });
+      res.json(allCollections);
+    } catch (error) {
+      console.error("Error reading collections:", error);
+      res.status(500).json({ error: "Failed to load collections" });
+    }
+  });
+
+  // Get collection by slug, with its artworks in display order
+  app.get("/api/collections/:slug", async (req, res) => {
+    try {
+      const collection = await collections.find({ slug: req.params.slug });
+
+      if (!collection) {
+        return res.status(404).json({ error: "Collection not found" });
+      }
+
+      const members = await artworks.list({ filter: { id: { $in: collection.artworkIds } } });
+      const byId = new Map(members.map((artwork) => [artwork.id, artwork]));
+
+      res.json({
+        ...collection,
+        artworks: collection.artworkIds.map((id) => byId.get(id)).filter(Boolean),
+      });
+    } catch (error) {
+      console.error("Error reading collection:", error);
+      res.status(500).json({ error: "Failed to load collection" });
+    }
+  });
+
   // Get artist information
   app.get("/api/artist", async (req, res) => {
     try {
-      const artist = await ArtistInfo.findOne();
-      res.json(normalizeId(artist) || null);
+      const artist = await artistInfo.find();
+      res.json(artist);
     } catch (error) {
       console.error("Error reading artist info:", error);
       res.status(500).json({ error: "Failed to load artist information" });
@@ -317,20 +563,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get FAQs
   app.get("/api/faqs", async (req, res) => {
     try {
-      const allFaqs = await FAQ.find().sort({ order: 1 });
-      res.json(normalizeIds(allFaqs));
+      const allFaqs = await faqs.list({ sort: { order: 1 } });
+      res.json(allFaqs);
     } catch (error) {
       console.error("Error reading FAQs:", error);
       res.status(500).json({ error: "Failed to load FAQs" });
     }
   });
 
+  // Proof-of-work challenge the contact form solves before submitting
+  app.get("/api/contact/challenge", (req, res) => {
+    res.set("Cache-Control", "no-store");
+    res.json(issueChallenge());
+  });
+
   // Contact form submission
   app.post("/api/contact", async (req, res) => {
     try {
+      const limited = checkContactRate(req.ip || "unknown");
+      if (limited?.action === "reject") {
+        return res.status(limited.status).json({ error: limited.error });
+      }
+
       const validatedData = contactFormSchema.parse(req.body);
-      console.log("Contact form submission:", validatedData);
+      // A stale reference (artwork deleted since the page loaded) shouldn't block the message
+      if (validatedData.artworkId && !(await artworks.findByPublicId(validatedData.artworkId))) {
+        delete validatedData.artworkId;
+      }
+      const guard = contactGuardSchema.parse(req.body);
+      const verdict = checkContactSubmission(validatedData, guard);
+
+      if (verdict.action === "reject") {
+        return res.status(verdict.status).json({ error: verdict.error });
+      }
+
+      if (verdict.action === "quarantine") {
+        // Kept for review in the inbox's spam folder; no email goes out
+        await inquiries.create({
+          ...validatedData,
+          status: "spam",
+          read: true,
+          notes: "",
+          spamReasons: verdict.reasons,
+        });
+        console.warn(`⚠️  Contact form submission from ${validatedData.email} quarantined: ${verdict.reasons.join("; ")}`);
+      } else {
+        const inquiry = await inquiries.create({ ...validatedData, status: "new", read: false, notes: "" });
+        // The inquiry is safely stored; mail problems are retried by the queue
+        sendInquiryEmails(inquiry).catch((error) => console.error("Error queueing inquiry emails:", error));
+      }
       
+      // Quarantined senders get the same reply, so bots learn nothing
       res.json({ 
         success: true, 
         message: "Your message has been received. We'll get back to you soon!" 
@@ -348,8 +631,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Commission request form: a JSON "data" field (brief and anti-spam guard) plus reference images
+  const referenceUpload = upload.array("references", MAX_REFERENCES);
+
+  app.post("/api/commissions", (req, res, next) => {
+    // Rate limited before any upload is read
+    const limited = checkContactRate(req.ip || "unknown");
+    if (limited?.action === "reject") {
+      return res.status(limited.status).json({ error: limited.error });
+    }
+    referenceUpload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({
+          error: error.code === "LIMIT_UNEXPECTED_FILE"
+            ? `Attach at most ${MAX_REFERENCES} reference images`
+            : `Reference image rejected: ${error.message}`,
+        });
+      }
+      if (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : "Invalid upload" });
+      }
+      next();
+    });
+  }, async (req, res) => {
+    try {
+      let body: unknown;
+      try {
+        body = JSON.parse(req.body.data ?? "{}");
+      } catch {
+        return res.status(400).json({ error: "Invalid commission request" });
+      }
+
+      const validation = commissionRequestSchema.safeParse(body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+      const brief = validation.data;
+      const guard = contactGuardSchema.parse(body);
+
+      const verdict = checkContactSubmission({ ...brief, message: brief.description }, guard);
+      if (verdict.action === "reject") {
+        return res.status(verdict.status).json({ error: verdict.error });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const references = await saveReferenceImages(files);
+      const quarantined = verdict.action === "quarantine";
+
+      const commission = await commissions.create({
+        ...brief,
+        currency: (await siteSettings.find())?.currency ?? DEFAULT_CURRENCY,
+        stage: "new",
+        references,
+        notes: "",
+        spam: quarantined,
+        ...(quarantined && { spamReasons: verdict.reasons }),
+      });
+
+      if (quarantined) {
+        console.warn(`⚠️  Commission request from ${brief.email} quarantined: ${verdict.reasons.join("; ")}`);
+      } else {
+        sendCommissionEmails(commission).catch((error) => console.error("Error queueing commission emails:", error));
+      }
+
+      res.json({
+        success: true,
+        message: "Your commission request has been received. We'll be in touch with a quote soon!",
+      });
+    } catch (error) {
+      if (error instanceof ReferenceImageError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error processing commission request:", error);
+      res.status(500).json({ error: "Failed to process commission request" });
+    }
+  });
+
   // Admin routes - Create artwork
-  app.post("/api/admin/artworks", isAdmin, async (req, res) => {
+  app.post("/api/admin/artworks", requirePermission("content.edit"), async (req, res) => {
     try {
       console.log("[CREATE ARTWORK] Request body:", JSON.stringify(req.body));
       
@@ -365,20 +724,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Create the artwork
-      const artwork = await Artwork.create(validation.data);
-      
-      // For NeDB, we need to add the numeric id field to the database
-      if (isUsingNeDB() && artwork._id && !artwork.id) {
-        const numericId = hashStringToNumber(artwork._id);
-        await Artwork.updateOne({ _id: artwork._id }, { ...artwork, id: numericId });
-        // Fetch the updated artwork
-        const updatedArtwork = await Artwork.findOne({ _id: artwork._id });
-        console.log("[CREATE ARTWORK] Success:", JSON.stringify(updatedArtwork));
-        res.status(201).json(normalizeId(updatedArtwork));
-      } else {
-        console.log("[CREATE ARTWORK] Success:", JSON.stringify(normalizeId(artwork)));
-        res.status(201).json(normalizeId(artwork));
-      }
+      const artwork = await createArtwork(validation.data);
+      console.log("[CREATE ARTWORK] Success:", JSON.stringify(artwork));
+      res.status(201).json(artwork);
     } catch (error) {
       console.error("[CREATE ARTWORK] Error creating artwork:", error);
       res.status(500).json({ error: "Failed to create artwork" });
@@ -386,129 +734,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update artwork
-  app.patch("/api/admin/artworks/:id", isAdmin, async (req, res) => {
+  app.patch("/api/admin/artworks/:id", requirePermission("content.edit"), async (req, res) => {
     try {
       console.log("[UPDATE ARTWORK] ID:", req.params.id, "Body:", JSON.stringify(req.body));
       
-      if (isUsingNeDB()) {
-        // NeDB: query by 'id' field (convert string param to number)
-        const numericId = parseInt(req.params.id, 10);
-        const existingArtwork = await Artwork.findOne({ id: numericId });
-        
-        if (!existingArtwork) {
-          return res.status(404).json({ error: "Artwork not found" });
-        }
+      const existingArtwork = await artworks.findByPublicId(req.params.id);
 
-        console.log("[UPDATE ARTWORK] Existing:", JSON.stringify(existingArtwork));
-        
-        // Update using id field
-        // NeDB returns plain objects, no need for toObject()
-        const existingData = existingArtwork.toObject ? existingArtwork.toObject() : existingArtwork;
-        const updateData = { ...existingData, ...req.body };
-        console.log("[UPDATE ARTWORK] Update data:", JSON.stringify(updateData));
-        
-        await Artwork.updateOne({ id: numericId }, updateData);
-        
-        // Fetch updated artwork
-        const artwork = await Artwork.findOne({ id: numericId });
-        console.log("[UPDATE ARTWORK] After update:", JSON.stringify(artwork));
-        
-        res.json(normalizeId(artwork));
-      } else {
-        // MongoDB: Frontend sends numeric hash, but we need ObjectId
-        // Try to find by the original _id sent in request body, fallback to searching all
-        let artwork;
-        
-        // If request body contains _id, use that (most reliable)
-        if (req.body._id) {
-          artwork = await Artwork.findByIdAndUpdate(
-            req.body._id,
-            req.body,
-            { new: true, runValidators: true }
-          );
-        } else {
-          // Fallback: find by numeric ID hash and update
-          // This requires searching all documents (less efficient but works)
-          const numericId = parseInt(req.params.id, 10);
-          const allArtworks = await Artwork.find();
-          const targetArtwork = allArtworks.find(art => {
-            const artId = hashStringToNumber(art._id.toString());
-            return artId === numericId;
-          });
-          
-          if (targetArtwork) {
-            artwork = await Artwork.findByIdAndUpdate(
-              targetArtwork._id,
-              req.body,
-              { new: true, runValidators: true }
-            );
-          }
-        }
-        
-        if (!artwork) {
-          return res.status(404).json({ error: "Artwork not found" });
-        }
-        
-        res.json(normalizeId(artwork));
+      if (!existingArtwork) {
+        return res.status(404).json({ error: "Artwork not found" });
+      }
+
+      // Prints carry edition counts that checkout relies on and fixed prices are
+      // shown to visitors, so both are checked
+      const priced = insertArtworkSchema.pick({ prints: true, prices: true }).safeParse(req.body);
+      if (!priced.success) {
+        return res.status(400).json({ error: priced.error.errors[0].message });
       }
+
+      const artwork = await updateArtwork(existingArtwork, { ...req.body, ...priced.data });
+
+      res.json(artwork);
     } catch (error) {
+      if (error instanceof OrderError) {
+        return res.status(409).json({ error: error.message });
+      }
       console.error("Error updating artwork:", error);
       res.status(500).json({ error: "Failed to update artwork" });
     }
   });
 
   // Delete artwork
-  app.delete("/api/admin/artworks/:id", isAdmin, async (req, res) => {
-    try {
-      if (isUsingNeDB()) {
-        // NeDB: query by 'id' field (convert string param to number)
-        const numericId = parseInt(req.params.id, 10);
-        const artwork = await Artwork.findOne({ id: numericId });
-        
-        if (!artwork) {
-          return res.status(404).json({ error: "Artwork not found" });
-        }
+  app.delete("/api/admin/artworks/:id", requirePermission("content.edit"), async (req, res) => {
+    try {
+      const artwork = await artworks.findByPublicId(req.params.id);
 
-        // Delete using id field
-        await Artwork.deleteOne({ id: numericId });
-        
-        res.json({ success: true });
-      } else {
-        // MongoDB: Frontend sends numeric hash in URL
-        // Need to find the actual document by searching
-        const numericId = parseInt(req.params.id, 10);
-        const allArtworks = await Artwork.find();
-        const targetArtwork = allArtworks.find(art => {
-          const artId = hashStringToNumber(art._id.toString());
-          return artId === numericId;
+      if (!artwork) {
+        return res.status(404).json({ error: "Artwork not found" });
+      }
+
+      await artworks.delete(artwork._id);
+
+      // Drop the artwork from any collection that included it
+      for (const collection of await collections.list({ filter: { artworkIds: artwork.id } })) {
+        await collections.update(collection._id, {
+          artworkIds: collection.artworkIds.filter((id) => id !== artwork.id),
         });
-        
-        if (!targetArtwork) {
-          return res.status(404).json({ error: "Artwork not found" });
-        }
-        
-        await Artwork.findByIdAndDelete(targetArtwork._id);
-        res.json({ success: true });
       }
+
+      res.json({ success: true });
     } catch (error) {
       console.error("Error deleting artwork:", error);
       res.status(500).json({ error: "Failed to delete artwork" });
     }
   });
 
-  // Update artist info
-  app.patch("/api/admin/artist", isAdmin, async (req, res) => {
+  // Collection artwork ids must all refer to existing artworks
+  async function findUnknownArtworkId(artworkIds: string[]): Promise<string | undefined> {
+    const known = await artworks.list({ filter: { id: { $in: artworkIds } } });
+    const knownIds = new Set(known.map((artwork) => artwork.id));
+    return artworkIds.find((id) => !knownIds.has(id));
+  }
+
+  // Create collection
+  app.post("/api/admin/collections", requirePermission("content.edit"), async (req, res) => {
     try {
-      let artist = await ArtistInfo.findOne();
-      
-      if (!artist) {
-        artist = await ArtistInfo.create(req.body);
-      } else {
-        Object.assign(artist, req.body);
-        await artist.save();
+      const validation = insertCollectionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      if (await collections.find({ slug: validation.data.slug })) {
+        return res.status(400).json({ error: "A collection with this slug already exists" });
+      }
+
+      const unknownId = await findUnknownArtworkId(validation.data.artworkIds);
+      if (unknownId) {
+        return res.status(400).json({ error: `Artwork ${unknownId} not found` });
+      }
+
+      const collection = await collections.create(validation.data);
+      res.status(201).json(collection);
+    } catch (error) {
+      console.error("Error creating collection:", error);
+      res.status(500).json({ error: "Failed to create collection" });
+    }
+  });
+
+  // Update collection
+  app.patch("/api/admin/collections/:id", requirePermission("content.edit"), async (req, res) => {
+    try {
+      const existingCollection = await collections.findByPublicId(req.params.id);
+
+      if (!existingCollection) {
+        return res.status(404).json({ error: "Collection not found" });
+      }
+
+      const validation = insertCollectionSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
       }
+
+      const { slug, artworkIds } = validation.data;
+      if (slug && slug !== existingCollection.slug && await collections.find({ slug })) {
+        return res.status(400).json({ error: "A collection with this slug already exists" });
+      }
+
+      const unknownId = artworkIds && await findUnknownArtworkId(artworkIds);
+      if (unknownId) {
+        return res.status(400).json({ error: `Artwork ${unknownId} not found` });
+      }
+
+      const collection = await collections.update(existingCollection._id, validation.data);
+      res.json(collection);
+    } catch (error) {
+      console.error("Error updating collection:", error);
+      res.status(500).json({ error: "Failed to update collection" });
+    }
+  });
+
+  // Delete collection
+  app.delete("/api/admin/collections/:id", requirePermission("content.edit"), async (req, res) => {
+    try {
+      const collection = await collections.findByPublicId(req.params.id);
+
+      if (!collection) {
+        return res.status(404).json({ error: "Collection not found" });
+      }
+
+      await collections.delete(collection._id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting collection:", error);
+      res.status(500).json({ error: "Failed to delete collection" });
+    }
+  });
+
+  // Update artist info
+  app.patch("/api/admin/artist", requirePermission("site.manage"), async (req, res) => {
+    try {
+      const existingArtist = await artistInfo.find();
+      const artist = existingArtist
+        ? await artistInfo.update(existingArtist._id, req.body)
+        : await artistInfo.create(req.body);
       
-      res.json(normalizeId(artist));
+      res.json(artist);
     } catch (error) {
       console.error("Error updating artist info:", error);
       res.status(500).json({ error: "Failed to update artist information" });
@@ -516,10 +885,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create FAQ
-  app.post("/api/admin/faqs", isAdmin, async (req, res) => {
+  app.post("/api/admin/faqs", requirePermission("content.edit"), async (req, res) => {
     try {
-      const faq = await FAQ.create(req.body);
-      res.status(201).json(normalizeId(faq));
+      const faq = await faqs.create(req.body);
+      res.status(201).json(faq);
     } catch (error) {
       console.error("Error creating FAQ:", error);
       res.status(500).json({ error: "Failed to create FAQ" });
@@ -527,57 +896,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update FAQ
-  app.patch("/api/admin/faqs/:id", isAdmin, async (req, res) => {
-    try {
-      if (isUsingNeDB()) {
-        // NeDB: query by 'id' field (convert string param to number)
-        const numericId = parseInt(req.params.id, 10);
-        const existingFaq = await FAQ.findOne({ id: numericId });
-        
-        if (!existingFaq) {
-          return res.status(404).json({ error: "FAQ not found" });
-        }
+  app.patch("/api/admin/faqs/:id", requirePermission("content.edit"), async (req, res) => {
+    try {
+      const existingFaq = await faqs.findByPublicId(req.params.id);
 
-        // Update using id field
-        const existingData = existingFaq.toObject ? existingFaq.toObject() : existingFaq;
-        await FAQ.updateOne({ id: numericId }, { ...existingData, ...req.body });
-        
-        // Fetch updated FAQ
-        const faq = await FAQ.findOne({ id: numericId });
-        res.json(normalizeId(faq));
-      } else {
-        // MongoDB: Try to use _id from request body, fallback to numeric hash search
-        let faq;
-        
-        if (req.body._id) {
-          faq = await FAQ.findByIdAndUpdate(
-            req.body._id,
-            req.body,
-            { new: true, runValidators: true }
-          );
-        } else {
-          const numericId = parseInt(req.params.id, 10);
-          const allFaqs = await FAQ.find();
-          const targetFaq = allFaqs.find(f => {
-            const faqId = hashStringToNumber(f._id.toString());
-            return faqId === numericId;
-          });
-          
-          if (targetFaq) {
-            faq = await FAQ.findByIdAndUpdate(
-              targetFaq._id,
-              req.body,
-              { new: true, runValidators: true }
-            );
-          }
-        }
-        
-        if (!faq) {
-          return res.status(404).json({ error: "FAQ not found" });
-        }
-        
-        res.json(normalizeId(faq));
+      if (!existingFaq) {
+        return res.status(404).json({ error: "FAQ not found" });
       }
+
+      const faq = await faqs.update(existingFaq._id, req.body);
+
+      res.json(faq);
     } catch (error) {
       console.error("Error updating FAQ:", error);
       res.status(500).json({ error: "Failed to update FAQ" });
@@ -585,50 +914,661 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete FAQ
-  app.delete("/api/admin/faqs/:id", isAdmin, async (req, res) => {
-    try {
-      if (isUsingNeDB()) {
-        // NeDB: query by 'id' field (convert string param to number)
-        const numericId = parseInt(req.params.id, 10);
-        const faq = await FAQ.findOne({ id: numericId });
-        
-        if (!faq) {
-          return res.status(404).json({ error: "FAQ not found" });
-        }
+  app.delete("/api/admin/faqs/:id", requirePermission("content.edit"), async (req, res) => {
+    try {
+      const faq = await faqs.findByPublicId(req.params.id);
 
-        // Delete using id field
-        await FAQ.deleteOne({ id: numericId });
-        
-        res.json({ success: true });
-      } else {
-        // MongoDB: Frontend sends numeric hash, need to find actual document
-        const numericId = parseInt(req.params.id, 10);
-        const allFaqs = await FAQ.find();
-        const targetFaq = allFaqs.find(f => {
-          const faqId = hashStringToNumber(f._id.toString());
-          return faqId === numericId;
-        });
-        
-        if (!targetFaq) {
-          return res.status(404).json({ error: "FAQ not found" });
-        }
-        
-        await FAQ.findByIdAndDelete(targetFaq._id);
-        res.json({ success: true });
+      if (!faq) {
+        return res.status(404).json({ error: "FAQ not found" });
       }
+
+      await faqs.delete(faq._id);
+      res.json({ success: true });
     } catch (error) {
       console.error("Error deleting FAQ:", error);
       res.status(500).json({ error: "Failed to delete FAQ" });
     }
   });
 
+  // List inquiries, newest first, optionally filtered by type, status or read state
+  app.get("/api/admin/inquiries", requirePermission("inquiries.manage"), async (req, res) => {
+    try {
+      const validation = z.object({
+        inquiryType: inquirySchema.shape.inquiryType.optional(),
+        status: inquirySchema.shape.status.optional(),
+        read: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+        artworkId: z.string().optional(),
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const { inquiryType, status, read, artworkId } = validation.data;
+      const allInquiries = await inquiries.list({
+        filter: {
+          ...(inquiryType && { inquiryType }),
+          ...(artworkId && { artworkId }),
+          ...(status && { status }),
+          ...(read !== undefined && { read }),
+        },
+        sort: { createdAt: -1 },
+      });
+      res.json(allInquiries);
+    } catch (error) {
+      console.error("Error reading inquiries:", error);
+      res.status(500).json({ error: "Failed to load inquiries" });
+    }
+  });
+
+  // Unread inquiries, for the dashboard and sidebar badges
+  app.get("/api/admin/inquiries/unread-count", requirePermission("inquiries.manage"), async (req, res) => {
+    try {
+      const count = await inquiries.count({ read: false, status: { $nin: ["archived", "spam"] } });
+      res.json({ count });
+    } catch (error) {
+      console.error("Error counting unread inquiries:", error);
+      res.status(500).json({ error: "Failed to count unread inquiries" });
+    }
+  });
+
+  // Update inquiry status, read state or notes
+  app.patch("/api/admin/inquiries/:id", requirePermission("inquiries.manage"), async (req, res) => {
+    try {
+      const existingInquiry = await inquiries.findByPublicId(req.params.id);
+
+      if (!existingInquiry) {
+        return res.status(404).json({ error: "Inquiry not found" });
+      }
+
+      const validation = updateInquirySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const inquiry = await inquiries.update(existingInquiry._id, validation.data);
+
+      // Released from quarantine: send the emails that were held back
+      if (inquiry && existingInquiry.status === "spam" && inquiry.status !== "spam") {
+        sendInquiryEmails(inquiry).catch((error) => console.error("Error queueing inquiry emails:", error));
+      }
+
+      res.json(inquiry);
+    } catch (error) {
+      console.error("Error updating inquiry:", error);
+      res.status(500).json({ error: "Failed to update inquiry" });
+    }
+  });
+
+  // Delete inquiry
+  app.delete("/api/admin/inquiries/:id", requirePermission("inquiries.manage"), async (req, res) => {
+    try {
+      const inquiry = await inquiries.findByPublicId(req.params.id);
+
+      if (!inquiry) {
+        return res.status(404).json({ error: "Inquiry not found" });
+      }
+
+      await inquiries.delete(inquiry._id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting inquiry:", error);
+      res.status(500).json({ error: "Failed to delete inquiry" });
+    }
+  });
+
+  // Get commissions, newest first
+  app.get("/api/admin/commissions", requirePermission("inquiries.manage"), async (req, res) => {
+    try {
+      const validation = z.object({
+        stage: commissionSchema.shape.stage.optional(),
+        spam: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const { stage, spam } = validation.data;
+      const allCommissions = await commissions.list({
+        filter: {
+          ...(stage && { stage }),
+          ...(spam !== undefined && { spam }),
+        },
+        sort: { createdAt: -1 },
+      });
+      res.json(allCommissions);
+    } catch (error) {
+      console.error("Error reading commissions:", error);
+      res.status(500).json({ error: "Failed to load commissions" });
+    }
+  });
+
+  // Reference images are private, so they are only served through this route
+  app.get("/api/admin/commissions/:id/references/:file", requirePermission("inquiries.manage"), async (req, res) => {
+    try {
+      const commission = await commissions.findByPublicId(req.params.id);
+      const path = referencePath(req.params.file);
+
+      if (!commission || !path || !commission.references.some((reference) => reference.file === req.params.file)) {
+        return res.status(404).json({ error: "Reference image not found" });
+      }
+
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.sendFile(path, (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ error: "Reference image not found" });
+        }
+      });
+    } catch (error) {
+      console.error("Error reading reference image:", error);
+      res.status(500).json({ error: "Failed to load reference image" });
+    }
+  });
+
+  // Update commission stage, quote or notes
+  app.patch("/api/admin/commissions/:id", requirePermission("inquiries.manage"), async (req, res) => {
+    try {
+      const existingCommission = await commissions.findByPublicId(req.params.id);
+
+      if (!existingCommission) {
+        return res.status(404).json({ error: "Commission not found" });
+      }
+
+      const validation = updateCommissionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const commission = await commissions.update(existingCommission._id, validation.data);
+
+      // Released from quarantine: send the emails that were held back
+      if (commission && existingCommission.spam && !commission.spam) {
+        sendCommissionEmails(commission).catch((error) => console.error("Error queueing commission emails:", error));
+      }
+
+      res.json(commission);
+    } catch (error) {
+      console.error("Error updating commission:", error);
+      res.status(500).json({ error: "Failed to update commission" });
+    }
+  });
+
+  // Turn a completed commission into a portfolio artwork
+  app.post("/api/admin/commissions/:id/promote", requirePermission("inquiries.manage", "content.edit"), async (req, res) => {
+    try {
+      const commission = await commissions.findByPublicId(req.params.id);
+
+      if (!commission) {
+        return res.status(404).json({ error: "Commission not found" });
+      }
+      if (commission.stage !== "completed") {
+        return res.status(400).json({ error: "Only completed commissions can be added to the portfolio" });
+      }
+      if (commission.artworkId && await artworks.findByPublicId(commission.artworkId)) {
+        return res.status(400).json({ error: "This commission is already in the portfolio" });
+      }
+
+      const validation = insertArtworkSchema.safeParse({ ...req.body, category: "commission" });
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const artwork = await createArtwork(validation.data);
+      const updated = await commissions.update(commission._id, { artworkId: artwork.id });
+
+      res.status(201).json({ commission: updated, artwork });
+    } catch (error) {
+      console.error("Error promoting commission:", error);
+      res.status(500).json({ error: "Failed to add commission to portfolio" });
+    }
+  });
+
+  // Delete commission and its reference images
+  app.delete("/api/admin/commissions/:id", requirePermission("inquiries.manage"), async (req, res) => {
+    try {
+      const commission = await commissions.findByPublicId(req.params.id);
+
+      if (!commission) {
+        return res.status(404).json({ error: "Commission not found" });
+      }
+
+      await commissions.delete(commission._id);
+      await deleteReferenceImages(commission.references);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting commission:", error);
+      res.status(500).json({ error: "Failed to delete commission" });
+    }
+  });
+
+  // Email delivery log, newest first
+  app.get("/api/admin/emails", requirePermission("emails.manage"), async (req, res) => {
+    try {
+      const validation = z.object({
+        status: emailDeliverySchema.shape.status.optional(),
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const { status } = validation.data;
+      const log = await emails.list({
+        filter: status ? { status } : {},
+        sort: { createdAt: -1 },
+        limit: 200,
+      });
+      res.json({ transport: getMailTransport().name, emails: log });
+    } catch (error) {
+      console.error("Error reading email log:", error);
+      res.status(500).json({ error: "Failed to load email log" });
+    }
+  });
+
+  // Send a pending or failed email again now
+  app.post("/api/admin/emails/:id/retry", requirePermission("emails.manage"), async (req, res) => {
+    try {
+      const email = await emails.findByPublicId(req.params.id);
+
+      if (!email) {
+        return res.status(404).json({ error: "Email not found" });
+      }
+      if (email.status === "sent") {
+        return res.status(400).json({ error: "Email has already been sent" });
+      }
+
+      const updated = await retryEmail(email);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error retrying email:", error);
+      res.status(500).json({ error: "Failed to retry email" });
+    }
+  });
+
+  // Quotes and invoices must point at records that exist
+  async function findMissingInvoiceLink(data: Partial<Pick<Invoice, "inquiryId" | "artworkId" | "commissionId">>): Promise<string | undefined> {
+    if (data.inquiryId && !(await inquiries.findByPublicId(data.inquiryId))) return "Linked inquiry not found";
+    if (data.artworkId && !(await artworks.findByPublicId(data.artworkId))) return "Linked artwork not found";
+    if (data.commissionId && !(await commissions.findByPublicId(data.commissionId))) return "Linked commission not found";
+    return undefined;
+  }
+
+  // Get quotes and invoices, newest first
+  app.get("/api/admin/invoices", requirePermission("invoices.manage"), async (req, res) => {
+    try {
+      const validation = z.object({
+        kind: invoiceSchema.shape.kind.optional(),
+        status: invoiceSchema.shape.status.optional(),
+        inquiryId: z.string().optional(),
+        artworkId: z.string().optional(),
+        commissionId: z.string().optional(),
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const { kind, status, inquiryId, artworkId, commissionId } = validation.data;
+      const allInvoices = await invoices.list({
+        filter: {
+          ...(kind && { kind }),
+          ...(status && { status }),
+          ...(inquiryId && { inquiryId }),
+          ...(artworkId && { artworkId }),
+          ...(commissionId && { commissionId }),
+        },
+        sort: { createdAt: -1 },
+      });
+      res.json(allInvoices);
+    } catch (error) {
+      console.error("Error reading invoices:", error);
+      res.status(500).json({ error: "Failed to load invoices" });
+    }
+  });
+
+  // Create a draft quote or invoice
+  app.post("/api/admin/invoices", requirePermission("invoices.manage"), async (req, res) => {
+    try {
+      const validation = insertInvoiceSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const missingLink = await findMissingInvoiceLink(validation.data);
+      if (missingLink) {
+        return res.status(400).json({ error: missingLink });
+      }
+
+      const currency = validation.data.currency ?? (await siteSettings.find())?.currency;
+      const invoice = await invoices.create({ ...validation.data, ...(currency && { currency }), status: "draft" });
+      res.status(201).json(invoice);
+    } catch (error) {
+      console.error("Error creating invoice:", error);
+      res.status(500).json({ error: "Failed to create invoice" });
+    }
+  });
+
+  // Edit a draft, or move a document through draft → sent → paid, or void it.
+  // Numbers are assigned on leaving draft; issued documents can no longer be edited.
+  app.patch("/api/admin/invoices/:id", requirePermission("invoices.manage"), async (req, res) => {
+    try {
+      const existingInvoice = await invoices.findByPublicId(req.params.id);
+
+      if (!existingInvoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const validation = updateInvoiceSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const { status, ...details } = validation.data;
+      const current = existingInvoice.status;
+
+      if (Object.keys(details).length > 0 && current !== "draft") {
+        return res.status(400).json({ error: "Only drafts can be edited" });
+      }
+      const missingLink = await findMissingInvoiceLink(details);
+      if (missingLink) {
+        return res.status(400).json({ error: missingLink });
+      }
+      // Due date can't fall before the issue date once combined with the stored values
+      if ((details.dueDate ?? existingInvoice.dueDate) < (details.issueDate ?? existingInvoice.issueDate)) {
+        return res.status(400).json({ error: "Due date can't be before the issue date" });
+      }
+
+      if (!status || status === current) {
+        return res.json(await invoices.update(existingInvoice._id, details));
+      }
+
+      const now = new Date().toISOString();
+      if (current === "void") {
+        return res.status(400).json({ error: "Void documents can't be changed" });
+      }
+      if (status === "draft") {
+        return res.status(400).json({ error: "Sent documents can't go back to draft" });
+      }
+      if (status === "void" && current === "draft") {
+        return res.status(400).json({ error: "Delete the draft instead of voiding it" });
+      }
+      if (status === "paid" && existingInvoice.kind === "quote") {
+        return res.status(400).json({ error: "Quotes can't be marked paid; create an invoice from the quote" });
+      }
+      if (status === "sent" && current === "paid") {
+        return res.status(400).json({ error: "Invoice is already paid" });
+      }
+
+      const changes = {
+        ...details,
+        status,
+        ...(status === "sent" && { sentAt: now }),
+        ...(status === "paid" && { paidAt: now }),
+      };
+      const invoice = current === "draft"
+        ? await issueInvoice(existingInvoice, changes)
+        : await invoices.update(existingInvoice._id, changes);
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof InvoiceError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error updating invoice:", error);
+      res.status(500).json({ error: "Failed to update invoice" });
+    }
+  });
+
+  // Start a draft invoice from a quote, keeping its line items and terms
+  app.post("/api/admin/invoices/:id/convert", requirePermission("invoices.manage"), async (req, res) => {
+    try {
+      const quote = await invoices.findByPublicId(req.params.id);
+
+      if (!quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+      if (quote.kind !== "quote") {
+        return res.status(400).json({ error: "Only quotes can be turned into invoices" });
+      }
+      if (quote.status === "void") {
+        return res.status(400).json({ error: "Void quotes can't be invoiced" });
+      }
+
+      const today = new Date();
+      const due = new Date(today.getTime() + 14 * 24 * 60 * 60 * 1000); // Two weeks to pay
+      const invoice = await invoices.create({
+        kind: "invoice",
+        status: "draft",
+        currency: quote.currency,
+        customer: quote.customer,
+        inquiryId: quote.inquiryId,
+        artworkId: quote.artworkId,
+        commissionId: quote.commissionId,
+        quoteId: quote.id,
+        lineItems: quote.lineItems,
+        shipping: quote.shipping,
+        taxRate: quote.taxRate,
+        depositPercent: quote.depositPercent,
+        issueDate: today.toISOString().slice(0, 10),
+        dueDate: due.toISOString().slice(0, 10),
+        notes: quote.notes,
+      });
+      res.status(201).json(invoice);
+    } catch (error) {
+      console.error("Error converting quote:", error);
+      res.status(500).json({ error: "Failed to create invoice from quote" });
+    }
+  });
+
+  // Printable page for the browser
+  app.get("/api/admin/invoices/:id/html", requirePermission("invoices.manage"), async (req, res) => {
+    try {
+      const invoice = await invoices.findByPublicId(req.params.id);
+
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const context = buildMailContext(await artistInfo.find(), await siteSettings.find());
+      res.type("html").send(renderInvoiceHtml(invoice, context));
+    } catch (error) {
+      console.error("Error rendering invoice:", error);
+      res.status(500).json({ error: "Failed to render invoice" });
+    }
+  });
+
+  // PDF download
+  app.get("/api/admin/invoices/:id/pdf", requirePermission("invoices.manage"), async (req, res) => {
+    try {
+      const invoice = await invoices.findByPublicId(req.params.id);
+
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const context = buildMailContext(await artistInfo.find(), await siteSettings.find());
+      const pdf = await renderInvoicePdf(invoice, context);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${invoiceFileName(invoice)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error rendering invoice PDF:", error);
+      res.status(500).json({ error: "Failed to render invoice PDF" });
+    }
+  });
+
+  // Delete a draft; issued documents are voided instead so numbers never disappear
+  app.delete("/api/admin/invoices/:id", requirePermission("invoices.manage"), async (req, res) => {
+    try {
+      const invoice = await invoices.findByPublicId(req.params.id);
+
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      if (invoice.status !== "draft") {
+        return res.status(400).json({ error: "Only drafts can be deleted; void the document instead" });
+      }
+
+      await invoices.delete(invoice._id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting invoice:", error);
+      res.status(500).json({ error: "Failed to delete invoice" });
+    }
+  });
+
+  // Payment methods offered at checkout
+  app.get("/api/payments/providers", (req, res) => {
+    res.json(listPaymentMethods());
+  });
+
+  // Check out the cart: reserves the artworks and starts payment
+  app.post("/api/orders", async (req, res) => {
+    try {
+      const limited = checkCheckoutRate(req.ip || "unknown");
+      if (limited?.action === "reject") {
+        return res.status(limited.status).json({ error: limited.error });
+      }
+
+      const validation = checkoutSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const provider = getPaymentProvider(validation.data.provider);
+      if (!provider) {
+        return res.status(400).json({ error: "Unknown payment method" });
+      }
+
+      const placed = await placeOrder(validation.data, provider);
+      sendOrderEmails(placed.order).catch((error) => console.error("Error queueing order emails:", error));
+      res.status(201).json(placed);
+    } catch (error) {
+      if (error instanceof OrderError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error placing order:", error);
+      res.status(500).json({ error: "Failed to place order" });
+    }
+  });
+
+  // Order status for the buyer; the public id in the link is the only key
+  app.get("/api/orders/:id", async (req, res) => {
+    try {
+      const order = await orders.findByPublicId(req.params.id);
+
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      res.set("Cache-Control", "no-store");
+      res.json(order);
+    } catch (error) {
+      console.error("Error reading order:", error);
+      res.status(500).json({ error: "Failed to load order" });
+    }
+  });
+
+  // Payment outcome reported by a provider
+  app.post("/api/payments/:provider/webhook", async (req, res) => {
+    try {
+      const provider = getPaymentProvider(req.params.provider);
+      if (!provider?.handleWebhook) {
+        return res.status(404).json({ error: "Unknown payment provider" });
+      }
+
+      const event = await provider.handleWebhook(req.body);
+      if (!event) {
+        return res.status(400).json({ error: "Invalid payment event" });
+      }
+
+      const order = await orders.find({ provider: provider.id, paymentReference: event.reference });
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const updatedOrder = event.outcome === "paid" ? await markOrderPaid(order) : await cancelOrder(order);
+      res.json(updatedOrder);
+    } catch (error) {
+      if (error instanceof OrderError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error handling payment webhook:", error);
+      res.status(500).json({ error: "Failed to handle payment event" });
+    }
+  });
+
+  // Get orders, newest first
+  app.get("/api/admin/orders", requirePermission("orders.manage"), async (req, res) => {
+    try {
+      const validation = z.object({
+        status: orderSchema.shape.status.optional(),
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const { status } = validation.data;
+      const allOrders = await orders.list({
+        filter: { ...(status && { status }) },
+        sort: { createdAt: -1 },
+      });
+      res.json(allOrders);
+    } catch (error) {
+      console.error("Error reading orders:", error);
+      res.status(500).json({ error: "Failed to load orders" });
+    }
+  });
+
+  // Move an order along: confirm payment by hand (bank transfers), cancel,
+  // ship with tracking details, or refund. Tracking can be corrected after shipping.
+  app.patch("/api/admin/orders/:id", requirePermission("orders.manage"), async (req, res) => {
+    try {
+      const order = await orders.findByPublicId(req.params.id);
+
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const validation = updateOrderSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const { status, ...tracking } = validation.data;
+      let updatedOrder;
+      if (status === "paid") {
+        updatedOrder = await markOrderPaid(order);
+      } else if (status === "cancelled") {
+        updatedOrder = await cancelOrder(order);
+      } else if (status === "refunded") {
+        updatedOrder = await refundOrder(order);
+      } else if (status === "shipped") {
+        updatedOrder = await shipOrder(order, tracking);
+        if (updatedOrder) {
+          sendOrderShippedEmail(updatedOrder).catch((error) => console.error("Error queueing order shipped email:", error));
+        }
+      } else if (tracking.carrier !== undefined || tracking.trackingNumber !== undefined) {
+        if (order.status !== "paid" && order.status !== "shipped") {
+          return res.status(400).json({ error: "Tracking can only be added to paid or shipped orders" });
+        }
+        updatedOrder = await orders.update(order._id, tracking);
+      } else {
+        return res.status(400).json({ error: "Nothing to update" });
+      }
+      res.json(updatedOrder);
+    } catch (error) {
+      if (error instanceof OrderError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error updating order:", error);
+      res.status(500).json({ error: "Failed to update order" });
+    }
+  });
+
   // Get site settings
   app.get("/api/settings", async (req, res) => {
     try {
-      let settings = await SiteSettings.findOne();
-      
+      let settings = await siteSettings.find();
+
       if (!settings) {
-        settings = await SiteSettings.create({});
+        settings = await siteSettings.create({ accentHue: 186, accentSaturation: 68, accentLightness: 45 });
       }
       
       res.json(settings);
@@ -639,16 +1579,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update site settings
-  app.put("/api/admin/settings", isAdmin, async (req, res) => {
+  app.patch("/api/admin/settings", requirePermission("site.manage"), async (req: any, res) => {
     try {
-      let settings = await SiteSettings.findOne();
-      
-      if (!settings) {
-        settings = await SiteSettings.create(req.body);
-      } else {
-        Object.assign(settings, req.body);
-        await settings.save();
+      const validation = updateSiteSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      // Otherwise the owner's own session would be shut out of the panel
+      if (validation.data.requireTwoFactor && !req.user.twoFactorEnabled) {
+        return res.status(400).json({ error: "Turn on two-factor authentication for your own account first" });
       }
+
+      const changes = {
+        ...validation.data,
+        ...(validation.data.exchangeRates && { exchangeRatesUpdatedAt: new Date().toISOString() }),
+      };
+      const existingSettings = await siteSettings.find();
+      const settings = existingSettings
+        ? await siteSettings.update(existingSettings._id, changes)
+        : await siteSettings.create({ accentHue: 186, accentSaturation: 68, accentLightness: 45, ...changes });
       
       res.json(settings);
     } catch (error) {
@@ -658,7 +1608,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Image upload endpoint
-  app.post("/api/admin/upload-image", isAdmin, upload.single("image"), async (req, res) => {
+  app.post("/api/admin/upload-image", requirePermission("content.edit"), upload.single("image"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No image provided" });
@@ -720,7 +1670,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Rebuild trigger
-  app.post("/api/admin/rebuild", isAdmin, async (req, res) => {
+  app.post("/api/admin/rebuild", requirePermission("site.manage"), async (req, res) => {
     try {
       await triggerRebuild();
       res.json({ success: true, message: "Rebuild started" });
@@ -731,11 +1681,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Rebuild status
-  app.get("/api/admin/rebuild/status", isAdmin, async (req, res) => {
+  app.get("/api/admin/rebuild/status", requirePermission("site.manage"), async (req, res) => {
     const status = getRebuildStatus();
     res.json(status);
   });
 
+  // Download a full-site backup archive
+  app.get("/api/admin/backup", requirePermission("site.manage"), async (req, res) => {
+    let staging: string | undefined;
+    try {
+      staging = await mkdtemp(join(tmpdir(), "qyd-download-"));
+      const fileName = `backup-${new Date().toISOString().replace(/[:.]/g, "-")}.tar.gz`;
+      const archive = join(staging, fileName);
+
+      await createBackup(getMigrationTarget(), archive);
+      res.download(archive, fileName, () => {
+        rm(staging!, { recursive: true, force: true }).catch(() => {});
+      });
+    } catch (error) {
+      console.error("Error creating backup:", error);
+      if (staging) {
+        await rm(staging, { recursive: true, force: true });
+      }
+      res.status(500).json({ error: "Failed to create backup" });
+    }
+  });
+
+  // Restore a backup archive, replacing all site content
+  app.post("/api/admin/restore", requirePermission("site.manage"), archiveUpload.single("archive"), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No archive provided" });
+    }
+
+    try {
+      const result = await restoreBackup(getMigrationTarget(), req.file.path, {
+        dryRun: req.query.dryRun === "true",
+      });
+      res.json({
+        success: true,
+        dryRun: req.query.dryRun === "true",
+        source: { backend: result.manifest.backend, createdAt: result.manifest.createdAt },
+        collections: result.collections,
+        media: result.media,
+        references: result.references,
+      });
+    } catch (error) {
+      if (error instanceof BackupError) {
+        return res.status(400).json({ error: error.message, details: error.details });
+      }
+      console.error("Error restoring backup:", error);
+      res.status(500).json({ error: "Failed to restore backup" });
+    } finally {
+      await rm(req.file.path, { force: true });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
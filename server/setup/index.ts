@@ -0,0 +1,174 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { rm } from 'fs/promises';
+import type { Setup, SetupStatus, StorageBackend, User } from '@shared/schema';
+import { mongoose, getDatabaseStatus, isStorageSetByEnvironment } from '../db';
+import { initNeDB, getNeDBStores } from '../nedb';
+import { hashPassword } from '../auth';
+import { getRepositories, createNeDBRepositories, createMongoRepositories, type Repositories, type Stored } from '../repositories';
+import { migrations, migrateUp, createNeDBMigrationTarget, createMongoMigrationTarget } from '../migrations';
+import { readStorageConfig, saveStorageConfig, STORAGE_CONFIG_FILE } from './storage';
+
+export { readStorageConfig, STORAGE_CONFIG_FILE, type StorageConfig } from './storage';
+
+export class SetupError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'SetupError';
+  }
+}
+
+// Printed at startup while setup is needed; only lives in memory, so a
+// restart prints a new one
+let setupToken: string | null = null;
+// Set once setup has written to a backend the server isn't running on yet
+let restartRequired = false;
+let completing = false;
+
+async function isSetupRequired(): Promise<boolean> {
+  if (restartRequired) {
+    return false;
+  }
+  const { users, settings } = getRepositories();
+  const [owners, siteSettings] = await Promise.all([users.count({ role: 'owner' }), settings.find()]);
+  return owners === 0 && !siteSettings?.setupCompletedAt;
+}
+
+// When no admin exists yet, print the one-time token that unlocks /setup
+export async function initSetup(): Promise<void> {
+  if (!(await isSetupRequired())) {
+    return;
+  }
+
+  setupToken = randomBytes(18).toString('base64url');
+  console.log('🔑 First-run setup: no admin account exists yet');
+  console.log(`   Open /setup and enter this setup token: ${setupToken}`);
+}
+
+export async function getSetupStatus(): Promise<SetupStatus> {
+  if (!(await isSetupRequired())) {
+    return { required: false, restartRequired };
+  }
+  return {
+    required: true,
+    restartRequired,
+    backend: getDatabaseStatus().active ?? 'nedb',
+    backendLocked: isStorageSetByEnvironment(),
+  };
+}
+
+function tokenMatches(token: string): boolean {
+  if (!setupToken) {
+    return false;
+  }
+  const expected = Buffer.from(setupToken);
+  const given = Buffer.from(token);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// Repositories for the backend setup picked: the running ones, or that
+// database opened and migrated alongside them until the server restarts
+async function openRepositories(backend: StorageBackend, mongoUri: string | undefined): Promise<Repositories> {
+  if (backend === getDatabaseStatus().active) {
+    return getRepositories();
+  }
+
+  if (backend === 'nedb') {
+    await initNeDB({ seed: false });
+    await migrateUp(createNeDBMigrationTarget(getNeDBStores()), migrations);
+    return createNeDBRepositories(getNeDBStores());
+  }
+
+  try {
+    if (mongoose.connection.readyState !== 0) {
+      await mongoose.disconnect();
+    }
+    await mongoose.connect(mongoUri!, { serverSelectionTimeoutMS: 5000 });
+  } catch (error) {
+    throw new SetupError(`Could not connect to MongoDB: ${error instanceof Error ? error.message : error}`, 400);
+  }
+  await migrateUp(createMongoMigrationTarget(), migrations);
+  return createMongoRepositories();
+}
+
+export interface SetupResult {
+  user: Stored<User>;
+  restartRequired: boolean;
+}
+
+// Creates the admin account and the site basics, saves the storage choice and
+// disables setup for good
+export async function completeSetup(setup: Setup): Promise<SetupResult> {
+  if (completing || !(await isSetupRequired())) {
+    throw new SetupError('Setup has already been completed', 404);
+  }
+  if (!tokenMatches(setup.token)) {
+    throw new SetupError('Invalid setup token', 403);
+  }
+
+  completing = true;
+  try {
+    // Storage set by environment variables can't be changed here
+    const active = getDatabaseStatus().active ?? 'nedb';
+    const backend = isStorageSetByEnvironment() ? active : setup.backend;
+    const { users, artist, settings } = await openRepositories(backend, setup.mongoUri);
+
+    if (await users.find({ email: setup.email })) {
+      throw new SetupError('A user with this email already exists', 409);
+    }
+
+    // The owner account and the setup stamp close setup, so they are written
+    // last. If any write fails the earlier ones are undone and setup can be
+    // tried again.
+    const undo: (() => Promise<unknown>)[] = [];
+    try {
+      const artistChanges = { name: setup.artistName, tagline: setup.tagline, location: setup.location, email: setup.contactEmail };
+      const existingArtist = await artist.find();
+      if (existingArtist) {
+        const { name, tagline, location, email } = existingArtist;
+        await artist.update(existingArtist._id, artistChanges);
+        undo.push(() => artist.update(existingArtist._id, { name, tagline, location, email }));
+      } else {
+        const created = await artist.create({ ...artistChanges, bio: '', social: {}, profileImage: '', exhibitions: [] });
+        undo.push(() => artist.delete(created._id));
+      }
+
+      const settingsChanges = { currency: setup.currency, dimensionUnit: setup.dimensionUnit };
+      let existingSettings = await settings.find();
+      if (existingSettings) {
+        const { currency, dimensionUnit } = existingSettings;
+        await settings.update(existingSettings._id, settingsChanges);
+        undo.push(() => settings.update(existingSettings!._id, { currency, dimensionUnit }));
+      } else {
+        existingSettings = await settings.create({ accentHue: 186, accentSaturation: 68, accentLightness: 45, ...settingsChanges });
+        const createdId = existingSettings._id;
+        undo.push(() => settings.delete(createdId));
+      }
+
+      const user = await users.create({ email: setup.email, password: await hashPassword(setup.password), role: 'owner' });
+      undo.push(() => users.delete(user._id));
+
+      if (!isStorageSetByEnvironment()) {
+        const previous = readStorageConfig();
+        await saveStorageConfig({ backend, ...(backend === 'mongodb' && { mongoUri: setup.mongoUri }) });
+        undo.push(() => previous ? saveStorageConfig(previous) : rm(STORAGE_CONFIG_FILE, { force: true }));
+      }
+
+      await settings.update(existingSettings._id, { setupCompletedAt: new Date().toISOString() });
+
+      setupToken = null;
+      restartRequired = backend !== active;
+      console.log(`✅ First-run setup complete: admin ${setup.email} created (${backend === 'mongodb' ? 'MongoDB' : 'NeDB'})`);
+      if (restartRequired) {
+        console.log('   Restart the server to switch to the chosen storage backend');
+      }
+      return { user, restartRequired };
+    } catch (error) {
+      for (const step of undo.reverse()) {
+        await step().catch((undoError) => console.error('❌ Could not undo a setup step:', undoError));
+      }
+      throw error;
+    }
+  } finally {
+    completing = false;
+  }
+}
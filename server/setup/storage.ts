@@ -0,0 +1,31 @@
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { StorageBackend } from '@shared/schema';
+
+// The storage backend picked during first-run setup, read before the database
+// is opened. USE_NEDB and MONGODB_URI take precedence when they are set.
+export interface StorageConfig {
+  backend: StorageBackend;
+  mongoUri?: string;
+}
+
+export const STORAGE_CONFIG_FILE = join(process.cwd(), 'data', 'storage.json');
+
+export function readStorageConfig(): StorageConfig | null {
+  if (!existsSync(STORAGE_CONFIG_FILE)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(STORAGE_CONFIG_FILE, 'utf-8'));
+  } catch (error) {
+    console.warn(`⚠️  Ignoring unreadable ${STORAGE_CONFIG_FILE}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Owner-only, since a MongoDB connection string usually carries credentials
+export async function saveStorageConfig(config: StorageConfig): Promise<void> {
+  await mkdir(dirname(STORAGE_CONFIG_FILE), { recursive: true });
+  await writeFile(STORAGE_CONFIG_FILE, JSON.stringify(config, null, 2), { mode: 0o600 });
+}
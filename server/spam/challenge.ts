@@ -0,0 +1,77 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { ContactChallenge } from '@shared/schema';
+
+// Leading zero bits the visitor's browser must find; ~2^15 hashes takes a
+// second or two in a browser and makes bulk submissions expensive
+const DIFFICULTY = 15;
+
+// A person needs at least this long between loading the form and sending it
+export const MIN_FILL_TIME = 3 * 1000; // 3 seconds
+
+// Challenges expire so solutions can't be stockpiled
+const CHALLENGE_TTL = 60 * 60 * 1000; // 1 hour
+
+const secret = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
+
+// Solved tokens, kept until they expire so each can be used once
+const usedTokens = new Map<string, number>();
+
+function sign(payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+function leadingZeroBits(hash: Buffer): number {
+  let bits = 0;
+  for (const byte of Array.from(hash)) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
+
+// Token format: <random>.<issued at ms>.<hmac>, so no server state is needed until it is used
+export function issueChallenge(): ContactChallenge {
+  const payload = `${randomBytes(12).toString('base64url')}.${Date.now()}`;
+  return { token: `${payload}.${sign(payload)}`, difficulty: DIFFICULTY };
+}
+
+export type ChallengeResult =
+  | { valid: true; issuedAt: number }
+  | { valid: false; reason: string };
+
+export function verifyChallenge(token: string, solution: string): ChallengeResult {
+  const [nonce, issued, signature] = token.split('.');
+  if (!nonce || !issued || !signature) {
+    return { valid: false, reason: 'malformed challenge' };
+  }
+
+  const expected = Buffer.from(sign(`${nonce}.${issued}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'invalid challenge signature' };
+  }
+
+  const issuedAt = Number(issued);
+  const now = Date.now();
+  for (const [used, expiresAt] of Array.from(usedTokens.entries())) {
+    if (expiresAt < now) usedTokens.delete(used);
+  }
+  if (!Number.isFinite(issuedAt) || now - issuedAt > CHALLENGE_TTL) {
+    return { valid: false, reason: 'challenge expired' };
+  }
+  if (usedTokens.has(token)) {
+    return { valid: false, reason: 'challenge already used' };
+  }
+
+  const hash = createHash('sha256').update(`${token}:${solution}`).digest();
+  if (leadingZeroBits(hash) < DIFFICULTY) {
+    return { valid: false, reason: 'challenge not solved' };
+  }
+
+  usedTokens.set(token, issuedAt + CHALLENGE_TTL);
+  return { valid: true, issuedAt };
+}
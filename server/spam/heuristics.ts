@@ -0,0 +1,52 @@
+import type { ContactForm } from '@shared/schema';
+
+// The free-text parts of a contact form or commission request that the checks look at
+export type SubmissionText = Pick<ContactForm, 'name' | 'email' | 'subject' | 'message'>;
+
+// Genuine inquiries rarely carry more than a couple of links
+const MAX_LINKS = 2;
+
+const LINK_PATTERN = /(https?:\/\/|www\.|\[url=|<a\s)/gi;
+
+// Phrases that show up in bulk marketing and scam messages, not art inquiries
+const SPAM_PHRASES = [
+  'seo services',
+  'backlinks',
+  'guest post',
+  'rank your website',
+  'first page of google',
+  'web traffic',
+  'increase your sales',
+  'crypto',
+  'bitcoin',
+  'forex',
+  'casino',
+  'viagra',
+  'cialis',
+  'payday loan',
+  'work from home',
+  'make money online',
+  'unsubscribe',
+];
+
+// Reasons this submission looks like spam; empty when it looks genuine
+export function spamHeuristics(form: SubmissionText): string[] {
+  const reasons: string[] = [];
+  const text = `${form.subject}\n${form.message}`.toLowerCase();
+
+  const links = text.match(LINK_PATTERN)?.length ?? 0;
+  if (links > MAX_LINKS) {
+    reasons.push(`${links} links in message`);
+  }
+
+  if (form.name.match(LINK_PATTERN)) {
+    reasons.push('link in name');
+  }
+
+  const phrases = SPAM_PHRASES.filter((phrase) => text.includes(phrase));
+  if (phrases.length > 0) {
+    reasons.push(`spam phrases: ${phrases.join(', ')}`);
+  }
+
+  return reasons;
+}
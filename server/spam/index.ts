@@ -0,0 +1,68 @@
+import type { ContactGuard } from '@shared/schema';
+import { verifyChallenge, MIN_FILL_TIME } from './challenge';
+import { spamHeuristics, type SubmissionText } from './heuristics';
+import { RateLimiter } from './rateLimit';
+
+export { issueChallenge } from './challenge';
+export type { SubmissionText } from './heuristics';
+
+// Every POST /api/contact and /api/commissions counts against the sender's IP...
+const ipLimiter = new RateLimiter(5, 10 * 60 * 1000); // 5 per 10 minutes
+// ...and submissions that solve the challenge and leave the honeypot empty
+// also against the email address given, so nobody can use up someone else's
+// allowance without doing the work
+const emailLimiter = new RateLimiter(3, 60 * 60 * 1000); // 3 per hour
+
+// Checkout reserves artworks, so placing orders is limited per IP too
+const checkoutLimiter = new RateLimiter(5, 60 * 60 * 1000); // 5 per hour
+
+export type ContactVerdict =
+  | { action: 'reject'; status: number; error: string }
+  | { action: 'quarantine'; reasons: string[] }
+  | { action: 'accept' };
+
+const tooManyRequests: ContactVerdict = {
+  action: 'reject',
+  status: 429,
+  error: 'Too many messages. Please try again later.',
+};
+
+export function checkContactRate(ip: string): ContactVerdict | null {
+  return ipLimiter.hit(ip) ? null : tooManyRequests;
+}
+
+export function checkCheckoutRate(ip: string): ContactVerdict | null {
+  return checkoutLimiter.hit(ip)
+    ? null
+    : { action: 'reject', status: 429, error: 'Too many orders. Please try again later.' };
+}
+
+// Layered checks on a validated submission. Anything that might be a person
+// making a mistake is quarantined for review rather than dropped; only rate
+// limits and a missing or bad proof-of-work are rejected outright.
+export function checkContactSubmission(form: SubmissionText, guard: ContactGuard): ContactVerdict {
+  if (!guard.challenge) {
+    return { action: 'reject', status: 400, error: 'Please reload the page and try again.' };
+  }
+  const challenge = verifyChallenge(guard.challenge.token, guard.challenge.solution);
+  if (!challenge.valid) {
+    console.warn(`⚠️  Contact form challenge rejected: ${challenge.reason}`);
+    return { action: 'reject', status: 400, error: 'Please reload the page and try again.' };
+  }
+
+  if (guard.website) {
+    return { action: 'quarantine', reasons: ['honeypot field filled in'] };
+  }
+  if (!emailLimiter.hit(form.email.toLowerCase())) {
+    return tooManyRequests;
+  }
+
+  const reasons: string[] = [];
+  const fillTime = Date.now() - challenge.issuedAt;
+  if (fillTime < MIN_FILL_TIME) {
+    reasons.push(`form sent ${(fillTime / 1000).toFixed(1)}s after loading`);
+  }
+  reasons.push(...spamHeuristics(form));
+
+  return reasons.length > 0 ? { action: 'quarantine', reasons } : { action: 'accept' };
+}
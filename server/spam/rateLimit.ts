@@ -0,0 +1,36 @@
+// Sliding-window counter kept in memory. Limits reset on restart, which is
+// acceptable for a single-process site and avoids a write per request.
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private limit: number, private windowMs: number) {
+    // Forget keys whose hits have all expired
+    const timer = setInterval(() => this.prune(), windowMs);
+    timer.unref();
+  }
+
+  // Record a hit for the key; false once the key is over its limit. Refused
+  // hits aren't recorded, so a key never holds more than `limit` timestamps.
+  hit(key: string): boolean {
+    const now = Date.now();
+    const recent = (this.hits.get(key) ?? []).filter((at) => at > now - this.windowMs);
+    this.hits.set(key, recent);
+    if (recent.length >= this.limit) {
+      return false;
+    }
+    recent.push(now);
+    return true;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.windowMs;
+    for (const [key, hits] of Array.from(this.hits.entries())) {
+      const recent = hits.filter((at) => at > cutoff);
+      if (recent.length === 0) {
+        this.hits.delete(key);
+      } else {
+        this.hits.set(key, recent);
+      }
+    }
+  }
+}
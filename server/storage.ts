@@ -1,2 +1,2 @@
-// This file is deprecated - MongoDB operations are now handled directly in routes.ts
-// using Mongoose models from server/db.ts
+// This file is deprecated - database operations are now handled through the
+// repository layer in server/repositories (selected by connectDB() in server/db.ts)
@@ -0,0 +1,93 @@
+import { connectBothBackends } from "./db";
+import { diffBackends, copyBackend, type Backend, type CollectionDiff } from "./sync";
+
+// Usage:
+//   npm run db:sync -- diff
+//   npm run db:sync -- nedb-to-mongo [--overwrite]
+//   npm run db:sync -- mongo-to-nedb [--overwrite]
+//
+// Stop the server before writing into NeDB: its datastores are held in memory
+// by the running process and would overwrite the copied data.
+const directions: Record<string, [Backend, Backend]> = {
+  "nedb-to-mongo": ["nedb", "mongodb"],
+  "mongo-to-nedb": ["mongodb", "nedb"],
+};
+
+function formatDate(date: Date | null): string {
+  return date ? date.toISOString() : "no timestamps";
+}
+
+function printDiff(diffs: CollectionDiff[]) {
+  const newerCollections: Record<Backend, string[]> = { nedb: [], mongodb: [] };
+
+  for (const diff of diffs) {
+    console.log(`${diff.collection}`);
+    console.log(`  identical:        ${diff.identical}`);
+    for (const backend of ["nedb", "mongodb"] as Backend[]) {
+      if (diff.onlyIn[backend].length > 0) {
+        console.log(`  only in ${backend.padEnd(8)} ${diff.onlyIn[backend].join(", ")}`);
+      }
+    }
+    for (const change of diff.changed) {
+      console.log(`  differs:          ${change.key} (${change.newer ? `newer in ${change.newer}` : "can't tell which is newer"})`);
+    }
+    console.log(`  latest change:    nedb ${formatDate(diff.latest.nedb)}, mongodb ${formatDate(diff.latest.mongodb)}\n`);
+
+    for (const change of diff.changed) {
+      if (change.newer && !newerCollections[change.newer].includes(diff.collection)) {
+        newerCollections[change.newer].push(diff.collection);
+      }
+    }
+  }
+
+  for (const backend of ["nedb", "mongodb"] as Backend[]) {
+    if (newerCollections[backend].length > 0) {
+      console.log(`${backend} has newer content in: ${newerCollections[backend].join(", ")}`);
+    }
+  }
+  if (diffs.every((diff) => diff.changed.length === 0 && diff.onlyIn.nedb.length === 0 && diff.onlyIn.mongodb.length === 0)) {
+    console.log("✓ Both database services hold the same content");
+  }
+}
+
+async function main() {
+  const [command = "diff", ...rest] = process.argv.slice(2);
+  if (command !== "diff" && !directions[command]) {
+    throw new Error(`Unknown command "${command}" (expected diff, nedb-to-mongo or mongo-to-nedb)`);
+  }
+
+  const targets = await connectBothBackends();
+  console.log("");
+
+  if (command === "diff") {
+    printDiff(await diffBackends(targets.nedb, targets.mongodb));
+    return;
+  }
+
+  const [from, to] = directions[command];
+  const overwrite = rest.includes("--overwrite");
+  console.log(`Copying ${from} → ${to}${overwrite ? " (overwriting differing documents)" : ""}\n`);
+
+  const result = await copyBackend(targets[from], targets[to], { overwrite });
+  let conflicts = 0;
+  for (const collection of result.collections) {
+    console.log(`  ${collection.collection.padEnd(10)} ${collection.inserted} inserted, ${collection.overwritten} overwritten, ${collection.unchanged} unchanged, ${collection.conflicts.length} conflict(s)`);
+    for (const conflict of collection.conflicts) {
+      console.log(`    ⚠️  ${conflict.key}: ${conflict.reason}${conflict.newer ? ` (newer in ${conflict.newer})` : ""}`);
+    }
+    conflicts += collection.conflicts.length;
+  }
+  console.log(`  ${"sessions".padEnd(10)} ${result.sessions.copied} copied, ${result.sessions.skipped} skipped`);
+
+  if (conflicts > 0 && !overwrite) {
+    console.log(`\n${conflicts} conflicting document(s) were left unchanged; rerun with --overwrite to replace them with the ${from} version`);
+  }
+  console.log(`\n✓ Copy complete`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("✗ Sync failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,90 @@
+import type { CollectionName, MigrationTarget, RawDocument } from '../migrations';
+
+export type Backend = MigrationTarget['backend'];
+
+// How the same document is recognised in both backends. Public ids are not
+// used because each backend assigns its own when data is seeded separately.
+export const matchKeys: Record<CollectionName, (doc: RawDocument) => string> = {
+  artworks: (doc) => doc.slug,
+  collections: (doc) => doc.slug,
+  inquiries: (doc) => doc.id, // Only ever created on one backend, so the public id is shared
+  emails: (doc) => doc.id,
+  commissions: (doc) => doc.id,
+  invoices: (doc) => doc.id,
+  orders: (doc) => doc.id,
+  artist: () => 'artist',
+  faqs: (doc) => doc.question,
+  users: (doc) => String(doc.email).toLowerCase(),
+  settings: () => 'settings',
+  audit: (doc) => doc.id,
+};
+
+// Storage details that differ between backends without the content differing.
+// Public ids are assigned per backend too; where they are the match key they
+// are equal anyway.
+const IGNORED_FIELDS = new Set(['_id', 'id', '__v', 'createdAt', 'updatedAt']);
+
+function canonical(value: any): any {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonical);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map((key) => [key, canonical(value[key])]),
+    );
+  }
+  return value;
+}
+
+export function sameContent(a: RawDocument, b: RawDocument): boolean {
+  const content = (doc: RawDocument) => JSON.stringify(canonical(
+    Object.fromEntries(Object.entries(doc).filter(([field]) => !IGNORED_FIELDS.has(field))),
+  ));
+  return content(a) === content(b);
+}
+
+export function lastModified(doc: RawDocument): Date | null {
+  const value = doc.updatedAt ?? doc.createdAt;
+  return value ? new Date(value) : null;
+}
+
+export function latestModified(docs: RawDocument[]): Date | null {
+  let latest: Date | null = null;
+  for (const doc of docs) {
+    const modified = lastModified(doc);
+    if (modified && (!latest || modified > latest)) {
+      latest = modified;
+    }
+  }
+  return latest;
+}
+
+// Which side changed most recently. A timestamp beats none, since seeded
+// documents carry no timestamps until they are edited.
+export function newerSide(a: { backend: Backend; date: Date | null }, b: { backend: Backend; date: Date | null }): Backend | null {
+  if (a.date && b.date) {
+    if (a.date.getTime() === b.date.getTime()) {
+      return null;
+    }
+    return a.date > b.date ? a.backend : b.backend;
+  }
+  if (a.date) {
+    return a.backend;
+  }
+  return b.date ? b.backend : null;
+}
+
+// Index documents by match key, keeping the first when a key repeats
+export function indexByKey(name: CollectionName, docs: RawDocument[]): Map<string, RawDocument> {
+  const index = new Map<string, RawDocument>();
+  for (const doc of docs) {
+    const key = matchKeys[name](doc);
+    if (!index.has(key)) {
+      index.set(key, doc);
+    }
+  }
+  return index;
+}
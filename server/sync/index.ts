@@ -0,0 +1,191 @@
+import { toBackendDocument, type CollectionName, type MigrationTarget, type RawDocument } from '../migrations';
+import { indexByKey, lastModified, latestModified, matchKeys, newerSide, sameContent, type Backend } from './compare';
+import { mapPublicIds, translateReferences, type IdMaps } from './references';
+import { copySessions, type SessionCopyResult } from './sessions';
+
+export type { Backend } from './compare';
+export type { SessionCopyResult } from './sessions';
+
+export const syncedCollections: CollectionName[] = ['artworks', 'collections', 'inquiries', 'emails', 'commissions', 'invoices', 'orders', 'artist', 'faqs', 'users', 'settings', 'audit'];
+
+export interface ChangedDocument {
+  key: string;
+  // Backend with the more recent timestamp, or null when it can't be told
+  newer: Backend | null;
+}
+
+export interface CollectionDiff {
+  collection: CollectionName;
+  identical: number;
+  changed: ChangedDocument[];
+  onlyIn: Record<Backend, string[]>;
+  latest: Record<Backend, Date | null>;
+}
+
+async function readCollections(target: MigrationTarget): Promise<Record<CollectionName, RawDocument[]>> {
+  const docs = {} as Record<CollectionName, RawDocument[]>;
+  for (const name of syncedCollections) {
+    docs[name] = await target.collections[name].find();
+  }
+  return docs;
+}
+
+// Compare every collection across both backends without writing anything.
+// References in NeDB documents are translated to MongoDB's public ids first,
+// so documents that only differ in those ids count as identical.
+export async function diffBackends(nedb: MigrationTarget, mongodb: MigrationTarget): Promise<CollectionDiff[]> {
+  const diffs: CollectionDiff[] = [];
+  const allNedbDocs = await readCollections(nedb);
+  const allMongoDocs = await readCollections(mongodb);
+  const idMaps = mapPublicIds(syncedCollections, allNedbDocs, allMongoDocs);
+
+  for (const name of syncedCollections) {
+    const nedbDocs = allNedbDocs[name];
+    const mongoDocs = allMongoDocs[name];
+    const mongoByKey = indexByKey(name, mongoDocs);
+    const nedbByKey = indexByKey(name, nedbDocs);
+
+    const diff: CollectionDiff = {
+      collection: name,
+      identical: 0,
+      changed: [],
+      onlyIn: { nedb: [], mongodb: [] },
+      latest: { nedb: latestModified(nedbDocs), mongodb: latestModified(mongoDocs) },
+    };
+
+    for (const [key, doc] of Array.from(nedbByKey)) {
+      const other = mongoByKey.get(key);
+      if (!other) {
+        diff.onlyIn.nedb.push(key);
+      } else if (sameContent(translateReferences(name, doc, idMaps), other)) {
+        diff.identical++;
+      } else {
+        diff.changed.push({
+          key,
+          newer: newerSide({ backend: 'nedb', date: lastModified(doc) }, { backend: 'mongodb', date: lastModified(other) }),
+        });
+      }
+    }
+    for (const key of Array.from(mongoByKey.keys())) {
+      if (!nedbByKey.has(key)) {
+        diff.onlyIn.mongodb.push(key);
+      }
+    }
+
+    diffs.push(diff);
+  }
+
+  return diffs;
+}
+
+export interface CopyOptions {
+  // Replace target documents whose content differs (default: report them as conflicts)
+  overwrite?: boolean;
+}
+
+export interface CopyConflict {
+  key: string;
+  reason: string;
+  newer: Backend | null;
+}
+
+export interface CollectionCopyResult {
+  collection: CollectionName;
+  inserted: number;
+  overwritten: number;
+  unchanged: number;
+  conflicts: CopyConflict[];
+}
+
+export interface CopyResult {
+  collections: CollectionCopyResult[];
+  sessions: SessionCopyResult;
+}
+
+async function copyCollection(
+  name: CollectionName,
+  source: { backend: Backend; docs: RawDocument[] },
+  target: MigrationTarget,
+  idMaps: IdMaps,
+  { overwrite = false }: CopyOptions,
+): Promise<CollectionCopyResult> {
+  const collection = target.collections[name];
+  const targetDocs = await collection.find();
+  const targetByKey = indexByKey(name, targetDocs);
+  const publicIdOwners = new Map(targetDocs.filter((doc) => doc.id).map((doc) => [doc.id, String(doc._id)]));
+  const result: CollectionCopyResult = { collection: name, inserted: 0, overwritten: 0, unchanged: 0, conflicts: [] };
+
+  for (const sourceDoc of source.docs) {
+    const key = matchKeys[name](sourceDoc);
+    // References point at the target's copies of artworks, users and so on
+    const doc = translateReferences(name, sourceDoc, idMaps);
+    const existing = targetByKey.get(key);
+    // A matched document keeps the target's public id, which collections,
+    // inquiries and orders in the target refer to
+    const publicId = existing?.id ?? doc.id;
+    const idOwner = publicId ? publicIdOwners.get(publicId) : undefined;
+
+    if (existing && sameContent(doc, existing)) {
+      result.unchanged++;
+      continue;
+    }
+
+    const newer = existing
+      ? newerSide({ backend: source.backend, date: lastModified(doc) }, { backend: target.backend, date: lastModified(existing) })
+      : null;
+
+    if (idOwner && idOwner !== String(existing?._id)) {
+      result.conflicts.push({ key, reason: `public id ${publicId} belongs to another document`, newer });
+      continue;
+    }
+
+    if (!existing) {
+      await collection.insertOne(toBackendDocument(doc, target.backend));
+      result.inserted++;
+    } else if (overwrite) {
+      // Keep the target's _id and public id so its sessions and references stay valid
+      await collection.deleteMany({ _id: existing._id });
+      await collection.insertOne({ ...toBackendDocument(doc, target.backend), _id: existing._id, id: publicId });
+      result.overwritten++;
+    } else {
+      result.conflicts.push({ key, reason: 'content differs', newer });
+    }
+  }
+
+  return result;
+}
+
+// Map each source user's _id to the _id of the same account (by email) in the target
+async function mapUserIds(source: MigrationTarget, target: MigrationTarget): Promise<Map<string, string>> {
+  const targetUsers = indexByKey('users', await target.collections.users.find());
+  const userIds = new Map<string, string>();
+
+  for (const user of await source.collections.users.find()) {
+    const match = targetUsers.get(matchKeys.users(user));
+    if (match) {
+      userIds.set(String(user._id), String(match._id));
+    }
+  }
+  return userIds;
+}
+
+// Copy every collection from `source` into `target`, adding missing documents
+// and reporting (or, with `overwrite`, replacing) ones whose content differs.
+// Password hashes and timestamps are copied verbatim; references to other
+// documents are rewritten to the public ids those documents have in the target.
+export async function copyBackend(
+  source: MigrationTarget,
+  target: MigrationTarget,
+  options: CopyOptions = {},
+): Promise<CopyResult> {
+  const sourceDocs = await readCollections(source);
+  const idMaps = mapPublicIds(syncedCollections, sourceDocs, await readCollections(target));
+
+  const collections: CollectionCopyResult[] = [];
+  for (const name of syncedCollections) {
+    collections.push(await copyCollection(name, { backend: source.backend, docs: sourceDocs[name] }, target, idMaps, options));
+  }
+
+  const sessions = await copySessions(source.backend, target.backend, await mapUserIds(source, target));
+  return { collections, sessions };
+}
@@ -0,0 +1,75 @@
+import type { CollectionName, RawDocument } from '../migrations';
+import { indexByKey } from './compare';
+
+// Source public id → public id of the matching document in the target, per
+// collection. Ids without a match are left as they are, since the document
+// they belong to is copied with its own id.
+export type IdMaps = Record<CollectionName, Map<string, string>>;
+
+type Translate = (collection: CollectionName, id: string) => string;
+
+// Fields holding another document's public id, rewritten through the id maps
+const referenceRewriters: Partial<Record<CollectionName, (doc: RawDocument, to: Translate) => RawDocument>> = {
+  collections: (doc, to) => ({
+    ...doc,
+    ...(Array.isArray(doc.artworkIds) && { artworkIds: doc.artworkIds.map((id: string) => to('artworks', id)) }),
+  }),
+  inquiries: (doc, to) => ({
+    ...doc,
+    ...(doc.artworkId && { artworkId: to('artworks', doc.artworkId) }),
+  }),
+  emails: (doc, to) => ({
+    ...doc,
+    ...(doc.inquiryId && { inquiryId: to('inquiries', doc.inquiryId) }),
+    ...(doc.commissionId && { commissionId: to('commissions', doc.commissionId) }),
+    ...(doc.orderId && { orderId: to('orders', doc.orderId) }),
+  }),
+  commissions: (doc, to) => ({
+    ...doc,
+    ...(doc.artworkId && { artworkId: to('artworks', doc.artworkId) }),
+  }),
+  invoices: (doc, to) => ({
+    ...doc,
+    ...(doc.inquiryId && { inquiryId: to('inquiries', doc.inquiryId) }),
+    ...(doc.artworkId && { artworkId: to('artworks', doc.artworkId) }),
+    ...(doc.commissionId && { commissionId: to('commissions', doc.commissionId) }),
+    ...(doc.quoteId && { quoteId: to('invoices', doc.quoteId) }),
+  }),
+  orders: (doc, to) => ({
+    ...doc,
+    ...(Array.isArray(doc.items) && {
+      items: doc.items.map((item: RawDocument) => ({ ...item, artworkId: to('artworks', item.artworkId) })),
+    }),
+  }),
+  audit: (doc, to) => ({
+    ...doc,
+    ...(doc.actorId && { actorId: to('users', doc.actorId) }),
+  }),
+};
+
+// Pair up the public ids of documents that match across the two backends
+export function mapPublicIds(
+  names: CollectionName[],
+  sourceDocs: Record<CollectionName, RawDocument[]>,
+  targetDocs: Record<CollectionName, RawDocument[]>,
+): IdMaps {
+  const maps = {} as IdMaps;
+  for (const name of names) {
+    const targetByKey = indexByKey(name, targetDocs[name]);
+    const ids = new Map<string, string>();
+    for (const [key, doc] of Array.from(indexByKey(name, sourceDocs[name]))) {
+      const match = targetByKey.get(key);
+      if (doc.id && match?.id) {
+        ids.set(doc.id, match.id);
+      }
+    }
+    maps[name] = ids;
+  }
+  return maps;
+}
+
+// A source document with its references pointing at the target's documents
+export function translateReferences(name: CollectionName, doc: RawDocument, maps: IdMaps): RawDocument {
+  const rewrite = referenceRewriters[name];
+  return rewrite ? rewrite(doc, (collection, id) => maps[collection]?.get(id) ?? id) : doc;
+}
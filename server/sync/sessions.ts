@@ -0,0 +1,116 @@
+import { existsSync } from 'fs';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import mongoose from 'mongoose';
+import { SESSION_FILE_DIR, MONGO_SESSION_COLLECTION } from '../auth';
+import type { Backend } from './compare';
+
+// Session as stored by express-session, independent of the store
+export interface StoredSession {
+  sid: string;
+  expires: Date;
+  data: Record<string, any>;
+}
+
+interface SessionStore {
+  // Unexpired sessions only
+  list(): Promise<StoredSession[]>;
+  has(sid: string): Promise<boolean>;
+  write(session: StoredSession): Promise<void>;
+}
+
+// session-file-store: one JSON file per session, expiring `originalMaxAge` after `__lastAccess`
+function fileSessionStore(): SessionStore {
+  const fileFor = (sid: string) => join(SESSION_FILE_DIR, `${sid}.json`);
+
+  return {
+    async list() {
+      if (!existsSync(SESSION_FILE_DIR)) {
+        return [];
+      }
+
+      const sessions: StoredSession[] = [];
+      for (const file of await readdir(SESSION_FILE_DIR)) {
+        if (!file.endsWith('.json')) {
+          continue;
+        }
+        try {
+          const { __lastAccess, ...data } = JSON.parse(await readFile(join(SESSION_FILE_DIR, file), 'utf-8'));
+          const expires = data.cookie?.expires ? new Date(data.cookie.expires) : null;
+          if (expires && expires > new Date()) {
+            sessions.push({ sid: file.slice(0, -'.json'.length), expires, data });
+          }
+        } catch {
+          // Unreadable session files are skipped; the store discards them too
+        }
+      }
+      return sessions;
+    },
+    async has(sid) {
+      return existsSync(fileFor(sid));
+    },
+    async write({ sid, expires, data }) {
+      const maxAge = data.cookie?.originalMaxAge;
+      const lastAccess = maxAge ? expires.getTime() - maxAge : Date.now();
+      await mkdir(SESSION_FILE_DIR, { recursive: true });
+      await writeFile(fileFor(sid), JSON.stringify({ ...data, __lastAccess: lastAccess }));
+    },
+  };
+}
+
+// connect-mongo: `{ _id: sid, expires, session: <JSON string> }`
+function mongoSessionStore(): SessionStore {
+  const collection = () => mongoose.connection.collection(MONGO_SESSION_COLLECTION);
+
+  return {
+    async list() {
+      const docs = await collection().find({ expires: { $gt: new Date() } }).toArray();
+      return docs.map((doc) => ({
+        sid: String(doc._id),
+        expires: doc.expires,
+        data: typeof doc.session === 'string' ? JSON.parse(doc.session) : doc.session,
+      }));
+    },
+    async has(sid) {
+      return (await collection().countDocuments({ _id: sid as any })) > 0;
+    },
+    async write({ sid, expires, data }) {
+      await collection().insertOne({ _id: sid as any, expires, session: JSON.stringify(data), lastModified: new Date() });
+    },
+  };
+}
+
+const sessionStores: Record<Backend, () => SessionStore> = {
+  nedb: fileSessionStore,
+  mongodb: mongoSessionStore,
+};
+
+export interface SessionCopyResult {
+  copied: number;
+  // Anonymous sessions, sessions whose user was not copied, or already present
+  skipped: number;
+}
+
+// Copy signed-in sessions, pointing each at the user's id in the target backend
+export async function copySessions(
+  source: Backend,
+  target: Backend,
+  userIds: Map<string, string>,
+): Promise<SessionCopyResult> {
+  const from = sessionStores[source]();
+  const to = sessionStores[target]();
+  const result: SessionCopyResult = { copied: 0, skipped: 0 };
+
+  for (const session of await from.list()) {
+    const userId = userIds.get(String(session.data.passport?.user));
+    if (!userId || await to.has(session.sid)) {
+      result.skipped++;
+      continue;
+    }
+
+    await to.write({ ...session, data: { ...session.data, passport: { ...session.data.passport, user: userId } } });
+    result.copied++;
+  }
+
+  return result;
+}
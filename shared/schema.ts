@@ -1,9 +1,46 @@
 import { z } from "zod";
 
+// Currencies prices can be set and shown in. The site currency (a setting,
+// USD by default) is what checkout charges; the others are for display.
+export const currencies = ["USD", "EUR", "GBP", "CAD", "AUD", "CHF", "JPY", "AMD"] as const;
+export type Currency = typeof currencies[number];
+export const DEFAULT_CURRENCY: Currency = "USD";
+
+// Units artwork dimensions are measured in. Each artwork stores its own; the
+// site setting (inches by default) is what visitors see until they switch.
+export const dimensionUnits = ["in", "cm"] as const;
+export type DimensionUnit = typeof dimensionUnits[number];
+export const DEFAULT_DIMENSION_UNIT: DimensionUnit = "in";
+
+// A fixed price in another currency, shown instead of a converted estimate
+export const currencyPriceSchema = z.object({
+  currency: z.enum(currencies),
+  amount: z.number().positive("Prices must be greater than 0"),
+});
+export type CurrencyPrice = z.infer<typeof currencyPriceSchema>;
+
+function uniqueCurrencies(entries: { currency: Currency }[]): boolean {
+  return new Set(entries.map((entry) => entry.currency)).size === entries.length;
+}
+
+// A limited-edition print of an artwork, sold alongside (or after) the original
+export const artworkPrintSchema = z.object({
+  id: z.string(), // Stable within the artwork, so carts and orders can refer to it
+  width: z.number().positive("Print width is required"),
+  height: z.number().positive("Print height is required"),
+  material: z.string().trim().min(1, "Print material is required"), // e.g. "Giclée on cotton rag"
+  price: z.number().positive("Print price is required"),
+  editionSize: z.number().int().positive("Edition size is required"),
+  sold: z.number().int().min(0),
+  reserved: z.number().int().min(0), // Held by pending orders; managed by checkout
+});
+
+export type ArtworkPrint = z.infer<typeof artworkPrintSchema>;
+
 // Artwork Schema
 export const artworkSchema = z.object({
   _id: z.string().optional(), // MongoDB ObjectId
-  id: z.number().optional(), // NeDB id field (numeric)
+  id: z.string(), // Stable public identifier, assigned at creation
   title: z.string(),
   slug: z.string(),
   description: z.string(),
@@ -13,8 +50,10 @@ export const artworkSchema = z.object({
   width: z.number(),
   height: z.number(),
   depth: z.number().optional(),
-  price: z.number().optional(),
-  status: z.enum(["available", "sold", "exhibition", "private"]),
+  unit: z.enum(dimensionUnits), // Of width, height, depth and the print sizes
+  price: z.number().optional(), // In the site currency
+  prices: z.array(currencyPriceSchema).refine(uniqueCurrencies, "Each currency can only have one price").optional(), // Overrides for visitors viewing other currencies
+  status: z.enum(["available", "reserved", "sold", "exhibition", "private"]), // "reserved" while an order awaits payment
   category: z.enum(["original", "commission", "exhibition"]),
   images: z.array(z.object({
     url: z.string(),
@@ -22,26 +61,91 @@ export const artworkSchema = z.object({
     isPrimary: z.boolean(),
   })),
   featured: z.boolean(),
+  prints: z.array(artworkPrintSchema).optional(),
 });
 
 export type Artwork = z.infer<typeof artworkSchema>;
 
+// Prints as the admin form sends them: new ones have no id yet, and the
+// reserved count is kept from the stored artwork
+export const printInputSchema = artworkPrintSchema
+  .omit({ reserved: true })
+  .extend({ id: z.string().optional() })
+  .refine((print) => print.sold <= print.editionSize, "More prints sold than the edition size");
+export type PrintInput = z.infer<typeof printInputSchema>;
+
 // Insert schema for creating artworks (_id and id are auto-generated)
-export const insertArtworkSchema = artworkSchema.omit({ _id: true, id: true });
+export const insertArtworkSchema = artworkSchema
+  .omit({ _id: true, id: true })
+  .extend({ prints: z.array(printInputSchema).optional() });
 export type InsertArtwork = z.infer<typeof insertArtworkSchema>;
 
-// Collection Schema
+// Artwork listing query (GET /api/artworks search, filters, sort and pagination)
+export const artworkSortOptions = [
+  "newest",
+  "oldest",
+  "price-asc",
+  "price-desc",
+  "size-asc",
+  "size-desc",
+  "title",
+] as const;
+export type ArtworkSort = typeof artworkSortOptions[number];
+
+const optionalNumber = z.coerce.number().nonnegative().optional();
+const optionalYear = z.coerce.number().int().min(1000).max(9999).optional();
+
+export const artworkQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(), // Text search over title, description and medium
+  category: artworkSchema.shape.category.optional(),
+  status: artworkSchema.shape.status.optional(),
+  minPrice: optionalNumber,
+  maxPrice: optionalNumber,
+  minWidth: optionalNumber, // Dimensions in the unit below, converted for artworks stored in the other
+  maxWidth: optionalNumber,
+  minHeight: optionalNumber,
+  maxHeight: optionalNumber,
+  yearFrom: optionalYear, // Matched against the start of dateCreated
+  yearTo: optionalYear,
+  unit: z.enum(dimensionUnits).default(DEFAULT_DIMENSION_UNIT),
+  sort: z.enum(artworkSortOptions).default("newest"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).optional(), // Omit to return every match
+});
+export type ArtworkQuery = z.infer<typeof artworkQuerySchema>;
+
+// One page of GET /api/artworks results
+export interface ArtworkPage {
+  artworks: Artwork[];
+  total: number; // Matches across all pages
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// Collection Schema (a series of artworks)
 export const collectionSchema = z.object({
-  id: z.string(),
+  _id: z.string().optional(), // MongoDB ObjectId
+  id: z.string(), // Stable public identifier, assigned at creation
   title: z.string(),
   slug: z.string(),
   description: z.string(),
-  artworkIds: z.array(z.string()),
-  coverImage: z.string(),
+  artworkIds: z.array(z.string()), // Artwork public ids, in display order
+  coverImage: z.string(), // Image URL from one of the collection's artworks
 });
 
 export type Collection = z.infer<typeof collectionSchema>;
 
+// Insert schema for creating collections
+export const insertCollectionSchema = collectionSchema.omit({ _id: true, id: true }).extend({
+  title: z.string().min(1, "Title is required"),
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, numbers and hyphens"),
+});
+export type InsertCollection = z.infer<typeof insertCollectionSchema>;
+
+// Collection as served to public pages, with its artworks in display order
+export type CollectionWithArtworks = Collection & { artworks: Artwork[] };
+
 // Contact Form Schema
 export const contactFormSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -49,14 +153,367 @@ export const contactFormSchema = z.object({
   subject: z.string().min(5, "Subject must be at least 5 characters"),
   inquiryType: z.enum(["commission", "purchase", "exhibition", "press", "other"]),
   message: z.string().min(10, "Message must be at least 10 characters"),
+  artworkId: z.string().optional(), // Public id of the artwork the inquiry is about
 });
 
 export type ContactForm = z.infer<typeof contactFormSchema>;
 
+// Anti-spam fields sent alongside the contact form
+export const contactGuardSchema = z.object({
+  website: z.string().optional(), // Honeypot: hidden from people, filled in by bots
+  challenge: z.object({
+    token: z.string(),
+    solution: z.string(),
+  }).optional(),
+});
+export type ContactGuard = z.infer<typeof contactGuardSchema>;
+
+// Proof-of-work challenge from GET /api/contact/challenge
+export interface ContactChallenge {
+  token: string;
+  difficulty: number; // Leading zero bits required in sha256(`${token}:${solution}`)
+}
+
+// Inquiry Schema (a stored contact form submission)
+export const inquiryStatuses = ["new", "replied", "archived", "spam"] as const;
+
+export const inquirySchema = contactFormSchema.extend({
+  _id: z.string().optional(), // MongoDB ObjectId
+  id: z.string(), // Stable public identifier, assigned at creation
+  status: z.enum(inquiryStatuses),
+  read: z.boolean(),
+  notes: z.string(), // Private notes for the admin
+  spamReasons: z.array(z.string()).optional(), // Why the submission was quarantined
+});
+
+export type Inquiry = z.infer<typeof inquirySchema>;
+export type InquiryStatus = typeof inquiryStatuses[number];
+
+// Fields the admin can change from the inbox
+export const updateInquirySchema = inquirySchema.pick({ status: true, read: true, notes: true }).partial();
+export type UpdateInquiry = z.infer<typeof updateInquirySchema>;
+
+// Commission Schema (structured commission requests and the pipeline they move through)
+export const commissionStages = ["new", "quoted", "deposit-paid", "in-progress", "shipped", "completed"] as const;
+
+const hexColor = z.string().regex(/^#[0-9a-f]{6}$/i, "Colors must be hex values like #a1b2c3");
+
+// What the visitor fills in; sizes are in the unit they were viewing the site in
+export const commissionBriefSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  email: z.string().email("Please enter a valid email address"),
+  subject: z.string().min(3, "Please describe what the piece should show"),
+  description: z.string().min(10, "Description must be at least 10 characters"),
+  width: z.coerce.number().positive("Width must be greater than 0"),
+  height: z.coerce.number().positive("Height must be greater than 0"),
+  unit: z.enum(dimensionUnits).optional(), // Inches when unset
+  palette: z.array(hexColor).max(6, "Choose up to 6 colors"),
+  deadline: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Deadline must be a date").optional(),
+  budgetMin: z.coerce.number().nonnegative().optional(),
+  budgetMax: z.coerce.number().nonnegative().optional(),
+});
+
+export const commissionRequestSchema = commissionBriefSchema.refine(
+  (brief) => brief.budgetMin === undefined || brief.budgetMax === undefined || brief.budgetMin <= brief.budgetMax,
+  { message: "Minimum budget can't be more than the maximum", path: ["budgetMin"] },
+);
+export type CommissionRequest = z.infer<typeof commissionRequestSchema>;
+
+export const commissionSchema = commissionBriefSchema.extend({
+  _id: z.string().optional(), // MongoDB ObjectId
+  id: z.string(), // Stable public identifier, assigned at creation
+  stage: z.enum(commissionStages),
+  references: z.array(z.object({
+    file: z.string(), // Stored file name, served to admins only
+    name: z.string(), // Name of the file the visitor uploaded
+  })),
+  currency: z.enum(currencies).optional(), // The site currency when the request was made, for the budget and quote; USD if unset
+  quote: z.number().optional(), // Quoted price
+  notes: z.string(), // Private notes for the admin
+  spam: z.boolean(), // Quarantined by the contact form spam checks
+  spamReasons: z.array(z.string()).optional(),
+  artworkId: z.string().optional(), // Artwork the finished commission was promoted to
+});
+
+export type Commission = z.infer<typeof commissionSchema>;
+export type CommissionStage = typeof commissionStages[number];
+
+// e.g. "$400.00 – $800.00", or null when no budget was given
+export function describeBudget(commission: Pick<Commission, "budgetMin" | "budgetMax" | "currency">): string | null {
+  const { budgetMin, budgetMax, currency } = commission;
+  if (budgetMin !== undefined && budgetMax !== undefined) return `${formatMoney(budgetMin, currency)} – ${formatMoney(budgetMax, currency)}`;
+  if (budgetMin !== undefined) return `From ${formatMoney(budgetMin, currency)}`;
+  if (budgetMax !== undefined) return `Up to ${formatMoney(budgetMax, currency)}`;
+  return null;
+}
+
+// Fields the admin can change from the pipeline
+export const updateCommissionSchema = commissionSchema.pick({ stage: true, quote: true, notes: true, spam: true }).partial();
+export type UpdateCommission = z.infer<typeof updateCommissionSchema>;
+
+// Email Delivery Schema (outbound mail queue and delivery log)
+export const emailStatuses = ["pending", "sent", "failed"] as const;
+
+export const emailDeliverySchema = z.object({
+  _id: z.string().optional(), // MongoDB ObjectId
+  id: z.string(), // Stable public identifier, assigned at creation
+  kind: z.string(), // Template that produced the message, e.g. "inquiry-notification"
+  to: z.string(),
+  replyTo: z.string().optional(),
+  subject: z.string(),
+  html: z.string(),
+  text: z.string(),
+  status: z.enum(emailStatuses),
+  attempts: z.array(z.object({
+    at: z.string(), // ISO timestamp
+    transport: z.string(),
+    error: z.string().optional(),
+  })),
+  nextAttemptAt: z.string().nullable(), // ISO timestamp of the next retry while pending
+  inquiryId: z.string().optional(),
+  commissionId: z.string().optional(),
+  orderId: z.string().optional(),
+});
+
+export type EmailDelivery = z.infer<typeof emailDeliverySchema>;
+export type EmailStatus = typeof emailStatuses[number];
+
+// Invoice Schema (quotes and invoices for commissions and artwork sales)
+export const invoiceKinds = ["quote", "invoice"] as const;
+export const invoiceStatuses = ["draft", "sent", "paid", "void"] as const;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const invoiceLineItemSchema = z.object({
+  description: z.string().min(1, "Each line item needs a description"),
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  unitPrice: z.number().nonnegative("Prices can't be negative"),
+});
+
+const invoiceDetailsSchema = z.object({
+  kind: z.enum(invoiceKinds),
+  currency: z.enum(currencies).optional(), // USD for documents from before currencies were configurable
+  customer: z.object({
+    name: z.string().min(1, "Customer name is required"),
+    email: z.string().email("Please enter a valid customer email"),
+    address: z.string(),
+  }),
+  inquiryId: z.string().optional(), // What the document is for, by public id
+  artworkId: z.string().optional(),
+  commissionId: z.string().optional(),
+  lineItems: z.array(invoiceLineItemSchema).min(1, "Add at least one line item"),
+  shipping: z.number().nonnegative(),
+  taxRate: z.number().min(0).max(100), // Percent, applied to the line items
+  depositPercent: z.number().min(0).max(100), // Share of the total due up front
+  issueDate: isoDate,
+  dueDate: isoDate, // Payment due date, or the date a quote is valid until
+  notes: z.string(), // Printed on the document
+});
+
+const dueAfterIssue = {
+  check: (invoice: { issueDate?: string; dueDate?: string }) =>
+    !invoice.issueDate || !invoice.dueDate || invoice.dueDate >= invoice.issueDate,
+  message: { message: "Due date can't be before the issue date", path: ["dueDate"] },
+};
+
+export const insertInvoiceSchema = invoiceDetailsSchema.refine(dueAfterIssue.check, dueAfterIssue.message);
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+
+export const invoiceSchema = invoiceDetailsSchema.extend({
+  _id: z.string().optional(), // MongoDB ObjectId
+  id: z.string(), // Stable public identifier, assigned at creation
+  status: z.enum(invoiceStatuses),
+  number: z.string().optional(), // e.g. "INV-0007", assigned when first sent
+  sequence: z.number().optional(),
+  quoteId: z.string().optional(), // Quote an invoice was created from
+  sentAt: z.string().optional(), // ISO timestamps
+  paidAt: z.string().optional(),
+});
+
+export type Invoice = z.infer<typeof invoiceSchema>;
+export type InvoiceKind = typeof invoiceKinds[number];
+export type InvoiceStatus = typeof invoiceStatuses[number];
+export type InvoiceLineItem = z.infer<typeof invoiceLineItemSchema>;
+
+// Drafts can be edited freely; status changes are checked on the server
+export const updateInvoiceSchema = invoiceDetailsSchema.omit({ kind: true }).partial()
+  .extend({ status: z.enum(invoiceStatuses).optional() })
+  .refine(dueAfterIssue.check, dueAfterIssue.message);
+export type UpdateInvoice = z.infer<typeof updateInvoiceSchema>;
+
+export interface InvoiceTotals {
+  subtotal: number;
+  tax: number;
+  shipping: number;
+  total: number;
+  deposit: number;
+  balance: number; // Due after the deposit
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Shared by the admin editor, the printable documents and the PDF so they always agree
+export function invoiceTotals(invoice: Pick<Invoice, "lineItems" | "shipping" | "taxRate" | "depositPercent">): InvoiceTotals {
+  const subtotal = roundCents(invoice.lineItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0));
+  const tax = roundCents(subtotal * invoice.taxRate / 100);
+  const total = roundCents(subtotal + tax + invoice.shipping);
+  const deposit = roundCents(total * invoice.depositPercent / 100);
+  return { subtotal, tax, shipping: invoice.shipping, total, deposit, balance: roundCents(total - deposit) };
+}
+
+export function printsRemaining(print: ArtworkPrint): number {
+  return Math.max(0, print.editionSize - print.sold - print.reserved);
+}
+
+const CM_PER_INCH = 2.54;
+
+export function convertLength(value: number, from: DimensionUnit, to: DimensionUnit): number {
+  if (from === to) return value;
+  return from === "in" ? value * CM_PER_INCH : value / CM_PER_INCH;
+}
+
+// e.g. '24" × 30" × 1.5"' or "61 × 76.2 × 3.8 cm". Converted sizes are
+// rounded to a tenth; sizes shown in their own unit are left as entered.
+export function formatDimensions(dimensions: (number | undefined)[], unit: DimensionUnit, displayUnit: DimensionUnit = unit): string {
+  const values = dimensions
+    .filter((value): value is number => value !== undefined && value > 0)
+    .map((value) => unit === displayUnit ? value : Math.round(convertLength(value, unit, displayUnit) * 10) / 10);
+  return displayUnit === "in"
+    ? values.map((value) => `${value}"`).join(" × ")
+    : `${values.join(" × ")} cm`;
+}
+
+// UN/CEFACT codes for schema.org QuantitativeValue and Distance
+export const unitCodes: Record<DimensionUnit, string> = {
+  in: "INH",
+  cm: "CMT",
+};
+
+// e.g. '12" × 16" Giclée on cotton rag'; print sizes share the artwork's unit
+export function describePrint(
+  print: Pick<ArtworkPrint, "width" | "height" | "material">,
+  unit: DimensionUnit = DEFAULT_DIMENSION_UNIT,
+  displayUnit: DimensionUnit = unit,
+): string {
+  return `${formatDimensions([print.width, print.height], unit, displayUnit)} ${print.material}`;
+}
+
+// An amount in the site currency shown in another: the fixed price if one is
+// set, otherwise converted at the admin's exchange rate. Undefined without a rate.
+export function convertPrice(
+  amount: number,
+  to: Currency,
+  settings: Pick<SiteSettings, "currency" | "exchangeRates"> | undefined,
+  fixedPrices: CurrencyPrice[] = [],
+): { amount: number; approximate: boolean } | undefined {
+  if (to === (settings?.currency ?? DEFAULT_CURRENCY)) return { amount, approximate: false };
+  const fixed = fixedPrices.find((price) => price.currency === to);
+  if (fixed) return { amount: fixed.amount, approximate: false };
+  const rate = settings?.exchangeRates?.find((candidate) => candidate.currency === to)?.rate;
+  return rate === undefined ? undefined : { amount: amount * rate, approximate: true };
+}
+
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY, locale = "en-US", options: Intl.NumberFormatOptions = {}): string {
+  return amount.toLocaleString(locale, { style: "currency", currency, ...options });
+}
+
+// Order Schema (artworks bought through the cart and checkout)
+export const orderStatuses = ["pending", "paid", "shipped", "refunded", "cancelled", "expired"] as const;
+
+export const orderCustomerSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  email: z.string().email("Please enter a valid email address"),
+  phone: z.string().optional(),
+});
+
+export const shippingAddressSchema = z.object({
+  line1: z.string().min(1, "Street address is required"),
+  line2: z.string().optional(),
+  city: z.string().min(1, "City is required"),
+  region: z.string(), // State, province or county
+  postalCode: z.string().min(1, "Postal code is required"),
+  country: z.string().min(2, "Country is required"),
+});
+
+// One line in the cart: the original, or one of its prints
+export const cartItemSchema = z.object({
+  artworkId: z.string(),
+  printId: z.string().optional(),
+});
+export type CartItem = z.infer<typeof cartItemSchema>;
+
+// What the checkout form sends; prices and availability are checked on the server
+export const checkoutSchema = z.object({
+  items: z.array(cartItemSchema).min(1, "Your cart is empty").max(20, "Too many items in the cart"),
+  customer: orderCustomerSchema,
+  shippingAddress: shippingAddressSchema,
+  provider: z.string().min(1, "Choose a payment method"),
+});
+export type Checkout = z.infer<typeof checkoutSchema>;
+
+export const orderSchema = z.object({
+  _id: z.string().optional(), // MongoDB ObjectId
+  id: z.string(), // Stable public identifier, assigned at creation; also the buyer's link to the order
+  number: z.string(), // e.g. "ORD-0007", used as the payment reference
+  sequence: z.number(),
+  status: z.enum(orderStatuses),
+  items: z.array(z.object({
+    artworkId: z.string(),
+    title: z.string(), // Copied at checkout so the order reads the same if the artwork changes
+    slug: z.string(),
+    printId: z.string().optional(), // Set when the item is a print rather than the original
+    print: z.string().optional(), // The print's description at checkout
+    price: z.number(),
+  })),
+  customer: orderCustomerSchema,
+  shippingAddress: shippingAddressSchema,
+  total: z.number(),
+  currency: z.enum(currencies).optional(), // The site currency when the order was placed; USD if unset
+  provider: z.string(), // Payment provider id, e.g. "manual"
+  paymentReference: z.string().optional(), // The provider's id for the payment
+  paymentInstructions: z.string().optional(), // Shown to the buyer, e.g. bank details
+  reservedUntil: z.string(), // ISO timestamp; a pending order holds its artworks until then
+  carrier: z.string().optional(),
+  trackingNumber: z.string().optional(),
+  paidAt: z.string().optional(), // ISO timestamps
+  shippedAt: z.string().optional(),
+  refundedAt: z.string().optional(),
+  cancelledAt: z.string().optional(), // Also set when the reservation expired
+});
+
+export type Order = z.infer<typeof orderSchema>;
+export type OrderItem = Order["items"][number];
+
+export function orderItemName(item: Pick<OrderItem, "title" | "print">): string {
+  return item.print ? `${item.title} (print, ${item.print})` : item.title;
+}
+export type OrderStatus = typeof orderStatuses[number];
+
+// Status changes the admin can make by hand, and shipment tracking
+export const updateOrderSchema = z.object({
+  status: z.enum(["paid", "shipped", "refunded", "cancelled"]).optional(),
+  carrier: z.string().trim().max(100).optional(),
+  trackingNumber: z.string().trim().max(100).optional(),
+});
+export type UpdateOrder = z.infer<typeof updateOrderSchema>;
+
+// A payment method offered at checkout, from GET /api/payments/providers
+export interface PaymentMethod {
+  id: string;
+  label: string;
+  description: string;
+}
+
+// POST /api/orders response: where to send the buyer next
+export interface PlacedOrder {
+  order: Order;
+  redirectUrl?: string; // Hosted payment page, for providers that take payment off-site
+}
+
 // Artist Info Schema
 export const artistInfoSchema = z.object({
   _id: z.string().optional(), // MongoDB ObjectId
-  id: z.number().optional(), // NeDB id field (numeric)
+  id: z.string(), // Stable public identifier, assigned at creation
   name: z.string(),
   tagline: z.string(),
   bio: z.string(),
@@ -85,7 +542,7 @@ export type InsertArtistInfo = z.infer<typeof insertArtistInfoSchema>;
 // FAQ Schema
 export const faqSchema = z.object({
   _id: z.string().optional(), // MongoDB ObjectId
-  id: z.number().optional(), // NeDB id field (numeric)
+  id: z.string(), // Stable public identifier, assigned at creation
   question: z.string(),
   answer: z.string(),
   category: z.string(),
@@ -98,24 +555,122 @@ export type FAQ = z.infer<typeof faqSchema>;
 export const insertFaqSchema = faqSchema.omit({ _id: true, id: true });
 export type InsertFaq = z.infer<typeof insertFaqSchema>;
 
+// Staff roles, from full control down to read-only
+export const userRoles = ["owner", "editor", "sales", "viewer"] as const;
+export type UserRole = typeof userRoles[number];
+
+export const roleLabels: Record<UserRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  sales: "Sales",
+  viewer: "Content viewer",
+};
+
+// What each admin route and page checks before letting a user through
+export const permissions = [
+  "content.view", // Browse artworks, collections and FAQs in the admin
+  "content.edit", // Create, edit and delete artworks, collections and FAQs
+  "inquiries.manage", // Inbox and commissions
+  "orders.manage",
+  "invoices.manage",
+  "emails.manage",
+  "site.manage", // Artist profile, settings, backups, database and rebuilds
+  "users.manage",
+] as const;
+export type Permission = typeof permissions[number];
+
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  owner: permissions,
+  editor: ["content.view", "content.edit"],
+  sales: ["inquiries.manage", "orders.manage"],
+  viewer: ["content.view"],
+};
+
+// Everything that saves data; holders are warned while saves go to fallback storage
+export const writePermissions: readonly Permission[] = permissions.filter((permission) => permission !== "content.view");
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  return (userRoles as readonly string[]).includes(role ?? "")
+    && rolePermissions[role as UserRole].includes(permission);
+}
+
+// Emailed links that let someone choose a new password
+export const passwordTokenPurposes = ["reset", "invite"] as const;
+export type PasswordTokenPurpose = typeof passwordTokenPurposes[number];
+
 // User Schema
 export const userSchema = z.object({
   _id: z.string().optional(), // MongoDB ObjectId
-  id: z.number().optional(), // NeDB id field (numeric)
+  id: z.string(), // Stable public identifier, assigned at creation
   email: z.string().email(),
   password: z.string(), // Hashed password
-  role: z.enum(["user", "admin"]),
+  role: z.enum(userRoles),
+  invitePending: z.boolean().optional(), // Invited, but hasn't chosen a password yet
+  // At most one outstanding link; only a hash of its secret is kept
+  passwordToken: z.object({
+    hash: z.string(),
+    purpose: z.enum(passwordTokenPurposes),
+    expiresAt: z.string(), // ISO timestamp
+  }).nullable().optional(),
+  twoFactor: z.object({
+    secret: z.string(), // Base32 TOTP secret
+    enabledAt: z.string().nullable(), // ISO timestamp; null while enrolment awaits its first code
+    recoveryCodes: z.array(z.string()), // SHA-256 hashes of the unused codes
+    lastStep: z.number().optional(), // Time step of the last accepted code, so none is accepted twice
+  }).nullable().optional(),
 });
 
 export type User = z.infer<typeof userSchema>;
 
-// Insert schema for creating users
-export const insertUserSchema = z.object({
+// A user as the API returns them: no password, links or TOTP secret
+export type PublicUser = Omit<User, "password" | "passwordToken" | "twoFactor"> & {
+  twoFactorEnabled: boolean;
+  twoFactorSetupRequired?: boolean; // The site requires 2FA and this user hasn't enrolled yet
+};
+
+// QR code and secret shown while enrolling an authenticator app
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+// A 6-digit authenticator code, or a recovery code where noted
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app"),
+});
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Enter your password"),
+});
+
+// Admins invite people by email; the invitee picks their own password
+export const inviteUserSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
+  role: z.enum(userRoles).default("viewer"),
+});
+export type InviteUser = z.infer<typeof inviteUserSchema>;
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+// Redeems a reset or invitation link
+export const setPasswordSchema = z.object({
+  token: z.string().min(1, "Missing link token"),
   password: z.string().min(8, "Password must be at least 8 characters"),
-  role: z.enum(["user", "admin"]).default("user"),
 });
-export type InsertUser = z.infer<typeof insertUserSchema>;
+export type SetPassword = z.infer<typeof setPasswordSchema>;
+
+// What a valid link is for, shown before the new password is chosen
+export interface PasswordTokenInfo {
+  email: string;
+  purpose: PasswordTokenPurpose;
+}
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
 
 // Update password schema
 export const updatePasswordSchema = z.object({
@@ -124,13 +679,119 @@ export const updatePasswordSchema = z.object({
 });
 export type UpdatePassword = z.infer<typeof updatePasswordSchema>;
 
+// Sign-in audit log: failed logins, lockouts and unlocks. Attempted
+// passwords and codes are never recorded.
+export const auditEvents = ["login.failed", "login.locked", "login.unlocked"] as const;
+export type AuditEvent = typeof auditEvents[number];
+
+export const auditEntrySchema = z.object({
+  _id: z.string().optional(), // MongoDB ObjectId
+  id: z.string(), // Stable public identifier, assigned at creation
+  event: z.enum(auditEvents),
+  email: z.string().optional(), // Account the sign-in was for, as typed
+  ip: z.string().optional(),
+  detail: z.string(), // e.g. "Wrong password"
+  actorId: z.string().optional(), // Public id of the user who unlocked
+});
+
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+
+// Failed logins are counted per account and per IP address
+export const loginLockoutScopes = ["account", "ip"] as const;
+export type LoginLockoutScope = typeof loginLockoutScopes[number];
+
+// An account or IP that is currently made to wait before its next login
+export interface LoginLockout {
+  scope: LoginLockoutScope;
+  key: string; // Email address (lowercased) or IP address
+  failures: number;
+  lastFailedAt: string; // ISO timestamp
+  retryAt: string; // ISO timestamp; attempts before it are refused
+  locked: boolean; // Locked out, rather than a short delay between attempts
+}
+
+export const unlockLoginSchema = z.object({
+  scope: z.enum(loginLockoutScopes),
+  key: z.string().min(1),
+});
+
+export const storageBackends = ["nedb", "mongodb"] as const;
+export type StorageBackend = typeof storageBackends[number];
+
+// First-run setup: the admin account, site basics and where data is stored
+export const setupSchema = z.object({
+  token: z.string().trim().min(1, "Enter the setup token printed when the server started"),
+  email: z.string().email("Please enter a valid email address"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  artistName: z.string().trim().min(1, "Artist name is required"),
+  tagline: z.string().trim(),
+  location: z.string().trim(),
+  contactEmail: z.string().email("Please enter a valid contact email"),
+  currency: z.enum(currencies),
+  dimensionUnit: z.enum(dimensionUnits),
+  backend: z.enum(storageBackends),
+  mongoUri: z.string().trim().optional(), // Required for MongoDB
+}).refine(
+  (setup) => setup.backend !== "mongodb" || /^mongodb(\+srv)?:\/\//.test(setup.mongoUri ?? ""),
+  { message: "Enter a MongoDB connection string (mongodb://...)", path: ["mongoUri"] },
+);
+export type Setup = z.infer<typeof setupSchema>;
+
+// GET /api/setup
+export interface SetupStatus {
+  required: boolean; // No admin exists and setup has never been completed
+  restartRequired: boolean; // Setup picked a backend the server will switch to when restarted
+  backend?: StorageBackend; // Serving requests now; only reported while setup is required
+  backendLocked?: boolean; // Fixed by USE_NEDB or MONGODB_URI, so setup can't change it
+}
+
+// GET /api/admin/database; dates are ISO timestamps
+export interface CollectionDiff {
+  collection: string;
+  identical: number;
+  changed: { key: string; newer: StorageBackend | null }[]; // newer: the side edited last, when known
+  onlyIn: Record<StorageBackend, string[]>;
+  latest: Record<StorageBackend, string | null>;
+}
+
+export interface DatabaseStatus {
+  configured: StorageBackend;
+  active: StorageBackend | null;
+  fallback: boolean; // MongoDB was unreachable, so NeDB is in use
+  fallbackSince: string | null;
+  strict: boolean;
+  // Once MongoDB is reachable again during a fallback
+  reconciliation: {
+    mongoAvailableAt: string;
+    fallbackSince: string | null;
+    differences: number;
+    collections: CollectionDiff[];
+  } | null;
+}
+
 // Site Settings Schema
 export const siteSettingsSchema = z.object({
   _id: z.string().optional(), // MongoDB ObjectId
-  id: z.number().optional(), // NeDB id field (numeric)
+  id: z.string(), // Stable public identifier, assigned at creation
   accentHue: z.number().min(0).max(360),
   accentSaturation: z.number().min(0).max(100),
   accentLightness: z.number().min(0).max(100),
+  currency: z.enum(currencies).optional(), // USD when unset
+  // Units of each currency per one unit of the site currency, entered by hand
+  exchangeRates: z.array(z.object({
+    currency: z.enum(currencies),
+    rate: z.number().positive("Exchange rates must be greater than 0"),
+  })).refine(uniqueCurrencies, "Each currency can only have one exchange rate").optional(),
+  exchangeRatesUpdatedAt: z.string().optional(), // ISO timestamp, set whenever the rates are saved
+  dimensionUnit: z.enum(dimensionUnits).optional(), // Shown to visitors until they pick one; inches when unset
+  setupCompletedAt: z.string().optional(), // ISO timestamp; first-run setup stays disabled once set
+  requireTwoFactor: z.boolean().optional(), // Staff must enrol in 2FA before using the admin panel
 });
 
 export type SiteSettings = z.infer<typeof siteSettingsSchema>;
+export type ExchangeRate = NonNullable<SiteSettings["exchangeRates"]>[number];
+
+export const updateSiteSettingsSchema = siteSettingsSchema
+  .omit({ _id: true, id: true, exchangeRatesUpdatedAt: true, setupCompletedAt: true })
+  .partial();
+export type UpdateSiteSettings = z.infer<typeof updateSiteSettingsSchema>;